@@ -3,9 +3,12 @@ import {
   FirecrawlScrape,
   exposeApi,
   normalizeUrl,
+  type ExtractionSchema,
   validateUrl,
 } from "./index.js";
 import { components, initConvexTest } from "./setup.test.js";
+import { v } from "convex/values";
+import { z } from "zod";
 
 describe("FirecrawlScrape client class", () => {
   test("should be able to use client class", async () => {
@@ -54,7 +57,7 @@ describe("client rate limiting", () => {
     vi.useRealTimers();
   });
 
-  test("rate limit warning is logged when exceeded", async () => {
+  test("rate limit is enforced by the component, not logged", async () => {
     const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
 
     const client = new FirecrawlScrape(components.firecrawlScrape, {
@@ -62,9 +65,10 @@ describe("client rate limiting", () => {
       maxRequestsPerMinute: 2, // Low limit for testing
     });
 
-    // Access the private method through a workaround
-    // We'll test indirectly by checking if the client initializes correctly
+    // The limit is passed to startScrape and enforced in the component's
+    // database, so constructing the client never logs an advisory warning
     expect(client.ttlMs).toBeDefined();
+    expect(warnSpy).not.toHaveBeenCalled();
 
     warnSpy.mockRestore();
   });
@@ -102,7 +106,25 @@ describe("exposeApi function", () => {
     expect(exposed.getCached).toBeDefined();
     expect(exposed.getStatus).toBeDefined();
     expect(exposed.getContent).toBeDefined();
+    expect(exposed.getChanges).toBeDefined();
     expect(exposed.invalidate).toBeDefined();
+    expect(exposed.revalidate).toBeDefined();
+    expect(exposed.crawl).toBeDefined();
+    expect(exposed.getCrawl).toBeDefined();
+    expect(exposed.listCrawlPages).toBeDefined();
+    expect(exposed.batchScrape).toBeDefined();
+    expect(exposed.getBatch).toBeDefined();
+    expect(exposed.getBatchProgress).toBeDefined();
+    expect(exposed.mapSite).toBeDefined();
+    expect(exposed.getSiteMap).toBeDefined();
+    expect(exposed.getCachedSiteMap).toBeDefined();
+    expect(exposed.scrapeSiteMap).toBeDefined();
+    expect(exposed.createMonitor).toBeDefined();
+    expect(exposed.pauseMonitor).toBeDefined();
+    expect(exposed.resumeMonitor).toBeDefined();
+    expect(exposed.deleteMonitor).toBeDefined();
+    expect(exposed.getMonitor).toBeDefined();
+    expect(exposed.listMonitors).toBeDefined();
   });
 
   test("exposeApi getCached works through convex-test", async () => {
@@ -133,6 +155,213 @@ describe("exposeApi function", () => {
   });
 });
 
+describe("extraction schemas", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Start a scrape with the schema and return the JSON Schema stored with it
+  async function storedSchema(extractionSchema: ExtractionSchema) {
+    const t = initConvexTest();
+    const client = new FirecrawlScrape(components.firecrawlScrape, {
+      FIRECRAWL_API_KEY: "test-key",
+    });
+    return await t.run(async (ctx) => {
+      const { jobId } = await client.scrape(ctx, "https://example.com", {
+        extractionSchema,
+      });
+      const scrape = await ctx.runQuery(components.firecrawlScrape.lib.get, {
+        id: jobId,
+      });
+      return scrape?.extractionSchema;
+    });
+  }
+
+  test("converts a Zod schema without $-prefixed keys", async () => {
+    const product = z.object({ name: z.string() }).meta({ id: "Product" });
+    const schema = z.object({
+      title: z.string(),
+      price: z.number().optional(),
+      featured: product,
+      related: z.array(product),
+    });
+
+    const productSchema = {
+      type: "object",
+      properties: { name: { type: "string" } },
+      required: ["name"],
+      additionalProperties: false,
+      id: "Product",
+    };
+    expect(await storedSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        price: { type: "number" },
+        featured: productSchema,
+        related: { type: "array", items: productSchema },
+      },
+      required: ["title", "featured", "related"],
+      additionalProperties: false,
+    });
+  });
+
+  test("rejects recursive Zod schemas", async () => {
+    const node = z.object({
+      name: z.string(),
+      get children() {
+        return z.array(node);
+      },
+    });
+
+    await expect(storedSchema(node)).rejects.toThrow(
+      "Recursive schemas are not supported",
+    );
+  });
+
+  test("drops only the top-level $schema and $id", async () => {
+    const properties = { price: { type: "number" } };
+    expect(
+      await storedSchema({
+        $schema: "http://json-schema.org/draft-07/schema#",
+        $id: "https://example.com/product.json",
+        type: "object",
+        properties,
+      }),
+    ).toEqual({ type: "object", properties });
+
+    await expect(
+      storedSchema({
+        type: "object",
+        properties: { $price: { type: "number" } },
+      }),
+    ).rejects.toThrow('Unsupported key in extraction schema: "$price"');
+  });
+
+  test("rejects Standard Schemas without JSON Schema support", async () => {
+    const schema = {
+      "~standard": {
+        version: 1,
+        vendor: "valibot",
+        validate: (value: unknown) => ({ value }),
+      },
+    };
+
+    await expect(storedSchema(schema)).rejects.toThrow(
+      'Extraction schema from "valibot" cannot be converted to JSON Schema',
+    );
+  });
+
+  test("converts a Convex validator", async () => {
+    const schema = v.object({
+      title: v.string(),
+      tags: v.optional(v.array(v.string())),
+      status: v.union(v.literal("draft"), v.literal("live")),
+    });
+
+    expect(await storedSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        tags: { type: "array", items: { type: "string" } },
+        status: { anyOf: [{ const: "draft" }, { const: "live" }] },
+      },
+      required: ["title", "status"],
+      additionalProperties: false,
+    });
+  });
+});
+
+describe("stale-while-revalidate", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  test("refreshes a stale entry with its own formats and options", async () => {
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(
+          JSON.stringify({ success: true, data: { markdown: "# Page" } }),
+          { status: 200, headers: { "Content-Type": "application/json" } },
+        ),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const client = new FirecrawlScrape(components.firecrawlScrape, {
+      FIRECRAWL_API_KEY: "test-key",
+    });
+    await t.run(async (ctx) => {
+      await client.scrape(ctx, "https://example.com", {
+        formats: ["markdown", "links"],
+        mobile: true,
+        ttlMs: 1000,
+      });
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+    vi.advanceTimersByTime(5000);
+
+    await t.run(async (ctx) => {
+      const cached = await client.getCached(
+        ctx,
+        "https://example.com",
+        undefined,
+        {
+          staleWhileRevalidateMs: 60_000,
+          ignoreOptions: ["mobile"],
+        },
+      );
+      expect(cached?.stale).toBe(true);
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const init = fetchMock.mock.calls[1] as unknown as [string, RequestInit];
+    expect(JSON.parse(init[1].body as string)).toMatchObject({
+      formats: ["markdown", "links"],
+      mobile: true,
+    });
+  });
+
+  test("serves stale content when the refresh cannot start", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(
+            JSON.stringify({ success: true, data: { markdown: "# Page" } }),
+            { status: 200, headers: { "Content-Type": "application/json" } },
+          ),
+      ),
+    );
+
+    const t = initConvexTest();
+    const client = new FirecrawlScrape(components.firecrawlScrape, {
+      FIRECRAWL_API_KEY: "test-key",
+    });
+    await t.run(async (ctx) => {
+      await client.scrape(ctx, "https://example.com", { ttlMs: 1000 });
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+    vi.advanceTimersByTime(5000);
+
+    const stale = await t.run(async (ctx) => {
+      await client.addPolicyRule(ctx, "deny", "example.com");
+      return await client.getCached(ctx, "https://example.com", undefined, {
+        staleWhileRevalidateMs: 60_000,
+      });
+    });
+    expect(stale).toMatchObject({ stale: true, markdown: "# Page" });
+  });
+});
+
 describe("client type exports", () => {
   test("ScrapeStatus type values are valid", () => {
     const validStatuses: Array<
@@ -150,7 +379,15 @@ describe("client type exports", () => {
       | "images"
       | "summary"
       | "screenshot"
-    > = ["markdown", "html", "rawHtml", "links", "images", "summary", "screenshot"];
+    > = [
+      "markdown",
+      "html",
+      "rawHtml",
+      "links",
+      "images",
+      "summary",
+      "screenshot",
+    ];
     expect(validFormats).toHaveLength(7);
   });
 
@@ -13,6 +13,7 @@ import type {
   FunctionReference,
 } from "convex/server";
 import { v } from "convex/values";
+import type { GenericValidator, Infer } from "convex/values";
 import { normalizeUrl, validateUrl } from "../component/url.js";
 import { CONFIG } from "../component/config.js";
 
@@ -63,6 +64,14 @@ interface MetadataType {
   ogSiteName?: string;
   contentType?: string;
   cacheControl?: string;
+  numPages?: number;
+  canonicalUrl?: string;
+  favicon?: string;
+  keywords?: string[];
+  publishedTime?: string;
+  modifiedTime?: string;
+  finalUrl?: string;
+  originalUrl?: string;
 }
 
 /**
@@ -74,6 +83,12 @@ interface ScrapeRecord {
   url: string;
   normalizedUrl: string;
   urlHash: string;
+  finalUrl?: string;
+  finalUrlHash?: string;
+  canonicalUrl?: string;
+  canonicalUrlHash?: string;
+  namespace?: string;
+  optionsFingerprint?: Record<string, string>;
   status: StatusType;
   formats: string[];
   markdown?: string;
@@ -87,15 +102,42 @@ interface ScrapeRecord {
   images?: string[];
   screenshotUrl?: string;
   screenshotFileId?: string;
+  actions?: ScrapeAction[];
+  actionScreenshots?: string[];
+  sourceDocumentFileId?: string;
+  headers?: Record<string, string>;
+  location?: ScrapeLocation;
   extractedJson?: unknown;
   extractionSchema?: unknown;
+  extractionPrompt?: string;
+  contentHash?: string;
   metadata?: MetadataType;
+  rawMetadata?: Record<string, unknown>;
   error?: string;
   errorCode?: number | string;
+  creditsUsed?: number;
+  creditsEstimated?: boolean;
+  attempts?: number;
+  nextRetryAt?: number;
+  onComplete?: string;
+  keepVersions?: number;
+  aliasCanonical?: boolean;
+  rateLimitKey?: string;
+  queuedUntil?: number;
+  crawlId?: string;
+  monitorId?: string;
   startedAt: number;
   scrapingAt?: number;
   scrapedAt?: number;
   expiresAt: number;
+  invalidatedAt?: number;
+}
+
+/**
+ * Scrape record returned from getCached query.
+ */
+interface CachedScrapeRecord extends ScrapeRecord {
+  stale?: boolean;
 }
 
 /**
@@ -104,6 +146,7 @@ interface ScrapeRecord {
 interface ContentResult {
   url: string;
   normalizedUrl: string;
+  finalUrl?: string;
   status: StatusType;
   formats: string[];
   markdown?: string;
@@ -113,12 +156,15 @@ interface ContentResult {
   links?: string[];
   images?: string[];
   screenshotUrl?: string;
+  actionScreenshots?: string[];
   extractedJson?: unknown;
   markdownFileUrl?: string | null;
   htmlFileUrl?: string | null;
   rawHtmlFileUrl?: string | null;
   screenshotFileUrl?: string | null;
+  sourceDocumentFileUrl?: string | null;
   metadata?: MetadataType;
+  rawMetadata?: Record<string, unknown>;
   error?: string;
   errorCode?: number | string;
   startedAt: number;
@@ -134,29 +180,284 @@ interface StatusResult {
   status: StatusType;
   error?: string;
   errorCode?: number | string;
+  attempts?: number;
+  nextRetryAt?: number;
+  queuedUntil?: number;
+  queueDepth?: number;
   startedAt: number;
   scrapingAt?: number;
   scrapedAt?: number;
   expiresAt: number;
 }
 
+/**
+ * A completed version of a URL's content.
+ */
+export interface ContentVersion {
+  jobId: string;
+  scrapedAt: number;
+  /** SHA-256 of the markdown and HTML */
+  contentHash?: string;
+}
+
+/**
+ * Comparison of the two latest completed versions of a URL.
+ */
+export interface ContentChanges {
+  latest: ContentVersion;
+  /** Null when the URL has only been scraped once */
+  previous: ContentVersion | null;
+  changed: boolean;
+  /**
+   * Unified line diff of the markdown (empty when unchanged). Null when
+   * either version's markdown is in file storage or the change is too large.
+   */
+  diff: string | null;
+  linesAdded?: number;
+  linesRemoved?: number;
+}
+
+/**
+ * URLs known to serve the same page, from scrapes aliased under their
+ * rel=canonical URL.
+ */
+export interface UrlAliases {
+  /** Null when no scrape has been aliased under or from the URL */
+  canonicalUrl: string | null;
+  /** Other URLs aliased under the canonical URL, sorted */
+  aliases: string[];
+}
+
+/**
+ * Usage and health of an API key, from getKeyHealth().
+ */
+export interface KeyHealth {
+  /** SHA-256 of the API key */
+  keyHash: string;
+  /** Label of the stored credential with this key, if any */
+  label?: string;
+  /** Firecrawl requests started with the key */
+  requests: number;
+  /** Error responses from Firecrawl */
+  failures: number;
+  lastUsedAt: number;
+  lastFailureAt?: number;
+  /** HTTP status of the last error response */
+  lastErrorStatus?: number;
+  /** Set after a 402 or 429; pools skip the key until then */
+  cooldownUntil?: number;
+  coolingDown: boolean;
+}
+
+/**
+ * Firecrawl credits used, and the scrapes that used them.
+ */
+export interface UsageTotals {
+  credits: number;
+  /** Part of `credits` estimated because Firecrawl did not report it */
+  estimatedCredits: number;
+  scrapes: number;
+}
+
+/**
+ * Credits used over a date range, from getUsage().
+ */
+export interface CreditUsage extends UsageTotals {
+  /** One entry per UTC day with usage, oldest first */
+  byDay: Array<UsageTotals & { day: string }>;
+  /** One entry per API key, most credits first */
+  byKey: Array<UsageTotals & { keyHash: string; label?: string }>;
+  /** One entry per namespace (unset for the shared one), most credits first */
+  byNamespace: Array<UsageTotals & { namespace?: string }>;
+}
+
+/**
+ * Credit caps for setBudget(). Omit both to remove a budget.
+ */
+export interface CreditBudget {
+  /** Credits allowed per UTC day */
+  dailyCredits?: number;
+  /** Credits allowed per UTC calendar month */
+  monthlyCredits?: number;
+}
+
+/**
+ * Domain policy rule, from listPolicyRules().
+ */
+export interface PolicyRule {
+  _id: string;
+  _creationTime: number;
+  /** Hostname with * wildcards and optional path prefix */
+  pattern: string;
+  /** Deny rules always win; any allow rule turns the policy into an allowlist */
+  action: "allow" | "deny";
+  createdAt: number;
+}
+
+/**
+ * Crawl status values as used in the schema.
+ */
+type CrawlStatusType = "pending" | "crawling" | "completed" | "failed";
+
+/**
+ * Crawl record as stored in the database.
+ */
+interface CrawlRecord {
+  _creationTime: number;
+  _id: string;
+  url: string;
+  normalizedUrl: string;
+  urlHash: string;
+  namespace?: string;
+  status: CrawlStatusType;
+  formats: string[];
+  limit: number;
+  maxDepth?: number;
+  includePaths?: string[];
+  excludePaths?: string[];
+  optionsFingerprint?: Record<string, string>;
+  firecrawlId?: string;
+  pagesTotal?: number;
+  pagesCompleted?: number;
+  pagesStored: number;
+  pagesFetched: number;
+  error?: string;
+  errorCode?: number | string;
+  rateLimitKey?: string;
+  startedAt: number;
+  crawlingAt?: number;
+  completedAt?: number;
+  expiresAt: number;
+}
+
+/**
+ * Crawl options for startCrawl mutation.
+ */
+interface CrawlOptionsInput {
+  limit?: number;
+  maxDepth?: number;
+  includePaths?: string[];
+  excludePaths?: string[];
+  formats?: FormatType[];
+  ttlMs?: number;
+  onlyMainContent?: boolean;
+  includeTags?: string[];
+  excludeTags?: string[];
+  waitFor?: number;
+  mobile?: boolean;
+  proxy?: ProxyType;
+  storeScreenshot?: boolean;
+}
+
+/**
+ * Site map record as stored in the database.
+ */
+interface SiteMapRecord {
+  _creationTime: number;
+  _id: string;
+  origin: string;
+  originHash: string;
+  namespace?: string;
+  status: "pending" | "mapping" | "completed" | "failed";
+  limit: number;
+  includeSubdomains: boolean;
+  urls?: string[];
+  urlCount?: number;
+  truncated?: boolean;
+  error?: string;
+  errorCode?: number | string;
+  rateLimitKey?: string;
+  startedAt: number;
+  mappedAt?: number;
+  expiresAt: number;
+}
+
+/**
+ * Batch record as stored in the database.
+ */
+interface BatchRecord {
+  _creationTime: number;
+  _id: string;
+  items: BatchItem[];
+  jobIds: string[];
+  namespace?: string;
+  startedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Monitor record as returned by monitor queries (without the API key).
+ */
+interface MonitorRecord {
+  _creationTime: number;
+  _id: string;
+  url: string;
+  normalizedUrl: string;
+  urlHash: string;
+  namespace?: string;
+  intervalMs: number;
+  options?: ScrapeOptionsInput;
+  apiBaseUrl?: string;
+  apiKeyHeader?: string;
+  credentialId?: string | string[];
+  maxRequestsPerMinute?: number;
+  onChange?: string;
+  status: MonitorStatus;
+  nextRunAt: number;
+  lastRunAt?: number;
+  lastJobId?: string;
+  lastContentHash?: string;
+  lastChangedAt?: number;
+  lastError?: string;
+}
+
 /**
  * Scrape options for startScrape mutation.
  */
 interface ScrapeOptionsInput {
   formats?: FormatType[];
   extractionSchema?: unknown;
+  extractionPrompt?: string;
   ttlMs?: number;
   force?: boolean;
   onlyMainContent?: boolean;
   includeTags?: string[];
   excludeTags?: string[];
   waitFor?: number;
+  actions?: ScrapeAction[];
+  headers?: Record<string, string>;
+  location?: ScrapeLocation;
+  timeout?: number;
+  parsePDF?: boolean;
+  storeSourceDocument?: boolean;
   mobile?: boolean;
   proxy?: ProxyType;
   storeScreenshot?: boolean;
+  resolveDns?: boolean;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  onComplete?: string;
+  keepVersions?: number;
+  aliasCanonical?: boolean;
+  ignoreOptions?: CacheKeyOption[];
 }
 
+/**
+ * The Firecrawl API key for a component call: a raw key, or a credential
+ * stored with setCredential (by ID or label). Either may be a key pool.
+ */
+type FirecrawlKeyInput =
+  | { apiKey: string | string[] }
+  | { credential: string | string[] };
+
+/**
+ * Scrape options a cache entry is matched on, for getCached.
+ */
+type CacheMatchOptionsInput = Pick<
+  ScrapeOptionsInput,
+  CacheKeyOption | "ignoreOptions"
+>;
+
 /**
  * A utility for referencing a Convex component's exposed API.
  *
@@ -171,23 +472,24 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
   {
     lib: {
       /**
-       * Get a scrape by its ID.
+       * Get a scrape by its ID. A scrape in another namespace is treated as
+       * not found.
        */
       get: FunctionReference<
         "query",
         "internal",
-        { id: string },
+        { id: string; namespace?: string },
         ScrapeRecord | null,
         Name
       >;
 
       /**
-       * List scrapes by status.
+       * List the scrapes in a namespace with a given status.
        */
       listByStatus: FunctionReference<
         "query",
         "internal",
-        { limit?: number; status: StatusType },
+        { limit?: number; namespace?: string; status: StatusType },
         ScrapeRecord[],
         Name
       >;
@@ -195,12 +497,19 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       /**
        * Get cached scrape for a URL (if valid cache exists).
        * Only returns cache if it contains all requested formats (superset check).
+       * Expired entries within the stale window are returned with `stale: true`.
        */
       getCached: FunctionReference<
         "query",
         "internal",
-        { url: string; formats?: FormatType[] },
-        ScrapeRecord | null,
+        {
+          url: string;
+          formats?: FormatType[];
+          staleWhileRevalidateMs?: number;
+          namespace?: string;
+          options?: CacheMatchOptionsInput;
+        },
+        CachedScrapeRecord | null,
         Name
       >;
 
@@ -210,7 +519,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       getStatus: FunctionReference<
         "query",
         "internal",
-        { id: string },
+        { id: string; namespace?: string },
         StatusResult | null,
         Name
       >;
@@ -221,7 +530,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       getContent: FunctionReference<
         "query",
         "internal",
-        { id: string },
+        { id: string; namespace?: string },
         ContentResult | null,
         Name
       >;
@@ -232,18 +541,45 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       getByUrl: FunctionReference<
         "query",
         "internal",
-        { url: string },
+        { url: string; namespace?: string },
         ScrapeRecord | null,
         Name
       >;
 
+      /**
+       * Compare the two latest completed versions of a URL.
+       */
+      getChanges: FunctionReference<
+        "query",
+        "internal",
+        { url: string; namespace?: string; options?: CacheMatchOptionsInput },
+        ContentChanges | null,
+        Name
+      >;
+
+      /**
+       * List the URLs known to serve the same page as a URL.
+       */
+      getAliases: FunctionReference<
+        "query",
+        "internal",
+        { url: string; namespace?: string },
+        UrlAliases,
+        Name
+      >;
+
       /**
        * List scrapes with optional status filter and pagination.
        */
       list: FunctionReference<
         "query",
         "internal",
-        { status?: StatusType; limit?: number; cursor?: string },
+        {
+          status?: StatusType;
+          limit?: number;
+          cursor?: string;
+          namespace?: string;
+        },
         {
           scrapes: ScrapeRecord[];
           nextCursor: string | null;
@@ -258,18 +594,47 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       startScrape: FunctionReference<
         "mutation",
         "internal",
-        { url: string; apiKey: string; options?: ScrapeOptionsInput },
+        {
+          url: string;
+          apiKey?: string | string[];
+          credential?: string | string[];
+          namespace?: string;
+          apiBaseUrl?: string;
+          apiKeyHeader?: string;
+          options?: ScrapeOptionsInput;
+          maxRequestsPerMinute?: number;
+        },
         { jobId: string },
         Name
       >;
 
+      /**
+       * Start a refresh scrape for a URL, reusing any in-progress job.
+       */
+      revalidate: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          url: string;
+          apiKey?: string | string[];
+          credential?: string | string[];
+          namespace?: string;
+          apiBaseUrl?: string;
+          apiKeyHeader?: string;
+          options?: ScrapeOptionsInput;
+          maxRequestsPerMinute?: number;
+        },
+        { jobId: string; started: boolean },
+        Name
+      >;
+
       /**
        * Invalidate a cache entry by marking it as expired.
        */
       invalidate: FunctionReference<
         "mutation",
         "internal",
-        { url: string },
+        { url: string; namespace?: string },
         { success: boolean; invalidatedCount: number },
         Name
       >;
@@ -280,79 +645,543 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       deleteScrape: FunctionReference<
         "mutation",
         "internal",
-        { id: string },
+        { id: string; namespace?: string },
         { success: boolean; deletedFileCount: number },
         Name
       >;
     };
-  };
-
-// ============================================================================
-// Public Types
-// ============================================================================
-
-/**
- * Scrape status values.
- */
-export type ScrapeStatus = "pending" | "scraping" | "completed" | "failed";
-
-/**
- * Output formats supported by Firecrawl.
- */
-export type ScrapeFormat =
-  | "markdown"
-  | "html"
-  | "rawHtml"
-  | "links"
-  | "images"
-  | "summary"
-  | "screenshot";
+    batch: {
+      /**
+       * Start scrape jobs for a list of URLs as one batch.
+       */
+      startBatchScrape: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          urls: string[];
+          apiKey?: string | string[];
+          credential?: string | string[];
+          namespace?: string;
+          apiBaseUrl?: string;
+          apiKeyHeader?: string;
+          options?: ScrapeOptionsInput;
+          maxRequestsPerMinute?: number;
+        },
+        BatchResult,
+        Name
+      >;
 
-/**
- * Proxy options for scraping.
- */
-export type ProxyOption = "basic" | "stealth" | "auto";
+      /**
+       * Get a batch by ID.
+       */
+      getBatch: FunctionReference<
+        "query",
+        "internal",
+        { id: string; namespace?: string },
+        BatchRecord | null,
+        Name
+      >;
 
-/**
- * Options for scraping a URL.
- */
-export interface ScrapeOptions {
-  /**
-   * Output formats to include in the result.
-   * Defaults to ["markdown"].
-   */
-  formats?: ScrapeFormat[];
+      /**
+       * Get job counts per status for a batch.
+       */
+      getBatchProgress: FunctionReference<
+        "query",
+        "internal",
+        { id: string; namespace?: string },
+        BatchProgress | null,
+        Name
+      >;
+    };
+    map: {
+      /**
+       * Discover the URLs on a site, cached per origin.
+       */
+      mapSite: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          url: string;
+          apiKey?: string | string[];
+          credential?: string | string[];
+          namespace?: string;
+          apiBaseUrl?: string;
+          apiKeyHeader?: string;
+          options?: MapOptions;
+          maxRequestsPerMinute?: number;
+        },
+        { mapId: string; started: boolean },
+        Name
+      >;
 
-  /**
-   * JSON schema for LLM-powered extraction.
-   * The schema defines the structure of the extracted data.
-   */
-  extractionSchema?: object;
+      /**
+       * Get a site map by ID.
+       */
+      getSiteMap: FunctionReference<
+        "query",
+        "internal",
+        { id: string; namespace?: string },
+        SiteMapRecord | null,
+        Name
+      >;
 
-  /**
-   * TTL for the cached result in milliseconds.
-   * Defaults to 30 days.
-   */
-  ttlMs?: number;
+      /**
+       * Get the valid cached site map for a URL's origin.
+       */
+      getCachedSiteMap: FunctionReference<
+        "query",
+        "internal",
+        { url: string; namespace?: string; includeSubdomains?: boolean },
+        SiteMapRecord | null,
+        Name
+      >;
 
-  /**
-   * Whether to extract only the main content of the page.
-   * Defaults to true.
-   */
-  onlyMainContent?: boolean;
+      /**
+       * Start scrape jobs for a batch of site map URLs.
+       */
+      scrapeSiteMap: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          mapId: string;
+          apiKey?: string | string[];
+          credential?: string | string[];
+          namespace?: string;
+          apiBaseUrl?: string;
+          apiKeyHeader?: string;
+          options?: ScrapeOptionsInput;
+          maxRequestsPerMinute?: number;
+          offset?: number;
+          limit?: number;
+        },
+        ScrapeSiteMapResult,
+        Name
+      >;
+    };
+    crawl: {
+      /**
+       * Start a multi-page crawl from a URL.
+       */
+      startCrawl: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          url: string;
+          apiKey?: string | string[];
+          credential?: string | string[];
+          namespace?: string;
+          apiBaseUrl?: string;
+          apiKeyHeader?: string;
+          options?: CrawlOptionsInput;
+          maxRequestsPerMinute?: number;
+        },
+        { crawlId: string },
+        Name
+      >;
 
-  /**
-   * Whether to use mobile viewport.
-   * Defaults to false.
-   */
-  mobile?: boolean;
+      /**
+       * Get a crawl job with its progress counters.
+       */
+      getCrawl: FunctionReference<
+        "query",
+        "internal",
+        { id: string; namespace?: string },
+        CrawlRecord | null,
+        Name
+      >;
 
-  /**
-   * Time in milliseconds to wait before scraping.
+      /**
+       * List the scrape records stored for a crawl, with pagination.
+       */
+      listCrawlPages: FunctionReference<
+        "query",
+        "internal",
+        {
+          crawlId: string;
+          namespace?: string;
+          limit?: number;
+          cursor?: string;
+        },
+        {
+          pages: ScrapeRecord[];
+          nextCursor: string | null;
+          hasMore: boolean;
+        },
+        Name
+      >;
+    };
+    monitor: {
+      /**
+       * Create a monitor that re-scrapes a URL on an interval.
+       */
+      createMonitor: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          url: string;
+          intervalMs: number;
+          apiKey?: string | string[];
+          credential?: string | string[];
+          namespace?: string;
+          apiBaseUrl?: string;
+          apiKeyHeader?: string;
+          options?: ScrapeOptionsInput;
+          onChange?: string;
+          maxRequestsPerMinute?: number;
+        },
+        { monitorId: string },
+        Name
+      >;
+
+      /**
+       * Get a monitor by ID.
+       */
+      getMonitor: FunctionReference<
+        "query",
+        "internal",
+        { id: string; namespace?: string },
+        MonitorRecord | null,
+        Name
+      >;
+
+      /**
+       * List monitors with pagination.
+       */
+      listMonitors: FunctionReference<
+        "query",
+        "internal",
+        { namespace?: string; limit?: number; cursor?: string },
+        {
+          monitors: MonitorRecord[];
+          nextCursor: string | null;
+          hasMore: boolean;
+        },
+        Name
+      >;
+
+      /**
+       * Pause a monitor.
+       */
+      pauseMonitor: FunctionReference<
+        "mutation",
+        "internal",
+        { id: string; namespace?: string },
+        { success: boolean },
+        Name
+      >;
+
+      /**
+       * Resume a paused monitor.
+       */
+      resumeMonitor: FunctionReference<
+        "mutation",
+        "internal",
+        { id: string; namespace?: string },
+        { success: boolean },
+        Name
+      >;
+
+      /**
+       * Delete a monitor.
+       */
+      deleteMonitor: FunctionReference<
+        "mutation",
+        "internal",
+        { id: string; namespace?: string },
+        { success: boolean },
+        Name
+      >;
+    };
+    credentials: {
+      /**
+       * Usage and health of every API key the component has used.
+       */
+      getKeyHealth: FunctionReference<
+        "query",
+        "internal",
+        Record<string, never>,
+        KeyHealth[],
+        Name
+      >;
+
+      /**
+       * Store a Firecrawl API key under a unique label.
+       */
+      setCredential: FunctionReference<
+        "mutation",
+        "internal",
+        { label: string; apiKey: string },
+        { credentialId: string },
+        Name
+      >;
+
+      /**
+       * Replace the API key of a stored credential (by ID or label).
+       */
+      rotateCredential: FunctionReference<
+        "mutation",
+        "internal",
+        { credential: string; apiKey: string },
+        { credentialId: string },
+        Name
+      >;
+    };
+    usage: {
+      /**
+       * Credits used between two UTC days, by day, key and namespace.
+       */
+      getUsage: FunctionReference<
+        "query",
+        "internal",
+        { from: string; to: string; namespace?: string },
+        CreditUsage,
+        Name
+      >;
+
+      /**
+       * Set or clear the credit budget of a namespace or an API key.
+       */
+      setBudget: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          namespace?: string;
+          apiKey?: string | string[];
+          credential?: string | string[];
+          dailyCredits?: number;
+          monthlyCredits?: number;
+        },
+        null,
+        Name
+      >;
+    };
+    policy: {
+      /**
+       * List the domain policy rules.
+       */
+      listPolicyRules: FunctionReference<
+        "query",
+        "internal",
+        Record<string, never>,
+        PolicyRule[],
+        Name
+      >;
+
+      /**
+       * Add an allow or deny rule to the domain policy.
+       */
+      addPolicyRule: FunctionReference<
+        "mutation",
+        "internal",
+        { action: "allow" | "deny"; pattern: string },
+        { ruleId: string },
+        Name
+      >;
+
+      /**
+       * Remove a domain policy rule.
+       */
+      removePolicyRule: FunctionReference<
+        "mutation",
+        "internal",
+        { id: string },
+        { success: boolean },
+        Name
+      >;
+    };
+  };
+
+// ============================================================================
+// Public Types
+// ============================================================================
+
+/**
+ * Scrape status values.
+ */
+export type ScrapeStatus = "pending" | "scraping" | "completed" | "failed";
+
+/**
+ * Output formats supported by Firecrawl.
+ */
+export type ScrapeFormat =
+  | "markdown"
+  | "html"
+  | "rawHtml"
+  | "links"
+  | "images"
+  | "summary"
+  | "screenshot";
+
+/**
+ * Proxy options for scraping.
+ */
+export type ProxyOption = "basic" | "stealth" | "auto";
+
+/**
+ * Browser action run on the page before it is captured, e.g. to dismiss a
+ * cookie banner or click "load more". Actions run in order.
+ * - "wait": Wait `milliseconds`, or until `selector` appears
+ * - "click": Click the element matching `selector` (every match with `all`)
+ * - "write": Type `text` into the focused element
+ * - "press": Press a keyboard key, e.g. "Enter"
+ * - "scroll": Scroll the page, or the element matching `selector`
+ * - "screenshot": Take a screenshot, returned in `actionScreenshots`
+ */
+export type ScrapeAction =
+  | { type: "wait"; milliseconds?: number; selector?: string }
+  | { type: "click"; selector: string; all?: boolean }
+  | { type: "write"; text: string }
+  | { type: "press"; key: string }
+  | { type: "scroll"; direction?: "up" | "down"; selector?: string }
+  | { type: "screenshot"; fullPage?: boolean };
+
+/**
+ * Where to scrape a page from, for geo-specific content.
+ */
+export interface ScrapeLocation {
+  /** ISO 3166-1 alpha-2 country code, e.g. "DE" */
+  country?: string;
+  /** Preferred languages in priority order, e.g. ["de-DE", "en"] */
+  languages?: string[];
+}
+
+/**
+ * A schema that can describe itself as JSON Schema through the Standard JSON
+ * Schema interface, such as a Zod 4 schema.
+ */
+export interface StandardJSONSchema<T = unknown> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly types?: { readonly input: unknown; readonly output: T };
+    readonly jsonSchema: {
+      readonly output: (options: {
+        readonly target: string;
+      }) => Record<string, unknown>;
+    };
+  };
+}
+
+/**
+ * Schema for LLM-powered extraction: a Zod (or other Standard JSON Schema)
+ * schema, a Convex validator, or a plain JSON Schema object. Schemas and
+ * validators are converted to JSON Schema before they are sent to Firecrawl.
+ */
+export type ExtractionSchema =
+  | StandardJSONSchema
+  | GenericValidator
+  | Record<string, unknown>;
+
+/**
+ * The type of the data an extraction schema describes: the output type of a
+ * Zod schema or a Convex validator, `unknown` for plain JSON Schema.
+ *
+ * @example
+ * ```ts
+ * const Product = z.object({ name: z.string(), price: z.number() });
+ * const content = await firecrawl.getContent<InferExtraction<typeof Product>>(
+ *   ctx,
+ *   jobId,
+ * );
+ * ```
+ */
+export type InferExtraction<S> =
+  S extends StandardJSONSchema<infer T>
+    ? T
+    : S extends GenericValidator
+      ? Infer<S>
+      : unknown;
+
+/**
+ * Scrape options that change the scraped content. A cached scrape is only
+ * returned to callers whose values for these options match.
+ */
+export type CacheKeyOption =
+  | "onlyMainContent"
+  | "includeTags"
+  | "excludeTags"
+  | "waitFor"
+  | "mobile"
+  | "proxy"
+  | "extractionSchema"
+  | "extractionPrompt"
+  | "actions"
+  | "headers"
+  | "location"
+  | "parsePDF";
+
+/**
+ * Options for scraping a URL.
+ */
+export interface ScrapeOptions {
+  /**
+   * Output formats to include in the result.
+   * Defaults to ["markdown"].
+   */
+  formats?: ScrapeFormat[];
+
+  /**
+   * Schema for LLM-powered extraction: a Zod schema, a Convex validator or a
+   * JSON Schema object. The component checks the extracted JSON against it
+   * and fails the job with errorCode "extraction_invalid" on a mismatch.
+   */
+  extractionSchema?: ExtractionSchema;
+
+  /**
+   * Natural-language instructions for LLM-powered extraction, e.g. "Extract
+   * the pricing tiers". Can be used alone or to guide `extractionSchema`.
+   */
+  extractionPrompt?: string;
+
+  /**
+   * TTL for the cached result in milliseconds.
+   * Defaults to 30 days.
+   */
+  ttlMs?: number;
+
+  /**
+   * Whether to extract only the main content of the page.
+   * Defaults to true.
+   */
+  onlyMainContent?: boolean;
+
+  /**
+   * Whether to use mobile viewport.
+   * Defaults to false.
+   */
+  mobile?: boolean;
+
+  /**
+   * Time in milliseconds to wait before scraping.
    * Useful for pages that load content dynamically.
    */
   waitFor?: number;
 
+  /**
+   * Browser actions to run, in order, before the page is captured. Stored on
+   * the scrape record for debugging.
+   */
+  actions?: ScrapeAction[];
+
+  /**
+   * Request headers sent to the page, e.g. a `Cookie` header for logged-in
+   * content. Sensitive values (cookies, authorization, tokens, keys) are not
+   * stored; scrapes sent with them are only served from the cache to requests
+   * that send the same sensitive header names.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Country and preferred languages to scrape the page from.
+   */
+  location?: ScrapeLocation;
+
+  /**
+   * Firecrawl scrape timeout in milliseconds, at most
+   * CONFIG.MAX_SCRAPE_TIMEOUT_MS.
+   */
+  timeout?: number;
+
   /**
    * Proxy configuration.
    * - "basic": Standard proxy (default)
@@ -363,7 +1192,8 @@ export interface ScrapeOptions {
 
   /**
    * Whether to bypass cache and force a fresh scrape.
-   * When true, invalidates existing cache and triggers a new scrape.
+   * When true, triggers a new scrape even if a valid cache entry exists. The
+   * cached entry is kept as the previous version.
    * Defaults to false.
    */
   force?: boolean;
@@ -375,6 +1205,28 @@ export interface ScrapeOptions {
    */
   storeScreenshot?: boolean;
 
+  /**
+   * Whether to resolve the URL's hostname over DNS before scraping, and fail
+   * the scrape if it resolves to a private IP address. Also applies to the
+   * screenshot and source document downloads. Adds a DNS-over-HTTPS lookup
+   * (CONFIG.DNS_RESOLVER_URL) to every scrape. Defaults to false.
+   */
+  resolveDns?: boolean;
+
+  /**
+   * Whether to parse PDFs into markdown. When false, PDFs are returned
+   * unparsed. Defaults to true.
+   */
+  parsePDF?: boolean;
+
+  /**
+   * Whether to persist the original document (e.g. a PDF or Office file) to
+   * Convex file storage. `getContent` returns its URL as
+   * `sourceDocumentFileUrl`. Documents over CONFIG.MAX_SOURCE_DOCUMENT_BYTES
+   * are not stored. Defaults to false.
+   */
+  storeSourceDocument?: boolean;
+
   /**
    * HTML tags to include in the scrape.
    */
@@ -384,6 +1236,59 @@ export interface ScrapeOptions {
    * HTML tags to exclude from the scrape.
    */
   excludeTags?: string[];
+
+  /**
+   * Maximum number of retries for transient Firecrawl failures
+   * (429, 408, 5xx and network errors). Set to 0 to disable retries.
+   * Defaults to 3.
+   */
+  maxRetries?: number;
+
+  /**
+   * Base delay in milliseconds for exponential backoff between retries.
+   * Each retry doubles the delay (with jitter), capped at 60 seconds.
+   * Defaults to 1000.
+   */
+  retryBaseDelayMs?: number;
+
+  /**
+   * Function handle scheduled when the job reaches a terminal state, created
+   * with `createFunctionHandle()` from a mutation or action that accepts
+   * `ScrapeCompleteArgs`. It runs for completed scrapes, failures and stuck
+   * job timeouts, and right away when the scrape is served from cache.
+   *
+   * Not accepted by the `exposeApi()` functions: set it from server code.
+   */
+  onComplete?: string;
+
+  /**
+   * Completed versions of the URL to keep, including this scrape. Older
+   * versions are deleted when the scrape completes. Capped at
+   * CONFIG.MAX_KEEP_VERSIONS. Defaults to 2, enough for `getChanges()`.
+   */
+  keepVersions?: number;
+
+  /**
+   * Alias the scrape under the page's rel=canonical URL once it completes, so
+   * cache lookups for the canonical URL return it. Only same-site canonical
+   * URLs are used. Defaults to false.
+   */
+  aliasCanonical?: boolean;
+
+  /**
+   * Cache key options to leave out when looking for a cached or in-progress
+   * scrape, e.g. `["proxy"]` to accept content scraped through any proxy.
+   * Options not listed must match the ones the cached scrape was made with.
+   */
+  ignoreOptions?: CacheKeyOption[];
+}
+
+/**
+ * Arguments the `onComplete` callback is called with.
+ */
+export interface ScrapeCompleteArgs {
+  jobId: string;
+  status: "completed" | "failed";
 }
 
 /**
@@ -403,6 +1308,25 @@ export interface ScrapeMetadata {
   // Response headers
   contentType?: string;
   cacheControl?: string;
+  // Documents (PDF, Office)
+  numPages?: number;
+  // Page identity and dates
+  /** URL from the page's canonical link */
+  canonicalUrl?: string;
+  favicon?: string;
+  keywords?: string[];
+  /** Publish time from the page's meta tags, as given (usually ISO 8601) */
+  publishedTime?: string;
+  /** Last modified time from the page's meta tags, as given */
+  modifiedTime?: string;
+  // Redirects
+  /** URL the page was served from, after redirects */
+  finalUrl?: string;
+  /**
+   * URL Firecrawl was asked to scrape, when the page redirected away from it.
+   * Only the requested and final URLs are known, not the hops in between.
+   */
+  originalUrl?: string;
 }
 
 /**
@@ -413,6 +1337,8 @@ export interface ScrapeMetadata {
 export interface ScrapeResult<T = unknown> {
   url: string;
   normalizedUrl: string;
+  /** Normalized URL the page was served from, when the requested URL redirected */
+  finalUrl?: string;
   status: ScrapeStatus;
   formats: string[];
   // Content fields
@@ -423,14 +1349,19 @@ export interface ScrapeResult<T = unknown> {
   links?: string[];
   images?: string[];
   screenshotUrl?: string;
+  /** Screenshots taken by screenshot actions, in action order */
+  actionScreenshots?: string[];
   extractedJson?: T;
   // File URLs for large content
   markdownFileUrl?: string | null;
   htmlFileUrl?: string | null;
   rawHtmlFileUrl?: string | null;
   screenshotFileUrl?: string | null;
+  sourceDocumentFileUrl?: string | null;
   // Metadata
   metadata?: ScrapeMetadata;
+  /** Complete metadata object from Firecrawl, including every meta tag */
+  rawMetadata?: Record<string, unknown>;
   // Error info
   error?: string;
   errorCode?: number | string;
@@ -447,6 +1378,8 @@ export interface ScrapeResult<T = unknown> {
 export interface CachedContent {
   url: string;
   normalizedUrl: string;
+  /** Normalized URL the page was served from, when the requested URL redirected */
+  finalUrl?: string;
   status: ScrapeStatus;
   formats: string[];
   markdown?: string;
@@ -462,6 +1395,8 @@ export interface CachedContent {
   scrapingAt?: number;
   scrapedAt?: number;
   expiresAt: number;
+  /** True when the entry has expired and is served from the stale window */
+  stale?: boolean;
 }
 
 /**
@@ -471,20 +1406,312 @@ export interface ScrapeStatusInfo {
   status: ScrapeStatus;
   error?: string;
   errorCode?: number | string;
+  /** Number of Firecrawl calls made so far (including retries) */
+  attempts?: number;
+  /** When the next retry runs, if the job is waiting after a transient failure */
+  nextRetryAt?: number;
+  /** When the job is released to Firecrawl by the rate limiter */
+  queuedUntil?: number;
+  /** Jobs for the same API key still waiting for a rate limit slot (pending only) */
+  queueDepth?: number;
   startedAt: number;
   scrapingAt?: number;
   scrapedAt?: number;
   expiresAt: number;
 }
 
+/**
+ * Crawl status values.
+ */
+export type CrawlStatus = "pending" | "crawling" | "completed" | "failed";
+
+/**
+ * Options for a multi-page crawl.
+ */
+export interface CrawlOptions {
+  /**
+   * Maximum number of pages to crawl.
+   * Defaults to CONFIG.DEFAULT_CRAWL_LIMIT, capped at CONFIG.MAX_CRAWL_LIMIT.
+   */
+  limit?: number;
+
+  /**
+   * Maximum link depth from the start URL.
+   */
+  maxDepth?: number;
+
+  /**
+   * Regex patterns for URL paths to crawl (e.g. `"^/blog/.*"`).
+   */
+  includePaths?: string[];
+
+  /**
+   * Regex patterns for URL paths to skip.
+   */
+  excludePaths?: string[];
+
+  /**
+   * Output formats to request for every page. Defaults to ["markdown"].
+   */
+  formats?: ScrapeFormat[];
+
+  /**
+   * Cache TTL in milliseconds for the crawled pages and the crawl record.
+   */
+  ttlMs?: number;
+
+  /**
+   * Extract only main content, excluding headers/footers/nav.
+   * Defaults to true.
+   */
+  onlyMainContent?: boolean;
+
+  /**
+   * HTML tags to include in the output.
+   */
+  includeTags?: string[];
+
+  /**
+   * HTML tags to exclude from the output.
+   */
+  excludeTags?: string[];
+
+  /**
+   * Milliseconds to wait on each page for dynamic content.
+   */
+  waitFor?: number;
+
+  /**
+   * Emulate a mobile device.
+   */
+  mobile?: boolean;
+
+  /**
+   * Proxy type for anti-bot bypass.
+   */
+  proxy?: ProxyOption;
+
+  /**
+   * Persist page screenshots to Convex file storage.
+   */
+  storeScreenshot?: boolean;
+}
+
+/**
+ * Status and progress of a crawl job.
+ */
+export interface CrawlInfo {
+  crawlId: string;
+  url: string;
+  status: CrawlStatus;
+  formats: string[];
+  limit: number;
+  maxDepth?: number;
+  includePaths?: string[];
+  excludePaths?: string[];
+  /** Pages discovered by Firecrawl so far */
+  pagesTotal?: number;
+  /** Pages Firecrawl has finished scraping */
+  pagesCompleted?: number;
+  /** Pages stored as scrape records (see listCrawlPages) */
+  pagesStored: number;
+  error?: string;
+  errorCode?: number | string;
+  startedAt: number;
+  crawlingAt?: number;
+  completedAt?: number;
+  expiresAt: number;
+}
+
+/**
+ * A page of crawl results. Each page is a regular scrape record whose `_id`
+ * works with getContent().
+ */
+export interface CrawlPages {
+  pages: Array<CachedContent & { _id: string }>;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+/**
+ * What happened to one URL of a batch scrape.
+ *
+ * - `started`: a new scrape job was queued
+ * - `cached`: a valid cache entry was reused
+ * - `in_progress`: a running scrape was reused
+ * - `duplicate`: the same normalized URL appeared earlier in the batch
+ * - `failed`: the URL was rejected; see `error`
+ */
+export type BatchItemOutcome =
+  | "started"
+  | "cached"
+  | "in_progress"
+  | "duplicate"
+  | "failed";
+
+/**
+ * Per-URL outcome of a batch scrape.
+ */
+export interface BatchItem {
+  url: string;
+  outcome: BatchItemOutcome;
+  /** Scrape job for the URL, unless the URL failed */
+  jobId?: string;
+  error?: string;
+}
+
+/**
+ * Result of starting a batch scrape.
+ */
+export interface BatchResult {
+  batchId: string;
+  /** One entry per requested URL, in request order */
+  items: BatchItem[];
+}
+
+/**
+ * Aggregate progress of a batch: job counts per status.
+ */
+export interface BatchProgress {
+  total: number;
+  pending: number;
+  scraping: number;
+  completed: number;
+  failed: number;
+  /** True when no job is pending or scraping */
+  done: boolean;
+}
+
+/**
+ * Options for site map discovery.
+ */
+export interface MapOptions {
+  /**
+   * Maximum URLs to discover. Defaults to and is capped at
+   * CONFIG.MAX_MAP_URLS.
+   */
+  limit?: number;
+
+  /**
+   * Include URLs on subdomains of the origin. Defaults to false.
+   */
+  includeSubdomains?: boolean;
+
+  /**
+   * Cache TTL in milliseconds for the site map.
+   */
+  ttlMs?: number;
+
+  /**
+   * Ignore a cached site map and map the site again.
+   */
+  force?: boolean;
+}
+
+/**
+ * Site map status values.
+ */
+export type SiteMapStatus = "pending" | "mapping" | "completed" | "failed";
+
+/**
+ * A site map: the URLs discovered on one origin.
+ */
+export interface SiteMapInfo {
+  mapId: string;
+  origin: string;
+  status: SiteMapStatus;
+  limit: number;
+  includeSubdomains: boolean;
+  urls?: string[];
+  urlCount?: number;
+  /** True if the URL list was cut to fit CONFIG.MAX_MAP_URL_BYTES */
+  truncated?: boolean;
+  error?: string;
+  errorCode?: number | string;
+  startedAt: number;
+  mappedAt?: number;
+  expiresAt: number;
+}
+
+/**
+ * Result of fanning a batch of site map URLs out into scrape jobs.
+ */
+export interface ScrapeSiteMapResult {
+  /** Jobs per URL; `started` is false for cache hits and running scrapes */
+  jobs: Array<{ url: string; jobId: string; started: boolean }>;
+  /** URLs that could not be scraped, with the reason */
+  failed: Array<{ url: string; error: string }>;
+  /** Offset for the next batch, or null when all URLs are done */
+  nextOffset: number | null;
+}
+
+/**
+ * Monitor status values.
+ */
+export type MonitorStatus = "active" | "paused";
+
+/**
+ * Options for creating a monitor.
+ */
+export interface MonitorOptions {
+  /**
+   * Time between runs in milliseconds.
+   * Must be at least CONFIG.MIN_MONITOR_INTERVAL_MS (1 minute).
+   */
+  intervalMs: number;
+
+  /**
+   * Scrape options for each run. Runs always bypass the cache; use
+   * `keepVersions` to keep more versions for `getChanges()`.
+   */
+  scrapeOptions?: ScrapeOptions;
+
+  /**
+   * Function handle scheduled with `MonitorChangeArgs` when a run's content
+   * differs from the previous run's. Not accepted by the `exposeApi()`
+   * functions: set it from server code.
+   */
+  onChange?: string;
+}
+
+/**
+ * Arguments the monitor `onChange` callback is called with.
+ */
+export interface MonitorChangeArgs {
+  monitorId: string;
+  /** The scrape whose content changed */
+  jobId: string;
+}
+
+/**
+ * A monitor and its last run.
+ */
+export interface MonitorInfo {
+  monitorId: string;
+  url: string;
+  intervalMs: number;
+  status: MonitorStatus;
+  nextRunAt: number;
+  lastRunAt?: number;
+  lastJobId?: string;
+  /** Content hash of the last completed run */
+  lastContentHash?: string;
+  /** When a run last found changed content */
+  lastChangedAt?: number;
+  /** Why the last run could not be started */
+  lastError?: string;
+}
+
 /**
  * Configuration options for the FirecrawlScrape client.
  */
 export interface FirecrawlScrapeOptions {
   /**
-   * Firecrawl API key. Defaults to process.env.FIRECRAWL_API_KEY.
+   * Firecrawl API key, or several keys used as a pool: requests go
+   * round-robin and a scrape that gets a 402 or 429 retries with the next
+   * key. Defaults to process.env.FIRECRAWL_API_KEY.
    */
-  FIRECRAWL_API_KEY?: string;
+  FIRECRAWL_API_KEY?: string | string[];
 
   /**
    * Default TTL for cached scrapes in milliseconds.
@@ -493,11 +1720,60 @@ export interface FirecrawlScrapeOptions {
   defaultTtlMs?: number;
 
   /**
-   * Advisory rate limit (requests per minute).
-   * Logged but not enforced in v1.
-   * Defaults to 100 (Hobby tier).
+   * Rate limit (requests per minute) for the API key.
+   * Enforced by the component: jobs are queued and released no faster
+   * than this rate. Defaults to 100 (Hobby tier).
    */
   maxRequestsPerMinute?: number;
+
+  /**
+   * Default stale-while-revalidate window for getCached() in milliseconds.
+   * Expired entries younger than this are still returned (marked `stale`)
+   * while a refresh runs. Capped at CONFIG.MAX_STALE_WHILE_REVALIDATE_MS.
+   * Defaults to 0 (disabled).
+   */
+  staleWhileRevalidateMs?: number;
+
+  /**
+   * Firecrawl API base URL, e.g. "http://localhost:3002/v2" for a self-hosted
+   * deployment or a local mock server. Defaults to CONFIG.FIRECRAWL_API_BASE.
+   */
+  apiBaseUrl?: string;
+
+  /**
+   * Header that carries the API key, e.g. "X-Api-Key". The key is sent as the
+   * raw header value. Defaults to `Authorization: Bearer <key>`.
+   */
+  apiKeyHeader?: string;
+
+  /**
+   * ID or label of a credential stored with `setCredential()`, used instead
+   * of FIRECRAWL_API_KEY. The raw key then never appears in function
+   * arguments or the scheduled functions table. A list is used as a pool,
+   * like a list of keys.
+   */
+  credential?: string | string[];
+
+  /**
+   * Cache namespace, e.g. a tenant ID. Scrapes, cache lookups, lists,
+   * invalidation and deletes, and batches, crawls, site maps and monitors,
+   * only see records in the same namespace. Defaults to the shared namespace.
+   */
+  namespace?: string;
+}
+
+/**
+ * Options for getCached(). The cache key options must match the ones the
+ * cached scrape was made with, except those listed in `ignoreOptions`; pass
+ * the same values given to `scrape()`.
+ */
+export interface GetCachedOptions
+  extends Pick<ScrapeOptions, CacheKeyOption | "ignoreOptions"> {
+  /**
+   * Serve expired entries that expired less than this many milliseconds ago.
+   * Overrides the client default.
+   */
+  staleWhileRevalidateMs?: number;
 }
 
 // ============================================================================
@@ -525,11 +1801,14 @@ export interface FirecrawlScrapeOptions {
  */
 export class FirecrawlScrape {
   private component: ComponentApi;
-  private apiKey: string | undefined;
+  private apiKey: string | string[] | undefined;
   private defaultTtlMs: number;
   private maxRequestsPerMinute: number;
-  private requestsThisMinute: number = 0;
-  private lastRateLimitReset: number = Date.now();
+  private staleWhileRevalidateMs: number;
+  private apiBaseUrl: string | undefined;
+  private apiKeyHeader: string | undefined;
+  private credential: string | string[] | undefined;
+  private namespace: string | undefined;
 
   constructor(component: ComponentApi, options?: FirecrawlScrapeOptions) {
     this.component = component;
@@ -537,6 +1816,11 @@ export class FirecrawlScrape {
     this.defaultTtlMs = options?.defaultTtlMs ?? CONFIG.DEFAULT_TTL_MS;
     this.maxRequestsPerMinute =
       options?.maxRequestsPerMinute ?? CONFIG.DEFAULT_RATE_LIMIT_PER_MINUTE;
+    this.staleWhileRevalidateMs = options?.staleWhileRevalidateMs ?? 0;
+    this.apiBaseUrl = options?.apiBaseUrl;
+    this.apiKeyHeader = options?.apiKeyHeader;
+    this.credential = options?.credential;
+    this.namespace = options?.namespace;
   }
 
   /**
@@ -554,41 +1838,55 @@ export class FirecrawlScrape {
   }
 
   /**
-   * Check and log rate limiting (advisory only in v1).
-   * Logs a warning if rate limit is exceeded but does not block.
+   * Get the stored credential to use, or else the API key, checking
+   * process.env if not provided in constructor.
    */
-  private checkRateLimit(): void {
-    const now = Date.now();
-    const elapsed = now - this.lastRateLimitReset;
-
-    // Reset counter every minute
-    if (elapsed >= 60_000) {
-      this.requestsThisMinute = 0;
-      this.lastRateLimitReset = now;
-    }
-
-    this.requestsThisMinute++;
-
-    if (this.requestsThisMinute > this.maxRequestsPerMinute) {
-      console.warn(
-        `[FirecrawlScrape] Rate limit advisory: ${this.requestsThisMinute} requests this minute ` +
-          `(limit: ${this.maxRequestsPerMinute}). Consider reducing request frequency.`,
-      );
+  private getFirecrawlKey(): FirecrawlKeyInput {
+    if (this.credential !== undefined) {
+      return { credential: this.credential };
     }
-  }
-
-  /**
-   * Get the API key, checking process.env if not provided in constructor.
-   */
-  private getApiKey(): string {
     const key = this.apiKey ?? process.env.FIRECRAWL_API_KEY;
     if (!key) {
       throw new Error(
         "Firecrawl API key not found. Set FIRECRAWL_API_KEY environment variable " +
-          "or pass it in the FirecrawlScrape constructor options.",
+          "or pass it (or a stored credential) in the FirecrawlScrape constructor options.",
       );
     }
-    return key;
+    return { apiKey: key };
+  }
+
+  /**
+   * Map client scrape options to the component's startScrape options,
+   * applying the client's default TTL.
+   */
+  private toScrapeOptionsInput(options?: ScrapeOptions): ScrapeOptionsInput {
+    return {
+      formats: options?.formats,
+      extractionSchema: toJsonSchema(options?.extractionSchema),
+      extractionPrompt: options?.extractionPrompt,
+      ttlMs: options?.ttlMs ?? this.defaultTtlMs,
+      force: options?.force,
+      onlyMainContent: options?.onlyMainContent,
+      includeTags: options?.includeTags,
+      excludeTags: options?.excludeTags,
+      waitFor: options?.waitFor,
+      actions: options?.actions,
+      headers: options?.headers,
+      location: options?.location,
+      timeout: options?.timeout,
+      parsePDF: options?.parsePDF,
+      storeSourceDocument: options?.storeSourceDocument,
+      mobile: options?.mobile,
+      proxy: options?.proxy,
+      storeScreenshot: options?.storeScreenshot,
+      resolveDns: options?.resolveDns,
+      maxRetries: options?.maxRetries,
+      retryBaseDelayMs: options?.retryBaseDelayMs,
+      onComplete: options?.onComplete,
+      keepVersions: options?.keepVersions,
+      aliasCanonical: options?.aliasCanonical,
+      ignoreOptions: options?.ignoreOptions,
+    };
   }
 
   /**
@@ -596,6 +1894,8 @@ export class FirecrawlScrape {
    *
    * Returns immediately with a job ID. Use `getStatus()` or `getContent()` to
    * poll for results, or use a Convex `useQuery` hook for reactive updates.
+   * The job is queued behind earlier jobs for the same API key according to
+   * `maxRequestsPerMinute`.
    *
    * @param ctx - Convex mutation context
    * @param url - The URL to scrape
@@ -620,26 +1920,16 @@ export class FirecrawlScrape {
     url: string,
     options?: ScrapeOptions,
   ): Promise<{ jobId: string }> {
-    this.checkRateLimit();
-
-    const apiKey = this.getApiKey();
+    const key = this.getFirecrawlKey();
 
     const result = await ctx.runMutation(this.component.lib.startScrape, {
       url,
-      apiKey,
-      options: {
-        formats: options?.formats,
-        extractionSchema: options?.extractionSchema,
-        ttlMs: options?.ttlMs ?? this.defaultTtlMs,
-        force: options?.force,
-        onlyMainContent: options?.onlyMainContent,
-        includeTags: options?.includeTags,
-        excludeTags: options?.excludeTags,
-        waitFor: options?.waitFor,
-        mobile: options?.mobile,
-        proxy: options?.proxy,
-        storeScreenshot: options?.storeScreenshot,
-      },
+      ...key,
+      namespace: this.namespace,
+      apiBaseUrl: this.apiBaseUrl,
+      apiKeyHeader: this.apiKeyHeader,
+      options: this.toScrapeOptionsInput(options),
+      maxRequestsPerMinute: this.maxRequestsPerMinute,
     });
 
     return { jobId: result.jobId };
@@ -651,9 +1941,18 @@ export class FirecrawlScrape {
    * Returns cached content if it exists, is not expired, and contains
    * all requested formats (superset check). Returns null otherwise.
    *
-   * @param ctx - Convex query context
+   * With a stale-while-revalidate window, recently expired content is
+   * returned with `stale: true`. When called from a mutation, a refresh with
+   * the stale entry's formats and cache key options is started automatically;
+   * if it cannot start (e.g. a budget or policy rejects it), the stale content
+   * is still returned. Queries cannot write, so call `revalidate()` yourself
+   * when a stale result comes back.
+   *
+   * @param ctx - Convex query or mutation context
    * @param url - The URL to look up
    * @param formats - Optional formats to require (defaults to ["markdown"])
+   * @param options - Stale-while-revalidate window and the cache key options
+   *   the entry must have been scraped with
    * @returns Cached content or null if not found/expired/missing formats
    *
    * @example
@@ -669,21 +1968,55 @@ export class FirecrawlScrape {
    * ```
    */
   async getCached(
-    ctx: GenericQueryCtx<GenericDataModel>,
+    ctx:
+      | GenericQueryCtx<GenericDataModel>
+      | GenericMutationCtx<GenericDataModel>,
     url: string,
     formats?: ScrapeFormat[],
+    options?: GetCachedOptions,
   ): Promise<CachedContent | null> {
+    const { staleWhileRevalidateMs, ...cacheKeyOptions } = options ?? {};
     const result = await ctx.runQuery(this.component.lib.getCached, {
       url,
       formats,
+      staleWhileRevalidateMs:
+        staleWhileRevalidateMs ?? this.staleWhileRevalidateMs,
+      namespace: this.namespace,
+      options: {
+        ...cacheKeyOptions,
+        extractionSchema: toJsonSchema(cacheKeyOptions.extractionSchema),
+      },
     });
     if (!result) {
       return null;
     }
 
+    if (result.stale && "runMutation" in ctx) {
+      // Refresh the entry that was served: its formats, and its own values
+      // for the options the lookup ignored
+      const { ignoreOptions = [], ...requested } = cacheKeyOptions;
+      const stored = fingerprintOptions(result.optionsFingerprint);
+      try {
+        await this.revalidate(ctx, url, {
+          ...requested,
+          ...Object.fromEntries(
+            ignoreOptions
+              .filter((name) => name !== "headers")
+              .map((name) => [name, stored[name]]),
+          ),
+          formats: result.formats as ScrapeFormat[],
+        });
+      } catch (error) {
+        // Serving stale content never fails the read; a later read retries
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Failed to revalidate ${url}: ${message}`);
+      }
+    }
+
     return {
       url: result.url,
       normalizedUrl: result.normalizedUrl,
+      finalUrl: result.finalUrl,
       status: result.status,
       formats: result.formats,
       markdown: result.markdown,
@@ -699,118 +2032,881 @@ export class FirecrawlScrape {
       scrapingAt: result.scrapingAt,
       scrapedAt: result.scrapedAt,
       expiresAt: result.expiresAt,
+      stale: result.stale,
     };
   }
 
   /**
-   * Get the status of a scrape job.
+   * Refresh the cached content for a URL in the background.
+   *
+   * Like `scrape()`, but if a scrape for the URL is already pending or in
+   * progress its job ID is returned instead of throwing, so concurrent
+   * readers of a stale entry trigger a single refresh.
+   *
+   * @param ctx - Convex mutation context
+   * @param url - The URL to refresh
+   * @param options - Scrape options
+   * @returns The job ID, and whether a new scrape was started
+   *
+   * @example
+   * ```ts
+   * const cached = await firecrawl.getCached(ctx, url, undefined, {
+   *   staleWhileRevalidateMs: 60 * 60 * 1000,
+   * });
+   * if (cached?.stale) {
+   *   // From an action or mutation
+   *   await firecrawl.revalidate(ctx, url);
+   * }
+   * ```
+   */
+  async revalidate(
+    ctx: GenericMutationCtx<GenericDataModel>,
+    url: string,
+    options?: ScrapeOptions,
+  ): Promise<{ jobId: string; started: boolean }> {
+    const key = this.getFirecrawlKey();
+
+    return await ctx.runMutation(this.component.lib.revalidate, {
+      url,
+      ...key,
+      namespace: this.namespace,
+      apiBaseUrl: this.apiBaseUrl,
+      apiKeyHeader: this.apiKeyHeader,
+      options: this.toScrapeOptionsInput(options),
+      maxRequestsPerMinute: this.maxRequestsPerMinute,
+    });
+  }
+
+  /**
+   * Get the status of a scrape job.
+   *
+   * @param ctx - Convex query context
+   * @param jobId - The job ID returned from scrape()
+   * @returns Status information or null if job not found
+   *
+   * @example
+   * ```ts
+   * const status = await firecrawl.getStatus(ctx, jobId);
+   * if (status?.status === "completed") {
+   *   console.log("Scrape completed at:", status.scrapedAt);
+   * }
+   * ```
+   */
+  async getStatus(
+    ctx: GenericQueryCtx<GenericDataModel>,
+    jobId: string,
+  ): Promise<ScrapeStatusInfo | null> {
+    return await ctx.runQuery(this.component.lib.getStatus, {
+      id: jobId,
+      namespace: this.namespace,
+    });
+  }
+
+  /**
+   * Get the full content of a scrape job.
+   *
+   * For large content that was stored in file storage, this method returns
+   * URLs to fetch the content. Inline content is returned directly.
+   *
+   * @template T - Type of the extracted JSON data (for typed extraction)
+   * @param ctx - Convex query context
+   * @param jobId - The job ID returned from scrape()
+   * @returns Full scrape result with typed extraction, or null if job not found
+   *
+   * @example
+   * ```ts
+   * // Without typed extraction
+   * const content = await firecrawl.getContent(ctx, jobId);
+   *
+   * // With typed extraction
+   * interface Product {
+   *   name: string;
+   *   price: number;
+   *   description: string;
+   * }
+   * const content = await firecrawl.getContent<Product>(ctx, jobId);
+   * if (content?.extractedJson) {
+   *   console.log(content.extractedJson.name);  // TypeScript knows this is a Product
+   * }
+   * ```
+   */
+  async getContent<T = unknown>(
+    ctx: GenericQueryCtx<GenericDataModel>,
+    jobId: string,
+  ): Promise<ScrapeResult<T> | null> {
+    const result = await ctx.runQuery(this.component.lib.getContent, {
+      id: jobId,
+      namespace: this.namespace,
+    });
+
+    if (!result) {
+      return null;
+    }
+
+    return {
+      url: result.url,
+      normalizedUrl: result.normalizedUrl,
+      finalUrl: result.finalUrl,
+      status: result.status,
+      formats: result.formats,
+      markdown: result.markdown,
+      html: result.html,
+      rawHtml: result.rawHtml,
+      summary: result.summary,
+      links: result.links,
+      images: result.images,
+      screenshotUrl: result.screenshotUrl,
+      actionScreenshots: result.actionScreenshots,
+      extractedJson: result.extractedJson as T,
+      markdownFileUrl: result.markdownFileUrl,
+      htmlFileUrl: result.htmlFileUrl,
+      rawHtmlFileUrl: result.rawHtmlFileUrl,
+      screenshotFileUrl: result.screenshotFileUrl,
+      sourceDocumentFileUrl: result.sourceDocumentFileUrl,
+      metadata: result.metadata,
+      rawMetadata: result.rawMetadata,
+      error: result.error,
+      errorCode: result.errorCode,
+      startedAt: result.startedAt,
+      scrapingAt: result.scrapingAt,
+      scrapedAt: result.scrapedAt,
+      expiresAt: result.expiresAt,
+    };
+  }
+
+  /**
+   * Compare the two latest completed versions of a URL.
+   *
+   * Each completed scrape is a version; how many are kept is set with the
+   * `keepVersions` scrape option. Use `force` or `revalidate()` to scrape a
+   * new version. Only scrapes made with the same cache key options and
+   * formats are versions of each other, so pass the options the URL is
+   * scraped with, as for `getCached()`.
+   *
+   * @param ctx - Convex query context
+   * @param url - The URL to compare
+   * @param options - Cache key options the versions were scraped with, and
+   *   `ignoreOptions`
+   * @returns Whether the content changed and a markdown diff, or null if the
+   * URL has no completed scrape
+   *
+   * @example
+   * ```ts
+   * const changes = await firecrawl.getChanges(ctx, "https://example.com");
+   * if (changes?.changed) {
+   *   console.log(changes.diff);
+   * }
+   * ```
+   */
+  async getChanges(
+    ctx:
+      | GenericQueryCtx<GenericDataModel>
+      | GenericMutationCtx<GenericDataModel>,
+    url: string,
+    options?: Pick<ScrapeOptions, CacheKeyOption | "ignoreOptions">,
+  ): Promise<ContentChanges | null> {
+    return await ctx.runQuery(this.component.lib.getChanges, {
+      url,
+      namespace: this.namespace,
+      options: options && {
+        ...options,
+        extractionSchema: toJsonSchema(options.extractionSchema),
+      },
+    });
+  }
+
+  /**
+   * List the URLs known to serve the same page as a URL.
+   *
+   * Scrapes started with `aliasCanonical` are aliased under the page's
+   * rel=canonical URL. Given the canonical URL or any of its aliases, this
+   * returns the canonical URL and the other URLs aliased under it.
+   *
+   * @param ctx - Convex query context
+   * @param url - The URL to look up
+   * @returns The canonical URL (null when nothing is known) and its aliases
+   *
+   * @example
+   * ```ts
+   * const { canonicalUrl, aliases } = await firecrawl.getAliases(
+   *   ctx,
+   *   "https://example.com/article?print=1",
+   * );
+   * ```
+   */
+  async getAliases(
+    ctx:
+      | GenericQueryCtx<GenericDataModel>
+      | GenericMutationCtx<GenericDataModel>,
+    url: string,
+  ): Promise<UrlAliases> {
+    return await ctx.runQuery(this.component.lib.getAliases, {
+      url,
+      namespace: this.namespace,
+    });
+  }
+
+  /**
+   * Invalidate a cached scrape for a URL.
+   *
+   * Marks the cache entry as expired so it won't be returned by getCached().
+   * The entry will be cleaned up by the daily cron job.
+   *
+   * @param ctx - Convex mutation context
+   * @param url - The URL to invalidate
+   * @returns Object indicating success and number of entries invalidated
+   *
+   * @example
+   * ```ts
+   * await firecrawl.invalidate(ctx, "https://example.com");
+   * ```
+   */
+  async invalidate(
+    ctx: GenericMutationCtx<GenericDataModel>,
+    url: string,
+  ): Promise<{ success: boolean; invalidatedCount: number }> {
+    return await ctx.runMutation(this.component.lib.invalidate, {
+      url,
+      namespace: this.namespace,
+    });
+  }
+
+  /**
+   * Start scrape jobs for many URLs as one batch.
+   *
+   * URLs with a valid cache entry are not scraped again, running scrapes are
+   * reused, and invalid URLs are reported per item instead of failing the
+   * batch. Subscribe with `getBatchProgress()` to follow the batch.
+   *
+   * @param ctx - Convex mutation context
+   * @param urls - URLs to scrape (at most CONFIG.MAX_BATCH_URLS)
+   * @param options - Scrape options applied to every URL
+   * @returns The batch ID and the outcome for each URL
+   *
+   * @example
+   * ```ts
+   * const { batchId, items } = await firecrawl.batchScrape(ctx, urls, {
+   *   formats: ["markdown"],
+   * });
+   * ```
+   */
+  async batchScrape(
+    ctx: GenericMutationCtx<GenericDataModel>,
+    urls: string[],
+    options?: ScrapeOptions,
+  ): Promise<BatchResult> {
+    const key = this.getFirecrawlKey();
+
+    return await ctx.runMutation(this.component.batch.startBatchScrape, {
+      urls,
+      ...key,
+      namespace: this.namespace,
+      apiBaseUrl: this.apiBaseUrl,
+      apiKeyHeader: this.apiKeyHeader,
+      options: this.toScrapeOptionsInput(options),
+      maxRequestsPerMinute: this.maxRequestsPerMinute,
+    });
+  }
+
+  /**
+   * Get the per-URL outcomes of a batch.
+   *
+   * @param ctx - Convex query context
+   * @param batchId - The batch ID returned from batchScrape()
+   * @returns The batch items, or null if not found
+   */
+  async getBatch(
+    ctx: GenericQueryCtx<GenericDataModel>,
+    batchId: string,
+  ): Promise<BatchResult | null> {
+    const result = await ctx.runQuery(this.component.batch.getBatch, {
+      id: batchId,
+      namespace: this.namespace,
+    });
+    return result ? { batchId: result._id, items: result.items } : null;
+  }
+
+  /**
+   * Get aggregate progress for a batch.
+   *
+   * @param ctx - Convex query context
+   * @param batchId - The batch ID returned from batchScrape()
+   * @returns Job counts per status, or null if not found
+   */
+  async getBatchProgress(
+    ctx: GenericQueryCtx<GenericDataModel>,
+    batchId: string,
+  ): Promise<BatchProgress | null> {
+    return await ctx.runQuery(this.component.batch.getBatchProgress, {
+      id: batchId,
+      namespace: this.namespace,
+    });
+  }
+
+  /**
+   * Discover the URLs on a site with Firecrawl's map endpoint.
+   *
+   * The URL list is cached per origin with the same TTL model as scrapes;
+   * a valid cached map or a map already in progress is reused. Subscribe
+   * with `getSiteMap()` to wait for the result.
+   *
+   * @param ctx - Convex mutation context
+   * @param url - Any URL on the site; only its origin is used
+   * @param options - Map options
+   * @returns The site map ID, and whether a new map was started
+   *
+   * @example
+   * ```ts
+   * const { mapId } = await firecrawl.mapSite(ctx, "https://example.com");
+   * ```
+   */
+  async mapSite(
+    ctx: GenericMutationCtx<GenericDataModel>,
+    url: string,
+    options?: MapOptions,
+  ): Promise<{ mapId: string; started: boolean }> {
+    const key = this.getFirecrawlKey();
+
+    return await ctx.runMutation(this.component.map.mapSite, {
+      url,
+      ...key,
+      namespace: this.namespace,
+      apiBaseUrl: this.apiBaseUrl,
+      apiKeyHeader: this.apiKeyHeader,
+      options: {
+        ...options,
+        ttlMs: options?.ttlMs ?? this.defaultTtlMs,
+      },
+      maxRequestsPerMinute: this.maxRequestsPerMinute,
+    });
+  }
+
+  /**
+   * Get a site map by ID.
+   *
+   * @param ctx - Convex query context
+   * @param mapId - The site map ID returned from mapSite()
+   * @returns The site map or null if not found
+   */
+  async getSiteMap(
+    ctx: GenericQueryCtx<GenericDataModel>,
+    mapId: string,
+  ): Promise<SiteMapInfo | null> {
+    const result = await ctx.runQuery(this.component.map.getSiteMap, {
+      id: mapId,
+      namespace: this.namespace,
+    });
+    return result ? toSiteMapInfo(result) : null;
+  }
+
+  /**
+   * Get the valid cached site map for a URL's origin.
+   *
+   * @param ctx - Convex query context
+   * @param url - Any URL on the site
+   * @param options - `includeSubdomains` setting the map was made with (default false)
+   * @returns The cached site map or null if none is valid
+   */
+  async getCachedSiteMap(
+    ctx: GenericQueryCtx<GenericDataModel>,
+    url: string,
+    options?: Pick<MapOptions, "includeSubdomains">,
+  ): Promise<SiteMapInfo | null> {
+    const result = await ctx.runQuery(this.component.map.getCachedSiteMap, {
+      url,
+      namespace: this.namespace,
+      includeSubdomains: options?.includeSubdomains,
+    });
+    return result ? toSiteMapInfo(result) : null;
+  }
+
+  /**
+   * Start scrape jobs for the URLs of a completed site map.
+   *
+   * Handles one batch (up to CONFIG.MAX_MAP_FANOUT_BATCH URLs) per call.
+   * Call again with `nextOffset` until it is null.
+   *
+   * @param ctx - Convex mutation context
+   * @param mapId - The site map ID returned from mapSite()
+   * @param options - Scrape options applied to every URL
+   * @param batch - Optional offset and batch size
+   * @returns Jobs started or reused, failures, and the next offset
+   *
+   * @example
+   * ```ts
+   * let offset: number | null = 0;
+   * while (offset !== null) {
+   *   const result = await firecrawl.scrapeSiteMap(ctx, mapId, {}, { offset });
+   *   offset = result.nextOffset;
+   * }
+   * ```
+   */
+  async scrapeSiteMap(
+    ctx: GenericMutationCtx<GenericDataModel>,
+    mapId: string,
+    options?: ScrapeOptions,
+    batch?: { offset?: number; limit?: number },
+  ): Promise<ScrapeSiteMapResult> {
+    const key = this.getFirecrawlKey();
+
+    return await ctx.runMutation(this.component.map.scrapeSiteMap, {
+      mapId,
+      ...key,
+      namespace: this.namespace,
+      apiBaseUrl: this.apiBaseUrl,
+      apiKeyHeader: this.apiKeyHeader,
+      options: this.toScrapeOptionsInput(options),
+      maxRequestsPerMinute: this.maxRequestsPerMinute,
+      offset: batch?.offset,
+      limit: batch?.limit,
+    });
+  }
+
+  /**
+   * Start a multi-page crawl from a URL.
+   *
+   * Returns immediately with a crawl ID. Pages are stored as regular scrape
+   * records as Firecrawl finishes them; follow progress with `getCrawl()`
+   * and read pages with `listCrawlPages()`.
+   *
+   * @param ctx - Convex mutation context
+   * @param url - The URL to start crawling from
+   * @param options - Crawl limits, path filters and per-page scrape options
+   * @returns Object containing the crawl ID
+   *
+   * @example
+   * ```ts
+   * const { crawlId } = await firecrawl.crawl(ctx, "https://example.com/docs", {
+   *   limit: 50,
+   *   includePaths: ["^/docs/.*"],
+   * });
+   * ```
+   */
+  async crawl(
+    ctx: GenericMutationCtx<GenericDataModel>,
+    url: string,
+    options?: CrawlOptions,
+  ): Promise<{ crawlId: string }> {
+    const key = this.getFirecrawlKey();
+
+    return await ctx.runMutation(this.component.crawl.startCrawl, {
+      url,
+      ...key,
+      namespace: this.namespace,
+      apiBaseUrl: this.apiBaseUrl,
+      apiKeyHeader: this.apiKeyHeader,
+      options: {
+        ...options,
+        ttlMs: options?.ttlMs ?? this.defaultTtlMs,
+      },
+      maxRequestsPerMinute: this.maxRequestsPerMinute,
+    });
+  }
+
+  /**
+   * Get the status and progress of a crawl job.
+   *
+   * @param ctx - Convex query context
+   * @param crawlId - The crawl ID returned from crawl()
+   * @returns Crawl status or null if not found
+   */
+  async getCrawl(
+    ctx: GenericQueryCtx<GenericDataModel>,
+    crawlId: string,
+  ): Promise<CrawlInfo | null> {
+    const result = await ctx.runQuery(this.component.crawl.getCrawl, {
+      id: crawlId,
+      namespace: this.namespace,
+    });
+    if (!result) {
+      return null;
+    }
+
+    return {
+      crawlId: result._id,
+      url: result.url,
+      status: result.status,
+      formats: result.formats,
+      limit: result.limit,
+      maxDepth: result.maxDepth,
+      includePaths: result.includePaths,
+      excludePaths: result.excludePaths,
+      pagesTotal: result.pagesTotal,
+      pagesCompleted: result.pagesCompleted,
+      pagesStored: result.pagesStored,
+      error: result.error,
+      errorCode: result.errorCode,
+      startedAt: result.startedAt,
+      crawlingAt: result.crawlingAt,
+      completedAt: result.completedAt,
+      expiresAt: result.expiresAt,
+    };
+  }
+
+  /**
+   * List the pages stored for a crawl, newest first.
+   *
+   * @param ctx - Convex query context
+   * @param crawlId - The crawl ID returned from crawl()
+   * @param options - Optional page size and cursor from a previous call
+   * @returns Pages with pagination info
+   */
+  async listCrawlPages(
+    ctx: GenericQueryCtx<GenericDataModel>,
+    crawlId: string,
+    options?: { limit?: number; cursor?: string },
+  ): Promise<CrawlPages> {
+    const result = await ctx.runQuery(this.component.crawl.listCrawlPages, {
+      crawlId,
+      namespace: this.namespace,
+      limit: options?.limit,
+      cursor: options?.cursor,
+    });
+
+    return {
+      pages: result.pages.map((page) => ({
+        _id: page._id,
+        url: page.url,
+        normalizedUrl: page.normalizedUrl,
+        status: page.status,
+        formats: page.formats,
+        markdown: page.markdown,
+        html: page.html,
+        rawHtml: page.rawHtml,
+        summary: page.summary,
+        links: page.links,
+        images: page.images,
+        screenshotUrl: page.screenshotUrl,
+        extractedJson: page.extractedJson,
+        metadata: page.metadata,
+        startedAt: page.startedAt,
+        scrapingAt: page.scrapingAt,
+        scrapedAt: page.scrapedAt,
+        expiresAt: page.expiresAt,
+      })),
+      nextCursor: result.nextCursor,
+      hasMore: result.hasMore,
+    };
+  }
+
+  /**
+   * Create a monitor that scrapes a URL on an interval.
+   *
+   * A component cron starts each run when it is due, so runs start within a
+   * minute of schedule. The client's API key is stored apart from the
+   * monitor for the cron to use; monitor queries never return it.
+   *
+   * @param ctx - Convex mutation context
+   * @param url - The URL to monitor
+   * @param options - Interval, per-run scrape options and change callback
+   * @returns Object containing the monitor ID
+   *
+   * @example
+   * ```ts
+   * const { monitorId } = await firecrawl.createMonitor(ctx, url, {
+   *   intervalMs: 60 * 60 * 1000, // hourly
+   *   onChange: await createFunctionHandle(internal.pricing.onChanged),
+   * });
+   * ```
+   */
+  async createMonitor(
+    ctx: GenericMutationCtx<GenericDataModel>,
+    url: string,
+    options: MonitorOptions,
+  ): Promise<{ monitorId: string }> {
+    const key = this.getFirecrawlKey();
+
+    return await ctx.runMutation(this.component.monitor.createMonitor, {
+      url,
+      intervalMs: options.intervalMs,
+      ...key,
+      namespace: this.namespace,
+      apiBaseUrl: this.apiBaseUrl,
+      apiKeyHeader: this.apiKeyHeader,
+      options: this.toScrapeOptionsInput(options.scrapeOptions),
+      onChange: options.onChange,
+      maxRequestsPerMinute: this.maxRequestsPerMinute,
+    });
+  }
+
+  /**
+   * Get a monitor and its last run.
+   *
+   * @param ctx - Convex query context
+   * @param monitorId - The monitor ID returned from createMonitor()
+   * @returns The monitor or null if not found
+   */
+  async getMonitor(
+    ctx: GenericQueryCtx<GenericDataModel>,
+    monitorId: string,
+  ): Promise<MonitorInfo | null> {
+    const result = await ctx.runQuery(this.component.monitor.getMonitor, {
+      id: monitorId,
+      namespace: this.namespace,
+    });
+    return result ? toMonitorInfo(result) : null;
+  }
+
+  /**
+   * List monitors, newest first.
+   *
+   * @param ctx - Convex query context
+   * @param options - Optional page size and cursor from a previous call
+   * @returns Monitors with pagination info
+   */
+  async listMonitors(
+    ctx: GenericQueryCtx<GenericDataModel>,
+    options?: { limit?: number; cursor?: string },
+  ): Promise<{
+    monitors: MonitorInfo[];
+    nextCursor: string | null;
+    hasMore: boolean;
+  }> {
+    const result = await ctx.runQuery(this.component.monitor.listMonitors, {
+      namespace: this.namespace,
+      limit: options?.limit,
+      cursor: options?.cursor,
+    });
+    return {
+      monitors: result.monitors.map(toMonitorInfo),
+      nextCursor: result.nextCursor,
+      hasMore: result.hasMore,
+    };
+  }
+
+  /**
+   * Pause a monitor. Runs already started still complete.
+   *
+   * @param ctx - Convex mutation context
+   * @param monitorId - The monitor ID
+   * @returns Whether the monitor was found
+   */
+  async pauseMonitor(
+    ctx: GenericMutationCtx<GenericDataModel>,
+    monitorId: string,
+  ): Promise<{ success: boolean }> {
+    return await ctx.runMutation(this.component.monitor.pauseMonitor, {
+      id: monitorId,
+      namespace: this.namespace,
+    });
+  }
+
+  /**
+   * Resume a paused monitor.
    *
-   * @param ctx - Convex query context
-   * @param jobId - The job ID returned from scrape()
-   * @returns Status information or null if job not found
+   * @param ctx - Convex mutation context
+   * @param monitorId - The monitor ID
+   * @returns Whether the monitor was found
+   */
+  async resumeMonitor(
+    ctx: GenericMutationCtx<GenericDataModel>,
+    monitorId: string,
+  ): Promise<{ success: boolean }> {
+    return await ctx.runMutation(this.component.monitor.resumeMonitor, {
+      id: monitorId,
+      namespace: this.namespace,
+    });
+  }
+
+  /**
+   * Delete a monitor. Scrapes from earlier runs are kept.
+   *
+   * @param ctx - Convex mutation context
+   * @param monitorId - The monitor ID
+   * @returns Whether the monitor was found
+   */
+  async deleteMonitor(
+    ctx: GenericMutationCtx<GenericDataModel>,
+    monitorId: string,
+  ): Promise<{ success: boolean }> {
+    return await ctx.runMutation(this.component.monitor.deleteMonitor, {
+      id: monitorId,
+      namespace: this.namespace,
+    });
+  }
+
+  /**
+   * Store a Firecrawl API key in the component under a unique label.
+   *
+   * Pass the label (or returned ID) as the `credential` constructor option,
+   * or return it from the `exposeApi` auth callback, instead of the raw key.
+   * Call this from an internal mutation or the dashboard - never from a
+   * function clients can reach.
+   *
+   * @param ctx - Convex mutation context
+   * @param label - Unique name for the credential, e.g. "production"
+   * @param apiKey - Firecrawl API key
+   * @returns The credential ID
    *
    * @example
    * ```ts
-   * const status = await firecrawl.getStatus(ctx, jobId);
-   * if (status?.status === "completed") {
-   *   console.log("Scrape completed at:", status.scrapedAt);
-   * }
+   * export const storeKey = internalMutation({
+   *   args: { apiKey: v.string() },
+   *   handler: async (ctx, { apiKey }) => {
+   *     await firecrawl.setCredential(ctx, "production", apiKey);
+   *   },
+   * });
    * ```
    */
-  async getStatus(
-    ctx: GenericQueryCtx<GenericDataModel>,
-    jobId: string,
-  ): Promise<ScrapeStatusInfo | null> {
-    return await ctx.runQuery(this.component.lib.getStatus, { id: jobId });
+  async setCredential(
+    ctx: GenericMutationCtx<GenericDataModel>,
+    label: string,
+    apiKey: string,
+  ): Promise<{ credentialId: string }> {
+    return await ctx.runMutation(this.component.credentials.setCredential, {
+      label,
+      apiKey,
+    });
   }
 
   /**
-   * Get the full content of a scrape job.
+   * Replace the API key of a stored credential. Jobs already queued with the
+   * credential use the new key when they run.
    *
-   * For large content that was stored in file storage, this method returns
-   * URLs to fetch the content. Inline content is returned directly.
+   * @param ctx - Convex mutation context
+   * @param credential - Credential ID or label
+   * @param apiKey - The new Firecrawl API key
+   * @returns The credential ID
+   */
+  async rotateCredential(
+    ctx: GenericMutationCtx<GenericDataModel>,
+    credential: string,
+    apiKey: string,
+  ): Promise<{ credentialId: string }> {
+    return await ctx.runMutation(this.component.credentials.rotateCredential, {
+      credential,
+      apiKey,
+    });
+  }
+
+  /**
+   * Usage and health of every API key the component has used, most recently
+   * used first. A key in a pool is skipped while it is cooling down after a
+   * 402 or 429.
    *
-   * @template T - Type of the extracted JSON data (for typed extraction)
-   * @param ctx - Convex query context
-   * @param jobId - The job ID returned from scrape()
-   * @returns Full scrape result with typed extraction, or null if job not found
+   * @param ctx - Convex query or mutation context
+   * @returns One entry per key, identified by its SHA-256 hash
+   */
+  async getKeyHealth(
+    ctx:
+      | GenericQueryCtx<GenericDataModel>
+      | GenericMutationCtx<GenericDataModel>,
+  ): Promise<KeyHealth[]> {
+    return await ctx.runQuery(this.component.credentials.getKeyHealth, {});
+  }
+
+  /**
+   * Firecrawl credits used between two UTC days (inclusive), in total and
+   * per day, API key and namespace. Only the client's namespace is counted
+   * when it has one; otherwise all namespaces are.
+   *
+   * @param ctx - Convex query or mutation context
+   * @param from - First day, e.g. "2026-10-01"
+   * @param to - Last day, e.g. "2026-10-31"
+   * @returns Credit totals and breakdowns
+   */
+  async getUsage(
+    ctx:
+      | GenericQueryCtx<GenericDataModel>
+      | GenericMutationCtx<GenericDataModel>,
+    from: string,
+    to: string,
+  ): Promise<CreditUsage> {
+    return await ctx.runQuery(this.component.usage.getUsage, {
+      from,
+      to,
+      namespace: this.namespace,
+    });
+  }
+
+  /**
+   * Cap the credits the client's namespace, or one API key, may use. Once a
+   * cap is reached, new scrapes are rejected until the next UTC day or
+   * month; cached content is still served.
+   *
+   * @param ctx - Convex mutation context
+   * @param budget - Daily and monthly caps; omit both to remove the budget
+   * @param key - API key or stored credential to cap instead of the namespace
    *
    * @example
    * ```ts
-   * // Without typed extraction
-   * const content = await firecrawl.getContent(ctx, jobId);
-   *
-   * // With typed extraction
-   * interface Product {
-   *   name: string;
-   *   price: number;
-   *   description: string;
-   * }
-   * const content = await firecrawl.getContent<Product>(ctx, jobId);
-   * if (content?.extractedJson) {
-   *   console.log(content.extractedJson.name);  // TypeScript knows this is a Product
-   * }
+   * // 500 credits a day for the client's namespace
+   * await firecrawl.setBudget(ctx, { dailyCredits: 500 });
+   * // 20,000 credits a month for one stored key
+   * await firecrawl.setBudget(
+   *   ctx,
+   *   { monthlyCredits: 20_000 },
+   *   { credential: "production" },
+   * );
    * ```
    */
-  async getContent<T = unknown>(
-    ctx: GenericQueryCtx<GenericDataModel>,
-    jobId: string,
-  ): Promise<ScrapeResult<T> | null> {
-    const result = await ctx.runQuery(this.component.lib.getContent, {
-      id: jobId,
+  async setBudget(
+    ctx: GenericMutationCtx<GenericDataModel>,
+    budget: CreditBudget,
+    key?: { apiKey: string } | { credential: string },
+  ): Promise<void> {
+    await ctx.runMutation(this.component.usage.setBudget, {
+      ...budget,
+      ...(key ?? { namespace: this.namespace }),
     });
-
-    if (!result) {
-      return null;
-    }
-
-    return {
-      url: result.url,
-      normalizedUrl: result.normalizedUrl,
-      status: result.status,
-      formats: result.formats,
-      markdown: result.markdown,
-      html: result.html,
-      rawHtml: result.rawHtml,
-      summary: result.summary,
-      links: result.links,
-      images: result.images,
-      screenshotUrl: result.screenshotUrl,
-      extractedJson: result.extractedJson as T,
-      markdownFileUrl: result.markdownFileUrl,
-      htmlFileUrl: result.htmlFileUrl,
-      rawHtmlFileUrl: result.rawHtmlFileUrl,
-      screenshotFileUrl: result.screenshotFileUrl,
-      metadata: result.metadata,
-      error: result.error,
-      errorCode: result.errorCode,
-      startedAt: result.startedAt,
-      scrapingAt: result.scrapingAt,
-      scrapedAt: result.scrapedAt,
-      expiresAt: result.expiresAt,
-    };
   }
 
   /**
-   * Invalidate a cached scrape for a URL.
+   * List the domain policy rules checked when scrapes, crawls, site maps and
+   * monitors start.
    *
-   * Marks the cache entry as expired so it won't be returned by getCached().
-   * The entry will be cleaned up by the daily cron job.
+   * @param ctx - Convex query or mutation context
+   * @returns The allow and deny rules, oldest first
+   */
+  async listPolicyRules(
+    ctx:
+      | GenericQueryCtx<GenericDataModel>
+      | GenericMutationCtx<GenericDataModel>,
+  ): Promise<PolicyRule[]> {
+    return await ctx.runQuery(this.component.policy.listPolicyRules, {});
+  }
+
+  /**
+   * Add an allow or deny rule to the domain policy. Deny rules always win;
+   * once any allow rule exists, URLs matching no allow rule are rejected
+   * with a `policy_denied` error. The policy applies to every namespace.
    *
    * @param ctx - Convex mutation context
-   * @param url - The URL to invalidate
-   * @returns Object indicating success and number of entries invalidated
+   * @param action - "allow" or "deny"
+   * @param pattern - Hostname with * wildcards and optional path prefix
+   * @returns The rule ID (the existing one if the rule is already stored)
    *
    * @example
    * ```ts
-   * await firecrawl.invalidate(ctx, "https://example.com");
+   * await firecrawl.addPolicyRule(ctx, "allow", "*.example.com");
+   * await firecrawl.addPolicyRule(ctx, "deny", "example.com/admin");
    * ```
    */
-  async invalidate(
+  async addPolicyRule(
     ctx: GenericMutationCtx<GenericDataModel>,
-    url: string,
-  ): Promise<{ success: boolean; invalidatedCount: number }> {
-    return await ctx.runMutation(this.component.lib.invalidate, { url });
+    action: "allow" | "deny",
+    pattern: string,
+  ): Promise<{ ruleId: string }> {
+    return await ctx.runMutation(this.component.policy.addPolicyRule, {
+      action,
+      pattern,
+    });
+  }
+
+  /**
+   * Remove a domain policy rule.
+   *
+   * @param ctx - Convex mutation context
+   * @param ruleId - The rule ID
+   * @returns Whether the rule existed
+   */
+  async removePolicyRule(
+    ctx: GenericMutationCtx<GenericDataModel>,
+    ruleId: string,
+  ): Promise<{ success: boolean }> {
+    return await ctx.runMutation(this.component.policy.removePolicyRule, {
+      id: ruleId,
+    });
   }
 }
 
@@ -818,6 +2914,212 @@ export class FirecrawlScrape {
 // Helper Functions
 // ============================================================================
 
+/**
+ * Cache key options decoded from a scrape's options fingerprint, which holds
+ * each non-default option as canonical JSON. Sensitive header values are only
+ * fingerprinted as hashes, so headers cannot be decoded.
+ */
+function fingerprintOptions(
+  fingerprint: Record<string, string> | undefined,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(fingerprint ?? {})
+      .filter(([name]) => name !== "headers")
+      .map(([name, value]) => [name, JSON.parse(value)]),
+  );
+}
+
+/** Convert an extraction schema to the JSON Schema sent to Firecrawl */
+function toJsonSchema(schema: ExtractionSchema | undefined): unknown {
+  if (schema === undefined) {
+    return undefined;
+  }
+  if ("~standard" in schema) {
+    // Zod 3 and other Standard Schema libraries may lack jsonSchema
+    const standard: Partial<StandardJSONSchema["~standard"]> = (
+      schema as StandardJSONSchema
+    )["~standard"];
+    if (standard.jsonSchema === undefined) {
+      throw new Error(
+        `Extraction schema from "${standard.vendor}" cannot be converted to JSON Schema: it does not implement Standard JSON Schema. Use Zod 4.2 or later, ArkType, or Valibot through @valibot/to-json-schema, or pass a Convex validator or a JSON Schema object`,
+      );
+    }
+    return storableJsonSchema(
+      standard.jsonSchema.output({ target: "draft-07" }),
+    );
+  }
+  if (schema.isConvexValidator === true) {
+    return validatorToJsonSchema(schema as GenericValidator);
+  }
+  return storableJsonSchema(schema);
+}
+
+/**
+ * A JSON Schema Convex can store: references into `$defs` or `definitions`
+ * are inlined (recursive schemas cannot be, and throw) and the top-level
+ * `$schema` and `$id` metadata is dropped. Any other key starting with `$`,
+ * such as a property named "$price", throws, since Convex cannot store it.
+ */
+function storableJsonSchema(schema: unknown): unknown {
+  if (schema === null || typeof schema !== "object") {
+    return schema;
+  }
+  const {
+    $schema: _schema,
+    $id: _id,
+    $defs,
+    definitions,
+    ...body
+  } = schema as Record<string, unknown>;
+  const named = {
+    ...(definitions as Record<string, unknown> | undefined),
+    ...($defs as Record<string, unknown> | undefined),
+  };
+
+  const inline = (node: unknown, refs: string[]): unknown => {
+    if (Array.isArray(node)) {
+      return node.map((item) => inline(item, refs));
+    }
+    if (node === null || typeof node !== "object") {
+      return node;
+    }
+    const { $ref, ...rest } = node as Record<string, unknown>;
+    if (typeof $ref === "string") {
+      const name = /^#\/(?:\$defs|definitions)\/(.+)$/.exec($ref)?.[1];
+      if (name === undefined || !(name in named)) {
+        throw new Error(
+          `Unsupported $ref in extraction schema: ${$ref}. Recursive schemas are not supported`,
+        );
+      }
+      if (refs.includes(name)) {
+        throw new Error(
+          `Recursive extraction schemas are not supported: ${$ref}`,
+        );
+      }
+      return inline({ ...(named[name] as object), ...rest }, [...refs, name]);
+    }
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => {
+        if (key.startsWith("$")) {
+          throw new Error(
+            `Unsupported key in extraction schema: "${key}". Convex cannot store keys that start with "$"`,
+          );
+        }
+        return [key, inline(value, refs)];
+      }),
+    );
+  };
+
+  return inline(body, []);
+}
+
+function validatorToJsonSchema(
+  validator: GenericValidator,
+): Record<string, unknown> {
+  switch (validator.kind) {
+    case "id":
+    case "string":
+      return { type: "string" };
+    case "float64":
+      return { type: "number" };
+    case "int64":
+      return { type: "integer" };
+    case "boolean":
+      return { type: "boolean" };
+    case "null":
+      return { type: "null" };
+    case "any":
+      return {};
+    case "literal":
+      return {
+        const:
+          typeof validator.value === "bigint"
+            ? Number(validator.value)
+            : validator.value,
+      };
+    case "array":
+      return { type: "array", items: validatorToJsonSchema(validator.element) };
+    case "object":
+      return {
+        type: "object",
+        properties: Object.fromEntries(
+          Object.entries(validator.fields).map(([key, field]) => [
+            key,
+            validatorToJsonSchema(field),
+          ]),
+        ),
+        required: Object.entries(validator.fields)
+          .filter(([, field]) => field.isOptional === "required")
+          .map(([key]) => key),
+        additionalProperties: false,
+      };
+    case "record":
+      return {
+        type: "object",
+        additionalProperties: validatorToJsonSchema(validator.value),
+      };
+    case "union":
+      return { anyOf: validator.members.map(validatorToJsonSchema) };
+    case "bytes":
+      throw new Error("v.bytes() cannot be used in an extraction schema");
+  }
+}
+
+function toSiteMapInfo(record: SiteMapRecord): SiteMapInfo {
+  return {
+    mapId: record._id,
+    origin: record.origin,
+    status: record.status,
+    limit: record.limit,
+    includeSubdomains: record.includeSubdomains,
+    urls: record.urls,
+    urlCount: record.urlCount,
+    truncated: record.truncated,
+    error: record.error,
+    errorCode: record.errorCode,
+    startedAt: record.startedAt,
+    mappedAt: record.mappedAt,
+    expiresAt: record.expiresAt,
+  };
+}
+
+function toMonitorInfo(record: MonitorRecord): MonitorInfo {
+  return {
+    monitorId: record._id,
+    url: record.url,
+    intervalMs: record.intervalMs,
+    status: record.status,
+    nextRunAt: record.nextRunAt,
+    lastRunAt: record.lastRunAt,
+    lastJobId: record.lastJobId,
+    lastContentHash: record.lastContentHash,
+    lastChangedAt: record.lastChangedAt,
+    lastError: record.lastError,
+  };
+}
+
+// Record fields exposeApi never returns to clients: the API key hash a job is
+// rate limited under, callback function handles and cache key bookkeeping
+const INTERNAL_RECORD_FIELDS = [
+  "rateLimitKey",
+  "onComplete",
+  "onChange",
+  "optionsFingerprint",
+  "extractionSchema",
+] as const;
+
+type InternalRecordField = (typeof INTERNAL_RECORD_FIELDS)[number];
+
+function toExposedRecord<T extends object>(
+  record: T,
+): Omit<T, InternalRecordField> {
+  const exposed = { ...record } as Record<string, unknown>;
+  for (const field of INTERNAL_RECORD_FIELDS) {
+    delete exposed[field];
+  }
+  return exposed as Omit<T, InternalRecordField>;
+}
+
 // ============================================================================
 // Operation Types for exposeApi
 // ============================================================================
@@ -832,7 +3134,40 @@ export type ExposeApiOperation =
   | "getStatus"
   | "getContent"
   | "invalidate"
-  | "delete";
+  | "delete"
+  | "crawl"
+  | "getCrawl"
+  | "map"
+  | "getSiteMap"
+  | "batchScrape"
+  | "getBatch"
+  | "monitor"
+  | "getMonitor";
+
+/**
+ * What the auth callback can return instead of a bare API key.
+ */
+export interface ExposeApiAuthResult {
+  /**
+   * Firecrawl API key, or a list used as a key pool. Operations that start
+   * Firecrawl requests need this or `credential`.
+   */
+  apiKey?: string | string[];
+
+  /**
+   * ID or label of a credential stored with `setCredential()`, used instead
+   * of `apiKey` so the raw key is never passed through function arguments.
+   * A list is used as a key pool.
+   */
+  credential?: string | string[];
+
+  /**
+   * Cache namespace for the caller, e.g. their tenant ID. Scrapes, cache
+   * lookups, invalidation and deletes, and batches, crawls, site maps and
+   * monitors, only see records in this namespace.
+   */
+  namespace?: string;
+}
 
 /**
  * Options for exposeApi function.
@@ -842,13 +3177,18 @@ export interface ExposeApiOptions {
    * Authentication and authorization callback.
    *
    * Called before each operation with the Convex context and operation name.
-   * Must return the Firecrawl API key to use for scrape operations.
-   * For read-only operations (queries), the return value is ignored but the
-   * function can still throw to deny access.
+   * Returns the Firecrawl API key, or an object with the key (or the label of
+   * a stored credential) and the caller's cache namespace. The key is
+   * required for scrape operations; for
+   * read-only operations (queries) it is ignored, but the function can still
+   * throw to deny access. The namespace applies to every operation: records
+   * in another namespace are treated as not found.
    *
    * @param ctx - Convex context with auth property
    * @param operation - The operation being performed
-   * @returns The Firecrawl API key (required for "scrape" operation)
+   * @returns The Firecrawl API key or key pool (required for "scrape",
+   *   "batchScrape", "crawl", "map" and "monitor"), or `{ apiKey, namespace }`
+   *   / `{ credential, namespace }`
    * @throws Error if the user is not authorized
    *
    * @example
@@ -862,11 +3202,61 @@ export interface ExposeApiOptions {
    *   return process.env.FIRECRAWL_API_KEY!;
    * }
    * ```
+   *
+   * @example Per-tenant cache isolation
+   * ```ts
+   * auth: async (ctx, operation) => {
+   *   const identity = await ctx.auth.getUserIdentity();
+   *   if (!identity) throw new Error("Unauthorized");
+   *   return {
+   *     apiKey: process.env.FIRECRAWL_API_KEY!,
+   *     namespace: identity.tokenIdentifier,
+   *   };
+   * }
+   * ```
+   *
+   * @example Stored credential
+   * ```ts
+   * // After firecrawl.setCredential(ctx, "production", key) in an
+   * // internal mutation
+   * auth: async (ctx, operation) => {
+   *   const identity = await ctx.auth.getUserIdentity();
+   *   if (!identity) throw new Error("Unauthorized");
+   *   return { credential: "production" };
+   * }
+   * ```
+   *
+   * @example Key pool
+   * ```ts
+   * auth: async (ctx, operation) => {
+   *   const identity = await ctx.auth.getUserIdentity();
+   *   if (!identity) throw new Error("Unauthorized");
+   *   return [process.env.FIRECRAWL_KEY_A!, process.env.FIRECRAWL_KEY_B!];
+   * }
+   * ```
    */
   auth: (
     ctx: { auth: GenericQueryCtx<GenericDataModel>["auth"] },
     operation: ExposeApiOperation,
-  ) => Promise<string>;
+  ) => Promise<string | string[] | ExposeApiAuthResult>;
+
+  /**
+   * Rate limit (requests per minute) for the API key returned by `auth`.
+   * Scrape and crawl jobs are queued and released no faster than this rate.
+   * Defaults to 100 (Firecrawl Hobby tier).
+   */
+  maxRequestsPerMinute?: number;
+
+  /**
+   * Firecrawl API base URL for a self-hosted deployment or a local mock
+   * server. Defaults to CONFIG.FIRECRAWL_API_BASE.
+   */
+  apiBaseUrl?: string;
+
+  /**
+   * Header that carries the API key instead of `Authorization: Bearer`.
+   */
+  apiKeyHeader?: string;
 }
 
 // Validators for exposeApi return types
@@ -889,6 +3279,14 @@ const metadataValidatorExposed = v.object({
   ogSiteName: v.optional(v.string()),
   contentType: v.optional(v.string()),
   cacheControl: v.optional(v.string()),
+  numPages: v.optional(v.number()),
+  canonicalUrl: v.optional(v.string()),
+  favicon: v.optional(v.string()),
+  keywords: v.optional(v.array(v.string())),
+  publishedTime: v.optional(v.string()),
+  modifiedTime: v.optional(v.string()),
+  finalUrl: v.optional(v.string()),
+  originalUrl: v.optional(v.string()),
 });
 
 const scrapeFormatValidator = v.union(
@@ -907,18 +3305,276 @@ const proxyValidatorExposed = v.union(
   v.literal("auto"),
 );
 
+const cacheKeyOptionValidatorExposed = v.union(
+  v.literal("onlyMainContent"),
+  v.literal("includeTags"),
+  v.literal("excludeTags"),
+  v.literal("waitFor"),
+  v.literal("mobile"),
+  v.literal("proxy"),
+  v.literal("extractionSchema"),
+  v.literal("extractionPrompt"),
+  v.literal("actions"),
+  v.literal("headers"),
+  v.literal("location"),
+  v.literal("parsePDF"),
+);
+
+const locationValidatorExposed = v.object({
+  country: v.optional(v.string()),
+  languages: v.optional(v.array(v.string())),
+});
+
+const scrapeActionValidatorExposed = v.union(
+  v.object({
+    type: v.literal("wait"),
+    milliseconds: v.optional(v.number()),
+    selector: v.optional(v.string()),
+  }),
+  v.object({
+    type: v.literal("click"),
+    selector: v.string(),
+    all: v.optional(v.boolean()),
+  }),
+  v.object({ type: v.literal("write"), text: v.string() }),
+  v.object({ type: v.literal("press"), key: v.string() }),
+  v.object({
+    type: v.literal("scroll"),
+    direction: v.optional(v.union(v.literal("up"), v.literal("down"))),
+    selector: v.optional(v.string()),
+  }),
+  v.object({
+    type: v.literal("screenshot"),
+    fullPage: v.optional(v.boolean()),
+  }),
+);
+
+// Scrape record as returned by getCached and listCrawlPages
+const scrapeRecordValidatorExposed = v.object({
+  _id: v.string(),
+  _creationTime: v.number(),
+  url: v.string(),
+  normalizedUrl: v.string(),
+  urlHash: v.string(),
+  finalUrl: v.optional(v.string()),
+  finalUrlHash: v.optional(v.string()),
+  canonicalUrl: v.optional(v.string()),
+  canonicalUrlHash: v.optional(v.string()),
+  namespace: v.optional(v.string()),
+  status: statusValidator,
+  formats: v.array(v.string()),
+  markdown: v.optional(v.string()),
+  markdownFileId: v.optional(v.string()),
+  html: v.optional(v.string()),
+  htmlFileId: v.optional(v.string()),
+  rawHtml: v.optional(v.string()),
+  rawHtmlFileId: v.optional(v.string()),
+  summary: v.optional(v.string()),
+  links: v.optional(v.array(v.string())),
+  linksFileId: v.optional(v.string()),
+  images: v.optional(v.array(v.string())),
+  imagesFileId: v.optional(v.string()),
+  screenshotUrl: v.optional(v.string()),
+  screenshotFileId: v.optional(v.string()),
+  actions: v.optional(v.array(v.any())),
+  actionScreenshots: v.optional(v.array(v.string())),
+  sourceDocumentFileId: v.optional(v.string()),
+  headers: v.optional(v.record(v.string(), v.string())),
+  location: v.optional(locationValidatorExposed),
+  extractedJson: v.optional(v.any()),
+  extractedJsonFileId: v.optional(v.string()),
+  extractionPrompt: v.optional(v.string()),
+  contentHash: v.optional(v.string()),
+  metadata: v.optional(metadataValidatorExposed),
+  rawMetadata: v.optional(v.any()),
+  error: v.optional(v.string()),
+  errorCode: v.optional(v.union(v.number(), v.string())),
+  creditsUsed: v.optional(v.number()),
+  creditsEstimated: v.optional(v.boolean()),
+  attempts: v.optional(v.number()),
+  nextRetryAt: v.optional(v.number()),
+  keepVersions: v.optional(v.number()),
+  aliasCanonical: v.optional(v.boolean()),
+  queuedUntil: v.optional(v.number()),
+  crawlId: v.optional(v.string()),
+  monitorId: v.optional(v.string()),
+  startedAt: v.number(),
+  scrapingAt: v.optional(v.number()),
+  scrapedAt: v.optional(v.number()),
+  expiresAt: v.number(),
+  invalidatedAt: v.optional(v.number()),
+});
+
+const crawlRecordValidatorExposed = v.object({
+  _id: v.string(),
+  _creationTime: v.number(),
+  url: v.string(),
+  normalizedUrl: v.string(),
+  urlHash: v.string(),
+  namespace: v.optional(v.string()),
+  status: v.union(
+    v.literal("pending"),
+    v.literal("crawling"),
+    v.literal("completed"),
+    v.literal("failed"),
+  ),
+  formats: v.array(v.string()),
+  limit: v.number(),
+  maxDepth: v.optional(v.number()),
+  includePaths: v.optional(v.array(v.string())),
+  excludePaths: v.optional(v.array(v.string())),
+  firecrawlId: v.optional(v.string()),
+  pagesTotal: v.optional(v.number()),
+  pagesCompleted: v.optional(v.number()),
+  pagesStored: v.number(),
+  pagesFetched: v.number(),
+  error: v.optional(v.string()),
+  errorCode: v.optional(v.union(v.number(), v.string())),
+  startedAt: v.number(),
+  crawlingAt: v.optional(v.number()),
+  completedAt: v.optional(v.number()),
+  expiresAt: v.number(),
+});
+
+const batchItemValidatorExposed = v.object({
+  url: v.string(),
+  outcome: v.union(
+    v.literal("started"),
+    v.literal("cached"),
+    v.literal("in_progress"),
+    v.literal("duplicate"),
+    v.literal("failed"),
+  ),
+  jobId: v.optional(v.string()),
+  error: v.optional(v.string()),
+});
+
+const batchRecordValidatorExposed = v.object({
+  _id: v.string(),
+  _creationTime: v.number(),
+  items: v.array(batchItemValidatorExposed),
+  jobIds: v.array(v.string()),
+  namespace: v.optional(v.string()),
+  startedAt: v.number(),
+  expiresAt: v.number(),
+});
+
+const siteMapRecordValidatorExposed = v.object({
+  _id: v.string(),
+  _creationTime: v.number(),
+  origin: v.string(),
+  originHash: v.string(),
+  namespace: v.optional(v.string()),
+  status: v.union(
+    v.literal("pending"),
+    v.literal("mapping"),
+    v.literal("completed"),
+    v.literal("failed"),
+  ),
+  limit: v.number(),
+  includeSubdomains: v.boolean(),
+  urls: v.optional(v.array(v.string())),
+  urlCount: v.optional(v.number()),
+  truncated: v.optional(v.boolean()),
+  error: v.optional(v.string()),
+  errorCode: v.optional(v.union(v.number(), v.string())),
+  startedAt: v.number(),
+  mappedAt: v.optional(v.number()),
+  expiresAt: v.number(),
+});
+
+const mapOptionsValidatorExposed = v.object({
+  limit: v.optional(v.number()),
+  includeSubdomains: v.optional(v.boolean()),
+  ttlMs: v.optional(v.number()),
+  force: v.optional(v.boolean()),
+});
+
+const crawlOptionsValidatorExposed = v.object({
+  limit: v.optional(v.number()),
+  maxDepth: v.optional(v.number()),
+  includePaths: v.optional(v.array(v.string())),
+  excludePaths: v.optional(v.array(v.string())),
+  formats: v.optional(v.array(scrapeFormatValidator)),
+  ttlMs: v.optional(v.number()),
+  onlyMainContent: v.optional(v.boolean()),
+  includeTags: v.optional(v.array(v.string())),
+  excludeTags: v.optional(v.array(v.string())),
+  waitFor: v.optional(v.number()),
+  mobile: v.optional(v.boolean()),
+  proxy: v.optional(proxyValidatorExposed),
+  storeScreenshot: v.optional(v.boolean()),
+});
+
 const scrapeOptionsValidatorExposed = v.object({
   formats: v.optional(v.array(scrapeFormatValidator)),
   extractionSchema: v.optional(v.any()),
+  extractionPrompt: v.optional(v.string()),
   ttlMs: v.optional(v.number()),
   force: v.optional(v.boolean()),
   onlyMainContent: v.optional(v.boolean()),
   includeTags: v.optional(v.array(v.string())),
   excludeTags: v.optional(v.array(v.string())),
   waitFor: v.optional(v.number()),
+  actions: v.optional(v.array(scrapeActionValidatorExposed)),
+  headers: v.optional(v.record(v.string(), v.string())),
+  location: v.optional(locationValidatorExposed),
+  timeout: v.optional(v.number()),
+  parsePDF: v.optional(v.boolean()),
+  storeSourceDocument: v.optional(v.boolean()),
   mobile: v.optional(v.boolean()),
   proxy: v.optional(proxyValidatorExposed),
   storeScreenshot: v.optional(v.boolean()),
+  resolveDns: v.optional(v.boolean()),
+  maxRetries: v.optional(v.number()),
+  retryBaseDelayMs: v.optional(v.number()),
+  keepVersions: v.optional(v.number()),
+  aliasCanonical: v.optional(v.boolean()),
+  ignoreOptions: v.optional(v.array(cacheKeyOptionValidatorExposed)),
+});
+
+const cacheMatchOptionsValidatorExposed = scrapeOptionsValidatorExposed.pick(
+  "onlyMainContent",
+  "includeTags",
+  "excludeTags",
+  "waitFor",
+  "mobile",
+  "proxy",
+  "extractionSchema",
+  "extractionPrompt",
+  "actions",
+  "headers",
+  "location",
+  "parsePDF",
+  "ignoreOptions",
+);
+
+const monitorRecordValidatorExposed = v.object({
+  _id: v.string(),
+  _creationTime: v.number(),
+  url: v.string(),
+  normalizedUrl: v.string(),
+  urlHash: v.string(),
+  namespace: v.optional(v.string()),
+  intervalMs: v.number(),
+  options: v.optional(scrapeOptionsValidatorExposed),
+  apiBaseUrl: v.optional(v.string()),
+  apiKeyHeader: v.optional(v.string()),
+  credentialId: v.optional(v.union(v.string(), v.array(v.string()))),
+  maxRequestsPerMinute: v.optional(v.number()),
+  status: v.union(v.literal("active"), v.literal("paused")),
+  nextRunAt: v.number(),
+  lastRunAt: v.optional(v.number()),
+  lastJobId: v.optional(v.string()),
+  lastContentHash: v.optional(v.string()),
+  lastChangedAt: v.optional(v.number()),
+  lastError: v.optional(v.string()),
+});
+
+const contentVersionValidatorExposed = v.object({
+  jobId: v.string(),
+  scrapedAt: v.number(),
+  contentHash: v.optional(v.string()),
 });
 
 /**
@@ -1018,6 +3674,38 @@ const scrapeOptionsValidatorExposed = v.object({
  * ```
  */
 export function exposeApi(component: ComponentApi, options: ExposeApiOptions) {
+  type AuthCtx = Parameters<ExposeApiOptions["auth"]>[0];
+
+  // Anything but a plain object returned by auth is the API key or key pool
+  // (queries may return nothing)
+  const authorize = async (
+    ctx: AuthCtx,
+    operation: ExposeApiOperation,
+  ): Promise<ExposeApiAuthResult> => {
+    const result = await options.auth(ctx, operation);
+    return typeof result === "object" &&
+      result !== null &&
+      !Array.isArray(result)
+      ? result
+      : { apiKey: result };
+  };
+
+  const authorizeWithKey = async (
+    ctx: AuthCtx,
+    operation: ExposeApiOperation,
+  ): Promise<{ key: FirecrawlKeyInput; namespace?: string }> => {
+    const { apiKey, credential, namespace } = await authorize(ctx, operation);
+    if (credential) {
+      return { key: { credential }, namespace };
+    }
+    if (!apiKey) {
+      throw new Error(
+        `auth must return an API key or credential for "${operation}"`,
+      );
+    }
+    return { key: { apiKey }, namespace };
+  };
+
   return {
     /**
      * Start a scrape job for a URL.
@@ -1032,11 +3720,41 @@ export function exposeApi(component: ComponentApi, options: ExposeApiOptions) {
       },
       returns: v.object({ jobId: v.string() }),
       handler: async (ctx, args) => {
-        const apiKey = await options.auth(ctx, "scrape");
+        const { key, namespace } = await authorizeWithKey(ctx, "scrape");
         return await ctx.runMutation(component.lib.startScrape, {
           url: args.url,
-          apiKey,
+          ...key,
+          namespace,
+          apiBaseUrl: options.apiBaseUrl,
+          apiKeyHeader: options.apiKeyHeader,
+          options: args.options,
+          maxRequestsPerMinute: options.maxRequestsPerMinute,
+        });
+      },
+    }),
+
+    /**
+     * Refresh a URL in the background, e.g. after getCached returned stale
+     * content. Reuses an in-progress job for the URL instead of throwing.
+     *
+     * Authorized as a "scrape" operation.
+     */
+    revalidate: mutationGeneric({
+      args: {
+        url: v.string(),
+        options: v.optional(scrapeOptionsValidatorExposed),
+      },
+      returns: v.object({ jobId: v.string(), started: v.boolean() }),
+      handler: async (ctx, args) => {
+        const { key, namespace } = await authorizeWithKey(ctx, "scrape");
+        return await ctx.runMutation(component.lib.revalidate, {
+          url: args.url,
+          ...key,
+          namespace,
+          apiBaseUrl: options.apiBaseUrl,
+          apiKeyHeader: options.apiKeyHeader,
           options: args.options,
+          maxRequestsPerMinute: options.maxRequestsPerMinute,
         });
       },
     }),
@@ -1048,49 +3766,84 @@ export function exposeApi(component: ComponentApi, options: ExposeApiOptions) {
      * all requested formats (superset check). For example, a cache entry
      * with ["markdown", "screenshot"] will satisfy a request for ["markdown"].
      *
+     * Pass `staleWhileRevalidateMs` to also receive recently expired
+     * content, marked `stale: true`; call `revalidate` to refresh it.
+     *
      * @param url - The URL to look up
      * @param formats - Optional formats to require (defaults to ["markdown"])
+     * @param staleWhileRevalidateMs - Optional stale window in milliseconds
+     * @param options - Cache key options the entry must have been scraped
+     *   with, and `ignoreOptions`
      */
     getCached: queryGeneric({
       args: {
         url: v.string(),
         formats: v.optional(v.array(scrapeFormatValidator)),
+        staleWhileRevalidateMs: v.optional(v.number()),
+        options: v.optional(cacheMatchOptionsValidatorExposed),
+      },
+      returns: v.union(
+        v.null(),
+        scrapeRecordValidatorExposed.extend({
+          stale: v.optional(v.boolean()),
+        }),
+      ),
+      handler: async (ctx, args) => {
+        const { namespace } = await authorize(ctx, "getCached");
+        const cached = await ctx.runQuery(component.lib.getCached, {
+          ...args,
+          namespace,
+        });
+        return cached ? toExposedRecord(cached) : null;
+      },
+    }),
+
+    /**
+     * Compare the two latest completed versions of a URL scraped with the
+     * given cache key options.
+     *
+     * Authorized as a "getCached" operation.
+     */
+    getChanges: queryGeneric({
+      args: {
+        url: v.string(),
+        options: v.optional(cacheMatchOptionsValidatorExposed),
       },
       returns: v.union(
         v.null(),
         v.object({
-          _id: v.string(),
-          _creationTime: v.number(),
-          url: v.string(),
-          normalizedUrl: v.string(),
-          urlHash: v.string(),
-          status: statusValidator,
-          formats: v.array(v.string()),
-          markdown: v.optional(v.string()),
-          markdownFileId: v.optional(v.string()),
-          html: v.optional(v.string()),
-          htmlFileId: v.optional(v.string()),
-          rawHtml: v.optional(v.string()),
-          rawHtmlFileId: v.optional(v.string()),
-          summary: v.optional(v.string()),
-          links: v.optional(v.array(v.string())),
-          images: v.optional(v.array(v.string())),
-          screenshotUrl: v.optional(v.string()),
-          screenshotFileId: v.optional(v.string()),
-          extractedJson: v.optional(v.any()),
-          extractionSchema: v.optional(v.any()),
-          metadata: v.optional(metadataValidatorExposed),
-          error: v.optional(v.string()),
-          errorCode: v.optional(v.union(v.number(), v.string())),
-          startedAt: v.number(),
-          scrapingAt: v.optional(v.number()),
-          scrapedAt: v.optional(v.number()),
-          expiresAt: v.number(),
+          latest: contentVersionValidatorExposed,
+          previous: v.union(v.null(), contentVersionValidatorExposed),
+          changed: v.boolean(),
+          diff: v.union(v.null(), v.string()),
+          linesAdded: v.optional(v.number()),
+          linesRemoved: v.optional(v.number()),
         }),
       ),
       handler: async (ctx, args) => {
-        await options.auth(ctx, "getCached");
-        return await ctx.runQuery(component.lib.getCached, args);
+        const { namespace } = await authorize(ctx, "getCached");
+        return await ctx.runQuery(component.lib.getChanges, {
+          ...args,
+          namespace,
+        });
+      },
+    }),
+
+    /**
+     * List the URLs known to serve the same page as a URL.
+     */
+    getAliases: queryGeneric({
+      args: { url: v.string() },
+      returns: v.object({
+        canonicalUrl: v.union(v.null(), v.string()),
+        aliases: v.array(v.string()),
+      }),
+      handler: async (ctx, args) => {
+        const { namespace } = await authorize(ctx, "getCached");
+        return await ctx.runQuery(component.lib.getAliases, {
+          ...args,
+          namespace,
+        });
       },
     }),
 
@@ -1105,6 +3858,10 @@ export function exposeApi(component: ComponentApi, options: ExposeApiOptions) {
           status: statusValidator,
           error: v.optional(v.string()),
           errorCode: v.optional(v.union(v.number(), v.string())),
+          attempts: v.optional(v.number()),
+          nextRetryAt: v.optional(v.number()),
+          queuedUntil: v.optional(v.number()),
+          queueDepth: v.optional(v.number()),
           startedAt: v.number(),
           scrapingAt: v.optional(v.number()),
           scrapedAt: v.optional(v.number()),
@@ -1112,8 +3869,11 @@ export function exposeApi(component: ComponentApi, options: ExposeApiOptions) {
         }),
       ),
       handler: async (ctx, args) => {
-        await options.auth(ctx, "getStatus");
-        return await ctx.runQuery(component.lib.getStatus, { id: args.id });
+        const { namespace } = await authorize(ctx, "getStatus");
+        return await ctx.runQuery(component.lib.getStatus, {
+          id: args.id,
+          namespace,
+        });
       },
     }),
 
@@ -1130,6 +3890,7 @@ export function exposeApi(component: ComponentApi, options: ExposeApiOptions) {
         v.object({
           url: v.string(),
           normalizedUrl: v.string(),
+          finalUrl: v.optional(v.string()),
           status: statusValidator,
           formats: v.array(v.string()),
           markdown: v.optional(v.string()),
@@ -1139,12 +3900,15 @@ export function exposeApi(component: ComponentApi, options: ExposeApiOptions) {
           links: v.optional(v.array(v.string())),
           images: v.optional(v.array(v.string())),
           screenshotUrl: v.optional(v.string()),
+          actionScreenshots: v.optional(v.array(v.string())),
           extractedJson: v.optional(v.any()),
           markdownFileUrl: v.optional(v.union(v.string(), v.null())),
           htmlFileUrl: v.optional(v.union(v.string(), v.null())),
           rawHtmlFileUrl: v.optional(v.union(v.string(), v.null())),
           screenshotFileUrl: v.optional(v.union(v.string(), v.null())),
+          sourceDocumentFileUrl: v.optional(v.union(v.string(), v.null())),
           metadata: v.optional(metadataValidatorExposed),
+          rawMetadata: v.optional(v.any()),
           error: v.optional(v.string()),
           errorCode: v.optional(v.union(v.number(), v.string())),
           startedAt: v.number(),
@@ -1154,8 +3918,11 @@ export function exposeApi(component: ComponentApi, options: ExposeApiOptions) {
         }),
       ),
       handler: async (ctx, args) => {
-        await options.auth(ctx, "getContent");
-        return await ctx.runQuery(component.lib.getContent, { id: args.id });
+        const { namespace } = await authorize(ctx, "getContent");
+        return await ctx.runQuery(component.lib.getContent, {
+          id: args.id,
+          namespace,
+        });
       },
     }),
 
@@ -1172,8 +3939,11 @@ export function exposeApi(component: ComponentApi, options: ExposeApiOptions) {
         invalidatedCount: v.number(),
       }),
       handler: async (ctx, args) => {
-        await options.auth(ctx, "invalidate");
-        return await ctx.runMutation(component.lib.invalidate, args);
+        const { namespace } = await authorize(ctx, "invalidate");
+        return await ctx.runMutation(component.lib.invalidate, {
+          ...args,
+          namespace,
+        });
       },
     }),
 
@@ -1190,10 +3960,367 @@ export function exposeApi(component: ComponentApi, options: ExposeApiOptions) {
         deletedFileCount: v.number(),
       }),
       handler: async (ctx, args) => {
-        await options.auth(ctx, "delete");
+        const { namespace } = await authorize(ctx, "delete");
         return await ctx.runMutation(component.lib.deleteScrape, {
           id: args.id,
+          namespace,
+        });
+      },
+    }),
+
+    /**
+     * Start scrape jobs for many URLs as one batch.
+     *
+     * Returns the batch ID and per-URL outcomes; subscribe to
+     * `getBatchProgress` for aggregate status.
+     */
+    batchScrape: mutationGeneric({
+      args: {
+        urls: v.array(v.string()),
+        options: v.optional(scrapeOptionsValidatorExposed),
+      },
+      returns: v.object({
+        batchId: v.string(),
+        items: v.array(batchItemValidatorExposed),
+      }),
+      handler: async (ctx, args) => {
+        const { key, namespace } = await authorizeWithKey(ctx, "batchScrape");
+        return await ctx.runMutation(component.batch.startBatchScrape, {
+          urls: args.urls,
+          ...key,
+          namespace,
+          apiBaseUrl: options.apiBaseUrl,
+          apiKeyHeader: options.apiKeyHeader,
+          options: args.options,
+          maxRequestsPerMinute: options.maxRequestsPerMinute,
+        });
+      },
+    }),
+
+    /**
+     * Get a batch and its per-URL outcomes.
+     */
+    getBatch: queryGeneric({
+      args: { id: v.string() },
+      returns: v.union(v.null(), batchRecordValidatorExposed),
+      handler: async (ctx, args) => {
+        const { namespace } = await authorize(ctx, "getBatch");
+        return await ctx.runQuery(component.batch.getBatch, {
+          id: args.id,
+          namespace,
+        });
+      },
+    }),
+
+    /**
+     * Get job counts per status for a batch.
+     *
+     * Authorized as a "getBatch" operation.
+     */
+    getBatchProgress: queryGeneric({
+      args: { id: v.string() },
+      returns: v.union(
+        v.null(),
+        v.object({
+          total: v.number(),
+          pending: v.number(),
+          scraping: v.number(),
+          completed: v.number(),
+          failed: v.number(),
+          done: v.boolean(),
+        }),
+      ),
+      handler: async (ctx, args) => {
+        const { namespace } = await authorize(ctx, "getBatch");
+        return await ctx.runQuery(component.batch.getBatchProgress, {
+          id: args.id,
+          namespace,
+        });
+      },
+    }),
+
+    /**
+     * Discover the URLs on a site, cached per origin.
+     *
+     * Returns immediately with a site map ID; subscribe to `getSiteMap`
+     * for the result.
+     */
+    mapSite: mutationGeneric({
+      args: {
+        url: v.string(),
+        options: v.optional(mapOptionsValidatorExposed),
+      },
+      returns: v.object({ mapId: v.string(), started: v.boolean() }),
+      handler: async (ctx, args) => {
+        const { key, namespace } = await authorizeWithKey(ctx, "map");
+        return await ctx.runMutation(component.map.mapSite, {
+          url: args.url,
+          ...key,
+          namespace,
+          apiBaseUrl: options.apiBaseUrl,
+          apiKeyHeader: options.apiKeyHeader,
+          options: args.options,
+          maxRequestsPerMinute: options.maxRequestsPerMinute,
+        });
+      },
+    }),
+
+    /**
+     * Get a site map by ID.
+     */
+    getSiteMap: queryGeneric({
+      args: { id: v.string() },
+      returns: v.union(v.null(), siteMapRecordValidatorExposed),
+      handler: async (ctx, args) => {
+        const { namespace } = await authorize(ctx, "getSiteMap");
+        const siteMap = await ctx.runQuery(component.map.getSiteMap, {
+          id: args.id,
+          namespace,
+        });
+        return siteMap ? toExposedRecord(siteMap) : null;
+      },
+    }),
+
+    /**
+     * Get the valid cached site map for a URL's origin.
+     *
+     * Authorized as a "getSiteMap" operation.
+     */
+    getCachedSiteMap: queryGeneric({
+      args: { url: v.string(), includeSubdomains: v.optional(v.boolean()) },
+      returns: v.union(v.null(), siteMapRecordValidatorExposed),
+      handler: async (ctx, args) => {
+        const { namespace } = await authorize(ctx, "getSiteMap");
+        const siteMap = await ctx.runQuery(component.map.getCachedSiteMap, {
+          ...args,
+          namespace,
+        });
+        return siteMap ? toExposedRecord(siteMap) : null;
+      },
+    }),
+
+    /**
+     * Start scrape jobs for a batch of site map URLs.
+     *
+     * Call again with `nextOffset` until it is null. Authorized as a
+     * "scrape" operation.
+     */
+    scrapeSiteMap: mutationGeneric({
+      args: {
+        mapId: v.string(),
+        options: v.optional(scrapeOptionsValidatorExposed),
+        offset: v.optional(v.number()),
+        limit: v.optional(v.number()),
+      },
+      returns: v.object({
+        jobs: v.array(
+          v.object({
+            url: v.string(),
+            jobId: v.string(),
+            started: v.boolean(),
+          }),
+        ),
+        failed: v.array(v.object({ url: v.string(), error: v.string() })),
+        nextOffset: v.union(v.null(), v.number()),
+      }),
+      handler: async (ctx, args) => {
+        const { key, namespace } = await authorizeWithKey(ctx, "scrape");
+        return await ctx.runMutation(component.map.scrapeSiteMap, {
+          ...args,
+          ...key,
+          namespace,
+          apiBaseUrl: options.apiBaseUrl,
+          apiKeyHeader: options.apiKeyHeader,
+          maxRequestsPerMinute: options.maxRequestsPerMinute,
+        });
+      },
+    }),
+
+    /**
+     * Start a multi-page crawl from a URL.
+     *
+     * Returns immediately with a crawl ID. Use `getCrawl` to follow
+     * progress and `listCrawlPages` to read the pages.
+     */
+    crawl: mutationGeneric({
+      args: {
+        url: v.string(),
+        options: v.optional(crawlOptionsValidatorExposed),
+      },
+      returns: v.object({ crawlId: v.string() }),
+      handler: async (ctx, args) => {
+        const { key, namespace } = await authorizeWithKey(ctx, "crawl");
+        return await ctx.runMutation(component.crawl.startCrawl, {
+          url: args.url,
+          ...key,
+          namespace,
+          apiBaseUrl: options.apiBaseUrl,
+          apiKeyHeader: options.apiKeyHeader,
+          options: args.options,
+          maxRequestsPerMinute: options.maxRequestsPerMinute,
+        });
+      },
+    }),
+
+    /**
+     * Get the status and progress of a crawl job.
+     */
+    getCrawl: queryGeneric({
+      args: { id: v.string() },
+      returns: v.union(v.null(), crawlRecordValidatorExposed),
+      handler: async (ctx, args) => {
+        const { namespace } = await authorize(ctx, "getCrawl");
+        const crawl = await ctx.runQuery(component.crawl.getCrawl, {
+          id: args.id,
+          namespace,
+        });
+        return crawl ? toExposedRecord(crawl) : null;
+      },
+    }),
+
+    /**
+     * List the pages stored for a crawl, with pagination.
+     *
+     * Authorized as a "getCrawl" operation.
+     */
+    listCrawlPages: queryGeneric({
+      args: {
+        crawlId: v.string(),
+        limit: v.optional(v.number()),
+        cursor: v.optional(v.string()),
+      },
+      returns: v.object({
+        pages: v.array(scrapeRecordValidatorExposed),
+        nextCursor: v.union(v.null(), v.string()),
+        hasMore: v.boolean(),
+      }),
+      handler: async (ctx, args) => {
+        const { namespace } = await authorize(ctx, "getCrawl");
+        const result = await ctx.runQuery(component.crawl.listCrawlPages, {
+          ...args,
+          namespace,
+        });
+        return { ...result, pages: result.pages.map(toExposedRecord) };
+      },
+    }),
+
+    /**
+     * Create a monitor that re-scrapes a URL on an interval.
+     *
+     * The API key returned by auth is stored for the monitor and used for
+     * every run. Change callbacks can only be set from server code.
+     */
+    createMonitor: mutationGeneric({
+      args: {
+        url: v.string(),
+        intervalMs: v.number(),
+        options: v.optional(scrapeOptionsValidatorExposed),
+      },
+      returns: v.object({ monitorId: v.string() }),
+      handler: async (ctx, args) => {
+        const { key, namespace } = await authorizeWithKey(ctx, "monitor");
+        return await ctx.runMutation(component.monitor.createMonitor, {
+          url: args.url,
+          intervalMs: args.intervalMs,
+          ...key,
+          namespace,
+          apiBaseUrl: options.apiBaseUrl,
+          apiKeyHeader: options.apiKeyHeader,
+          options: args.options,
+          maxRequestsPerMinute: options.maxRequestsPerMinute,
+        });
+      },
+    }),
+
+    /**
+     * Pause a monitor.
+     *
+     * Authorized as a "monitor" operation.
+     */
+    pauseMonitor: mutationGeneric({
+      args: { id: v.string() },
+      returns: v.object({ success: v.boolean() }),
+      handler: async (ctx, args) => {
+        const { namespace } = await authorize(ctx, "monitor");
+        return await ctx.runMutation(component.monitor.pauseMonitor, {
+          id: args.id,
+          namespace,
+        });
+      },
+    }),
+
+    /**
+     * Resume a paused monitor.
+     *
+     * Authorized as a "monitor" operation.
+     */
+    resumeMonitor: mutationGeneric({
+      args: { id: v.string() },
+      returns: v.object({ success: v.boolean() }),
+      handler: async (ctx, args) => {
+        const { namespace } = await authorize(ctx, "monitor");
+        return await ctx.runMutation(component.monitor.resumeMonitor, {
+          id: args.id,
+          namespace,
+        });
+      },
+    }),
+
+    /**
+     * Delete a monitor.
+     *
+     * Authorized as a "monitor" operation.
+     */
+    deleteMonitor: mutationGeneric({
+      args: { id: v.string() },
+      returns: v.object({ success: v.boolean() }),
+      handler: async (ctx, args) => {
+        const { namespace } = await authorize(ctx, "monitor");
+        return await ctx.runMutation(component.monitor.deleteMonitor, {
+          id: args.id,
+          namespace,
+        });
+      },
+    }),
+
+    /**
+     * Get a monitor and its last run.
+     */
+    getMonitor: queryGeneric({
+      args: { id: v.string() },
+      returns: v.union(v.null(), monitorRecordValidatorExposed),
+      handler: async (ctx, args) => {
+        const { namespace } = await authorize(ctx, "getMonitor");
+        const monitor = await ctx.runQuery(component.monitor.getMonitor, {
+          id: args.id,
+          namespace,
+        });
+        return monitor ? toExposedRecord(monitor) : null;
+      },
+    }),
+
+    /**
+     * List monitors with pagination.
+     *
+     * Authorized as a "getMonitor" operation.
+     */
+    listMonitors: queryGeneric({
+      args: {
+        limit: v.optional(v.number()),
+        cursor: v.optional(v.string()),
+      },
+      returns: v.object({
+        monitors: v.array(monitorRecordValidatorExposed),
+        nextCursor: v.union(v.null(), v.string()),
+        hasMore: v.boolean(),
+      }),
+      handler: async (ctx, args) => {
+        const { namespace } = await authorize(ctx, "getMonitor");
+        const result = await ctx.runQuery(component.monitor.listMonitors, {
+          ...args,
+          namespace,
         });
+        return { ...result, monitors: result.monitors.map(toExposedRecord) };
       },
     }),
   };
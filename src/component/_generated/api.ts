@@ -8,10 +8,23 @@
  * @module
  */
 
+import type * as batch from "../batch.js";
 import type * as config from "../config.js";
+import type * as crawl from "../crawl.js";
+import type * as credentials from "../credentials.js";
 import type * as crons from "../crons.js";
+import type * as diff from "../diff.js";
+import type * as extraction from "../extraction.js";
+import type * as firecrawl from "../firecrawl.js";
+import type * as jobs from "../jobs.js";
 import type * as lib from "../lib.js";
+import type * as map from "../map.js";
+import type * as monitor from "../monitor.js";
+import type * as options from "../options.js";
+import type * as policy from "../policy.js";
 import type * as url from "../url.js";
+import type * as usage from "../usage.js";
+import type * as validators from "../validators.js";
 
 import type {
   ApiFromModules,
@@ -21,10 +34,23 @@ import type {
 import { anyApi, componentsGeneric } from "convex/server";
 
 const fullApi: ApiFromModules<{
+  batch: typeof batch;
   config: typeof config;
+  crawl: typeof crawl;
+  credentials: typeof credentials;
   crons: typeof crons;
+  diff: typeof diff;
+  extraction: typeof extraction;
+  firecrawl: typeof firecrawl;
+  jobs: typeof jobs;
   lib: typeof lib;
+  map: typeof map;
+  monitor: typeof monitor;
+  options: typeof options;
+  policy: typeof policy;
   url: typeof url;
+  usage: typeof usage;
+  validators: typeof validators;
 }> = anyApi as any;
 
 /**
@@ -23,56 +23,413 @@ import type { FunctionReference } from "convex/server";
  */
 export type ComponentApi<Name extends string | undefined = string | undefined> =
   {
+    batch: {
+      getBatch: FunctionReference<
+        "query",
+        "internal",
+        { id: string; namespace?: string },
+        null | {
+          _creationTime: number;
+          _id: string;
+          expiresAt: number;
+          items: Array<{
+            error?: string;
+            jobId?: string;
+            outcome:
+              | "started"
+              | "cached"
+              | "in_progress"
+              | "duplicate"
+              | "failed";
+            url: string;
+          }>;
+          jobIds: Array<string>;
+          namespace?: string;
+          startedAt: number;
+        },
+        Name
+      >;
+      getBatchProgress: FunctionReference<
+        "query",
+        "internal",
+        { id: string; namespace?: string },
+        null | {
+          completed: number;
+          done: boolean;
+          failed: number;
+          pending: number;
+          scraping: number;
+          total: number;
+        },
+        Name
+      >;
+      startBatchScrape: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          apiBaseUrl?: string;
+          apiKey?: string | Array<string>;
+          apiKeyHeader?: string;
+          credential?: string | Array<string>;
+          maxRequestsPerMinute?: number;
+          namespace?: string;
+          options?: {
+            actions?: Array<
+              | { milliseconds?: number; selector?: string; type: "wait" }
+              | { all?: boolean; selector: string; type: "click" }
+              | { text: string; type: "write" }
+              | { key: string; type: "press" }
+              | { direction?: "up" | "down"; selector?: string; type: "scroll" }
+              | { fullPage?: boolean; type: "screenshot" }
+            >;
+            aliasCanonical?: boolean;
+            excludeTags?: Array<string>;
+            extractionPrompt?: string;
+            extractionSchema?: any;
+            force?: boolean;
+            formats?: Array<
+              | "markdown"
+              | "html"
+              | "rawHtml"
+              | "links"
+              | "images"
+              | "summary"
+              | "screenshot"
+            >;
+            headers?: Record<string, string>;
+            ignoreOptions?: Array<
+              | "onlyMainContent"
+              | "includeTags"
+              | "excludeTags"
+              | "waitFor"
+              | "mobile"
+              | "proxy"
+              | "extractionSchema"
+              | "extractionPrompt"
+              | "actions"
+              | "headers"
+              | "location"
+              | "parsePDF"
+            >;
+            includeTags?: Array<string>;
+            keepVersions?: number;
+            location?: { country?: string; languages?: Array<string> };
+            maxRetries?: number;
+            mobile?: boolean;
+            onComplete?: string;
+            onlyMainContent?: boolean;
+            parsePDF?: boolean;
+            proxy?: "basic" | "stealth" | "auto";
+            resolveDns?: boolean;
+            retryBaseDelayMs?: number;
+            storeScreenshot?: boolean;
+            storeSourceDocument?: boolean;
+            timeout?: number;
+            ttlMs?: number;
+            waitFor?: number;
+          };
+          urls: Array<string>;
+        },
+        {
+          batchId: string;
+          items: Array<{
+            error?: string;
+            jobId?: string;
+            outcome:
+              | "started"
+              | "cached"
+              | "in_progress"
+              | "duplicate"
+              | "failed";
+            url: string;
+          }>;
+        },
+        Name
+      >;
+    };
+    crawl: {
+      getCrawl: FunctionReference<
+        "query",
+        "internal",
+        { id: string; namespace?: string },
+        null | {
+          _creationTime: number;
+          _id: string;
+          completedAt?: number;
+          crawlingAt?: number;
+          error?: string;
+          errorCode?: number | string;
+          excludePaths?: Array<string>;
+          expiresAt: number;
+          firecrawlId?: string;
+          formats: Array<string>;
+          includePaths?: Array<string>;
+          limit: number;
+          maxDepth?: number;
+          namespace?: string;
+          normalizedUrl: string;
+          optionsFingerprint?: Record<string, string>;
+          pagesCompleted?: number;
+          pagesFetched: number;
+          pagesStored: number;
+          pagesTotal?: number;
+          rateLimitKey?: string;
+          startedAt: number;
+          status: "pending" | "crawling" | "completed" | "failed";
+          url: string;
+          urlHash: string;
+        },
+        Name
+      >;
+      listCrawlPages: FunctionReference<
+        "query",
+        "internal",
+        {
+          crawlId: string;
+          cursor?: string;
+          limit?: number;
+          namespace?: string;
+        },
+        {
+          hasMore: boolean;
+          nextCursor: null | string;
+          pages: Array<{
+            _creationTime: number;
+            _id: string;
+            actionScreenshots?: Array<string>;
+            actions?: Array<any>;
+            aliasCanonical?: boolean;
+            attempts?: number;
+            canonicalUrl?: string;
+            canonicalUrlHash?: string;
+            contentHash?: string;
+            crawlId?: string;
+            creditsEstimated?: boolean;
+            creditsUsed?: number;
+            error?: string;
+            errorCode?: number | string;
+            expiresAt: number;
+            extractedJson?: any;
+            extractedJsonFileId?: string;
+            extractionPrompt?: string;
+            extractionSchema?: any;
+            finalUrl?: string;
+            finalUrlHash?: string;
+            formats: Array<string>;
+            headers?: Record<string, string>;
+            html?: string;
+            htmlFileId?: string;
+            images?: Array<string>;
+            imagesFileId?: string;
+            invalidatedAt?: number;
+            keepVersions?: number;
+            links?: Array<string>;
+            linksFileId?: string;
+            location?: { country?: string; languages?: Array<string> };
+            markdown?: string;
+            markdownFileId?: string;
+            metadata?: {
+              cacheControl?: string;
+              canonicalUrl?: string;
+              contentType?: string;
+              description?: string;
+              favicon?: string;
+              finalUrl?: string;
+              keywords?: Array<string>;
+              language?: string;
+              modifiedTime?: string;
+              numPages?: number;
+              ogDescription?: string;
+              ogImage?: string;
+              ogSiteName?: string;
+              ogTitle?: string;
+              originalUrl?: string;
+              publishedTime?: string;
+              sourceURL?: string;
+              statusCode?: number;
+              title?: string;
+            };
+            normalizedUrl: string;
+            monitorId?: string;
+            namespace?: string;
+            nextRetryAt?: number;
+            onComplete?: string;
+            optionsFingerprint?: Record<string, string>;
+            queuedUntil?: number;
+            rateLimitKey?: string;
+            rawHtml?: string;
+            rawHtmlFileId?: string;
+            rawMetadata?: any;
+            scrapedAt?: number;
+            scrapingAt?: number;
+            screenshotFileId?: string;
+            screenshotUrl?: string;
+            sourceDocumentFileId?: string;
+            startedAt: number;
+            status: "pending" | "scraping" | "completed" | "failed";
+            summary?: string;
+            url: string;
+            urlHash: string;
+          }>;
+        },
+        Name
+      >;
+      startCrawl: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          apiBaseUrl?: string;
+          apiKey?: string | Array<string>;
+          apiKeyHeader?: string;
+          credential?: string | Array<string>;
+          maxRequestsPerMinute?: number;
+          namespace?: string;
+          options?: {
+            excludePaths?: Array<string>;
+            excludeTags?: Array<string>;
+            formats?: Array<
+              | "markdown"
+              | "html"
+              | "rawHtml"
+              | "links"
+              | "images"
+              | "summary"
+              | "screenshot"
+            >;
+            includePaths?: Array<string>;
+            includeTags?: Array<string>;
+            limit?: number;
+            maxDepth?: number;
+            mobile?: boolean;
+            onlyMainContent?: boolean;
+            proxy?: "basic" | "stealth" | "auto";
+            storeScreenshot?: boolean;
+            ttlMs?: number;
+            waitFor?: number;
+          };
+          url: string;
+        },
+        { crawlId: string },
+        Name
+      >;
+    };
+    credentials: {
+      getKeyHealth: FunctionReference<
+        "query",
+        "internal",
+        {},
+        Array<{
+          cooldownUntil?: number;
+          coolingDown: boolean;
+          failures: number;
+          keyHash: string;
+          label?: string;
+          lastErrorStatus?: number;
+          lastFailureAt?: number;
+          lastUsedAt: number;
+          requests: number;
+        }>,
+        Name
+      >;
+      rotateCredential: FunctionReference<
+        "mutation",
+        "internal",
+        { apiKey: string; credential: string },
+        { credentialId: string },
+        Name
+      >;
+      setCredential: FunctionReference<
+        "mutation",
+        "internal",
+        { apiKey: string; label: string },
+        { credentialId: string },
+        Name
+      >;
+    };
     lib: {
       deleteScrape: FunctionReference<
         "mutation",
         "internal",
-        { id: string },
+        { id: string; namespace?: string },
         { deletedFileCount: number; success: boolean },
         Name
       >;
       get: FunctionReference<
         "query",
         "internal",
-        { id: string },
+        { id: string; namespace?: string },
         null | {
           _creationTime: number;
           _id: string;
+          actionScreenshots?: Array<string>;
+          actions?: Array<any>;
+          aliasCanonical?: boolean;
+          attempts?: number;
+          canonicalUrl?: string;
+          canonicalUrlHash?: string;
+          contentHash?: string;
+          crawlId?: string;
+          creditsEstimated?: boolean;
+          creditsUsed?: number;
           error?: string;
           errorCode?: number | string;
           expiresAt: number;
           extractedJson?: any;
           extractedJsonFileId?: string;
+          extractionPrompt?: string;
           extractionSchema?: any;
+          finalUrl?: string;
+          finalUrlHash?: string;
           formats: Array<string>;
+          headers?: Record<string, string>;
           html?: string;
           htmlFileId?: string;
           images?: Array<string>;
           imagesFileId?: string;
+          invalidatedAt?: number;
+          keepVersions?: number;
           links?: Array<string>;
           linksFileId?: string;
+          location?: { country?: string; languages?: Array<string> };
           markdown?: string;
           markdownFileId?: string;
           metadata?: {
             cacheControl?: string;
+            canonicalUrl?: string;
             contentType?: string;
             description?: string;
+            favicon?: string;
+            finalUrl?: string;
+            keywords?: Array<string>;
             language?: string;
+            modifiedTime?: string;
+            numPages?: number;
             ogDescription?: string;
             ogImage?: string;
             ogSiteName?: string;
             ogTitle?: string;
+            originalUrl?: string;
+            publishedTime?: string;
             sourceURL?: string;
             statusCode?: number;
             title?: string;
           };
           normalizedUrl: string;
+          monitorId?: string;
+          namespace?: string;
+          nextRetryAt?: number;
+          onComplete?: string;
+          optionsFingerprint?: Record<string, string>;
+          queuedUntil?: number;
+          rateLimitKey?: string;
           rawHtml?: string;
           rawHtmlFileId?: string;
+          rawMetadata?: any;
           scrapedAt?: number;
           scrapingAt?: number;
           screenshotFileId?: string;
           screenshotUrl?: string;
+          sourceDocumentFileId?: string;
           startedAt: number;
           status: "pending" | "scraping" | "completed" | "failed";
           summary?: string;
@@ -81,48 +438,89 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         },
         Name
       >;
+      getAliases: FunctionReference<
+        "query",
+        "internal",
+        { namespace?: string; url: string },
+        { aliases: Array<string>; canonicalUrl: null | string },
+        Name
+      >;
       getByUrl: FunctionReference<
         "query",
         "internal",
-        { url: string },
+        { namespace?: string; url: string },
         null | {
           _creationTime: number;
           _id: string;
+          actionScreenshots?: Array<string>;
+          actions?: Array<any>;
+          aliasCanonical?: boolean;
+          attempts?: number;
+          canonicalUrl?: string;
+          canonicalUrlHash?: string;
+          contentHash?: string;
+          crawlId?: string;
+          creditsEstimated?: boolean;
+          creditsUsed?: number;
           error?: string;
           errorCode?: number | string;
           expiresAt: number;
           extractedJson?: any;
           extractedJsonFileId?: string;
+          extractionPrompt?: string;
           extractionSchema?: any;
+          finalUrl?: string;
+          finalUrlHash?: string;
           formats: Array<string>;
+          headers?: Record<string, string>;
           html?: string;
           htmlFileId?: string;
           images?: Array<string>;
           imagesFileId?: string;
+          invalidatedAt?: number;
+          keepVersions?: number;
           links?: Array<string>;
           linksFileId?: string;
+          location?: { country?: string; languages?: Array<string> };
           markdown?: string;
           markdownFileId?: string;
           metadata?: {
             cacheControl?: string;
+            canonicalUrl?: string;
             contentType?: string;
             description?: string;
+            favicon?: string;
+            finalUrl?: string;
+            keywords?: Array<string>;
             language?: string;
+            modifiedTime?: string;
+            numPages?: number;
             ogDescription?: string;
             ogImage?: string;
             ogSiteName?: string;
             ogTitle?: string;
+            originalUrl?: string;
+            publishedTime?: string;
             sourceURL?: string;
             statusCode?: number;
             title?: string;
           };
           normalizedUrl: string;
+          monitorId?: string;
+          namespace?: string;
+          nextRetryAt?: number;
+          onComplete?: string;
+          optionsFingerprint?: Record<string, string>;
+          queuedUntil?: number;
+          rateLimitKey?: string;
           rawHtml?: string;
           rawHtmlFileId?: string;
+          rawMetadata?: any;
           scrapedAt?: number;
           scrapingAt?: number;
           screenshotFileId?: string;
           screenshotUrl?: string;
+          sourceDocumentFileId?: string;
           startedAt: number;
           status: "pending" | "scraping" | "completed" | "failed";
           summary?: string;
@@ -144,46 +542,118 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             | "summary"
             | "screenshot"
           >;
+          namespace?: string;
+          options?: {
+            actions?: Array<
+              | { milliseconds?: number; selector?: string; type: "wait" }
+              | { all?: boolean; selector: string; type: "click" }
+              | { text: string; type: "write" }
+              | { key: string; type: "press" }
+              | { direction?: "up" | "down"; selector?: string; type: "scroll" }
+              | { fullPage?: boolean; type: "screenshot" }
+            >;
+            excludeTags?: Array<string>;
+            extractionPrompt?: string;
+            extractionSchema?: any;
+            headers?: Record<string, string>;
+            ignoreOptions?: Array<
+              | "onlyMainContent"
+              | "includeTags"
+              | "excludeTags"
+              | "waitFor"
+              | "mobile"
+              | "proxy"
+              | "extractionSchema"
+              | "extractionPrompt"
+              | "actions"
+              | "headers"
+              | "location"
+              | "parsePDF"
+            >;
+            includeTags?: Array<string>;
+            location?: { country?: string; languages?: Array<string> };
+            mobile?: boolean;
+            onlyMainContent?: boolean;
+            parsePDF?: boolean;
+            proxy?: "basic" | "stealth" | "auto";
+            waitFor?: number;
+          };
+          staleWhileRevalidateMs?: number;
           url: string;
         },
         null | {
           _creationTime: number;
           _id: string;
+          actionScreenshots?: Array<string>;
+          actions?: Array<any>;
+          aliasCanonical?: boolean;
+          attempts?: number;
+          canonicalUrl?: string;
+          canonicalUrlHash?: string;
+          contentHash?: string;
+          crawlId?: string;
+          creditsEstimated?: boolean;
+          creditsUsed?: number;
           error?: string;
           errorCode?: number | string;
           expiresAt: number;
           extractedJson?: any;
           extractedJsonFileId?: string;
+          extractionPrompt?: string;
           extractionSchema?: any;
+          finalUrl?: string;
+          finalUrlHash?: string;
           formats: Array<string>;
+          headers?: Record<string, string>;
           html?: string;
           htmlFileId?: string;
           images?: Array<string>;
           imagesFileId?: string;
+          invalidatedAt?: number;
+          keepVersions?: number;
           links?: Array<string>;
           linksFileId?: string;
+          location?: { country?: string; languages?: Array<string> };
           markdown?: string;
           markdownFileId?: string;
           metadata?: {
             cacheControl?: string;
+            canonicalUrl?: string;
             contentType?: string;
             description?: string;
+            favicon?: string;
+            finalUrl?: string;
+            keywords?: Array<string>;
             language?: string;
+            modifiedTime?: string;
+            numPages?: number;
             ogDescription?: string;
             ogImage?: string;
             ogSiteName?: string;
             ogTitle?: string;
+            originalUrl?: string;
+            publishedTime?: string;
             sourceURL?: string;
             statusCode?: number;
             title?: string;
           };
           normalizedUrl: string;
+          monitorId?: string;
+          namespace?: string;
+          nextRetryAt?: number;
+          onComplete?: string;
+          optionsFingerprint?: Record<string, string>;
+          queuedUntil?: number;
+          rateLimitKey?: string;
           rawHtml?: string;
           rawHtmlFileId?: string;
+          rawMetadata?: any;
           scrapedAt?: number;
           scrapingAt?: number;
           screenshotFileId?: string;
           screenshotUrl?: string;
+          sourceDocumentFileId?: string;
+          stale?: boolean;
           startedAt: number;
           status: "pending" | "scraping" | "completed" | "failed";
           summary?: string;
@@ -192,16 +662,74 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         },
         Name
       >;
+      getChanges: FunctionReference<
+        "query",
+        "internal",
+        {
+          namespace?: string;
+          options?: {
+            actions?: Array<
+              | { milliseconds?: number; selector?: string; type: "wait" }
+              | { all?: boolean; selector: string; type: "click" }
+              | { text: string; type: "write" }
+              | { key: string; type: "press" }
+              | { direction?: "up" | "down"; selector?: string; type: "scroll" }
+              | { fullPage?: boolean; type: "screenshot" }
+            >;
+            excludeTags?: Array<string>;
+            extractionPrompt?: string;
+            extractionSchema?: any;
+            headers?: Record<string, string>;
+            ignoreOptions?: Array<
+              | "onlyMainContent"
+              | "includeTags"
+              | "excludeTags"
+              | "waitFor"
+              | "mobile"
+              | "proxy"
+              | "extractionSchema"
+              | "extractionPrompt"
+              | "actions"
+              | "headers"
+              | "location"
+              | "parsePDF"
+            >;
+            includeTags?: Array<string>;
+            location?: { country?: string; languages?: Array<string> };
+            mobile?: boolean;
+            onlyMainContent?: boolean;
+            parsePDF?: boolean;
+            proxy?: "basic" | "stealth" | "auto";
+            waitFor?: number;
+          };
+          url: string;
+        },
+        null | {
+          changed: boolean;
+          diff: null | string;
+          latest: { contentHash?: string; jobId: string; scrapedAt: number };
+          linesAdded?: number;
+          linesRemoved?: number;
+          previous: null | {
+            contentHash?: string;
+            jobId: string;
+            scrapedAt: number;
+          };
+        },
+        Name
+      >;
       getContent: FunctionReference<
         "query",
         "internal",
-        { id: string },
+        { id: string; namespace?: string },
         null | {
+          actionScreenshots?: Array<string>;
           error?: string;
           errorCode?: number | string;
           expiresAt: number;
           extractedJson?: any;
           extractedJsonFileUrl?: string | null;
+          finalUrl?: string;
           formats: Array<string>;
           html?: string;
           htmlFileUrl?: string | null;
@@ -213,13 +741,21 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           markdownFileUrl?: string | null;
           metadata?: {
             cacheControl?: string;
+            canonicalUrl?: string;
             contentType?: string;
             description?: string;
+            favicon?: string;
+            finalUrl?: string;
+            keywords?: Array<string>;
             language?: string;
+            modifiedTime?: string;
+            numPages?: number;
             ogDescription?: string;
             ogImage?: string;
             ogSiteName?: string;
             ogTitle?: string;
+            originalUrl?: string;
+            publishedTime?: string;
             sourceURL?: string;
             statusCode?: number;
             title?: string;
@@ -227,10 +763,12 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           normalizedUrl: string;
           rawHtml?: string;
           rawHtmlFileUrl?: string | null;
+          rawMetadata?: any;
           scrapedAt?: number;
           scrapingAt?: number;
           screenshotFileUrl?: string | null;
           screenshotUrl?: string;
+          sourceDocumentFileUrl?: string | null;
           startedAt: number;
           status: "pending" | "scraping" | "completed" | "failed";
           summary?: string;
@@ -241,11 +779,15 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       getStatus: FunctionReference<
         "query",
         "internal",
-        { id: string },
+        { id: string; namespace?: string },
         null | {
+          attempts?: number;
           error?: string;
           errorCode?: number | string;
           expiresAt: number;
+          nextRetryAt?: number;
+          queueDepth?: number;
+          queuedUntil?: number;
           scrapedAt?: number;
           scrapingAt?: number;
           startedAt: number;
@@ -256,7 +798,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       invalidate: FunctionReference<
         "mutation",
         "internal",
-        { url: string },
+        { namespace?: string; url: string },
         { invalidatedCount: number; success: boolean },
         Name
       >;
@@ -266,6 +808,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         {
           cursor?: string;
           limit?: number;
+          namespace?: string;
           status?: "pending" | "scraping" | "completed" | "failed";
         },
         {
@@ -274,41 +817,75 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           scrapes: Array<{
             _creationTime: number;
             _id: string;
+            actionScreenshots?: Array<string>;
+            actions?: Array<any>;
+            aliasCanonical?: boolean;
+            attempts?: number;
+            canonicalUrl?: string;
+            canonicalUrlHash?: string;
+            contentHash?: string;
+            crawlId?: string;
+            creditsEstimated?: boolean;
+            creditsUsed?: number;
             error?: string;
             errorCode?: number | string;
             expiresAt: number;
             extractedJson?: any;
             extractedJsonFileId?: string;
+            extractionPrompt?: string;
             extractionSchema?: any;
+            finalUrl?: string;
+            finalUrlHash?: string;
             formats: Array<string>;
+            headers?: Record<string, string>;
             html?: string;
             htmlFileId?: string;
             images?: Array<string>;
             imagesFileId?: string;
+            invalidatedAt?: number;
+            keepVersions?: number;
             links?: Array<string>;
             linksFileId?: string;
+            location?: { country?: string; languages?: Array<string> };
             markdown?: string;
             markdownFileId?: string;
             metadata?: {
               cacheControl?: string;
+              canonicalUrl?: string;
               contentType?: string;
               description?: string;
+              favicon?: string;
+              finalUrl?: string;
+              keywords?: Array<string>;
               language?: string;
+              modifiedTime?: string;
+              numPages?: number;
               ogDescription?: string;
               ogImage?: string;
               ogSiteName?: string;
               ogTitle?: string;
+              originalUrl?: string;
+              publishedTime?: string;
               sourceURL?: string;
               statusCode?: number;
               title?: string;
             };
             normalizedUrl: string;
+            monitorId?: string;
+            namespace?: string;
+            nextRetryAt?: number;
+            onComplete?: string;
+            optionsFingerprint?: Record<string, string>;
+            queuedUntil?: number;
+            rateLimitKey?: string;
             rawHtml?: string;
             rawHtmlFileId?: string;
+            rawMetadata?: any;
             scrapedAt?: number;
             scrapingAt?: number;
             screenshotFileId?: string;
             screenshotUrl?: string;
+            sourceDocumentFileId?: string;
             startedAt: number;
             status: "pending" | "scraping" | "completed" | "failed";
             summary?: string;
@@ -323,46 +900,81 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "internal",
         {
           limit?: number;
+          namespace?: string;
           status: "pending" | "scraping" | "completed" | "failed";
         },
         Array<{
           _creationTime: number;
           _id: string;
+          actionScreenshots?: Array<string>;
+          actions?: Array<any>;
+          aliasCanonical?: boolean;
+          attempts?: number;
+          canonicalUrl?: string;
+          canonicalUrlHash?: string;
+          contentHash?: string;
+          crawlId?: string;
+          creditsEstimated?: boolean;
+          creditsUsed?: number;
           error?: string;
           errorCode?: number | string;
           expiresAt: number;
           extractedJson?: any;
           extractedJsonFileId?: string;
+          extractionPrompt?: string;
           extractionSchema?: any;
+          finalUrl?: string;
+          finalUrlHash?: string;
           formats: Array<string>;
+          headers?: Record<string, string>;
           html?: string;
           htmlFileId?: string;
           images?: Array<string>;
           imagesFileId?: string;
+          invalidatedAt?: number;
+          keepVersions?: number;
           links?: Array<string>;
           linksFileId?: string;
+          location?: { country?: string; languages?: Array<string> };
           markdown?: string;
           markdownFileId?: string;
           metadata?: {
             cacheControl?: string;
+            canonicalUrl?: string;
             contentType?: string;
             description?: string;
+            favicon?: string;
+            finalUrl?: string;
+            keywords?: Array<string>;
             language?: string;
+            modifiedTime?: string;
+            numPages?: number;
             ogDescription?: string;
             ogImage?: string;
             ogSiteName?: string;
             ogTitle?: string;
+            originalUrl?: string;
+            publishedTime?: string;
             sourceURL?: string;
             statusCode?: number;
             title?: string;
           };
           normalizedUrl: string;
+          monitorId?: string;
+          namespace?: string;
+          nextRetryAt?: number;
+          onComplete?: string;
+          optionsFingerprint?: Record<string, string>;
+          queuedUntil?: number;
+          rateLimitKey?: string;
           rawHtml?: string;
           rawHtmlFileId?: string;
+          rawMetadata?: any;
           scrapedAt?: number;
           scrapingAt?: number;
           screenshotFileId?: string;
           screenshotUrl?: string;
+          sourceDocumentFileId?: string;
           startedAt: number;
           status: "pending" | "scraping" | "completed" | "failed";
           summary?: string;
@@ -371,13 +983,98 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         }>,
         Name
       >;
+      revalidate: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          apiBaseUrl?: string;
+          apiKey?: string | Array<string>;
+          apiKeyHeader?: string;
+          credential?: string | Array<string>;
+          maxRequestsPerMinute?: number;
+          namespace?: string;
+          options?: {
+            actions?: Array<
+              | { milliseconds?: number; selector?: string; type: "wait" }
+              | { all?: boolean; selector: string; type: "click" }
+              | { text: string; type: "write" }
+              | { key: string; type: "press" }
+              | { direction?: "up" | "down"; selector?: string; type: "scroll" }
+              | { fullPage?: boolean; type: "screenshot" }
+            >;
+            aliasCanonical?: boolean;
+            excludeTags?: Array<string>;
+            extractionPrompt?: string;
+            extractionSchema?: any;
+            force?: boolean;
+            formats?: Array<
+              | "markdown"
+              | "html"
+              | "rawHtml"
+              | "links"
+              | "images"
+              | "summary"
+              | "screenshot"
+            >;
+            headers?: Record<string, string>;
+            ignoreOptions?: Array<
+              | "onlyMainContent"
+              | "includeTags"
+              | "excludeTags"
+              | "waitFor"
+              | "mobile"
+              | "proxy"
+              | "extractionSchema"
+              | "extractionPrompt"
+              | "actions"
+              | "headers"
+              | "location"
+              | "parsePDF"
+            >;
+            includeTags?: Array<string>;
+            keepVersions?: number;
+            location?: { country?: string; languages?: Array<string> };
+            maxRetries?: number;
+            mobile?: boolean;
+            onComplete?: string;
+            onlyMainContent?: boolean;
+            parsePDF?: boolean;
+            proxy?: "basic" | "stealth" | "auto";
+            resolveDns?: boolean;
+            retryBaseDelayMs?: number;
+            storeScreenshot?: boolean;
+            storeSourceDocument?: boolean;
+            timeout?: number;
+            ttlMs?: number;
+            waitFor?: number;
+          };
+          url: string;
+        },
+        { jobId: string; started: boolean },
+        Name
+      >;
       startScrape: FunctionReference<
         "mutation",
         "internal",
         {
-          apiKey: string;
+          apiBaseUrl?: string;
+          apiKey?: string | Array<string>;
+          apiKeyHeader?: string;
+          credential?: string | Array<string>;
+          maxRequestsPerMinute?: number;
+          namespace?: string;
           options?: {
+            actions?: Array<
+              | { milliseconds?: number; selector?: string; type: "wait" }
+              | { all?: boolean; selector: string; type: "click" }
+              | { text: string; type: "write" }
+              | { key: string; type: "press" }
+              | { direction?: "up" | "down"; selector?: string; type: "scroll" }
+              | { fullPage?: boolean; type: "screenshot" }
+            >;
+            aliasCanonical?: boolean;
             excludeTags?: Array<string>;
+            extractionPrompt?: string;
             extractionSchema?: any;
             force?: boolean;
             formats?: Array<
@@ -389,11 +1086,35 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
               | "summary"
               | "screenshot"
             >;
+            headers?: Record<string, string>;
+            ignoreOptions?: Array<
+              | "onlyMainContent"
+              | "includeTags"
+              | "excludeTags"
+              | "waitFor"
+              | "mobile"
+              | "proxy"
+              | "extractionSchema"
+              | "extractionPrompt"
+              | "actions"
+              | "headers"
+              | "location"
+              | "parsePDF"
+            >;
             includeTags?: Array<string>;
+            keepVersions?: number;
+            location?: { country?: string; languages?: Array<string> };
+            maxRetries?: number;
             mobile?: boolean;
+            onComplete?: string;
             onlyMainContent?: boolean;
+            parsePDF?: boolean;
             proxy?: "basic" | "stealth" | "auto";
+            resolveDns?: boolean;
+            retryBaseDelayMs?: number;
             storeScreenshot?: boolean;
+            storeSourceDocument?: boolean;
+            timeout?: number;
             ttlMs?: number;
             waitFor?: number;
           };
@@ -403,4 +1124,494 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         Name
       >;
     };
+    map: {
+      getCachedSiteMap: FunctionReference<
+        "query",
+        "internal",
+        { includeSubdomains?: boolean; namespace?: string; url: string },
+        null | {
+          _creationTime: number;
+          _id: string;
+          error?: string;
+          errorCode?: number | string;
+          expiresAt: number;
+          includeSubdomains: boolean;
+          limit: number;
+          mappedAt?: number;
+          namespace?: string;
+          origin: string;
+          originHash: string;
+          rateLimitKey?: string;
+          startedAt: number;
+          status: "pending" | "mapping" | "completed" | "failed";
+          truncated?: boolean;
+          urlCount?: number;
+          urls?: Array<string>;
+        },
+        Name
+      >;
+      getSiteMap: FunctionReference<
+        "query",
+        "internal",
+        { id: string; namespace?: string },
+        null | {
+          _creationTime: number;
+          _id: string;
+          error?: string;
+          errorCode?: number | string;
+          expiresAt: number;
+          includeSubdomains: boolean;
+          limit: number;
+          mappedAt?: number;
+          namespace?: string;
+          origin: string;
+          originHash: string;
+          rateLimitKey?: string;
+          startedAt: number;
+          status: "pending" | "mapping" | "completed" | "failed";
+          truncated?: boolean;
+          urlCount?: number;
+          urls?: Array<string>;
+        },
+        Name
+      >;
+      mapSite: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          apiBaseUrl?: string;
+          apiKey?: string | Array<string>;
+          apiKeyHeader?: string;
+          credential?: string | Array<string>;
+          maxRequestsPerMinute?: number;
+          namespace?: string;
+          options?: {
+            force?: boolean;
+            includeSubdomains?: boolean;
+            limit?: number;
+            ttlMs?: number;
+          };
+          url: string;
+        },
+        { mapId: string; started: boolean },
+        Name
+      >;
+      scrapeSiteMap: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          apiBaseUrl?: string;
+          apiKey?: string | Array<string>;
+          apiKeyHeader?: string;
+          credential?: string | Array<string>;
+          limit?: number;
+          mapId: string;
+          maxRequestsPerMinute?: number;
+          namespace?: string;
+          offset?: number;
+          options?: {
+            actions?: Array<
+              | { milliseconds?: number; selector?: string; type: "wait" }
+              | { all?: boolean; selector: string; type: "click" }
+              | { text: string; type: "write" }
+              | { key: string; type: "press" }
+              | { direction?: "up" | "down"; selector?: string; type: "scroll" }
+              | { fullPage?: boolean; type: "screenshot" }
+            >;
+            aliasCanonical?: boolean;
+            excludeTags?: Array<string>;
+            extractionPrompt?: string;
+            extractionSchema?: any;
+            force?: boolean;
+            formats?: Array<
+              | "markdown"
+              | "html"
+              | "rawHtml"
+              | "links"
+              | "images"
+              | "summary"
+              | "screenshot"
+            >;
+            headers?: Record<string, string>;
+            ignoreOptions?: Array<
+              | "onlyMainContent"
+              | "includeTags"
+              | "excludeTags"
+              | "waitFor"
+              | "mobile"
+              | "proxy"
+              | "extractionSchema"
+              | "extractionPrompt"
+              | "actions"
+              | "headers"
+              | "location"
+              | "parsePDF"
+            >;
+            includeTags?: Array<string>;
+            keepVersions?: number;
+            location?: { country?: string; languages?: Array<string> };
+            maxRetries?: number;
+            mobile?: boolean;
+            onComplete?: string;
+            onlyMainContent?: boolean;
+            parsePDF?: boolean;
+            proxy?: "basic" | "stealth" | "auto";
+            resolveDns?: boolean;
+            retryBaseDelayMs?: number;
+            storeScreenshot?: boolean;
+            storeSourceDocument?: boolean;
+            timeout?: number;
+            ttlMs?: number;
+            waitFor?: number;
+          };
+        },
+        {
+          failed: Array<{ error: string; url: string }>;
+          jobs: Array<{ jobId: string; started: boolean; url: string }>;
+          nextOffset: null | number;
+        },
+        Name
+      >;
+    };
+    monitor: {
+      createMonitor: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          apiBaseUrl?: string;
+          apiKey?: string | Array<string>;
+          apiKeyHeader?: string;
+          credential?: string | Array<string>;
+          intervalMs: number;
+          maxRequestsPerMinute?: number;
+          namespace?: string;
+          onChange?: string;
+          options?: {
+            actions?: Array<
+              | { milliseconds?: number; selector?: string; type: "wait" }
+              | { all?: boolean; selector: string; type: "click" }
+              | { text: string; type: "write" }
+              | { key: string; type: "press" }
+              | { direction?: "up" | "down"; selector?: string; type: "scroll" }
+              | { fullPage?: boolean; type: "screenshot" }
+            >;
+            aliasCanonical?: boolean;
+            excludeTags?: Array<string>;
+            extractionPrompt?: string;
+            extractionSchema?: any;
+            force?: boolean;
+            formats?: Array<
+              | "markdown"
+              | "html"
+              | "rawHtml"
+              | "links"
+              | "images"
+              | "summary"
+              | "screenshot"
+            >;
+            headers?: Record<string, string>;
+            ignoreOptions?: Array<
+              | "onlyMainContent"
+              | "includeTags"
+              | "excludeTags"
+              | "waitFor"
+              | "mobile"
+              | "proxy"
+              | "extractionSchema"
+              | "extractionPrompt"
+              | "actions"
+              | "headers"
+              | "location"
+              | "parsePDF"
+            >;
+            includeTags?: Array<string>;
+            keepVersions?: number;
+            location?: { country?: string; languages?: Array<string> };
+            maxRetries?: number;
+            mobile?: boolean;
+            onComplete?: string;
+            onlyMainContent?: boolean;
+            parsePDF?: boolean;
+            proxy?: "basic" | "stealth" | "auto";
+            resolveDns?: boolean;
+            retryBaseDelayMs?: number;
+            storeScreenshot?: boolean;
+            storeSourceDocument?: boolean;
+            timeout?: number;
+            ttlMs?: number;
+            waitFor?: number;
+          };
+          url: string;
+        },
+        { monitorId: string },
+        Name
+      >;
+      deleteMonitor: FunctionReference<
+        "mutation",
+        "internal",
+        { id: string; namespace?: string },
+        { success: boolean },
+        Name
+      >;
+      getMonitor: FunctionReference<
+        "query",
+        "internal",
+        { id: string; namespace?: string },
+        null | {
+          _creationTime: number;
+          _id: string;
+          apiBaseUrl?: string;
+          apiKeyHeader?: string;
+          credentialId?: string | Array<string>;
+          intervalMs: number;
+          lastChangedAt?: number;
+          lastContentHash?: string;
+          lastError?: string;
+          lastJobId?: string;
+          lastRunAt?: number;
+          maxRequestsPerMinute?: number;
+          namespace?: string;
+          nextRunAt: number;
+          normalizedUrl: string;
+          onChange?: string;
+          options?: {
+            actions?: Array<
+              | { milliseconds?: number; selector?: string; type: "wait" }
+              | { all?: boolean; selector: string; type: "click" }
+              | { text: string; type: "write" }
+              | { key: string; type: "press" }
+              | { direction?: "up" | "down"; selector?: string; type: "scroll" }
+              | { fullPage?: boolean; type: "screenshot" }
+            >;
+            aliasCanonical?: boolean;
+            excludeTags?: Array<string>;
+            extractionPrompt?: string;
+            extractionSchema?: any;
+            force?: boolean;
+            formats?: Array<
+              | "markdown"
+              | "html"
+              | "rawHtml"
+              | "links"
+              | "images"
+              | "summary"
+              | "screenshot"
+            >;
+            headers?: Record<string, string>;
+            ignoreOptions?: Array<
+              | "onlyMainContent"
+              | "includeTags"
+              | "excludeTags"
+              | "waitFor"
+              | "mobile"
+              | "proxy"
+              | "extractionSchema"
+              | "extractionPrompt"
+              | "actions"
+              | "headers"
+              | "location"
+              | "parsePDF"
+            >;
+            includeTags?: Array<string>;
+            keepVersions?: number;
+            location?: { country?: string; languages?: Array<string> };
+            maxRetries?: number;
+            mobile?: boolean;
+            onComplete?: string;
+            onlyMainContent?: boolean;
+            parsePDF?: boolean;
+            proxy?: "basic" | "stealth" | "auto";
+            resolveDns?: boolean;
+            retryBaseDelayMs?: number;
+            storeScreenshot?: boolean;
+            storeSourceDocument?: boolean;
+            timeout?: number;
+            ttlMs?: number;
+            waitFor?: number;
+          };
+          status: "active" | "paused";
+          url: string;
+          urlHash: string;
+        },
+        Name
+      >;
+      listMonitors: FunctionReference<
+        "query",
+        "internal",
+        { cursor?: string; limit?: number; namespace?: string },
+        {
+          hasMore: boolean;
+          monitors: Array<{
+            _creationTime: number;
+            _id: string;
+            apiBaseUrl?: string;
+            apiKeyHeader?: string;
+            credentialId?: string | Array<string>;
+            intervalMs: number;
+            lastChangedAt?: number;
+            lastContentHash?: string;
+            lastError?: string;
+            lastJobId?: string;
+            lastRunAt?: number;
+            maxRequestsPerMinute?: number;
+            namespace?: string;
+            nextRunAt: number;
+            normalizedUrl: string;
+            onChange?: string;
+            options?: {
+              actions?: Array<
+                | { milliseconds?: number; selector?: string; type: "wait" }
+                | { all?: boolean; selector: string; type: "click" }
+                | { text: string; type: "write" }
+                | { key: string; type: "press" }
+                | {
+                    direction?: "up" | "down";
+                    selector?: string;
+                    type: "scroll";
+                  }
+                | { fullPage?: boolean; type: "screenshot" }
+              >;
+              aliasCanonical?: boolean;
+              excludeTags?: Array<string>;
+              extractionPrompt?: string;
+              extractionSchema?: any;
+              force?: boolean;
+              formats?: Array<
+                | "markdown"
+                | "html"
+                | "rawHtml"
+                | "links"
+                | "images"
+                | "summary"
+                | "screenshot"
+              >;
+              headers?: Record<string, string>;
+              ignoreOptions?: Array<
+                | "onlyMainContent"
+                | "includeTags"
+                | "excludeTags"
+                | "waitFor"
+                | "mobile"
+                | "proxy"
+                | "extractionSchema"
+                | "extractionPrompt"
+                | "actions"
+                | "headers"
+                | "location"
+                | "parsePDF"
+              >;
+              includeTags?: Array<string>;
+              keepVersions?: number;
+              location?: { country?: string; languages?: Array<string> };
+              maxRetries?: number;
+              mobile?: boolean;
+              onComplete?: string;
+              onlyMainContent?: boolean;
+              parsePDF?: boolean;
+              proxy?: "basic" | "stealth" | "auto";
+              resolveDns?: boolean;
+              retryBaseDelayMs?: number;
+              storeScreenshot?: boolean;
+              storeSourceDocument?: boolean;
+              timeout?: number;
+              ttlMs?: number;
+              waitFor?: number;
+            };
+            status: "active" | "paused";
+            url: string;
+            urlHash: string;
+          }>;
+          nextCursor: null | string;
+        },
+        Name
+      >;
+      pauseMonitor: FunctionReference<
+        "mutation",
+        "internal",
+        { id: string; namespace?: string },
+        { success: boolean },
+        Name
+      >;
+      resumeMonitor: FunctionReference<
+        "mutation",
+        "internal",
+        { id: string; namespace?: string },
+        { success: boolean },
+        Name
+      >;
+    };
+    policy: {
+      addPolicyRule: FunctionReference<
+        "mutation",
+        "internal",
+        { action: "allow" | "deny"; pattern: string },
+        { ruleId: string },
+        Name
+      >;
+      listPolicyRules: FunctionReference<
+        "query",
+        "internal",
+        {},
+        Array<{
+          _creationTime: number;
+          _id: string;
+          action: "allow" | "deny";
+          createdAt: number;
+          pattern: string;
+        }>,
+        Name
+      >;
+      removePolicyRule: FunctionReference<
+        "mutation",
+        "internal",
+        { id: string },
+        { success: boolean },
+        Name
+      >;
+    };
+    usage: {
+      getUsage: FunctionReference<
+        "query",
+        "internal",
+        { from: string; namespace?: string; to: string },
+        {
+          byDay: Array<{
+            credits: number;
+            day: string;
+            estimatedCredits: number;
+            scrapes: number;
+          }>;
+          byKey: Array<{
+            credits: number;
+            estimatedCredits: number;
+            keyHash: string;
+            label?: string;
+            scrapes: number;
+          }>;
+          byNamespace: Array<{
+            credits: number;
+            estimatedCredits: number;
+            namespace?: string;
+            scrapes: number;
+          }>;
+          credits: number;
+          estimatedCredits: number;
+          scrapes: number;
+        },
+        Name
+      >;
+      setBudget: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          apiKey?: string | Array<string>;
+          credential?: string | Array<string>;
+          dailyCredits?: number;
+          monthlyCredits?: number;
+          namespace?: string;
+        },
+        null,
+        Name
+      >;
+    };
   };
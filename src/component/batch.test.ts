@@ -0,0 +1,190 @@
+/// <reference types="vite/client" />
+
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api.js";
+import { initConvexTest } from "./setup.test.js";
+import { jsonResponse } from "./fixtures.test.js";
+import { CONFIG } from "./config.js";
+
+describe("startBatchScrape mutation", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("rejects empty and oversized batches", async () => {
+    const t = initConvexTest();
+
+    await expect(
+      t.mutation(api.batch.startBatchScrape, { urls: [], apiKey: "test-key" }),
+    ).rejects.toThrow(/at least one URL/);
+
+    const urls = Array.from(
+      { length: CONFIG.MAX_BATCH_URLS + 1 },
+      (_, i) => `https://example.com/${i}`,
+    );
+    await expect(
+      t.mutation(api.batch.startBatchScrape, { urls, apiKey: "test-key" }),
+    ).rejects.toThrow(`${CONFIG.MAX_BATCH_URLS} URLs`);
+  });
+
+  test("reports an outcome for every URL", async () => {
+    const t = initConvexTest();
+
+    // A valid cache entry and a running scrape
+    const cached = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/cached",
+      apiKey: "test-key",
+    });
+    await t.mutation(internal.lib.markScraping, { jobId: cached.jobId });
+    await t.mutation(internal.lib.completeScrape, {
+      jobId: cached.jobId,
+      markdown: "# Cached",
+      ttlMs: 60_000,
+    });
+    const running = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/running",
+      apiKey: "test-key",
+    });
+
+    const { batchId, items } = await t.mutation(api.batch.startBatchScrape, {
+      urls: [
+        "https://example.com/new",
+        "https://example.com/cached",
+        "https://example.com/running",
+        "https://EXAMPLE.com/new?utm_source=x",
+        "http://localhost/admin",
+      ],
+      apiKey: "test-key",
+    });
+
+    expect(items.map((i) => i.outcome)).toEqual([
+      "started",
+      "cached",
+      "in_progress",
+      "duplicate",
+      "failed",
+    ]);
+    expect(items[1].jobId).toBe(cached.jobId);
+    expect(items[2].jobId).toBe(running.jobId);
+    expect(items[3].jobId).toBe(items[0].jobId);
+    expect(items[4].jobId).toBeUndefined();
+    expect(items[4].error).toBeDefined();
+
+    const batch = await t.query(api.batch.getBatch, { id: batchId });
+    expect(batch?.items).toEqual(items);
+    expect(batch?.jobIds).toHaveLength(3);
+  });
+});
+
+describe("getBatchProgress query", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  test("counts jobs per status until the batch is done", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce(
+          jsonResponse({ success: true, data: { markdown: "# A" } }),
+        )
+        .mockResolvedValueOnce(jsonResponse({ error: "Forbidden" }, 403)),
+    );
+
+    const t = initConvexTest();
+    const { batchId } = await t.mutation(api.batch.startBatchScrape, {
+      urls: ["https://example.com/a", "https://example.com/b"],
+      apiKey: "test-key",
+    });
+
+    const before = await t.query(api.batch.getBatchProgress, { id: batchId });
+    expect(before).toEqual({
+      total: 2,
+      pending: 2,
+      scraping: 0,
+      completed: 0,
+      failed: 0,
+      done: false,
+    });
+
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const after = await t.query(api.batch.getBatchProgress, { id: batchId });
+    expect(after).toEqual({
+      total: 2,
+      pending: 0,
+      scraping: 0,
+      completed: 1,
+      failed: 1,
+      done: true,
+    });
+  });
+});
+
+describe("batch namespaces", () => {
+  test("batches are only found in the namespace they were started in", async () => {
+    const t = initConvexTest();
+    const { batchId } = await t.mutation(api.batch.startBatchScrape, {
+      urls: ["https://example.com/a"],
+      apiKey: "test-key",
+      namespace: "tenant-a",
+    });
+
+    expect(await t.query(api.batch.getBatch, { id: batchId })).toBeNull();
+    expect(
+      await t.query(api.batch.getBatchProgress, {
+        id: batchId,
+        namespace: "tenant-b",
+      }),
+    ).toBeNull();
+    const batch = await t.query(api.batch.getBatch, {
+      id: batchId,
+      namespace: "tenant-a",
+    });
+    expect(batch?.namespace).toBe("tenant-a");
+    const progress = await t.query(api.batch.getBatchProgress, {
+      id: batchId,
+      namespace: "tenant-a",
+    });
+    expect(progress?.total).toBe(1);
+  });
+});
+
+describe("batch cleanup", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("cleanupExpiredBatches deletes batches past expiry", async () => {
+    const t = initConvexTest();
+    const { batchId } = await t.mutation(api.batch.startBatchScrape, {
+      urls: ["https://example.com"],
+      apiKey: "test-key",
+      options: { ttlMs: 1000 },
+    });
+    const kept = await t.mutation(api.batch.startBatchScrape, {
+      urls: ["https://example.org"],
+      apiKey: "test-key",
+    });
+
+    vi.advanceTimersByTime(2000);
+    const result = await t.mutation(internal.batch.cleanupExpiredBatches, {});
+
+    expect(result.deletedCount).toBe(1);
+    expect(await t.query(api.batch.getBatch, { id: batchId })).toBeNull();
+    expect(
+      await t.query(api.batch.getBatch, { id: kept.batchId }),
+    ).not.toBeNull();
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Batch scrapes for the Firecrawl Scrape component.
+ *
+ * startBatchScrape queues many URLs in one call and groups the resulting
+ * scrape jobs under a batch ID. Each URL goes through the same path as
+ * startScrape, and getBatchProgress aggregates the job statuses.
+ */
+
+import { v } from "convex/values";
+import { query, mutation, internalMutation } from "./_generated/server.js";
+import type { Id } from "./_generated/dataModel.js";
+import schema from "./schema.js";
+import { CONFIG } from "./config.js";
+import { scrapeOptionsValidator } from "./options.js";
+import { firecrawlEndpointFields, firecrawlKeyFields } from "./validators.js";
+import { checkFirecrawlEndpoint } from "./firecrawl.js";
+import { enqueueScrape } from "./jobs.js";
+import { resolveFirecrawlKey } from "./credentials.js";
+import { loadPolicyRules } from "./policy.js";
+
+// ============================================================================
+// Validators
+// ============================================================================
+
+const batchValidator = schema.tables.batches.validator.extend({
+  _id: v.id("batches"),
+  _creationTime: v.number(),
+});
+
+const batchItemValidator = schema.tables.batches.validator.fields.items.element;
+
+// ============================================================================
+// Public Queries
+// ============================================================================
+
+/**
+ * Get a batch by ID, with the outcome recorded for each URL. A batch started
+ * in another namespace is treated as not found.
+ */
+export const getBatch = query({
+  args: {
+    id: v.id("batches"),
+    namespace: v.optional(v.string()),
+  },
+  returns: v.union(v.null(), batchValidator),
+  handler: async (ctx, args) => {
+    const batch = await ctx.db.get(args.id);
+    if (!batch || batch.namespace !== args.namespace) {
+      return null;
+    }
+    return batch;
+  },
+});
+
+/**
+ * Get aggregate progress for a batch: job counts per status.
+ *
+ * Reactive: subscribe to follow the batch until `done`. Jobs deleted since
+ * the batch started (e.g. by cleanup) are not counted.
+ */
+export const getBatchProgress = query({
+  args: {
+    id: v.id("batches"),
+    namespace: v.optional(v.string()),
+  },
+  returns: v.union(
+    v.null(),
+    v.object({
+      total: v.number(),
+      pending: v.number(),
+      scraping: v.number(),
+      completed: v.number(),
+      failed: v.number(),
+      done: v.boolean(),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const batch = await ctx.db.get(args.id);
+    if (!batch || batch.namespace !== args.namespace) {
+      return null;
+    }
+
+    const counts = { pending: 0, scraping: 0, completed: 0, failed: 0 };
+    for (const jobId of batch.jobIds) {
+      const job = await ctx.db.get(jobId);
+      if (job) {
+        counts[job.status]++;
+      }
+    }
+
+    const total =
+      counts.pending + counts.scraping + counts.completed + counts.failed;
+    return {
+      total,
+      ...counts,
+      done: counts.pending === 0 && counts.scraping === 0,
+    };
+  },
+});
+
+// ============================================================================
+// Public Mutations
+// ============================================================================
+
+/**
+ * Start scrape jobs for a list of URLs as one batch.
+ *
+ * URLs with a valid cache entry are not scraped again, running scrapes are
+ * reused, and repeated URLs (after normalization) are queued once. A URL that
+ * is rejected does not fail the batch; its outcome is "failed" with the
+ * reason. New jobs are queued behind the per-key rate limit like startScrape.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients. Use `exposeApi()` from the client package to create
+ * authenticated wrappers that control API key access.
+ *
+ * @param urls - URLs to scrape (at most CONFIG.MAX_BATCH_URLS)
+ * @param apiKey - Firecrawl API key or key pool (or pass `credential` instead)
+ * @param credential - ID or label of a credential stored with setCredential, or a list
+ * @param namespace - Cache namespace for every URL
+ * @param options - Scrape options applied to every URL
+ * @returns Batch ID and the outcome for each URL, in request order
+ *
+ * @internal
+ */
+export const startBatchScrape = mutation({
+  args: {
+    urls: v.array(v.string()),
+    ...firecrawlKeyFields,
+    namespace: v.optional(v.string()),
+    ...firecrawlEndpointFields,
+    options: v.optional(scrapeOptionsValidator),
+    maxRequestsPerMinute: v.optional(v.number()),
+  },
+  returns: v.object({
+    batchId: v.id("batches"),
+    items: v.array(batchItemValidator),
+  }),
+  handler: async (ctx, args) => {
+    if (args.urls.length === 0) {
+      throw new Error("Batch must contain at least one URL");
+    }
+    if (args.urls.length > CONFIG.MAX_BATCH_URLS) {
+      throw new Error(
+        `Batch exceeds ${CONFIG.MAX_BATCH_URLS} URLs (got ${args.urls.length})`,
+      );
+    }
+    checkFirecrawlEndpoint(args);
+    await resolveFirecrawlKey(ctx, args);
+
+    const policyRules = await loadPolicyRules(ctx);
+    const items = [];
+    const jobIds: Id<"scrapes">[] = [];
+    for (const url of args.urls) {
+      try {
+        const { jobId, started, cached } = await enqueueScrape(
+          ctx,
+          {
+            url,
+            apiKey: args.apiKey,
+            credential: args.credential,
+            namespace: args.namespace,
+            apiBaseUrl: args.apiBaseUrl,
+            apiKeyHeader: args.apiKeyHeader,
+            options: args.options,
+            maxRequestsPerMinute: args.maxRequestsPerMinute,
+          },
+          true,
+          policyRules,
+        );
+        if (jobIds.includes(jobId)) {
+          items.push({ url, outcome: "duplicate" as const, jobId });
+          continue;
+        }
+        jobIds.push(jobId);
+        const outcome = started
+          ? ("started" as const)
+          : cached
+            ? ("cached" as const)
+            : ("in_progress" as const);
+        items.push({ url, outcome, jobId });
+      } catch (error) {
+        items.push({
+          url,
+          outcome: "failed" as const,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    const now = Date.now();
+    const batchId = await ctx.db.insert("batches", {
+      items,
+      jobIds,
+      namespace: args.namespace,
+      startedAt: now,
+      expiresAt: now + (args.options?.ttlMs ?? CONFIG.DEFAULT_TTL_MS),
+    });
+
+    return { batchId, items };
+  },
+});
+
+// ============================================================================
+// Cron Job Mutations
+// ============================================================================
+
+/**
+ * Delete batch records past their expiry. The scrapes they grouped expire
+ * on their own.
+ */
+export const cleanupExpiredBatches = internalMutation({
+  args: {},
+  returns: v.object({ deletedCount: v.number() }),
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("batches")
+      .withIndex("by_expires", (q) => q.lt("expiresAt", Date.now()))
+      .take(CONFIG.CLEANUP_BATCH_SIZE);
+
+    for (const batch of expired) {
+      await ctx.db.delete(batch._id);
+    }
+    return { deletedCount: expired.length };
+  },
+});
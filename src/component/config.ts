@@ -20,6 +20,21 @@ export const CONFIG = {
    */
   DEFAULT_TTL_MS: 30 * 24 * 60 * 60 * 1000,
 
+  /**
+   * Maximum stale-while-revalidate window in milliseconds.
+   * Completed entries are kept this long past expiry so getCached can still
+   * serve them as stale; larger requested windows are capped to this value.
+   * @default 24 hours
+   */
+  MAX_STALE_WHILE_REVALIDATE_MS: 24 * 60 * 60 * 1000,
+
+  /**
+   * Maximum scrapes read by getAliases when listing the URLs aliased under a
+   * canonical URL.
+   * @default 100
+   */
+  MAX_ALIAS_SCRAPES: 100,
+
   // ============================================================================
   // Storage
   // ============================================================================
@@ -31,17 +46,111 @@ export const CONFIG = {
    */
   FILE_STORAGE_THRESHOLD_BYTES: 1024 * 1024,
 
+  /**
+   * Maximum size of a source document stored with `storeSourceDocument`.
+   * Larger documents are scraped but not stored.
+   * @default 20MB in bytes
+   */
+  MAX_SOURCE_DOCUMENT_BYTES: 20 * 1024 * 1024,
+
+  // ============================================================================
+  // Extraction
+  // ============================================================================
+
+  /**
+   * Maximum schema mismatches listed in the error of a job whose extracted
+   * JSON does not match its extraction schema.
+   * @default 10
+   */
+  MAX_EXTRACTION_ISSUES: 10,
+
+  // ============================================================================
+  // Browser Actions
+  // ============================================================================
+
+  /**
+   * Maximum browser actions run before a page is captured.
+   * @default 50
+   */
+  MAX_SCRAPE_ACTIONS: 50,
+
+  /**
+   * Maximum Firecrawl scrape timeout in milliseconds.
+   * @default 300000 (5 minutes)
+   */
+  MAX_SCRAPE_TIMEOUT_MS: 5 * 60 * 1000,
+
   // ============================================================================
   // Rate Limiting
   // ============================================================================
 
   /**
-   * Default advisory rate limit (requests per minute).
-   * Based on Firecrawl Hobby tier. Logged but not enforced.
+   * Default rate limit (requests per minute) per Firecrawl API key.
+   * Based on Firecrawl Hobby tier. Enforced by queueing scrape jobs and
+   * releasing them no faster than this rate.
    * @default 100 requests/minute
    */
   DEFAULT_RATE_LIMIT_PER_MINUTE: 100,
 
+  // ============================================================================
+  // Key Pools
+  // ============================================================================
+
+  /**
+   * Maximum API keys or credentials in one key pool.
+   * @default 10
+   */
+  MAX_KEY_POOL_SIZE: 10,
+
+  /**
+   * How long a pooled key is skipped after a 429, unless the response's
+   * Retry-After asks for longer.
+   * @default 1 minute
+   */
+  KEY_RATE_LIMIT_COOLDOWN_MS: 60 * 1000,
+
+  /**
+   * How long a pooled key is skipped after a 402 (out of credits).
+   * @default 1 hour
+   */
+  KEY_QUOTA_COOLDOWN_MS: 60 * 60 * 1000,
+
+  // ============================================================================
+  // Credit Usage
+  // ============================================================================
+
+  /**
+   * Credits estimated for a scrape when Firecrawl's response does not report
+   * the credits used.
+   * @default 1
+   */
+  BASE_SCRAPE_CREDITS: 1,
+
+  /**
+   * Extra credits estimated for JSON extraction or the summary format.
+   * @default 4
+   */
+  EXTRACTION_CREDITS: 4,
+
+  /**
+   * Extra credits estimated for the stealth proxy.
+   * @default 4
+   */
+  STEALTH_PROXY_CREDITS: 4,
+
+  /**
+   * Credits estimated for a site map when Firecrawl's response does not
+   * report the credits used.
+   * @default 1
+   */
+  MAP_CREDITS: 1,
+
+  /**
+   * Maximum days in one getUsage date range.
+   * @default 366
+   */
+  MAX_USAGE_RANGE_DAYS: 366,
+
   // ============================================================================
   // Job Processing
   // ============================================================================
@@ -61,6 +170,156 @@ export const CONFIG = {
    */
   CLEANUP_BATCH_SIZE: 100,
 
+  // ============================================================================
+  // Retries
+  // ============================================================================
+
+  /**
+   * Default number of retries for transient Firecrawl failures
+   * (429, 408, 5xx and network errors). Overridable per call.
+   * @default 3
+   */
+  DEFAULT_MAX_RETRIES: 3,
+
+  /**
+   * Maximum value accepted for the maxRetries scrape option.
+   * @default 10
+   */
+  MAX_RETRIES: 10,
+
+  /**
+   * Default base delay for exponential backoff between retries.
+   * The delay doubles with each attempt and is randomized with jitter.
+   * @default 1 second
+   */
+  DEFAULT_RETRY_BASE_DELAY_MS: 1000,
+
+  /**
+   * Upper bound for a single backoff delay, including Retry-After hints.
+   * Larger retryBaseDelayMs values are capped to it.
+   * @default 60 seconds
+   */
+  MAX_RETRY_DELAY_MS: 60 * 1000,
+
+  // ============================================================================
+  // Crawling
+  // ============================================================================
+
+  /**
+   * Default maximum number of pages per crawl.
+   * @default 100
+   */
+  DEFAULT_CRAWL_LIMIT: 100,
+
+  /**
+   * Upper bound for the per-crawl page limit.
+   * @default 10,000
+   */
+  MAX_CRAWL_LIMIT: 10_000,
+
+  /**
+   * Delay between progress polls of a running Firecrawl crawl.
+   * @default 5 seconds
+   */
+  CRAWL_POLL_INTERVAL_MS: 5 * 1000,
+
+  /**
+   * Crawls still running this long after they started are marked failed.
+   * @default 2 hours
+   */
+  CRAWL_TIMEOUT_MS: 2 * 60 * 60 * 1000,
+
+  /**
+   * Maximum crawled pages written per mutation.
+   * Keeps each write well under Convex transaction limits.
+   * @default 20
+   */
+  CRAWL_PAGE_BATCH_SIZE: 20,
+
+  // ============================================================================
+  // Site Maps
+  // ============================================================================
+
+  /**
+   * Maximum URLs stored per site map (also the default map limit).
+   * @default 5,000
+   */
+  MAX_MAP_URLS: 5000,
+
+  /**
+   * Byte budget for the URL list of one site map.
+   * Keeps the site map document well under Convex's 1MB document limit;
+   * longer lists are truncated.
+   * @default 512KB in bytes
+   */
+  MAX_MAP_URL_BYTES: 512 * 1024,
+
+  /**
+   * Maximum site map URLs turned into scrape jobs per scrapeSiteMap call.
+   * @default 100
+   */
+  MAX_MAP_FANOUT_BATCH: 100,
+
+  // ============================================================================
+  // Batch Scrapes
+  // ============================================================================
+
+  /**
+   * Maximum URLs per startBatchScrape call.
+   * Every URL is checked and queued in one mutation, so this bounds the
+   * mutation's reads and writes.
+   * @default 500
+   */
+  MAX_BATCH_URLS: 500,
+
+  // ============================================================================
+  // Change Detection
+  // ============================================================================
+
+  /**
+   * Default number of completed versions kept per URL, including the latest.
+   * Two versions are enough for getChanges to compare.
+   * @default 2
+   */
+  DEFAULT_KEEP_VERSIONS: 2,
+
+  /**
+   * Maximum value accepted for the keepVersions scrape option.
+   * @default 10
+   */
+  MAX_KEEP_VERSIONS: 10,
+
+  /**
+   * Maximum size of the line alignment table used by getChanges, in cells
+   * (changed lines before x changed lines after). Larger changes are reported
+   * without a diff.
+   * @default 4,000,000
+   */
+  MAX_DIFF_CELLS: 4_000_000,
+
+  /**
+   * Unchanged lines shown around each change in a diff hunk.
+   * @default 3
+   */
+  DIFF_CONTEXT_LINES: 3,
+
+  // ============================================================================
+  // Monitors
+  // ============================================================================
+
+  /**
+   * Minimum interval between runs of a monitor in milliseconds.
+   * Due monitors are started by a cron that runs every minute.
+   * @default 60000 (1 minute)
+   */
+  MIN_MONITOR_INTERVAL_MS: 60_000,
+
+  /**
+   * Maximum due monitors started per cron run. The rest run on the next tick.
+   * @default 100
+   */
+  MONITOR_BATCH_SIZE: 100,
+
   // ============================================================================
   // URL Validation
   // ============================================================================
@@ -72,6 +331,19 @@ export const CONFIG = {
    */
   MAX_URL_LENGTH: 2000,
 
+  /**
+   * Maximum domain policy rules (allow and deny together).
+   * @default 500
+   */
+  MAX_POLICY_RULES: 500,
+
+  /**
+   * DNS-over-HTTPS JSON API used to resolve hostnames for the resolveDns
+   * scrape option.
+   * @default "https://cloudflare-dns.com/dns-query"
+   */
+  DNS_RESOLVER_URL: "https://cloudflare-dns.com/dns-query",
+
   // ============================================================================
   // Pagination
   // ============================================================================
@@ -94,8 +366,9 @@ export const CONFIG = {
   // ============================================================================
 
   /**
-   * Firecrawl API base URL.
-   * This should not be changed unless using a custom Firecrawl deployment.
+   * Default Firecrawl API base URL.
+   * For a self-hosted deployment, pass `apiBaseUrl` to the FirecrawlScrape
+   * constructor or exposeApi() instead of changing this.
    */
   FIRECRAWL_API_BASE: "https://api.firecrawl.dev/v2",
 } as const;
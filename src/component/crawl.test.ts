@@ -0,0 +1,495 @@
+/// <reference types="vite/client" />
+
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api.js";
+import { initConvexTest } from "./setup.test.js";
+import { jsonResponse } from "./fixtures.test.js";
+import { CONFIG } from "./config.js";
+
+function page(url: string, markdown: string) {
+  return { markdown, metadata: { sourceURL: url, statusCode: 200 } };
+}
+
+describe("startCrawl mutation", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("rejects invalid URLs", async () => {
+    const t = initConvexTest();
+
+    await expect(
+      t.mutation(api.crawl.startCrawl, {
+        url: "http://localhost/admin",
+        apiKey: "test-key",
+      }),
+    ).rejects.toThrow();
+  });
+
+  test("rejects invalid limits", async () => {
+    const t = initConvexTest();
+
+    await expect(
+      t.mutation(api.crawl.startCrawl, {
+        url: "https://example.com",
+        apiKey: "test-key",
+        options: { limit: 0 },
+      }),
+    ).rejects.toThrow(/limit/);
+    await expect(
+      t.mutation(api.crawl.startCrawl, {
+        url: "https://example.com",
+        apiKey: "test-key",
+        options: { maxDepth: -1 },
+      }),
+    ).rejects.toThrow(/maxDepth/);
+  });
+
+  test("creates pending crawl record with settings", async () => {
+    const t = initConvexTest();
+
+    const { crawlId } = await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.com/docs",
+      apiKey: "test-key",
+      options: {
+        limit: 50_000,
+        maxDepth: 2,
+        includePaths: ["^/docs/.*"],
+        excludePaths: ["^/docs/archive/.*"],
+      },
+    });
+
+    const crawl = await t.query(api.crawl.getCrawl, { id: crawlId });
+    expect(crawl?.status).toBe("pending");
+    expect(crawl?.limit).toBe(CONFIG.MAX_CRAWL_LIMIT);
+    expect(crawl?.maxDepth).toBe(2);
+    expect(crawl?.includePaths).toEqual(["^/docs/.*"]);
+    expect(crawl?.excludePaths).toEqual(["^/docs/archive/.*"]);
+    expect(crawl?.formats).toEqual(["markdown"]);
+    expect(crawl?.pagesStored).toBe(0);
+  });
+
+  test("rejects a second crawl of a running URL", async () => {
+    const t = initConvexTest();
+
+    const { crawlId } = await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.com",
+      apiKey: "test-key",
+    });
+
+    await expect(
+      t.mutation(api.crawl.startCrawl, {
+        url: "https://EXAMPLE.com/",
+        apiKey: "test-key",
+      }),
+    ).rejects.toThrow(`Crawl ID: ${crawlId}`);
+  });
+});
+
+describe("crawl actions", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  test("stores pages as scrapes and completes", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ success: true, id: "fc-crawl" }))
+      .mockResolvedValueOnce(
+        jsonResponse({
+          status: "scraping",
+          total: 2,
+          completed: 1,
+          data: [page("https://example.com/a", "# A")],
+        }),
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          status: "completed",
+          total: 2,
+          completed: 2,
+          data: [page("https://example.com/b", "# B")],
+        }),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { crawlId } = await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      options: { limit: 10, includePaths: ["^/.*"] },
+    });
+
+    await t.finishAllScheduledFunctions(() =>
+      vi.advanceTimersByTime(CONFIG.CRAWL_POLL_INTERVAL_MS),
+    );
+
+    // Submitted with the crawl settings, then polled from the last offset
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body).toMatchObject({
+      url: "https://example.com",
+      limit: 10,
+      includePaths: ["^/.*"],
+      scrapeOptions: { formats: ["markdown"] },
+    });
+    expect(fetchMock.mock.calls[1][0]).toContain("/crawl/fc-crawl?skip=0");
+    expect(fetchMock.mock.calls[2][0]).toContain("/crawl/fc-crawl?skip=1");
+
+    const crawl = await t.query(api.crawl.getCrawl, { id: crawlId });
+    expect(crawl?.status).toBe("completed");
+    expect(crawl?.firecrawlId).toBe("fc-crawl");
+    expect(crawl?.pagesTotal).toBe(2);
+    expect(crawl?.pagesCompleted).toBe(2);
+    expect(crawl?.pagesStored).toBe(2);
+    expect(crawl?.completedAt).toBeDefined();
+
+    const { pages } = await t.query(api.crawl.listCrawlPages, { crawlId });
+    expect(pages.map((p) => p.markdown).sort()).toEqual(["# A", "# B"]);
+    expect(pages.every((p) => p.status === "completed")).toBe(true);
+
+    // Each page is a normal cache entry
+    const cached = await t.query(api.lib.getCached, {
+      url: "https://example.com/a",
+    });
+    expect(cached?.markdown).toBe("# A");
+    expect(cached?.crawlId).toBe(crawlId);
+  });
+
+  test("polls crawls started in a namespace", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse({ success: true, id: "fc-crawl" }))
+        .mockResolvedValueOnce(
+          jsonResponse({
+            status: "completed",
+            total: 1,
+            completed: 1,
+            data: [page("https://example.com/a", "# A")],
+          }),
+        ),
+    );
+
+    const t = initConvexTest();
+    const { crawlId } = await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      namespace: "tenant-a",
+    });
+    await t.finishAllScheduledFunctions(() =>
+      vi.advanceTimersByTime(CONFIG.CRAWL_POLL_INTERVAL_MS),
+    );
+
+    const crawl = await t.query(api.crawl.getCrawl, {
+      id: crawlId,
+      namespace: "tenant-a",
+    });
+    expect(crawl?.status).toBe("completed");
+    expect(crawl?.pagesStored).toBe(1);
+  });
+
+  test("does not store the same page twice", async () => {
+    const t = initConvexTest();
+    const { crawlId } = await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.com",
+      apiKey: "test-key",
+    });
+    await t.mutation(internal.crawl.markCrawling, { crawlId });
+
+    const pages = [
+      { url: "https://example.com/a", markdown: "# A" },
+      { url: "https://example.com/a?utm_source=x", markdown: "# A again" },
+      { url: "http://localhost/private", markdown: "# Skipped" },
+    ];
+    const active = await t.mutation(internal.crawl.storeCrawlPages, {
+      crawlId,
+      pages,
+      pagesFetched: pages.length,
+      usage: { credits: pages.length, estimated: true, keyHash: "test" },
+      ttlMs: 60_000,
+    });
+
+    expect(active).toBe(true);
+    const crawl = await t.query(api.crawl.getCrawl, { id: crawlId });
+    expect(crawl?.pagesStored).toBe(1);
+    expect(crawl?.pagesFetched).toBe(3);
+  });
+
+  test("fails the crawl when Firecrawl rejects it", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce(
+          jsonResponse({ error: "Insufficient credits" }, 402),
+        ),
+    );
+
+    const t = initConvexTest();
+    const { crawlId } = await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.com",
+      apiKey: "test-key",
+    });
+
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const crawl = await t.query(api.crawl.getCrawl, { id: crawlId });
+    expect(crawl?.status).toBe("failed");
+    expect(crawl?.error).toBe("Insufficient credits");
+    expect(crawl?.errorCode).toBe(402);
+  });
+
+  test("submits and polls on a custom endpoint", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ success: true, id: "fc-crawl" }))
+      .mockResolvedValueOnce(
+        jsonResponse({ status: "completed", total: 0, completed: 0, data: [] }),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      apiBaseUrl: "http://firecrawl.internal:3002/v2",
+      apiKeyHeader: "X-Api-Key",
+    });
+
+    await t.finishAllScheduledFunctions(() =>
+      vi.advanceTimersByTime(CONFIG.CRAWL_POLL_INTERVAL_MS),
+    );
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      "http://firecrawl.internal:3002/v2/crawl",
+      "http://firecrawl.internal:3002/v2/crawl/fc-crawl?skip=0",
+    ]);
+    for (const [, init] of fetchMock.mock.calls) {
+      expect(init.headers).toMatchObject({ "X-Api-Key": "test-key" });
+    }
+  });
+
+  test("keeps polling through transient errors", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ success: true, id: "fc-crawl" }))
+      .mockResolvedValueOnce(jsonResponse({ error: "Busy" }, 503))
+      .mockResolvedValueOnce(
+        jsonResponse({
+          status: "completed",
+          total: 1,
+          completed: 1,
+          data: [page("https://example.com", "# Home")],
+        }),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { crawlId } = await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.com",
+      apiKey: "test-key",
+    });
+
+    await t.finishAllScheduledFunctions(() =>
+      vi.advanceTimersByTime(CONFIG.CRAWL_POLL_INTERVAL_MS),
+    );
+
+    const crawl = await t.query(api.crawl.getCrawl, { id: crawlId });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(crawl?.status).toBe("completed");
+    expect(crawl?.pagesStored).toBe(1);
+  });
+
+  test("fails on errors other than network errors and deletes unsaved files", async () => {
+    const largeHtml = `<p>${"x".repeat(CONFIG.FILE_STORAGE_THRESHOLD_BYTES)}</p>`;
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ success: true, id: "fc-crawl" }))
+      .mockResolvedValueOnce(
+        jsonResponse({
+          status: "scraping",
+          total: 2,
+          completed: 2,
+          data: [
+            {
+              html: largeHtml,
+              metadata: { sourceURL: "https://example.com/large" },
+            },
+            // Rejected by storeCrawlPages' argument validator
+            { markdown: 42, metadata: { sourceURL: "https://example.com" } },
+          ],
+        }),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { crawlId } = await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      options: { formats: ["markdown", "html"] },
+    });
+
+    await t.finishAllScheduledFunctions(() =>
+      vi.advanceTimersByTime(CONFIG.CRAWL_POLL_INTERVAL_MS),
+    );
+
+    const crawl = await t.query(api.crawl.getCrawl, { id: crawlId });
+    expect(crawl?.status).toBe("failed");
+    expect(crawl?.pagesStored).toBe(0);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const files = await t.run(async (ctx) =>
+      ctx.db.system.query("_storage").collect(),
+    );
+    expect(files).toEqual([]);
+  });
+
+  test("retries a crawl submission after a transient error", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ error: "Busy" }, 503))
+      .mockResolvedValueOnce(jsonResponse({ success: true, id: "fc-crawl" }))
+      .mockResolvedValueOnce(
+        jsonResponse({ status: "completed", total: 0, completed: 0, data: [] }),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { crawlId } = await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.com",
+      apiKey: "test-key",
+    });
+
+    await t.finishAllScheduledFunctions(() =>
+      vi.advanceTimersByTime(CONFIG.CRAWL_POLL_INTERVAL_MS),
+    );
+
+    const crawl = await t.query(api.crawl.getCrawl, { id: crawlId });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(crawl?.status).toBe("completed");
+    expect(crawl?.error).toBeUndefined();
+  });
+
+  test("a 429 on submission fails over to the next pooled key", async () => {
+    const fetchMock = vi.fn(async (input: string, init?: RequestInit) => {
+      const auth = (init?.headers as Record<string, string>).Authorization;
+      if (auth === "Bearer fc-limited") {
+        return jsonResponse({ error: "Rate limited" }, 429);
+      }
+      return input.endsWith("/crawl")
+        ? jsonResponse({ success: true, id: "fc-crawl" })
+        : jsonResponse({
+            status: "completed",
+            total: 0,
+            completed: 0,
+            data: [],
+          });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { crawlId } = await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.com",
+      apiKey: ["fc-limited", "fc-spare"],
+    });
+
+    await t.finishAllScheduledFunctions(() =>
+      vi.advanceTimersByTime(CONFIG.CRAWL_POLL_INTERVAL_MS),
+    );
+
+    const crawl = await t.query(api.crawl.getCrawl, { id: crawlId });
+    expect(crawl?.status).toBe("completed");
+    // The poll stays on the key the crawl was submitted with
+    expect(
+      fetchMock.mock.calls.map(
+        ([, init]) => (init?.headers as Record<string, string>).Authorization,
+      ),
+    ).toEqual(["Bearer fc-limited", "Bearer fc-spare", "Bearer fc-spare"]);
+  });
+});
+
+describe("crawl namespaces", () => {
+  test("crawls and their pages stay in the crawl's namespace", async () => {
+    const t = initConvexTest();
+    const { crawlId } = await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      namespace: "tenant-a",
+    });
+    await t.mutation(internal.crawl.markCrawling, { crawlId });
+    await t.mutation(internal.crawl.storeCrawlPages, {
+      crawlId,
+      pages: [{ url: "https://example.com/a", markdown: "# A" }],
+      pagesFetched: 1,
+      usage: { credits: 1, estimated: true, keyHash: "test" },
+      ttlMs: 60_000,
+    });
+
+    // Another namespace can crawl the same URL but cannot see this crawl
+    await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      namespace: "tenant-b",
+    });
+    expect(
+      await t.query(api.crawl.getCrawl, { id: crawlId, namespace: "tenant-b" }),
+    ).toBeNull();
+    const hidden = await t.query(api.crawl.listCrawlPages, { crawlId });
+    expect(hidden.pages).toEqual([]);
+
+    const { pages } = await t.query(api.crawl.listCrawlPages, {
+      crawlId,
+      namespace: "tenant-a",
+    });
+    expect(pages.map((p) => p.namespace)).toEqual(["tenant-a"]);
+    expect(
+      await t.query(api.lib.getCached, { url: "https://example.com/a" }),
+    ).toBeNull();
+    const cached = await t.query(api.lib.getCached, {
+      url: "https://example.com/a",
+      namespace: "tenant-a",
+    });
+    expect(cached?.crawlId).toBe(crawlId);
+  });
+});
+
+describe("crawl cleanup", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("cleanupExpiredCrawls deletes finished crawls past expiry", async () => {
+    const t = initConvexTest();
+    const { crawlId } = await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      options: { ttlMs: 1000 },
+    });
+    const running = await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.org",
+      apiKey: "test-key",
+      options: { ttlMs: 1000 },
+    });
+    await t.mutation(internal.crawl.markCrawling, { crawlId });
+    await t.mutation(internal.crawl.completeCrawl, { crawlId, ttlMs: 1000 });
+
+    vi.advanceTimersByTime(2000);
+    const result = await t.mutation(internal.crawl.cleanupExpiredCrawls, {});
+
+    expect(result.deletedCount).toBe(1);
+    expect(await t.query(api.crawl.getCrawl, { id: crawlId })).toBeNull();
+    expect(
+      await t.query(api.crawl.getCrawl, { id: running.crawlId }),
+    ).not.toBeNull();
+  });
+});
@@ -0,0 +1,992 @@
+/**
+ * Multi-page crawl jobs for the Firecrawl Scrape component.
+ *
+ * A crawl starts at one URL and follows links using Firecrawl's crawl
+ * endpoint. Progress is tracked in the crawls table, and every crawled page
+ * is stored as a regular completed scrapes row linked by crawlId, so
+ * getCached and getContent work per page.
+ */
+
+import { v } from "convex/values";
+import {
+  query,
+  mutation,
+  internalQuery,
+  internalMutation,
+  internalAction,
+} from "./_generated/server.js";
+import { internal } from "./_generated/api.js";
+import schema from "./schema.js";
+import { formatValidationError, normalizeUrl, hashUrl } from "./url.js";
+import { CONFIG } from "./config.js";
+import { scrapeFormatValidator, proxyValidator } from "./options.js";
+import {
+  scrapeValidator,
+  scrapeContentFields,
+  firecrawlEndpointFields,
+  firecrawlKeyFields,
+  firecrawlKeyRefFields,
+  selectedKeyRefFields,
+  type ScrapeContent,
+} from "./validators.js";
+import {
+  isTransientStatus,
+  isNetworkError,
+  isKeyQuotaStatus,
+  computeRetryDelay,
+  parseRetryAfter,
+  reserveRateLimitSlot,
+  readFirecrawlError,
+  extractScrapeContent,
+  checkFirecrawlEndpoint,
+  firecrawlUrl,
+  firecrawlAuthHeaders,
+  type FirecrawlCrawlStatus,
+} from "./firecrawl.js";
+import { checkTtl, optionsFingerprint } from "./jobs.js";
+import {
+  resolveFirecrawlKey,
+  selectFirecrawlKey,
+  recordKeyFailure,
+  firecrawlApiKey,
+} from "./credentials.js";
+import { loadPolicyRules, validateScrapeUrl } from "./policy.js";
+import {
+  checkBudgets,
+  estimateCredits,
+  recordUsage,
+  reportedCredits,
+  scrapeUsageValidator,
+} from "./usage.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Storage files a crawled page's content was moved to */
+function contentFileIds(content: ScrapeContent) {
+  return [
+    content.markdownFileId,
+    content.htmlFileId,
+    content.rawHtmlFileId,
+    content.screenshotFileId,
+    content.linksFileId,
+    content.imagesFileId,
+    content.extractedJsonFileId,
+    content.sourceDocumentFileId,
+  ].filter((id): id is NonNullable<typeof id> => id !== undefined);
+}
+
+// ============================================================================
+// Validators
+// ============================================================================
+
+const crawlOptionsValidator = v.object({
+  limit: v.optional(v.number()),
+  maxDepth: v.optional(v.number()),
+  includePaths: v.optional(v.array(v.string())),
+  excludePaths: v.optional(v.array(v.string())),
+  formats: v.optional(v.array(scrapeFormatValidator)),
+  ttlMs: v.optional(v.number()),
+  onlyMainContent: v.optional(v.boolean()),
+  includeTags: v.optional(v.array(v.string())),
+  excludeTags: v.optional(v.array(v.string())),
+  waitFor: v.optional(v.number()),
+  mobile: v.optional(v.boolean()),
+  proxy: v.optional(proxyValidator),
+  storeScreenshot: v.optional(v.boolean()),
+});
+
+const crawlValidator = schema.tables.crawls.validator.extend({
+  _id: v.id("crawls"),
+  _creationTime: v.number(),
+});
+
+const crawlPageValidator = v.object({
+  url: v.string(),
+  ...scrapeContentFields,
+});
+
+// ============================================================================
+// Public Queries
+// ============================================================================
+
+/**
+ * Get a crawl job by ID, including its progress counters. A crawl in another
+ * namespace is treated as not found.
+ */
+export const getCrawl = query({
+  args: {
+    id: v.id("crawls"),
+    namespace: v.optional(v.string()),
+  },
+  returns: v.union(v.null(), crawlValidator),
+  handler: async (ctx, args) => {
+    const crawl = await ctx.db.get(args.id);
+    if (!crawl || crawl.namespace !== args.namespace) {
+      return null;
+    }
+    return crawl;
+  },
+});
+
+/**
+ * List the pages stored for a crawl, newest first, with pagination.
+ *
+ * Pages are regular scrape records - pass their `_id` to getContent for
+ * file storage URLs. A crawl in another namespace has no pages.
+ */
+export const listCrawlPages = query({
+  args: {
+    crawlId: v.id("crawls"),
+    namespace: v.optional(v.string()),
+    limit: v.optional(v.number()),
+    cursor: v.optional(v.string()),
+  },
+  returns: v.object({
+    pages: v.array(scrapeValidator),
+    nextCursor: v.union(v.null(), v.string()),
+    hasMore: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    const limit = Math.min(
+      args.limit ?? CONFIG.DEFAULT_LIST_LIMIT,
+      CONFIG.MAX_LIST_LIMIT,
+    );
+
+    const crawl = await ctx.db.get(args.crawlId);
+    if (!crawl || crawl.namespace !== args.namespace) {
+      return { pages: [], nextCursor: null, hasMore: false };
+    }
+
+    const results = await ctx.db
+      .query("scrapes")
+      .withIndex("by_crawl", (q) => q.eq("crawlId", args.crawlId))
+      .order("desc")
+      .paginate({ cursor: args.cursor ?? null, numItems: limit });
+
+    return {
+      pages: results.page,
+      nextCursor: results.continueCursor,
+      hasMore: !results.isDone,
+    };
+  },
+});
+
+// ============================================================================
+// Public Mutations
+// ============================================================================
+
+/**
+ * Start a crawl job from a URL.
+ *
+ * Returns immediately with a crawl ID. The crawl is submitted to Firecrawl
+ * in a scheduled action and polled until it finishes; pages are stored as
+ * they arrive. Use `getCrawl` to follow progress.
+ *
+ * Starting the crawl uses one rate limit slot for the API key.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients. Use `exposeApi()` from the client package to create
+ * authenticated wrappers that control API key access.
+ *
+ * @param url - The URL to start crawling from
+ * @param apiKey - Firecrawl API key or key pool (or pass `credential` instead)
+ * @param credential - ID or label of a credential stored with setCredential, or a list
+ * @param namespace - Cache namespace the pages are stored in
+ * @param apiBaseUrl - Firecrawl API base URL (defaults to CONFIG.FIRECRAWL_API_BASE)
+ * @param apiKeyHeader - Header for the API key (defaults to Authorization: Bearer)
+ * @param options - Crawl limits, path filters and per-page scrape options
+ * @param maxRequestsPerMinute - Rate limit for this API key
+ * @returns Crawl ID for tracking
+ *
+ * @internal
+ */
+export const startCrawl = mutation({
+  args: {
+    url: v.string(),
+    ...firecrawlKeyFields,
+    namespace: v.optional(v.string()),
+    ...firecrawlEndpointFields,
+    options: v.optional(crawlOptionsValidator),
+    maxRequestsPerMinute: v.optional(v.number()),
+  },
+  returns: v.object({ crawlId: v.id("crawls") }),
+  handler: async (ctx, args) => {
+    const { url, options = {} } = args;
+    const maxRequestsPerMinute =
+      args.maxRequestsPerMinute ?? CONFIG.DEFAULT_RATE_LIMIT_PER_MINUTE;
+    if (!(maxRequestsPerMinute > 0)) {
+      throw new Error("maxRequestsPerMinute must be greater than 0");
+    }
+
+    // 1. Validate URL, endpoint, API key and limits
+    const validation = validateScrapeUrl(url, await loadPolicyRules(ctx));
+    if (!validation.valid) {
+      throw new Error(formatValidationError(validation.error));
+    }
+    checkFirecrawlEndpoint(args);
+    const { keyRef, keyHashes, rateLimitKey } = await resolveFirecrawlKey(
+      ctx,
+      args,
+    );
+    const limit = Math.min(
+      options.limit ?? CONFIG.DEFAULT_CRAWL_LIMIT,
+      CONFIG.MAX_CRAWL_LIMIT,
+    );
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error("Crawl limit must be a positive integer");
+    }
+    if (
+      options.maxDepth !== undefined &&
+      (!Number.isInteger(options.maxDepth) || options.maxDepth < 0)
+    ) {
+      throw new Error("maxDepth must be a non-negative integer");
+    }
+    checkTtl(options.ttlMs);
+
+    // 2. Normalize URL and compute hash
+    const normalizedUrl = normalizeUrl(url);
+    const urlHash = await hashUrl(normalizedUrl);
+
+    // 3. Check for a running crawl of the same URL in the namespace
+    const existing = await ctx.db
+      .query("crawls")
+      .withIndex("by_namespace_url_hash", (q) =>
+        q.eq("namespace", args.namespace).eq("urlHash", urlHash),
+      )
+      .order("desc")
+      .take(10);
+    for (const crawl of existing) {
+      if (crawl.status === "pending" || crawl.status === "crawling") {
+        throw new Error(
+          `Crawl already in progress for this URL. Crawl ID: ${crawl._id}`,
+        );
+      }
+    }
+
+    // 4. Reject the crawl once the namespace's or key's budget is used up
+    const now = Date.now();
+    await checkBudgets(ctx, args.namespace, keyHashes, now);
+
+    // 5. Reserve a rate limit slot for this API key
+    const queuedUntil = await reserveRateLimitSlot(
+      ctx,
+      rateLimitKey,
+      maxRequestsPerMinute,
+      now,
+    );
+
+    // 6. Create pending crawl record
+    const formats = options.formats ?? ["markdown"];
+    const ttlMs = options.ttlMs ?? CONFIG.DEFAULT_TTL_MS;
+
+    const crawlId = await ctx.db.insert("crawls", {
+      url,
+      normalizedUrl,
+      urlHash,
+      namespace: args.namespace,
+      status: "pending",
+      formats,
+      limit,
+      maxDepth: options.maxDepth,
+      includePaths: options.includePaths,
+      excludePaths: options.excludePaths,
+      optionsFingerprint: await optionsFingerprint(options),
+      pagesStored: 0,
+      pagesFetched: 0,
+      rateLimitKey,
+      startedAt: now,
+      expiresAt: now + ttlMs, // Will be updated on completion
+    });
+
+    // 7. Schedule the crawl action for its rate limit slot
+    await ctx.scheduler.runAfter(
+      queuedUntil - now,
+      internal.crawl.crawlAction,
+      {
+        crawlId,
+        url,
+        ...keyRef,
+        apiBaseUrl: args.apiBaseUrl,
+        apiKeyHeader: args.apiKeyHeader,
+        formats,
+        options: {
+          limit,
+          maxDepth: options.maxDepth,
+          includePaths: options.includePaths,
+          excludePaths: options.excludePaths,
+          onlyMainContent: options.onlyMainContent,
+          includeTags: options.includeTags,
+          excludeTags: options.excludeTags,
+          waitFor: options.waitFor,
+          mobile: options.mobile,
+          proxy: options.proxy ?? "basic",
+          storeScreenshot: options.storeScreenshot,
+        },
+        ttlMs,
+      },
+    );
+
+    return { crawlId };
+  },
+});
+
+// ============================================================================
+// Internal Queries
+// ============================================================================
+
+/**
+ * Get a crawl by ID whatever its namespace, for the poll action.
+ */
+export const getCrawlInternal = internalQuery({
+  args: {
+    crawlId: v.id("crawls"),
+  },
+  returns: v.union(v.null(), crawlValidator),
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.crawlId);
+  },
+});
+
+// ============================================================================
+// Internal Mutations
+// ============================================================================
+
+/**
+ * Mark a crawl as running. Returns false if the crawl is no longer pending.
+ */
+export const markCrawling = internalMutation({
+  args: {
+    crawlId: v.id("crawls"),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const crawl = await ctx.db.get(args.crawlId);
+    if (!crawl || crawl.status !== "pending") {
+      return false;
+    }
+
+    await ctx.db.patch(args.crawlId, {
+      status: "crawling",
+      crawlingAt: Date.now(),
+    });
+    return true;
+  },
+});
+
+/**
+ * Put a crawl back to pending after a transient submission failure, keeping
+ * the error until the next attempt. Returns false if the crawl is no longer
+ * being submitted, so no retry should be scheduled.
+ */
+export const scheduleCrawlRetry = internalMutation({
+  args: {
+    crawlId: v.id("crawls"),
+    error: v.string(),
+    errorCode: v.optional(v.union(v.number(), v.string())),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const crawl = await ctx.db.get(args.crawlId);
+    if (!crawl || crawl.status !== "crawling") {
+      return false;
+    }
+
+    await ctx.db.patch(args.crawlId, {
+      status: "pending",
+      error: args.error,
+      errorCode: args.errorCode,
+    });
+    return true;
+  },
+});
+
+/**
+ * Record the Firecrawl job ID once the crawl has been submitted, clearing
+ * errors left behind by earlier attempts.
+ */
+export const setFirecrawlId = internalMutation({
+  args: {
+    crawlId: v.id("crawls"),
+    firecrawlId: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.crawlId, {
+      firecrawlId: args.firecrawlId,
+      error: undefined,
+      errorCode: undefined,
+    });
+    return null;
+  },
+});
+
+/**
+ * Store a batch of crawled pages as completed scrapes rows.
+ *
+ * Pages already stored for this crawl (same normalized URL) and pages with
+ * URLs that fail validation or the domain policy are skipped, and their files
+ * deleted. The credits
+ * of every fetched page are recorded, since Firecrawl charged for them.
+ * Returns false if the crawl is no longer running, so the caller can stop
+ * polling.
+ */
+export const storeCrawlPages = internalMutation({
+  args: {
+    crawlId: v.id("crawls"),
+    pages: v.array(crawlPageValidator),
+    pagesFetched: v.number(), // Firecrawl results consumed by this batch
+    usage: scrapeUsageValidator, // Credits of those results
+    pagesTotal: v.optional(v.number()),
+    pagesCompleted: v.optional(v.number()),
+    ttlMs: v.number(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const crawl = await ctx.db.get(args.crawlId);
+    const active = crawl?.status === "crawling";
+    const now = Date.now();
+    let stored = 0;
+    if (crawl) {
+      await recordUsage(ctx, crawl.namespace, args.usage, args.pagesFetched);
+    }
+    const policyRules = await loadPolicyRules(ctx);
+
+    for (const { url, ...content } of args.pages) {
+      if (active && validateScrapeUrl(url, policyRules).valid) {
+        const normalizedUrl = normalizeUrl(url);
+        const urlHash = await hashUrl(normalizedUrl);
+        const duplicate = await ctx.db
+          .query("scrapes")
+          .withIndex("by_crawl", (q) =>
+            q.eq("crawlId", args.crawlId).eq("urlHash", urlHash),
+          )
+          .first();
+
+        if (!duplicate) {
+          await ctx.db.insert("scrapes", {
+            url,
+            normalizedUrl,
+            urlHash,
+            namespace: crawl.namespace,
+            status: "completed",
+            formats: crawl.formats,
+            optionsFingerprint: crawl.optionsFingerprint,
+            crawlId: args.crawlId,
+            startedAt: now,
+            scrapedAt: now,
+            expiresAt: now + args.ttlMs,
+            ...content,
+          });
+          stored++;
+          continue;
+        }
+      }
+
+      // Skipped page - delete files stored for it by the action
+      for (const fileId of contentFileIds(content)) {
+        await ctx.storage.delete(fileId);
+      }
+    }
+
+    if (!active) {
+      return false;
+    }
+
+    await ctx.db.patch(args.crawlId, {
+      pagesStored: crawl.pagesStored + stored,
+      pagesFetched: crawl.pagesFetched + args.pagesFetched,
+      pagesTotal: args.pagesTotal ?? crawl.pagesTotal,
+      pagesCompleted: args.pagesCompleted ?? crawl.pagesCompleted,
+    });
+    return true;
+  },
+});
+
+/**
+ * Mark a crawl as completed. No-op unless the crawl is still running.
+ */
+export const completeCrawl = internalMutation({
+  args: {
+    crawlId: v.id("crawls"),
+    ttlMs: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const crawl = await ctx.db.get(args.crawlId);
+    if (!crawl || crawl.status !== "crawling") {
+      return null;
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.crawlId, {
+      status: "completed",
+      completedAt: now,
+      expiresAt: now + args.ttlMs,
+    });
+    return null;
+  },
+});
+
+/**
+ * Mark a crawl as failed with error details.
+ *
+ * Pages stored before the failure are kept. No-op if the crawl is already
+ * in a terminal state.
+ */
+export const failCrawl = internalMutation({
+  args: {
+    crawlId: v.id("crawls"),
+    error: v.string(),
+    errorCode: v.optional(v.union(v.number(), v.string())),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const crawl = await ctx.db.get(args.crawlId);
+    if (!crawl || crawl.status === "completed" || crawl.status === "failed") {
+      return null;
+    }
+
+    await ctx.db.patch(args.crawlId, {
+      status: "failed",
+      error: args.error,
+      errorCode: args.errorCode,
+      completedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+// ============================================================================
+// Internal Actions
+// ============================================================================
+
+/**
+ * Submit a crawl to Firecrawl and schedule the first progress poll.
+ *
+ * Like scrapeAction, transient failures (429, 408, 5xx, network errors) are
+ * rescheduled with exponential backoff up to CONFIG.DEFAULT_MAX_RETRIES
+ * times, and with a key pool a 402 or 429 first fails over to the next key
+ * that has not been tried.
+ */
+export const crawlAction = internalAction({
+  args: {
+    crawlId: v.id("crawls"),
+    attempt: v.optional(v.number()), // 1 for the first submission
+    url: v.string(),
+    ...firecrawlKeyRefFields,
+    ...firecrawlEndpointFields,
+    formats: v.array(scrapeFormatValidator),
+    options: v.object({
+      limit: v.number(),
+      maxDepth: v.optional(v.number()),
+      includePaths: v.optional(v.array(v.string())),
+      excludePaths: v.optional(v.array(v.string())),
+      onlyMainContent: v.optional(v.boolean()),
+      includeTags: v.optional(v.array(v.string())),
+      excludeTags: v.optional(v.array(v.string())),
+      waitFor: v.optional(v.number()),
+      mobile: v.optional(v.boolean()),
+      proxy: proxyValidator,
+      storeScreenshot: v.optional(v.boolean()),
+    }),
+    ttlMs: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { crawlId, url, formats, options, ttlMs } = args;
+    const attempt = args.attempt ?? 1;
+
+    const started = await ctx.runMutation(internal.crawl.markCrawling, {
+      crawlId,
+    });
+    if (!started) {
+      return null;
+    }
+
+    let key = await selectFirecrawlKey(ctx, args);
+    if (key === null) {
+      await ctx.runMutation(internal.crawl.failCrawl, {
+        crawlId,
+        error: "Firecrawl credential not found or over its credit budget",
+      });
+      return null;
+    }
+
+    // Reschedule a transient failure, or fail the crawl once retries run out
+    const retryOrFail = async (
+      error: string,
+      errorCode?: number | string,
+      retryAfterMs?: number,
+    ) => {
+      if (attempt > CONFIG.DEFAULT_MAX_RETRIES) {
+        await ctx.runMutation(internal.crawl.failCrawl, {
+          crawlId,
+          error,
+          errorCode,
+        });
+        return;
+      }
+
+      const delayMs = Math.min(
+        Math.max(
+          computeRetryDelay(attempt, CONFIG.DEFAULT_RETRY_BASE_DELAY_MS),
+          retryAfterMs ?? 0,
+        ),
+        CONFIG.MAX_RETRY_DELAY_MS,
+      );
+      const shouldRetry = await ctx.runMutation(
+        internal.crawl.scheduleCrawlRetry,
+        { crawlId, error, errorCode },
+      );
+      if (shouldRetry) {
+        await ctx.scheduler.runAfter(delayMs, internal.crawl.crawlAction, {
+          ...args,
+          attempt: attempt + 1,
+        });
+      }
+    };
+
+    try {
+      // Per-page options use the same shape as a single scrape
+      const scrapeOptions: Record<string, unknown> = {
+        formats,
+        onlyMainContent: options.onlyMainContent ?? true,
+        proxy: options.proxy,
+      };
+      if (options.includeTags) {
+        scrapeOptions.includeTags = options.includeTags;
+      }
+      if (options.excludeTags) {
+        scrapeOptions.excludeTags = options.excludeTags;
+      }
+      if (options.waitFor) {
+        scrapeOptions.waitFor = options.waitFor;
+      }
+      if (options.mobile !== undefined) {
+        scrapeOptions.mobile = options.mobile;
+      }
+
+      const requestBody: Record<string, unknown> = {
+        url,
+        limit: options.limit,
+        scrapeOptions,
+      };
+      if (options.maxDepth !== undefined) {
+        requestBody.maxDiscoveryDepth = options.maxDepth;
+      }
+      if (options.includePaths) {
+        requestBody.includePaths = options.includePaths;
+      }
+      if (options.excludePaths) {
+        requestBody.excludePaths = options.excludePaths;
+      }
+
+      // Submit the crawl, failing over to the next pooled key on 402/429
+      const tried: string[] = [];
+      let response: Response;
+      for (;;) {
+        tried.push(key.keyHash);
+        response = await fetch(firecrawlUrl(args, "/crawl"), {
+          method: "POST",
+          headers: {
+            ...firecrawlAuthHeaders(key.apiKey, args),
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(requestBody),
+        });
+        if (response.ok) {
+          break;
+        }
+        await recordKeyFailure(ctx, key.keyHash, response);
+        const next = isKeyQuotaStatus(response.status)
+          ? await selectFirecrawlKey(ctx, args, tried)
+          : null;
+        if (next === null) {
+          break;
+        }
+        key = next;
+      }
+
+      if (!response.ok) {
+        const { errorMessage, errorCode } = await readFirecrawlError(response);
+        if (isTransientStatus(response.status)) {
+          await retryOrFail(
+            errorMessage,
+            errorCode,
+            parseRetryAfter(response.headers.get("Retry-After")),
+          );
+          return null;
+        }
+        await ctx.runMutation(internal.crawl.failCrawl, {
+          crawlId,
+          error: errorMessage,
+          errorCode,
+        });
+        return null;
+      }
+
+      const result = await response.json();
+      if (!result.success || !result.id) {
+        await ctx.runMutation(internal.crawl.failCrawl, {
+          crawlId,
+          error: result.error || "Firecrawl crawl failed to start",
+          errorCode: result.code,
+        });
+        return null;
+      }
+
+      await ctx.runMutation(internal.crawl.setFirecrawlId, {
+        crawlId,
+        firecrawlId: result.id,
+      });
+      await ctx.scheduler.runAfter(
+        CONFIG.CRAWL_POLL_INTERVAL_MS,
+        internal.crawl.pollCrawl,
+        {
+          crawlId,
+          firecrawlId: result.id,
+          ...key.keyRef,
+          apiBaseUrl: args.apiBaseUrl,
+          apiKeyHeader: args.apiKeyHeader,
+          proxy: options.proxy,
+          storeScreenshot: options.storeScreenshot,
+          ttlMs,
+        },
+      );
+      return null;
+    } catch (error) {
+      // Network failures are transient; anything else would fail again
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      if (isNetworkError(error)) {
+        await retryOrFail(errorMessage);
+      } else {
+        await ctx.runMutation(internal.crawl.failCrawl, {
+          crawlId,
+          error: errorMessage,
+        });
+      }
+      return null;
+    }
+  },
+});
+
+/**
+ * Poll a running Firecrawl crawl, store newly finished pages, and either
+ * finish the crawl or schedule the next poll.
+ *
+ * Transient API and network errors only delay the next poll, by at least
+ * the Retry-After hint of a 429; the crawl is failed once it has run longer
+ * than CONFIG.CRAWL_TIMEOUT_MS. Any other error fails the crawl at once, and
+ * files stored for pages not yet saved are deleted either way. Polls use the
+ * key the crawl was started with, since a crawl belongs to one account, so
+ * there is no failover, but errors are still recorded against the key so the
+ * pool avoids it.
+ */
+export const pollCrawl = internalAction({
+  args: {
+    crawlId: v.id("crawls"),
+    firecrawlId: v.string(),
+    ...selectedKeyRefFields,
+    ...firecrawlEndpointFields,
+    proxy: v.optional(proxyValidator),
+    storeScreenshot: v.optional(v.boolean()),
+    ttlMs: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { crawlId, firecrawlId, proxy, storeScreenshot, ttlMs } = args;
+
+    const crawl = await ctx.runQuery(internal.crawl.getCrawlInternal, {
+      crawlId,
+    });
+    if (!crawl || crawl.status !== "crawling") {
+      return null;
+    }
+    if (Date.now() - crawl.startedAt > CONFIG.CRAWL_TIMEOUT_MS) {
+      await ctx.runMutation(internal.crawl.failCrawl, {
+        crawlId,
+        error: `Crawl timed out after ${CONFIG.CRAWL_TIMEOUT_MS}ms`,
+      });
+      return null;
+    }
+    const apiKey = await firecrawlApiKey(ctx, args);
+    if (apiKey === null) {
+      await ctx.runMutation(internal.crawl.failCrawl, {
+        crawlId,
+        error: "Firecrawl credential not found",
+      });
+      return null;
+    }
+    const keyHash = await hashUrl(apiKey);
+
+    const pollAgain = async (retryAfterMs?: number) => {
+      await ctx.scheduler.runAfter(
+        Math.max(
+          CONFIG.CRAWL_POLL_INTERVAL_MS,
+          Math.min(retryAfterMs ?? 0, CONFIG.MAX_RETRY_DELAY_MS),
+        ),
+        internal.crawl.pollCrawl,
+        args,
+      );
+    };
+
+    // Pages extracted (and their files stored) but not yet saved as rows
+    let unsaved: ScrapeContent[] = [];
+
+    try {
+      let skip = crawl.pagesFetched;
+      let status: string;
+
+      // Read every page finished since the last poll, following pagination
+      for (;;) {
+        const response = await fetch(
+          firecrawlUrl(
+            args,
+            `/crawl/${encodeURIComponent(firecrawlId)}?skip=${skip}`,
+          ),
+          { headers: firecrawlAuthHeaders(apiKey, args) },
+        );
+
+        if (!response.ok) {
+          const { errorMessage, errorCode } =
+            await readFirecrawlError(response);
+          await recordKeyFailure(ctx, keyHash, response);
+          if (isTransientStatus(response.status)) {
+            await pollAgain(
+              parseRetryAfter(response.headers.get("Retry-After")),
+            );
+          } else {
+            await ctx.runMutation(internal.crawl.failCrawl, {
+              crawlId,
+              error: errorMessage,
+              errorCode,
+            });
+          }
+          return null;
+        }
+
+        const result: FirecrawlCrawlStatus = await response.json();
+        status = result.status;
+        const documents = result.data ?? [];
+
+        for (
+          let i = 0;
+          i < documents.length;
+          i += CONFIG.CRAWL_PAGE_BATCH_SIZE
+        ) {
+          const batch = documents.slice(i, i + CONFIG.CRAWL_PAGE_BATCH_SIZE);
+          const pages: Array<ScrapeContent & { url: string }> = [];
+          unsaved = pages;
+          let credits = 0;
+          let estimated = false;
+          for (const doc of batch) {
+            const reported = reportedCredits({ data: doc });
+            credits +=
+              reported ??
+              estimateCredits(crawl.formats, { proxy, extraction: false });
+            estimated ||= reported === undefined;
+
+            const url = doc.metadata?.sourceURL ?? doc.metadata?.url;
+            if (typeof url !== "string") {
+              continue;
+            }
+            const content = await extractScrapeContent(ctx, doc, {
+              storeScreenshot,
+            });
+            pages.push({ url, ...content });
+          }
+
+          const active = await ctx.runMutation(internal.crawl.storeCrawlPages, {
+            crawlId,
+            pages,
+            pagesFetched: batch.length,
+            usage: { credits, estimated, keyHash },
+            pagesTotal: result.total,
+            pagesCompleted: result.completed,
+            ttlMs,
+          });
+          unsaved = [];
+          if (!active) {
+            return null;
+          }
+        }
+
+        skip += documents.length;
+        if (!result.next || documents.length === 0) {
+          break;
+        }
+      }
+
+      if (status === "completed") {
+        await ctx.runMutation(internal.crawl.completeCrawl, { crawlId, ttlMs });
+      } else if (status === "failed") {
+        await ctx.runMutation(internal.crawl.failCrawl, {
+          crawlId,
+          error: "Firecrawl crawl failed",
+        });
+      } else {
+        await pollAgain();
+      }
+      return null;
+    } catch (error) {
+      // The pages are fetched again by the next poll, or never stored
+      for (const content of unsaved) {
+        for (const fileId of contentFileIds(content)) {
+          await ctx.storage.delete(fileId);
+        }
+      }
+
+      // Network failures are retried on the next poll; anything else would
+      // fail again
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      if (isNetworkError(error)) {
+        console.warn(`Crawl poll failed, retrying: ${errorMessage}`);
+        await pollAgain();
+      } else {
+        await ctx.runMutation(internal.crawl.failCrawl, {
+          crawlId,
+          error: errorMessage,
+        });
+      }
+      return null;
+    }
+  },
+});
+
+// ============================================================================
+// Cron Job Mutations
+// ============================================================================
+
+/**
+ * Delete finished crawl records past their expiry.
+ *
+ * Only the crawl record is removed; its pages are ordinary cache entries and
+ * expire through cleanupExpired on their own TTL.
+ */
+export const cleanupExpiredCrawls = internalMutation({
+  args: {},
+  returns: v.object({ deletedCount: v.number() }),
+  handler: async (ctx) => {
+    const now = Date.now();
+    const expired = await ctx.db
+      .query("crawls")
+      .withIndex("by_expires", (q) => q.lt("expiresAt", now))
+      .take(CONFIG.CLEANUP_BATCH_SIZE);
+
+    let deletedCount = 0;
+    for (const crawl of expired) {
+      // Never delete running crawls
+      if (crawl.status !== "completed" && crawl.status !== "failed") {
+        continue;
+      }
+      await ctx.db.delete(crawl._id);
+      deletedCount++;
+    }
+
+    return { deletedCount };
+  },
+});
@@ -0,0 +1,275 @@
+/// <reference types="vite/client" />
+
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import { initConvexTest } from "./setup.test.js";
+import { jsonResponse } from "./fixtures.test.js";
+
+function scrapeResponse(markdown: string): Response {
+  return jsonResponse({ success: true, data: { markdown, metadata: {} } });
+}
+
+function authorization(init?: RequestInit): string {
+  return (init?.headers as Record<string, string>).Authorization;
+}
+
+async function scheduledArgs(t: ReturnType<typeof initConvexTest>) {
+  const scheduled = await t.run(async (ctx) =>
+    ctx.db.system.query("_scheduled_functions").collect(),
+  );
+  return scheduled.map((fn) => fn.args[0]);
+}
+
+describe("credentials", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  test("setCredential rejects duplicate labels and empty keys", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.credentials.setCredential, {
+      label: "production",
+      apiKey: "fc-secret",
+    });
+
+    await expect(
+      t.mutation(api.credentials.setCredential, {
+        label: "production",
+        apiKey: "fc-other",
+      }),
+    ).rejects.toThrow("already in use");
+    await expect(
+      t.mutation(api.credentials.setCredential, { label: "empty", apiKey: "" }),
+    ).rejects.toThrow("must not be empty");
+  });
+
+  test("scrapes by label without the raw key in scheduled arguments", async () => {
+    const fetchMock = vi.fn(async (_input: string, _init?: RequestInit) =>
+      scrapeResponse("# Hello"),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    await t.mutation(api.credentials.setCredential, {
+      label: "production",
+      apiKey: "fc-secret",
+    });
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com",
+      credential: "production",
+    });
+
+    const args = await scheduledArgs(t);
+    expect(JSON.stringify(args)).not.toContain("fc-secret");
+    expect(args[0].credentialId).toBeDefined();
+
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+    const headers = fetchMock.mock.calls[0][1]?.headers as Record<
+      string,
+      string
+    >;
+    expect(headers.Authorization).toBe("Bearer fc-secret");
+    const status = await t.query(api.lib.getStatus, { id: jobId });
+    expect(status?.status).toBe("completed");
+  });
+
+  test("rotation applies to jobs already queued", async () => {
+    const fetchMock = vi.fn(async (_input: string, _init?: RequestInit) =>
+      scrapeResponse("# Hello"),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { credentialId } = await t.mutation(api.credentials.setCredential, {
+      label: "production",
+      apiKey: "fc-old",
+    });
+    await t.mutation(api.lib.startScrape, {
+      url: "https://example.com",
+      credential: credentialId,
+    });
+    await t.mutation(api.credentials.rotateCredential, {
+      credential: "production",
+      apiKey: "fc-new",
+    });
+
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+    const headers = fetchMock.mock.calls[0][1]?.headers as Record<
+      string,
+      string
+    >;
+    expect(headers.Authorization).toBe("Bearer fc-new");
+  });
+
+  test("requires exactly one known key", async () => {
+    const t = initConvexTest();
+
+    await expect(
+      t.mutation(api.lib.startScrape, { url: "https://example.com" }),
+    ).rejects.toThrow("exactly one of apiKey or credential");
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com",
+        apiKey: "fc-secret",
+        credential: "production",
+      }),
+    ).rejects.toThrow("exactly one of apiKey or credential");
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com",
+        credential: "missing",
+      }),
+    ).rejects.toThrow("Credential not found: missing");
+    await expect(
+      t.mutation(api.credentials.rotateCredential, {
+        credential: "missing",
+        apiKey: "fc-new",
+      }),
+    ).rejects.toThrow("Credential not found");
+  });
+
+  test("monitors store the credential instead of the key", async () => {
+    const t = initConvexTest();
+    const { credentialId } = await t.mutation(api.credentials.setCredential, {
+      label: "production",
+      apiKey: "fc-secret",
+    });
+    const { monitorId } = await t.mutation(api.monitor.createMonitor, {
+      url: "https://example.com/pricing",
+      intervalMs: 60 * 60 * 1000,
+      credential: "production",
+    });
+
+    const monitor = await t.run(async (ctx) => ctx.db.get(monitorId));
+    expect(monitor?.credentialId).toBe(credentialId);
+    const secrets = await t.run(async (ctx) =>
+      ctx.db.query("secretHeaders").collect(),
+    );
+    expect(secrets).toEqual([]);
+  });
+});
+
+describe("key pools", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  test("requests go round-robin across the pool", async () => {
+    const fetchMock = vi.fn(async (_input: string, _init?: RequestInit) =>
+      scrapeResponse("# Hello"),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    for (const url of ["https://example.com/a", "https://example.com/b"]) {
+      await t.mutation(api.lib.startScrape, {
+        url,
+        apiKey: ["fc-one", "fc-two"],
+      });
+    }
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    expect(fetchMock.mock.calls.map(([, init]) => authorization(init))).toEqual(
+      ["Bearer fc-one", "Bearer fc-two"],
+    );
+    const health = await t.query(api.credentials.getKeyHealth, {});
+    expect(health).toHaveLength(2);
+    expect(health.every((key) => key.requests === 1)).toBe(true);
+  });
+
+  test("a 429 fails over to the next key and cools the key down", async () => {
+    const fetchMock = vi.fn(async (_input: string, init?: RequestInit) =>
+      authorization(init) === "Bearer fc-limited"
+        ? jsonResponse({ error: "Rate limited" }, 429)
+        : scrapeResponse("# Hello"),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    await t.mutation(api.credentials.setCredential, {
+      label: "limited",
+      apiKey: "fc-limited",
+    });
+    await t.mutation(api.credentials.setCredential, {
+      label: "spare",
+      apiKey: "fc-spare",
+    });
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/a",
+      credential: ["limited", "spare"],
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const status = await t.query(api.lib.getStatus, { id: jobId });
+    expect(status?.status).toBe("completed");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const health = await t.query(api.credentials.getKeyHealth, {});
+    const limited = health.find((key) => key.label === "limited");
+    expect(limited).toMatchObject({
+      requests: 1,
+      failures: 1,
+      lastErrorStatus: 429,
+      coolingDown: true,
+    });
+
+    // The cooling key is skipped while the other one is available
+    fetchMock.mockClear();
+    await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/b",
+      credential: ["limited", "spare"],
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+    expect(fetchMock.mock.calls.map(([, init]) => authorization(init))).toEqual(
+      ["Bearer fc-spare"],
+    );
+  });
+
+  test("fails when every key is out of credits", async () => {
+    const fetchMock = vi.fn(async (_input: string, _init?: RequestInit) =>
+      jsonResponse({ error: "Payment required" }, 402),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/a",
+      apiKey: ["fc-one", "fc-two"],
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const status = await t.query(api.lib.getStatus, { id: jobId });
+    expect(status?.status).toBe("failed");
+    expect(status?.errorCode).toBe(402);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const health = await t.query(api.credentials.getKeyHealth, {});
+    expect(health.every((key) => key.failures === 1 && key.coolingDown)).toBe(
+      true,
+    );
+  });
+
+  test("rejects empty and oversized pools", async () => {
+    const t = initConvexTest();
+
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com",
+        apiKey: [],
+      }),
+    ).rejects.toThrow("Key pool must not be empty");
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com",
+        apiKey: Array.from({ length: 11 }, (_, i) => `fc-${i}`),
+      }),
+    ).rejects.toThrow("the maximum is 10");
+  });
+});
@@ -0,0 +1,489 @@
+/**
+ * Credentials vault for the Firecrawl Scrape component.
+ *
+ * Firecrawl API keys can be stored in the component and referenced by ID or
+ * label instead of being passed as a function argument. The scheduler
+ * persists action arguments, so a raw key passed to startScrape ends up in
+ * the scheduled functions table and logs; a credential reference does not.
+ * The raw key is read only inside the action that calls Firecrawl.
+ *
+ * Several keys or credentials can be given as a pool. Each request picks the
+ * least recently used key that is not cooling down or over its credit budget,
+ * and a scrape that gets a 402 or 429 fails over to the next key. Per-key
+ * usage, failures and cooldowns are kept in the keyHealth table.
+ */
+
+import { v } from "convex/values";
+import {
+  mutation,
+  query,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server.js";
+import type { ActionCtx, QueryCtx } from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+import { internal } from "./_generated/api.js";
+import { CONFIG } from "./config.js";
+import { keyCooldownMs, parseRetryAfter } from "./firecrawl.js";
+import { hashUrl } from "./url.js";
+import { keyBudgetExceeded, moveKeyUsage } from "./usage.js";
+import {
+  firecrawlKeyRefFields,
+  selectedKeyRefFields,
+  type FirecrawlKey,
+  type FirecrawlKeyRef,
+  type SelectedKeyRef,
+} from "./validators.js";
+
+const selectedKeyValidator = v.object({
+  apiKey: v.string(),
+  keyHash: v.string(),
+  keyRef: v.object(selectedKeyRefFields),
+});
+
+/** A key picked for one Firecrawl request */
+export type SelectedKey = typeof selectedKeyValidator.type;
+
+const keyHealthValidator = v.object({
+  keyHash: v.string(),
+  label: v.optional(v.string()),
+  requests: v.number(),
+  failures: v.number(),
+  lastUsedAt: v.number(),
+  lastFailureAt: v.optional(v.number()),
+  lastErrorStatus: v.optional(v.number()),
+  cooldownUntil: v.optional(v.number()),
+  coolingDown: v.boolean(),
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Look up a credential by ID, falling back to its label */
+async function findCredential(
+  ctx: Pick<QueryCtx, "db">,
+  credential: string,
+): Promise<Doc<"credentials"> | null> {
+  const credentialId = ctx.db.normalizeId("credentials", credential);
+  if (credentialId) {
+    const doc = await ctx.db.get(credentialId);
+    if (doc) {
+      return doc;
+    }
+  }
+  return await ctx.db
+    .query("credentials")
+    .withIndex("by_label", (q) => q.eq("label", credential))
+    .unique();
+}
+
+function checkCredentialInput(label: string, apiKey: string): void {
+  if (label.trim() === "") {
+    throw new Error("Credential label must not be empty");
+  }
+  if (apiKey.trim() === "") {
+    throw new Error("Credential apiKey must not be empty");
+  }
+}
+
+function asList<T extends string>(value: T | T[] | undefined): T[] | undefined {
+  return typeof value === "string" ? [value] : value;
+}
+
+/**
+ * Resolve the API key given when a job is queued: exactly one of a raw
+ * `apiKey` or a `credential` (ID or label), either of which may be a pool.
+ * Returns what the action needs to find the key - never the raw key of a
+ * credential - the SHA-256 of each key, and the rate limit key: the key's
+ * hash, or for a pool a hash of all its key hashes, so the limit applies to
+ * the pool.
+ */
+export async function resolveFirecrawlKey(
+  ctx: Pick<QueryCtx, "db">,
+  key: FirecrawlKey,
+): Promise<{
+  keyRef: FirecrawlKeyRef;
+  keyHashes: string[];
+  rateLimitKey: string;
+}> {
+  const apiKeys = asList(key.apiKey);
+  const credentials = asList(key.credential);
+  if ((apiKeys === undefined) === (credentials === undefined)) {
+    throw new Error("Provide exactly one of apiKey or credential");
+  }
+  const poolSize = (apiKeys ?? credentials ?? []).length;
+  if (poolSize === 0) {
+    throw new Error("Key pool must not be empty");
+  }
+  if (poolSize > CONFIG.MAX_KEY_POOL_SIZE) {
+    throw new Error(
+      `Key pool has ${poolSize} keys; the maximum is ${CONFIG.MAX_KEY_POOL_SIZE}`,
+    );
+  }
+
+  let keyRef: FirecrawlKeyRef;
+  let keyHashes: string[];
+  if (apiKeys !== undefined) {
+    keyRef = { apiKey: key.apiKey };
+    // SHA-256 - never store raw keys
+    keyHashes = await Promise.all(apiKeys.map((apiKey) => hashUrl(apiKey)));
+  } else {
+    const docs: Doc<"credentials">[] = [];
+    for (const credential of credentials ?? []) {
+      const doc = await findCredential(ctx, credential);
+      if (!doc) {
+        throw new Error(`Credential not found: ${credential}`);
+      }
+      docs.push(doc);
+    }
+    const credentialIds = docs.map((doc) => doc._id);
+    keyRef = {
+      credentialId: Array.isArray(key.credential)
+        ? credentialIds
+        : credentialIds[0],
+    };
+    keyHashes = docs.map((doc) => doc.keyHash);
+  }
+
+  const rateLimitKey =
+    keyHashes.length === 1 ? keyHashes[0] : await hashUrl(keyHashes.join(","));
+  return { keyRef, keyHashes, rateLimitKey };
+}
+
+/** Labels of the stored credentials, by key hash */
+export async function credentialLabels(
+  ctx: Pick<QueryCtx, "db">,
+): Promise<Map<string, string>> {
+  const labels = new Map<string, string>();
+  for (const credential of await ctx.db.query("credentials").collect()) {
+    labels.set(credential.keyHash, credential.label);
+  }
+  return labels;
+}
+
+/**
+ * Pick the key for a Firecrawl request from the job's key or pool and count
+ * the request against it. Keys in `exclude` (key hashes already tried) are
+ * skipped. Null when no key is left, e.g. every credential was deleted or is
+ * over its credit budget.
+ */
+export async function selectFirecrawlKey(
+  ctx: Pick<ActionCtx, "runMutation">,
+  keyRef: FirecrawlKeyRef,
+  exclude: string[] = [],
+): Promise<SelectedKey | null> {
+  return await ctx.runMutation(internal.credentials.selectKey, {
+    apiKey: keyRef.apiKey,
+    credentialId: keyRef.credentialId,
+    exclude,
+  });
+}
+
+/**
+ * Count an error response against a key. A 402 or 429 also starts the key's
+ * cooldown, so pools skip it for a while.
+ */
+export async function recordKeyFailure(
+  ctx: Pick<ActionCtx, "runMutation">,
+  keyHash: string,
+  response: Response,
+): Promise<void> {
+  await ctx.runMutation(internal.credentials.markKeyFailure, {
+    keyHash,
+    status: response.status,
+    cooldownMs: keyCooldownMs(
+      response.status,
+      parseRetryAfter(response.headers.get("Retry-After")),
+    ),
+  });
+}
+
+/**
+ * The raw API key of a key already picked from a pool, reading a
+ * credential's current key (so a rotation applies to jobs already running).
+ * Null when the credential no longer exists.
+ */
+export async function firecrawlApiKey(
+  ctx: Pick<ActionCtx, "runQuery">,
+  keyRef: SelectedKeyRef,
+): Promise<string | null> {
+  if (keyRef.apiKey !== undefined) {
+    return keyRef.apiKey;
+  }
+  if (keyRef.credentialId === undefined) {
+    return null;
+  }
+  return await ctx.runQuery(internal.credentials.getCredentialKey, {
+    credentialId: keyRef.credentialId,
+  });
+}
+
+// ============================================================================
+// Public Mutations
+// ============================================================================
+
+/**
+ * Store a Firecrawl API key under a unique label.
+ *
+ * Jobs then reference it with `credential` (the returned ID or the label)
+ * instead of `apiKey`. The key is never returned by component functions.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients - call it from your own admin mutations or the
+ * dashboard.
+ *
+ * @param label - Unique name for the credential, e.g. "production"
+ * @param apiKey - Firecrawl API key
+ * @returns The credential ID
+ *
+ * @internal
+ */
+export const setCredential = mutation({
+  args: {
+    label: v.string(),
+    apiKey: v.string(),
+  },
+  returns: v.object({ credentialId: v.id("credentials") }),
+  handler: async (ctx, args) => {
+    checkCredentialInput(args.label, args.apiKey);
+    const existing = await ctx.db
+      .query("credentials")
+      .withIndex("by_label", (q) => q.eq("label", args.label))
+      .unique();
+    if (existing) {
+      throw new Error(
+        `Credential label already in use: ${args.label}. Use rotateCredential to replace its key`,
+      );
+    }
+
+    const credentialId = await ctx.db.insert("credentials", {
+      label: args.label,
+      apiKey: args.apiKey,
+      keyHash: await hashUrl(args.apiKey),
+      createdAt: Date.now(),
+    });
+    return { credentialId };
+  },
+});
+
+/**
+ * Replace the API key of a stored credential.
+ *
+ * Jobs already queued with the credential use the new key when they run. The
+ * credential's budget and usage history move to the new key.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients - call it from your own admin mutations or the
+ * dashboard.
+ *
+ * @param credential - Credential ID or label
+ * @param apiKey - The new Firecrawl API key
+ * @returns The credential ID
+ *
+ * @internal
+ */
+export const rotateCredential = mutation({
+  args: {
+    credential: v.string(),
+    apiKey: v.string(),
+  },
+  returns: v.object({ credentialId: v.id("credentials") }),
+  handler: async (ctx, args) => {
+    const credential = await findCredential(ctx, args.credential);
+    if (!credential) {
+      throw new Error(`Credential not found: ${args.credential}`);
+    }
+    checkCredentialInput(credential.label, args.apiKey);
+
+    const keyHash = await hashUrl(args.apiKey);
+    await moveKeyUsage(ctx, credential.keyHash, keyHash);
+    await ctx.db.patch(credential._id, {
+      apiKey: args.apiKey,
+      keyHash,
+      rotatedAt: Date.now(),
+    });
+    return { credentialId: credential._id };
+  },
+});
+
+// ============================================================================
+// Public Queries
+// ============================================================================
+
+/**
+ * Usage and health of every API key the component has used.
+ *
+ * Keys are identified by the SHA-256 of the key, with the label of the
+ * stored credential when there is one. A key is cooling down after a 402 or
+ * 429 until `cooldownUntil`; pools use other keys meanwhile.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients - call it from your own admin queries or the
+ * dashboard.
+ *
+ * @returns One entry per key, most recently used first
+ *
+ * @internal
+ */
+export const getKeyHealth = query({
+  args: {},
+  returns: v.array(keyHealthValidator),
+  handler: async (ctx) => {
+    const labels = await credentialLabels(ctx);
+    const now = Date.now();
+    const rows = await ctx.db.query("keyHealth").collect();
+    return rows
+      .sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+      .map(({ _id, _creationTime, ...health }) => ({
+        ...health,
+        label: labels.get(health.keyHash),
+        coolingDown:
+          health.cooldownUntil !== undefined && health.cooldownUntil > now,
+      }));
+  },
+});
+
+// ============================================================================
+// Internal Functions
+// ============================================================================
+
+/**
+ * Pick the least recently used key of a job's key or pool, preferring keys
+ * that are not cooling down, and count the request against it. When every
+ * key is cooling down, the one whose cooldown ends first is used anyway.
+ * Keys over their credit budget are never picked.
+ */
+export const selectKey = internalMutation({
+  args: {
+    ...firecrawlKeyRefFields,
+    exclude: v.array(v.string()),
+  },
+  returns: v.union(v.null(), selectedKeyValidator),
+  handler: async (ctx, args) => {
+    const candidates: SelectedKey[] = [];
+    for (const apiKey of asList(args.apiKey) ?? []) {
+      candidates.push({
+        apiKey,
+        keyHash: await hashUrl(apiKey),
+        keyRef: { apiKey },
+      });
+    }
+    for (const credentialId of asList(args.credentialId) ?? []) {
+      const credential = await ctx.db.get(credentialId);
+      if (credential) {
+        candidates.push({
+          apiKey: credential.apiKey,
+          keyHash: credential.keyHash,
+          keyRef: { credentialId },
+        });
+      }
+    }
+
+    const now = Date.now();
+    const ranked = [];
+    for (const candidate of candidates) {
+      if (
+        args.exclude.includes(candidate.keyHash) ||
+        (await keyBudgetExceeded(ctx, candidate.keyHash, now))
+      ) {
+        continue;
+      }
+      const health = await ctx.db
+        .query("keyHealth")
+        .withIndex("by_key_hash", (q) => q.eq("keyHash", candidate.keyHash))
+        .unique();
+      const coolingDown =
+        health?.cooldownUntil !== undefined && health.cooldownUntil > now;
+      ranked.push({
+        candidate,
+        health,
+        coolingDown,
+        order: coolingDown
+          ? (health?.cooldownUntil ?? 0)
+          : (health?.lastUsedAt ?? 0),
+      });
+    }
+    // Stable sort: unused keys go in pool order
+    ranked.sort(
+      (a, b) =>
+        Number(a.coolingDown) - Number(b.coolingDown) || a.order - b.order,
+    );
+    const picked = ranked[0];
+    if (!picked) {
+      return null;
+    }
+
+    if (picked.health) {
+      await ctx.db.patch(picked.health._id, {
+        requests: picked.health.requests + 1,
+        lastUsedAt: now,
+      });
+    } else {
+      await ctx.db.insert("keyHealth", {
+        keyHash: picked.candidate.keyHash,
+        requests: 1,
+        failures: 0,
+        lastUsedAt: now,
+      });
+    }
+    return picked.candidate;
+  },
+});
+
+/**
+ * Record an error response for a key, starting its cooldown when
+ * `cooldownMs` is given.
+ */
+export const markKeyFailure = internalMutation({
+  args: {
+    keyHash: v.string(),
+    status: v.number(),
+    cooldownMs: v.optional(v.number()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const health = await ctx.db
+      .query("keyHealth")
+      .withIndex("by_key_hash", (q) => q.eq("keyHash", args.keyHash))
+      .unique();
+    const update = {
+      lastFailureAt: now,
+      lastErrorStatus: args.status,
+      ...(args.cooldownMs !== undefined && {
+        cooldownUntil: now + args.cooldownMs,
+      }),
+    };
+    if (health) {
+      await ctx.db.patch(health._id, {
+        failures: health.failures + 1,
+        ...update,
+      });
+    } else {
+      await ctx.db.insert("keyHealth", {
+        keyHash: args.keyHash,
+        requests: 0,
+        failures: 1,
+        lastUsedAt: now,
+        ...update,
+      });
+    }
+    return null;
+  },
+});
+
+/**
+ * Read a credential's raw API key. Internal so the key can only be read by
+ * the component's own actions.
+ */
+export const getCredentialKey = internalQuery({
+  args: {
+    credentialId: v.id("credentials"),
+  },
+  returns: v.union(v.null(), v.string()),
+  handler: async (ctx, args) => {
+    const credential = await ctx.db.get(args.credentialId);
+    return credential?.apiKey ?? null;
+  },
+});
@@ -2,6 +2,10 @@
  * Cron job definitions for the Firecrawl Scrape component.
  *
  * - Daily cleanup: Deletes expired cache entries and their associated files
+ * - Daily crawl cleanup: Deletes finished crawl records past their expiry
+ * - Daily site map cleanup: Deletes site maps past their expiry
+ * - Daily batch cleanup: Deletes batch records past their expiry
+ * - 1-minute check: Starts scrapes for monitors that are due
  * - 5-minute check: Marks stuck scraping jobs as failed
  */
 
@@ -18,6 +22,37 @@ crons.daily(
   internal.lib.cleanupExpired
 );
 
+// Daily cleanup of finished crawl records past their expiry
+// Crawled pages are regular scrapes and expire with the cleanup above
+crons.daily(
+  "cleanup expired crawls",
+  { hourUTC: 3, minuteUTC: 15 },
+  internal.crawl.cleanupExpiredCrawls
+);
+
+// Daily cleanup of site maps past their expiry
+crons.daily(
+  "cleanup expired site maps",
+  { hourUTC: 3, minuteUTC: 30 },
+  internal.map.cleanupExpiredSiteMaps
+);
+
+// Daily cleanup of batch records past their expiry
+// The scrapes in a batch expire with the cleanup above
+crons.daily(
+  "cleanup expired batches",
+  { hourUTC: 3, minuteUTC: 45 },
+  internal.batch.cleanupExpiredBatches
+);
+
+// Start scrapes for due monitors every minute
+// Each run is a forced scrape; completion records the monitor's content hash
+crons.interval(
+  "run due monitors",
+  { minutes: 1 },
+  internal.monitor.runDueMonitors
+);
+
 // Check for stuck jobs every 5 minutes
 // Marks jobs in "scraping" status for >5 minutes as failed
 crons.interval(
@@ -0,0 +1,46 @@
+import { describe, expect, test } from "vitest";
+import { diffLines } from "./diff.js";
+import { CONFIG } from "./config.js";
+
+describe("diffLines", () => {
+  test("returns an empty diff for identical text", () => {
+    expect(diffLines("a\nb\nc", "a\nb\nc")).toEqual({
+      diff: "",
+      linesAdded: 0,
+      linesRemoved: 0,
+    });
+  });
+
+  test("formats insertions and deletions as unified hunks", () => {
+    expect(diffLines("a\nb\nc", "a\nb\nx\nc")?.diff).toBe(
+      "@@ -1,3 +1,4 @@\n a\n b\n+x\n c",
+    );
+    expect(diffLines("a", "")?.diff).toBe("@@ -1,1 +1,1 @@\n-a\n+");
+    expect(diffLines("", "a\nb")).toMatchObject({
+      linesAdded: 2,
+      linesRemoved: 1,
+    });
+  });
+
+  test("splits distant changes into separate hunks", () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+    const after = [...before];
+    after[1] = "changed 1";
+    after[18] = "changed 18";
+
+    const result = diffLines(before.join("\n"), after.join("\n"));
+    expect(result?.diff.split("\n").filter((l) => l.startsWith("@@"))).toEqual([
+      "@@ -1,5 +1,5 @@",
+      "@@ -16,5 +16,5 @@",
+    ]);
+    expect(result?.linesAdded).toBe(2);
+    expect(result?.linesRemoved).toBe(2);
+  });
+
+  test("returns null when the changed region is too large to align", () => {
+    const lines = Math.ceil(Math.sqrt(CONFIG.MAX_DIFF_CELLS));
+    const before = Array.from({ length: lines }, (_, i) => `a${i}`).join("\n");
+    const after = Array.from({ length: lines }, (_, i) => `b${i}`).join("\n");
+    expect(diffLines(before, after)).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Line-based diff for comparing successive versions of scraped markdown.
+ *
+ * Produces a unified diff (the `diff -u` hunk format, without file headers)
+ * from a longest-common-subsequence alignment of the changed region.
+ */
+
+import { CONFIG } from "./config.js";
+
+type DiffOp = { type: " " | "-" | "+"; line: string };
+
+export type LineDiff = {
+  diff: string;
+  linesAdded: number;
+  linesRemoved: number;
+};
+
+/**
+ * Diff two texts line by line.
+ *
+ * Returns null if the changed region is too large to align within
+ * CONFIG.MAX_DIFF_CELLS.
+ */
+export function diffLines(before: string, after: string): LineDiff | null {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // Common prefix and suffix need no alignment
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const middle = alignLines(midA, midB);
+  if (middle === null) {
+    return null;
+  }
+
+  const ops: DiffOp[] = [
+    ...a.slice(0, prefix).map((line) => ({ type: " " as const, line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map((line) => ({ type: " " as const, line })),
+  ];
+
+  return {
+    diff: formatHunks(ops, CONFIG.DIFF_CONTEXT_LINES),
+    linesAdded: midB.length - countType(middle, " "),
+    linesRemoved: midA.length - countType(middle, " "),
+  };
+}
+
+function countType(ops: DiffOp[], type: DiffOp["type"]): number {
+  return ops.filter((op) => op.type === type).length;
+}
+
+/** Align two line arrays by their longest common subsequence */
+function alignLines(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  if ((n + 1) * (m + 1) > CONFIG.MAX_DIFF_CELLS) {
+    return null;
+  }
+
+  // lcs[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: " ", line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ type: "-", line: a[i++] });
+    } else {
+      ops.push({ type: "+", line: b[j++] });
+    }
+  }
+  while (i < n) {
+    ops.push({ type: "-", line: a[i++] });
+  }
+  while (j < m) {
+    ops.push({ type: "+", line: b[j++] });
+  }
+  return ops;
+}
+
+/** Group changes into unified diff hunks with `context` lines around them */
+function formatHunks(ops: DiffOp[], context: number): string {
+  const changed = ops.flatMap((op, index) => (op.type === " " ? [] : [index]));
+  const hunks: string[] = [];
+
+  let k = 0;
+  while (k < changed.length) {
+    // Extend the hunk while the next change is within 2 * context lines
+    let last = k;
+    while (
+      last + 1 < changed.length &&
+      changed[last + 1] - changed[last] <= 2 * context
+    ) {
+      last++;
+    }
+    const start = Math.max(0, changed[k] - context);
+    const end = Math.min(ops.length, changed[last] + context + 1);
+
+    const before = ops.slice(0, start);
+    const range = ops.slice(start, end);
+    const oldBefore = before.length - countType(before, "+");
+    const newBefore = before.length - countType(before, "-");
+    const oldCount = range.length - countType(range, "+");
+    const newCount = range.length - countType(range, "-");
+
+    hunks.push(
+      `@@ -${hunkStart(oldBefore, oldCount)},${oldCount} ` +
+        `+${hunkStart(newBefore, newCount)},${newCount} @@`,
+      ...range.map((op) => `${op.type}${op.line}`),
+    );
+    k = last + 1;
+  }
+
+  return hunks.join("\n");
+}
+
+/** Hunk start line: 1-based, or the preceding line for an empty range */
+function hunkStart(linesBefore: number, count: number): number {
+  return count === 0 ? linesBefore : linesBefore + 1;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, test } from "vitest";
+import { checkExtraction } from "./extraction.js";
+import { CONFIG } from "./config.js";
+
+const productSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 1 },
+    price: { type: "number", minimum: 0 },
+    tags: { type: "array", items: { type: "string" } },
+    currency: { enum: ["USD", "EUR"] },
+    discount: { anyOf: [{ type: "number" }, { type: "null" }] },
+  },
+  required: ["name", "price"],
+  additionalProperties: false,
+};
+
+describe("checkExtraction", () => {
+  test("accepts values that match the schema", () => {
+    expect(
+      checkExtraction(
+        {
+          name: "Widget",
+          price: 9.5,
+          tags: ["a"],
+          currency: "EUR",
+          discount: null,
+        },
+        productSchema,
+      ),
+    ).toEqual([]);
+    expect(checkExtraction({ anything: 1 }, {})).toEqual([]);
+  });
+
+  test("reports mismatches with their paths", () => {
+    expect(
+      checkExtraction(
+        {
+          price: "9.50",
+          tags: ["a", 2],
+          currency: "GBP",
+          discount: "10%",
+          color: "red",
+        },
+        productSchema,
+      ),
+    ).toEqual([
+      "$.name: required",
+      "$.price: expected number, got string",
+      "$.tags[1]: expected string, got number",
+      "$.currency: not one of the allowed values",
+      "$.discount: does not match any of the allowed schemas",
+      "$.color: unexpected property",
+    ]);
+    expect(checkExtraction([], productSchema)).toEqual([
+      "$: expected object, got array",
+    ]);
+  });
+
+  test("checks integers, ranges and lengths", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        count: { type: "integer", maximum: 10 },
+        code: { type: "string", maxLength: 2 },
+        items: { type: "array", minItems: 1 },
+      },
+    };
+    expect(
+      checkExtraction({ count: 1.5, code: "ABC", items: [] }, schema),
+    ).toEqual([
+      "$.count: expected integer, got number",
+      "$.code: longer than 2 characters",
+      "$.items: fewer than 1 items",
+    ]);
+    expect(checkExtraction({ count: 11 }, schema)).toEqual([
+      "$.count: greater than 10",
+    ]);
+  });
+
+  test("resolves local references", () => {
+    const schema = {
+      type: "array",
+      items: { $ref: "#/$defs/item" },
+      $defs: { item: { type: "object", required: ["id"] } },
+    };
+    expect(checkExtraction([{ id: 1 }, {}], schema)).toEqual([
+      "$[1].id: required",
+    ]);
+  });
+
+  test("caps the number of issues", () => {
+    const value = Array.from({ length: 50 }, (_, i) => i);
+    expect(
+      checkExtraction(value, { type: "array", items: { type: "string" } }),
+    ).toHaveLength(CONFIG.MAX_EXTRACTION_ISSUES);
+  });
+});
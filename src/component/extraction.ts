@@ -0,0 +1,285 @@
+/**
+ * Validation of extracted JSON against its extraction schema.
+ *
+ * Checks the JSON Schema keywords that describe the shape of the data - type,
+ * properties, required, additionalProperties, items, prefixItems, enum,
+ * const, anyOf, oneOf, allOf and local $ref - plus numeric ranges, string
+ * lengths and array lengths. Other keywords (format, pattern, ...) are not
+ * checked.
+ */
+
+import { CONFIG } from "./config.js";
+
+type JsonSchema = boolean | { [keyword: string]: unknown };
+
+/**
+ * Check a value against a JSON Schema.
+ *
+ * Returns the mismatches found (at most CONFIG.MAX_EXTRACTION_ISSUES), each
+ * prefixed with its path, or an empty array if the value matches.
+ */
+export function checkExtraction(value: unknown, schema: unknown): string[] {
+  const issues: string[] = [];
+  checkValue(value, schema as JsonSchema, "$", schema as JsonSchema, issues);
+  return issues.slice(0, CONFIG.MAX_EXTRACTION_ISSUES);
+}
+
+function checkValue(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  issues: string[],
+): void {
+  if (schema === false) {
+    issues.push(`${path}: not allowed`);
+    return;
+  }
+  if (typeof schema !== "object" || schema === null) {
+    return;
+  }
+
+  if (typeof schema.$ref === "string") {
+    const target = resolveRef(root, schema.$ref);
+    if (target !== undefined && target !== schema) {
+      checkValue(value, target, path, root, issues);
+    }
+  }
+
+  // A wrong type makes the remaining keywords meaningless
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push(
+        `${path}: expected ${types.join(" or ")}, got ${jsonType(value)}`,
+      );
+      return;
+    }
+  }
+
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((allowed) => jsonEqual(allowed, value))
+  ) {
+    issues.push(`${path}: not one of the allowed values`);
+  }
+  if ("const" in schema && !jsonEqual(schema.const, value)) {
+    issues.push(`${path}: expected ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "number") {
+    checkNumber(value, schema, path, issues);
+  } else if (typeof value === "string") {
+    const length = [...value].length;
+    if (typeof schema.minLength === "number" && length < schema.minLength) {
+      issues.push(`${path}: shorter than ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && length > schema.maxLength) {
+      issues.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+  } else if (Array.isArray(value)) {
+    checkArray(value, schema, path, root, issues);
+  } else if (typeof value === "object" && value !== null) {
+    checkObject(value as Record<string, unknown>, schema, path, root, issues);
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const branch of schema.allOf as JsonSchema[]) {
+      checkValue(value, branch, path, root, issues);
+    }
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const matches = countMatches(value, schema.anyOf as JsonSchema[], root);
+    if (matches === 0) {
+      issues.push(`${path}: does not match any of the allowed schemas`);
+    }
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = countMatches(value, schema.oneOf as JsonSchema[], root);
+    if (matches !== 1) {
+      issues.push(
+        `${path}: matches ${matches} of the schemas where exactly one is allowed`,
+      );
+    }
+  }
+}
+
+function checkNumber(
+  value: number,
+  schema: { [keyword: string]: unknown },
+  path: string,
+  issues: string[],
+): void {
+  if (typeof schema.minimum === "number" && value < schema.minimum) {
+    issues.push(`${path}: less than ${schema.minimum}`);
+  }
+  if (typeof schema.maximum === "number" && value > schema.maximum) {
+    issues.push(`${path}: greater than ${schema.maximum}`);
+  }
+  if (
+    typeof schema.exclusiveMinimum === "number" &&
+    value <= schema.exclusiveMinimum
+  ) {
+    issues.push(`${path}: not greater than ${schema.exclusiveMinimum}`);
+  }
+  if (
+    typeof schema.exclusiveMaximum === "number" &&
+    value >= schema.exclusiveMaximum
+  ) {
+    issues.push(`${path}: not less than ${schema.exclusiveMaximum}`);
+  }
+}
+
+function checkArray(
+  value: unknown[],
+  schema: { [keyword: string]: unknown },
+  path: string,
+  root: JsonSchema,
+  issues: string[],
+): void {
+  if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+    issues.push(`${path}: fewer than ${schema.minItems} items`);
+  }
+  if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+    issues.push(`${path}: more than ${schema.maxItems} items`);
+  }
+
+  // Tuples: prefixItems (2020-12) or an items array (draft-07), then items
+  // or additionalItems for the rest
+  const tuple = Array.isArray(schema.prefixItems)
+    ? schema.prefixItems
+    : Array.isArray(schema.items)
+      ? schema.items
+      : [];
+  const rest = Array.isArray(schema.items)
+    ? schema.additionalItems
+    : schema.items;
+  value.forEach((item, index) => {
+    const itemSchema = index < tuple.length ? tuple[index] : rest;
+    if (itemSchema !== undefined) {
+      checkValue(
+        item,
+        itemSchema as JsonSchema,
+        `${path}[${index}]`,
+        root,
+        issues,
+      );
+    }
+  });
+}
+
+function checkObject(
+  value: Record<string, unknown>,
+  schema: { [keyword: string]: unknown },
+  path: string,
+  root: JsonSchema,
+  issues: string[],
+): void {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+
+  if (Array.isArray(schema.required)) {
+    for (const key of schema.required as string[]) {
+      if (value[key] === undefined) {
+        issues.push(`${propertyPath(path, key)}: required`);
+      }
+    }
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    if (Object.prototype.hasOwnProperty.call(properties, key)) {
+      checkValue(item, properties[key], propertyPath(path, key), root, issues);
+    } else if (schema.additionalProperties === false) {
+      issues.push(`${propertyPath(path, key)}: unexpected property`);
+    } else if (
+      typeof schema.additionalProperties === "object" &&
+      schema.additionalProperties !== null
+    ) {
+      checkValue(
+        item,
+        schema.additionalProperties as JsonSchema,
+        propertyPath(path, key),
+        root,
+        issues,
+      );
+    }
+  }
+}
+
+function countMatches(
+  value: unknown,
+  branches: JsonSchema[],
+  root: JsonSchema,
+): number {
+  return branches.filter((branch) => {
+    const branchIssues: string[] = [];
+    checkValue(value, branch, "$", root, branchIssues);
+    return branchIssues.length === 0;
+  }).length;
+}
+
+/** Resolve a local reference such as "#/$defs/Item"; undefined otherwise */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | undefined {
+  if (ref !== "#" && !ref.startsWith("#/")) {
+    return undefined;
+  }
+  let target: unknown = root;
+  for (const token of ref.split("/").slice(1)) {
+    const key = decodeURIComponent(token)
+      .replace(/~1/g, "/")
+      .replace(/~0/g, "~");
+    if (typeof target !== "object" || target === null) {
+      return undefined;
+    }
+    target = (target as Record<string, unknown>)[key];
+  }
+  return target === undefined ? undefined : (target as JsonSchema);
+}
+
+function matchesType(value: unknown, type: unknown): boolean {
+  if (type === "integer") {
+    return Number.isInteger(value);
+  }
+  return jsonType(value) === type;
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
+
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) =>
+      jsonEqual(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key],
+      ),
+    )
+  );
+}
+
+function propertyPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+}
@@ -0,0 +1,535 @@
+/**
+ * Helpers for calling the Firecrawl API.
+ *
+ * Shared by the scrape (lib) and crawl modules: retry and rate limit
+ * handling, error parsing, and turning a Firecrawl document into stored
+ * page content.
+ */
+
+import type { ActionCtx, MutationCtx } from "./_generated/server.js";
+import type { ScrapeContent, FirecrawlEndpoint } from "./validators.js";
+import { CONFIG } from "./config.js";
+import {
+  checkUrlPolicy,
+  hashUrl,
+  validateResolvedUrl,
+  validateUrl,
+  type UrlPolicyRule,
+} from "./url.js";
+
+/**
+ * A page in a Firecrawl scrape or crawl response. Content fields are only
+ * present for the requested formats, and metadata keys vary by page.
+ */
+export interface FirecrawlDocument {
+  markdown?: string;
+  html?: string;
+  rawHtml?: string;
+  summary?: string;
+  links?: string[];
+  images?: Array<{ url: string } | string>;
+  screenshot?: string;
+  actions?: { screenshots?: string[] };
+  extract?: unknown;
+  metadata?: Record<string, unknown>;
+}
+
+/** One page of results from Firecrawl's crawl status endpoint */
+export interface FirecrawlCrawlStatus {
+  status: string; // "scraping", "completed" or "failed"
+  total?: number;
+  completed?: number;
+  next?: string | null; // URL of the next page of results
+  data?: FirecrawlDocument[];
+}
+
+/**
+ * Check a custom API base URL and key header when a job is queued, so a
+ * misconfiguration fails the call rather than every scheduled request.
+ * Private and loopback hosts are allowed: self-hosted Firecrawl usually runs
+ * on one.
+ */
+export function checkFirecrawlEndpoint(endpoint: FirecrawlEndpoint): void {
+  if (endpoint.apiBaseUrl !== undefined) {
+    let parsed: URL;
+    try {
+      parsed = new URL(endpoint.apiBaseUrl);
+    } catch {
+      throw new Error(`Invalid apiBaseUrl: ${endpoint.apiBaseUrl}`);
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      throw new Error("apiBaseUrl must use http or https");
+    }
+  }
+  // RFC 9110 header field name
+  if (
+    endpoint.apiKeyHeader !== undefined &&
+    !/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/.test(endpoint.apiKeyHeader)
+  ) {
+    throw new Error(`Invalid apiKeyHeader: ${endpoint.apiKeyHeader}`);
+  }
+}
+
+/** Full URL for a Firecrawl API path such as "/scrape" */
+export function firecrawlUrl(
+  endpoint: FirecrawlEndpoint,
+  path: string,
+): string {
+  const base = endpoint.apiBaseUrl ?? CONFIG.FIRECRAWL_API_BASE;
+  return `${base.replace(/\/+$/, "")}${path}`;
+}
+
+/** The API key header: `Authorization: Bearer <key>` unless overridden */
+export function firecrawlAuthHeaders(
+  apiKey: string,
+  endpoint: FirecrawlEndpoint,
+): Record<string, string> {
+  return endpoint.apiKeyHeader
+    ? { [endpoint.apiKeyHeader]: apiKey }
+    : { Authorization: `Bearer ${apiKey}` };
+}
+
+export function getByteLength(str: string): number {
+  return new TextEncoder().encode(str).length;
+}
+
+/** Rate limits, request timeouts and server errors are worth retrying */
+export function isTransientStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * fetch rejects with a TypeError when no response arrived (DNS failure,
+ * connection reset, TLS error); those are worth retrying like 5xx responses.
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+/** Out of credits (402) or rate limited (429): another API key may succeed */
+export function isKeyQuotaStatus(status: number): boolean {
+  return status === 402 || status === 429;
+}
+
+/**
+ * How long a pooled key is skipped after an error response: the 402 or 429
+ * cooldown (a Retry-After hint can lengthen the latter), or undefined for
+ * errors that are not about the key.
+ */
+export function keyCooldownMs(
+  status: number,
+  retryAfterMs: number | undefined,
+): number | undefined {
+  if (status === 402) {
+    return CONFIG.KEY_QUOTA_COOLDOWN_MS;
+  }
+  if (status === 429) {
+    return Math.max(CONFIG.KEY_RATE_LIMIT_COOLDOWN_MS, retryAfterMs ?? 0);
+  }
+  return undefined;
+}
+
+/**
+ * Exponential backoff with equal jitter: half of the delay is fixed and the
+ * other half is random, so concurrent retries spread out without collapsing
+ * to zero.
+ */
+export function computeRetryDelay(
+  attempt: number,
+  baseDelayMs: number,
+): number {
+  const exponential = Math.min(
+    baseDelayMs * 2 ** (attempt - 1),
+    CONFIG.MAX_RETRY_DELAY_MS,
+  );
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/** Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * Reserve the next rate limit slot for an API key and return its release time.
+ *
+ * Slots are spaced 60s / requestsPerMinute apart. An idle key is released
+ * immediately; a busy key queues behind the last reserved slot. State lives
+ * in the rateLimits table, so the limit holds across function invocations.
+ */
+export async function reserveRateLimitSlot(
+  ctx: MutationCtx,
+  keyHash: string,
+  requestsPerMinute: number,
+  now: number,
+): Promise<number> {
+  const intervalMs = 60_000 / requestsPerMinute;
+  const state = await ctx.db
+    .query("rateLimits")
+    .withIndex("by_key_hash", (q) => q.eq("keyHash", keyHash))
+    .unique();
+
+  const releaseAt = Math.max(now, state?.nextSlotAt ?? now);
+  if (state) {
+    await ctx.db.patch(state._id, {
+      requestsPerMinute,
+      nextSlotAt: releaseAt + intervalMs,
+    });
+  } else {
+    await ctx.db.insert("rateLimits", {
+      keyHash,
+      requestsPerMinute,
+      nextSlotAt: releaseAt + intervalMs,
+    });
+  }
+  return releaseAt;
+}
+
+/** Read the error message and code from a failed Firecrawl response */
+export async function readFirecrawlError(
+  response: Response,
+): Promise<{ errorMessage: string; errorCode: number | string }> {
+  const errorBody = await response.text();
+  let errorMessage = `Firecrawl API error: ${response.status}`;
+  let errorCode: number | string = response.status;
+
+  try {
+    const errorJson = JSON.parse(errorBody);
+    if (errorJson.error) {
+      errorMessage = errorJson.error;
+    }
+    if (errorJson.code) {
+      errorCode = errorJson.code;
+    }
+  } catch {
+    // Use raw error body if not JSON
+    if (errorBody) {
+      errorMessage = errorBody;
+    }
+  }
+
+  return { errorMessage, errorCode };
+}
+
+const MAX_DOWNLOAD_REDIRECTS = 5;
+
+/**
+ * Download a file the component stores itself. Redirects are followed by hand
+ * so every hop passes the same URL validation as the scraped URL, including
+ * DNS resolution with resolveDns and the domain policy rules given.
+ * Returns null when a hop fails validation or there are too many redirects.
+ */
+async function fetchValidatedUrl(
+  url: string,
+  resolveDns: boolean,
+  policyRules: UrlPolicyRule[] = [],
+): Promise<Response | null> {
+  let currentUrl = url;
+  for (let hop = 0; hop <= MAX_DOWNLOAD_REDIRECTS; hop++) {
+    const validation = resolveDns
+      ? await validateResolvedUrl(currentUrl)
+      : validateUrl(currentUrl);
+    if (!validation.valid || !checkUrlPolicy(currentUrl, policyRules).valid) {
+      return null;
+    }
+    const response = await fetch(currentUrl, { redirect: "manual" });
+    const location = response.headers.get("Location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      currentUrl = new URL(location, currentUrl).toString();
+      continue;
+    }
+    return response;
+  }
+  return null;
+}
+
+/**
+ * Download the original document at a scraped URL.
+ * Returns null when the download fails or is over
+ * CONFIG.MAX_SOURCE_DOCUMENT_BYTES.
+ */
+async function fetchSourceDocument(
+  url: string,
+  resolveDns: boolean,
+  policyRules: UrlPolicyRule[],
+): Promise<Blob | null> {
+  const response = await fetchValidatedUrl(url, resolveDns, policyRules);
+  if (!response?.ok) {
+    return null;
+  }
+  const contentLength = Number(response.headers.get("Content-Length"));
+  if (contentLength > CONFIG.MAX_SOURCE_DOCUMENT_BYTES) {
+    return null;
+  }
+  const blob = await response.blob();
+  return blob.size > CONFIG.MAX_SOURCE_DOCUMENT_BYTES ? null : blob;
+}
+
+/** First string of a meta tag value, which is an array when repeated */
+function metaString(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === "string" && first !== "" ? first : undefined;
+}
+
+/** Keywords from a comma-separated meta tag or a list of them */
+function metaKeywords(value: unknown): string[] {
+  const tags = Array.isArray(value) ? value : [value];
+  return tags
+    .filter((tag): tag is string => typeof tag === "string")
+    .flatMap((tag) => tag.split(","))
+    .map((keyword) => keyword.trim())
+    .filter((keyword) => keyword !== "");
+}
+
+/**
+ * The metadata object with the keys Convex cannot store as field names
+ * (non-ASCII, or starting with "$") dropped.
+ */
+function storableMetadata(
+  metadata: Record<string, unknown>,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(metadata).filter(
+      ([key]) => /^[\x20-\x7E]+$/.test(key) && !key.startsWith("$"),
+    ),
+  );
+}
+
+/**
+ * Convert a Firecrawl document into stored page content.
+ *
+ * Content over CONFIG.FILE_STORAGE_THRESHOLD_BYTES is moved to file storage.
+ */
+export async function extractScrapeContent(
+  ctx: ActionCtx,
+  data: FirecrawlDocument,
+  options: {
+    storeScreenshot?: boolean;
+    sourceDocumentUrl?: string;
+    // Check the resolved addresses of the screenshot and document URLs
+    resolveDns?: boolean;
+    // Domain policy rules every source document redirect must pass
+    policyRules?: UrlPolicyRule[];
+  },
+): Promise<ScrapeContent> {
+  const contentUpdate: ScrapeContent = {};
+
+  // Handle markdown
+  if (data.markdown) {
+    if (getByteLength(data.markdown) > CONFIG.FILE_STORAGE_THRESHOLD_BYTES) {
+      const blob = new Blob([data.markdown], { type: "text/markdown" });
+      const fileId = await ctx.storage.store(blob);
+      contentUpdate.markdownFileId = fileId;
+    } else {
+      contentUpdate.markdown = data.markdown;
+    }
+  }
+
+  // Handle HTML
+  if (data.html) {
+    if (getByteLength(data.html) > CONFIG.FILE_STORAGE_THRESHOLD_BYTES) {
+      const blob = new Blob([data.html], { type: "text/html" });
+      const fileId = await ctx.storage.store(blob);
+      contentUpdate.htmlFileId = fileId;
+    } else {
+      contentUpdate.html = data.html;
+    }
+  }
+
+  // Hash markdown and HTML together so successive versions can be compared
+  // without loading content that went to file storage
+  if (data.markdown || data.html) {
+    contentUpdate.contentHash = await hashUrl(
+      `${data.markdown ?? ""}\u0000${data.html ?? ""}`,
+    );
+  }
+
+  // Handle raw HTML
+  if (data.rawHtml) {
+    if (getByteLength(data.rawHtml) > CONFIG.FILE_STORAGE_THRESHOLD_BYTES) {
+      const blob = new Blob([data.rawHtml], { type: "text/html" });
+      const fileId = await ctx.storage.store(blob);
+      contentUpdate.rawHtmlFileId = fileId;
+    } else {
+      contentUpdate.rawHtml = data.rawHtml;
+    }
+  }
+
+  // Handle summary
+  if (data.summary) {
+    contentUpdate.summary = data.summary;
+  }
+
+  // Handle links
+  if (data.links) {
+    const linksJson = JSON.stringify(data.links);
+    if (getByteLength(linksJson) > CONFIG.FILE_STORAGE_THRESHOLD_BYTES) {
+      const blob = new Blob([linksJson], { type: "application/json" });
+      const fileId = await ctx.storage.store(blob);
+      contentUpdate.linksFileId = fileId;
+    } else {
+      contentUpdate.links = data.links;
+    }
+  }
+
+  // Handle images
+  if (data.images) {
+    // Extract image URLs from Firecrawl image objects
+    const imageUrls = data.images.map((img: { url: string } | string) =>
+      typeof img === "string" ? img : img.url,
+    );
+    const imagesJson = JSON.stringify(imageUrls);
+    if (getByteLength(imagesJson) > CONFIG.FILE_STORAGE_THRESHOLD_BYTES) {
+      const blob = new Blob([imagesJson], { type: "application/json" });
+      const fileId = await ctx.storage.store(blob);
+      contentUpdate.imagesFileId = fileId;
+    } else {
+      contentUpdate.images = imageUrls;
+    }
+  }
+
+  // Handle screenshot
+  if (data.screenshot) {
+    contentUpdate.screenshotUrl = data.screenshot;
+
+    // Optionally persist screenshot to Convex storage
+    if (options.storeScreenshot) {
+      try {
+        // With resolveDns, every redirect hop is resolved and checked too
+        const screenshotResponse = options.resolveDns
+          ? await fetchValidatedUrl(data.screenshot, true)
+          : await fetch(data.screenshot);
+        if (screenshotResponse?.ok) {
+          const screenshotBlob = await screenshotResponse.blob();
+          const screenshotFileId = await ctx.storage.store(screenshotBlob);
+          contentUpdate.screenshotFileId = screenshotFileId;
+        }
+      } catch {
+        // Screenshot storage failed, but URL is still available
+        console.warn("Failed to store screenshot to Convex storage");
+      }
+    }
+  }
+
+  // Handle screenshots taken by browser actions
+  if (data.actions?.screenshots?.length) {
+    contentUpdate.actionScreenshots = data.actions.screenshots;
+  }
+
+  // Optionally persist the original document to Convex storage
+  if (options.sourceDocumentUrl) {
+    try {
+      const documentBlob = await fetchSourceDocument(
+        options.sourceDocumentUrl,
+        options.resolveDns ?? false,
+        options.policyRules ?? [],
+      );
+      if (documentBlob) {
+        contentUpdate.sourceDocumentFileId =
+          await ctx.storage.store(documentBlob);
+      }
+    } catch {
+      // Document storage failed, but the parsed content is still available
+      console.warn("Failed to store source document to Convex storage");
+    }
+  }
+
+  // Handle extracted JSON
+  if (data.extract) {
+    const extractJson = JSON.stringify(data.extract);
+    if (getByteLength(extractJson) > CONFIG.FILE_STORAGE_THRESHOLD_BYTES) {
+      const blob = new Blob([extractJson], { type: "application/json" });
+      const fileId = await ctx.storage.store(blob);
+      contentUpdate.extractedJsonFileId = fileId;
+    } else {
+      contentUpdate.extractedJson = data.extract;
+    }
+  }
+
+  // Handle metadata
+  if (data.metadata) {
+    const metadata: Record<string, unknown> = {};
+
+    if (data.metadata.title) metadata.title = data.metadata.title;
+    if (data.metadata.description)
+      metadata.description = data.metadata.description;
+    if (data.metadata.language) metadata.language = data.metadata.language;
+    if (data.metadata.sourceURL) metadata.sourceURL = data.metadata.sourceURL;
+    if (data.metadata.statusCode)
+      metadata.statusCode = data.metadata.statusCode;
+
+    // OG tags
+    if (data.metadata.ogImage) metadata.ogImage = data.metadata.ogImage;
+    if (data.metadata.ogTitle) metadata.ogTitle = data.metadata.ogTitle;
+    if (data.metadata.ogDescription)
+      metadata.ogDescription = data.metadata.ogDescription;
+    if (data.metadata.ogSiteName)
+      metadata.ogSiteName = data.metadata.ogSiteName;
+
+    // Response headers (if provided)
+    if (data.metadata.contentType)
+      metadata.contentType = data.metadata.contentType;
+    if (data.metadata.cacheControl)
+      metadata.cacheControl = data.metadata.cacheControl;
+
+    // Documents
+    if (data.metadata.numPages) metadata.numPages = data.metadata.numPages;
+
+    // Page identity and dates - meta tags repeated on the page come back as
+    // arrays, so take the first value
+    const canonicalUrl = metaString(
+      data.metadata.canonicalUrl ?? data.metadata.canonical,
+    );
+    if (canonicalUrl) metadata.canonicalUrl = canonicalUrl;
+    const favicon = metaString(data.metadata.favicon);
+    if (favicon) metadata.favicon = favicon;
+    const keywords = metaKeywords(data.metadata.keywords);
+    if (keywords.length > 0) metadata.keywords = keywords;
+    const publishedTime = metaString(
+      data.metadata.publishedTime ?? data.metadata["article:published_time"],
+    );
+    if (publishedTime) metadata.publishedTime = publishedTime;
+    const modifiedTime = metaString(
+      data.metadata.modifiedTime ?? data.metadata["article:modified_time"],
+    );
+    if (modifiedTime) metadata.modifiedTime = modifiedTime;
+
+    // Final URL after redirects, and the requested URL if it redirected.
+    // Firecrawl reports only the two ends, not the hops in between.
+    const finalUrl = metaString(data.metadata.url);
+    if (finalUrl) {
+      metadata.finalUrl = finalUrl;
+      if (data.metadata.sourceURL && data.metadata.sourceURL !== finalUrl) {
+        metadata.originalUrl = data.metadata.sourceURL;
+      }
+    }
+
+    if (Object.keys(metadata).length > 0) {
+      contentUpdate.metadata = metadata as ScrapeContent["metadata"];
+    }
+
+    // Keep the complete metadata too, unless it is too large to store inline
+    const rawMetadata = storableMetadata(data.metadata);
+    if (
+      getByteLength(JSON.stringify(rawMetadata)) <=
+      CONFIG.FILE_STORAGE_THRESHOLD_BYTES
+    ) {
+      contentUpdate.rawMetadata = rawMetadata;
+    } else {
+      console.warn("Firecrawl metadata too large to store, keeping the subset");
+    }
+  }
+
+  return contentUpdate;
+}
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+import { test } from "vitest";
+
+/** JSON response for fetch stubs standing in for the Firecrawl API */
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+test("fixtures", () => {});
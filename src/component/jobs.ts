@@ -0,0 +1,594 @@
+/**
+ * Scrape job creation and completion callbacks, shared by the public
+ * mutations and the job lifecycle mutations.
+ */
+
+import type { Infer } from "convex/values";
+import type { FunctionHandle } from "convex/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server.js";
+import type { Doc, Id } from "./_generated/dataModel.js";
+import { internal } from "./_generated/api.js";
+import {
+  formatValidationError,
+  normalizeUrl,
+  hashUrl,
+  type UrlPolicyRule,
+} from "./url.js";
+import { CONFIG } from "./config.js";
+import type {
+  scrapeOptionsValidator,
+  cacheKeyOptionValidator,
+} from "./options.js";
+import type { FirecrawlEndpoint, FirecrawlKey } from "./validators.js";
+import { reserveRateLimitSlot, checkFirecrawlEndpoint } from "./firecrawl.js";
+import { resolveFirecrawlKey } from "./credentials.js";
+import { validateScrapeUrl } from "./policy.js";
+import { checkBudgets } from "./usage.js";
+
+/** Check if cached formats satisfy the requested formats (superset check) */
+export function formatsSatisfied(
+  cached: string[],
+  requested: string[],
+): boolean {
+  const cachedSet = new Set(cached);
+  return requested.every((f) => cachedSet.has(f));
+}
+
+type CacheKeyOption = Infer<typeof cacheKeyOptionValidator>;
+type ScrapeOptions = Infer<typeof scrapeOptionsValidator>;
+
+// Values the scrape action uses when an option is unset. An option at its
+// default is left out of the fingerprint, so it matches an unset option.
+const CACHE_KEY_DEFAULTS: Record<CacheKeyOption, unknown> = {
+  onlyMainContent: true,
+  includeTags: [],
+  excludeTags: [],
+  waitFor: 0,
+  mobile: false,
+  proxy: "basic",
+  extractionSchema: undefined,
+  extractionPrompt: undefined,
+  actions: [],
+  headers: {},
+  location: undefined,
+  parsePDF: true,
+};
+
+// Cache key options whose order does not change the content
+const UNORDERED_CACHE_KEY_OPTIONS = new Set<string>([
+  "includeTags",
+  "excludeTags",
+]);
+
+/** JSON with object keys sorted, so equal values encode the same */
+function canonicalJson(value: unknown): string | undefined {
+  return JSON.stringify(value, (_key, val: unknown) =>
+    val !== null && typeof val === "object" && !Array.isArray(val)
+      ? Object.fromEntries(
+          Object.entries(val).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+        )
+      : val,
+  );
+}
+
+// Header names whose values are credentials: cookies, authorization headers
+// and anything that looks like a token, key, secret or session
+const SENSITIVE_HEADER_PATTERN =
+  /^(set-)?cookie$|auth|token|secret|password|session|credential|api-?key/;
+
+const REDACTED = "[redacted]";
+
+/**
+ * Request headers as they are stored and displayed: names lower-cased,
+ * sensitive values replaced with "[redacted]". The raw values are kept in the
+ * secretHeaders table and only read back by the scrape action.
+ */
+export function redactHeaders(
+  headers: Record<string, string> | undefined,
+): Record<string, string> | undefined {
+  if (headers === undefined) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => {
+      const lowerName = name.toLowerCase();
+      return [
+        lowerName,
+        SENSITIVE_HEADER_PATTERN.test(lowerName) ? REDACTED : value,
+      ];
+    }),
+  );
+}
+
+/** Owner of a set of secret headers: a pending scrape job or a monitor */
+export type SecretHeadersOwner =
+  | { jobId: Id<"scrapes"> }
+  | { monitorId: Id<"monitors"> };
+
+async function findSecretHeaders(
+  ctx: QueryCtx,
+  owner: SecretHeadersOwner,
+): Promise<Doc<"secretHeaders"> | null> {
+  return "jobId" in owner
+    ? await ctx.db
+        .query("secretHeaders")
+        .withIndex("by_job", (q) => q.eq("jobId", owner.jobId))
+        .unique()
+    : await ctx.db
+        .query("secretHeaders")
+        .withIndex("by_monitor", (q) => q.eq("monitorId", owner.monitorId))
+        .unique();
+}
+
+/**
+ * Store the raw values of the sensitive headers that redactHeaders hides, so
+ * they never appear in stored options or scheduled function arguments. A
+ * monitor's raw API key is stored alongside them, off the monitor record.
+ */
+export async function storeSecretHeaders(
+  ctx: MutationCtx,
+  owner: SecretHeadersOwner,
+  headers: Record<string, string> | undefined,
+  apiKey?: string | string[],
+): Promise<void> {
+  const secret = Object.fromEntries(
+    Object.entries(headers ?? {})
+      .map(([name, value]) => [name.toLowerCase(), value])
+      .filter(([name]) => SENSITIVE_HEADER_PATTERN.test(name)),
+  );
+  if (Object.keys(secret).length > 0 || apiKey !== undefined) {
+    await ctx.db.insert("secretHeaders", { ...owner, headers: secret, apiKey });
+  }
+}
+
+/** Raw sensitive header values stored for a job or monitor, if any */
+export async function loadSecretHeaders(
+  ctx: QueryCtx,
+  owner: SecretHeadersOwner,
+): Promise<Record<string, string> | undefined> {
+  return (await findSecretHeaders(ctx, owner))?.headers;
+}
+
+/** Raw API key or key pool stored for a monitor created with `apiKey` */
+export async function loadSecretApiKey(
+  ctx: QueryCtx,
+  owner: SecretHeadersOwner,
+): Promise<string | string[] | undefined> {
+  return (await findSecretHeaders(ctx, owner))?.apiKey;
+}
+
+export async function deleteSecretHeaders(
+  ctx: MutationCtx,
+  owner: SecretHeadersOwner,
+): Promise<void> {
+  const row = await findSecretHeaders(ctx, owner);
+  if (row) {
+    await ctx.db.delete(row._id);
+  }
+}
+
+/**
+ * Request headers as they are fingerprinted: names lower-cased, sensitive
+ * values replaced with their SHA-256. Requests with different cookies get
+ * different cache entries without the fingerprint storing the cookies.
+ */
+async function fingerprintHeaders(
+  headers: Record<string, string> | undefined,
+): Promise<Record<string, string> | undefined> {
+  if (headers === undefined) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    await Promise.all(
+      Object.entries(headers).map(async ([name, value]) => {
+        const lowerName = name.toLowerCase();
+        return [
+          lowerName,
+          SENSITIVE_HEADER_PATTERN.test(lowerName)
+            ? `sha256:${await hashUrl(value)}`
+            : value,
+        ];
+      }),
+    ),
+  );
+}
+
+/**
+ * Fingerprint of the scrape options that change the content: option name to
+ * canonical JSON value, leaving out options at their default. Tag lists are
+ * order-insensitive. Sensitive header values are fingerprinted as hashes, so
+ * a scrape sent with a cookie only matches requests that send the same one.
+ */
+export async function optionsFingerprint(
+  options: Pick<ScrapeOptions, CacheKeyOption>,
+): Promise<Record<string, string>> {
+  const fingerprint: Record<string, string> = {};
+  for (const [name, defaultValue] of Object.entries(CACHE_KEY_DEFAULTS)) {
+    const value: unknown =
+      name === "headers"
+        ? await fingerprintHeaders(options.headers)
+        : options[name as CacheKeyOption];
+    const encoded = canonicalJson(
+      UNORDERED_CACHE_KEY_OPTIONS.has(name) && Array.isArray(value)
+        ? [...(value as string[])].sort()
+        : value,
+    );
+    if (encoded !== undefined && encoded !== canonicalJson(defaultValue)) {
+      fingerprint[name] = encoded;
+    }
+  }
+  return fingerprint;
+}
+
+/**
+ * Check if a cached scrape's fingerprint matches the requested one, skipping
+ * the options in `ignoreOptions`. Rows stored without a fingerprint were
+ * scraped before fingerprints existed and count as all defaults.
+ */
+export function fingerprintsMatch(
+  cached: Record<string, string> | undefined,
+  requested: Record<string, string>,
+  ignoreOptions: string[] = [],
+): boolean {
+  return Object.keys(CACHE_KEY_DEFAULTS).every(
+    (name) =>
+      ignoreOptions.includes(name) || cached?.[name] === requested[name],
+  );
+}
+
+/**
+ * Scrapes of other URLs that redirected to the URL with this hash or were
+ * aliased under it as their canonical URL, newest first within each. They
+ * are cache hits for the URL alongside its own scrapes.
+ */
+export async function aliasedScrapes(
+  ctx: Pick<QueryCtx, "db">,
+  namespace: string | undefined,
+  urlHash: string,
+): Promise<Doc<"scrapes">[]> {
+  const redirected = await ctx.db
+    .query("scrapes")
+    .withIndex("by_namespace_final_url_hash", (q) =>
+      q.eq("namespace", namespace).eq("finalUrlHash", urlHash),
+    )
+    .order("desc")
+    .take(10);
+  const canonical = await ctx.db
+    .query("scrapes")
+    .withIndex("by_namespace_canonical_url_hash", (q) =>
+      q.eq("namespace", namespace).eq("canonicalUrlHash", urlHash),
+    )
+    .order("desc")
+    .take(10);
+  return [...redirected, ...canonical];
+}
+
+/**
+ * Schedule a job's onComplete callback with its final status. No-op when the
+ * job has no callback.
+ */
+export async function notifyComplete(
+  ctx: MutationCtx,
+  jobId: Id<"scrapes">,
+  onComplete: string | undefined,
+  status: "completed" | "failed",
+): Promise<void> {
+  if (onComplete === undefined) {
+    return;
+  }
+  await ctx.scheduler.runAfter(0, onComplete as FunctionHandle<"mutation">, {
+    jobId,
+    status,
+  });
+}
+
+/**
+ * Record a completed monitor run: store its content hash and, when the hash
+ * differs from the previous run's, schedule the monitor's onChange callback.
+ * No-op if the monitor was deleted while the run was in flight.
+ */
+export async function recordMonitorRun(
+  ctx: MutationCtx,
+  monitorId: Id<"monitors">,
+  jobId: Id<"scrapes">,
+  contentHash: string | undefined,
+): Promise<void> {
+  const monitor = await ctx.db.get(monitorId);
+  if (!monitor) {
+    return;
+  }
+
+  // The first run has nothing to compare against
+  const changed =
+    monitor.lastContentHash !== undefined &&
+    contentHash !== monitor.lastContentHash;
+  await ctx.db.patch(monitorId, {
+    lastContentHash: contentHash,
+    ...(changed && { lastChangedAt: Date.now() }),
+  });
+  if (changed && monitor.onChange !== undefined) {
+    await ctx.scheduler.runAfter(
+      0,
+      monitor.onChange as FunctionHandle<"mutation">,
+      { monitorId, jobId },
+    );
+  }
+}
+
+export type StartScrapeArgs = FirecrawlEndpoint &
+  FirecrawlKey & {
+    url: string;
+    namespace?: string;
+    options?: Infer<typeof scrapeOptionsValidator>;
+    maxRequestsPerMinute?: number;
+  };
+
+/**
+ * Check a scrape's browser actions: at most CONFIG.MAX_SCRAPE_ACTIONS, and
+ * every wait action needs a duration or a selector to wait for.
+ */
+function checkScrapeActions(actions: ScrapeOptions["actions"]): void {
+  if (actions === undefined) {
+    return;
+  }
+  if (actions.length > CONFIG.MAX_SCRAPE_ACTIONS) {
+    throw new Error(
+      `actions must contain at most ${CONFIG.MAX_SCRAPE_ACTIONS} actions`,
+    );
+  }
+  for (const action of actions) {
+    if (
+      action.type === "wait" &&
+      action.milliseconds === undefined &&
+      action.selector === undefined
+    ) {
+      throw new Error("wait actions need milliseconds or a selector");
+    }
+    if (
+      action.type === "wait" &&
+      action.milliseconds !== undefined &&
+      !(action.milliseconds > 0)
+    ) {
+      throw new Error("wait action milliseconds must be greater than 0");
+    }
+  }
+}
+
+// HTTP header name token (RFC 9110)
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Check the request options forwarded to Firecrawl: header names and values,
+ * the location country code and the timeout.
+ */
+function checkRequestOptions(options: ScrapeOptions): void {
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid header name: ${JSON.stringify(name)}`);
+    }
+    if (/[\r\n\0]/.test(value)) {
+      throw new Error(`Invalid value for header ${name}`);
+    }
+  }
+  const country = options.location?.country;
+  if (country !== undefined && !/^[A-Za-z]{2}$/.test(country)) {
+    throw new Error("location.country must be a two-letter country code");
+  }
+  if (
+    options.timeout !== undefined &&
+    !(options.timeout > 0 && options.timeout <= CONFIG.MAX_SCRAPE_TIMEOUT_MS)
+  ) {
+    throw new Error(
+      `timeout must be between 1 and ${CONFIG.MAX_SCRAPE_TIMEOUT_MS} ms`,
+    );
+  }
+}
+
+/** Check a TTL option: a positive, finite number of milliseconds */
+export function checkTtl(ttlMs: number | undefined): void {
+  if (ttlMs !== undefined && !(ttlMs > 0 && Number.isFinite(ttlMs))) {
+    throw new Error("ttlMs must be a positive number of milliseconds");
+  }
+}
+
+/**
+ * Shared job creation path for startScrape, revalidate, batch scrapes and site
+ * map fan-out: validation, deduplication, cache check, credit budgets, rate
+ * limiting and scheduling. `force` skips the cache check; the versions it
+ * replaces are kept as history and pruned on completion.
+ *
+ * With `reuseInProgress`, an existing pending/scraping job for the URL is
+ * returned instead of throwing. `cached` is true when a valid cache entry was
+ * returned; its `onComplete` callback, if given, is scheduled right away. A
+ * reused in-progress job keeps the callback it was started with.
+ *
+ * Deduplication and the cache check only see jobs in the same `namespace`
+ * whose options fingerprint matches, apart from `options.ignoreOptions`.
+ * `policyRules` come from loadPolicyRules, loaded once per mutation.
+ */
+export async function enqueueScrape(
+  ctx: MutationCtx,
+  args: StartScrapeArgs,
+  reuseInProgress: boolean,
+  policyRules: UrlPolicyRule[],
+): Promise<{ jobId: Id<"scrapes">; started: boolean; cached: boolean }> {
+  const { url, namespace, options = {} } = args;
+  const maxRequestsPerMinute =
+    args.maxRequestsPerMinute ?? CONFIG.DEFAULT_RATE_LIMIT_PER_MINUTE;
+  if (!(maxRequestsPerMinute > 0)) {
+    throw new Error("maxRequestsPerMinute must be greater than 0");
+  }
+
+  // 1. Validate URL, endpoint, API key, browser actions and request options
+  const validation = validateScrapeUrl(url, policyRules);
+  if (!validation.valid) {
+    throw new Error(formatValidationError(validation.error));
+  }
+  checkFirecrawlEndpoint(args);
+  const { keyRef, keyHashes, rateLimitKey } = await resolveFirecrawlKey(
+    ctx,
+    args,
+  );
+  checkScrapeActions(options.actions);
+  checkRequestOptions(options);
+  checkTtl(options.ttlMs);
+
+  // 2. Normalize URL and compute hash
+  const normalizedUrl = normalizeUrl(url);
+  const urlHash = await hashUrl(normalizedUrl);
+
+  // 3. Determine formats (default to markdown) and the options fingerprint
+  const formats = options.formats ?? ["markdown"];
+  const fingerprint = await optionsFingerprint(options);
+  const matchesOptions = (job: Doc<"scrapes">) =>
+    fingerprintsMatch(
+      job.optionsFingerprint,
+      fingerprint,
+      options.ignoreOptions,
+    );
+
+  // 4. Determine how many completed versions of the URL to keep and how
+  // often to retry
+  const keepVersions = Math.min(
+    options.keepVersions ?? CONFIG.DEFAULT_KEEP_VERSIONS,
+    CONFIG.MAX_KEEP_VERSIONS,
+  );
+  if (!Number.isInteger(keepVersions) || keepVersions < 1) {
+    throw new Error("keepVersions must be a positive integer");
+  }
+  const maxRetries = Math.min(
+    options.maxRetries ?? CONFIG.DEFAULT_MAX_RETRIES,
+    CONFIG.MAX_RETRIES,
+  );
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    throw new Error("maxRetries must be a non-negative integer");
+  }
+  const retryBaseDelayMs = Math.min(
+    options.retryBaseDelayMs ?? CONFIG.DEFAULT_RETRY_BASE_DELAY_MS,
+    CONFIG.MAX_RETRY_DELAY_MS,
+  );
+  if (!(retryBaseDelayMs >= 0)) {
+    throw new Error("retryBaseDelayMs must not be negative");
+  }
+
+  // 5. Check for existing pending/scraping job (deduplication)
+  const pendingJobs = await ctx.db
+    .query("scrapes")
+    .withIndex("by_namespace_url_hash", (q) =>
+      q.eq("namespace", namespace).eq("urlHash", urlHash),
+    )
+    .order("desc")
+    .take(10);
+
+  for (const job of pendingJobs) {
+    if (
+      (job.status === "pending" || job.status === "scraping") &&
+      matchesOptions(job)
+    ) {
+      if (reuseInProgress) {
+        return { jobId: job._id, started: false, cached: false };
+      }
+      throw new Error(
+        `Scrape already in progress for this URL. Job ID: ${job._id}`,
+      );
+    }
+  }
+
+  // 6. Check for valid cache (unless force), including scrapes that were
+  // redirected to this URL or aliased under it as their canonical URL
+  if (!options.force) {
+    const now = Date.now();
+    const cacheCandidates = [
+      ...pendingJobs,
+      ...(await aliasedScrapes(ctx, namespace, urlHash)),
+    ];
+    for (const job of cacheCandidates) {
+      if (
+        job.status === "completed" &&
+        job.expiresAt > now &&
+        formatsSatisfied(job.formats, formats) &&
+        matchesOptions(job)
+      ) {
+        // Return existing cached result that satisfies requested formats
+        await notifyComplete(ctx, job._id, options.onComplete, "completed");
+        return { jobId: job._id, started: false, cached: true };
+      }
+    }
+  }
+
+  // 7. Reject the job once the namespace's or key's credit budget is used up
+  const now = Date.now();
+  await checkBudgets(ctx, namespace, keyHashes, now);
+
+  // 8. Reserve a rate limit slot for this API key
+  const queuedUntil = await reserveRateLimitSlot(
+    ctx,
+    rateLimitKey,
+    maxRequestsPerMinute,
+    now,
+  );
+
+  // 9. Create pending record
+  const ttlMs = options.ttlMs ?? CONFIG.DEFAULT_TTL_MS;
+
+  const jobId = await ctx.db.insert("scrapes", {
+    url,
+    normalizedUrl,
+    urlHash,
+    namespace,
+    optionsFingerprint: fingerprint,
+    status: "pending",
+    formats,
+    rateLimitKey,
+    queuedUntil,
+    startedAt: now,
+    expiresAt: now + ttlMs, // Will be updated on completion
+    // Store extraction schema and prompt if provided
+    ...(options.extractionSchema && {
+      extractionSchema: options.extractionSchema,
+    }),
+    ...(options.extractionPrompt && {
+      extractionPrompt: options.extractionPrompt,
+    }),
+    ...(options.actions?.length && { actions: options.actions }),
+    headers: redactHeaders(options.headers),
+    location: options.location,
+    ...(options.onComplete && { onComplete: options.onComplete }),
+    keepVersions,
+    ...(options.aliasCanonical && { aliasCanonical: true }),
+  });
+  await storeSecretHeaders(ctx, { jobId }, options.headers);
+
+  // 10. Schedule the scrape action for its rate limit slot
+  await ctx.scheduler.runAfter(queuedUntil - now, internal.lib.scrapeAction, {
+    jobId,
+    url,
+    ...keyRef,
+    apiBaseUrl: args.apiBaseUrl,
+    apiKeyHeader: args.apiKeyHeader,
+    formats,
+    options: {
+      extractionSchema: options.extractionSchema,
+      extractionPrompt: options.extractionPrompt,
+      onlyMainContent: options.onlyMainContent,
+      includeTags: options.includeTags,
+      excludeTags: options.excludeTags,
+      waitFor: options.waitFor,
+      actions: options.actions,
+      headers: redactHeaders(options.headers),
+      location: options.location,
+      timeout: options.timeout,
+      parsePDF: options.parsePDF,
+      storeSourceDocument: options.storeSourceDocument,
+      mobile: options.mobile,
+      proxy: options.proxy ?? "basic",
+      storeScreenshot: options.storeScreenshot,
+      resolveDns: options.resolveDns,
+      maxRetries,
+      retryBaseDelayMs,
+    },
+    ttlMs,
+  });
+
+  return { jobId, started: true, cached: false };
+}
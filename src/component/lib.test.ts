@@ -3,6 +3,8 @@
 import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
 import { api, internal } from "./_generated/api.js";
 import { initConvexTest } from "./setup.test.js";
+import { jsonResponse } from "./fixtures.test.js";
+import { CONFIG } from "./config.js";
 
 describe("component lib", () => {
   beforeEach(async () => {
@@ -737,7 +739,8 @@ describe("cron job mutations", () => {
       const { jobId } = await t.mutation(api.lib.startScrape, {
         url: "https://example.com/page",
         apiKey: "test-key",
-        options: { ttlMs: 1 }, // Very short TTL
+        // Very short TTL; no retries so the network error fails the job at once
+        options: { ttlMs: 1, maxRetries: 0 },
       });
 
       // Let the scheduled action run and fail (network error in tests)
@@ -777,6 +780,7 @@ describe("cron job mutations", () => {
       const { jobId } = await t.mutation(api.lib.startScrape, {
         url: "https://example.com/page",
         apiKey: "test-key",
+        options: { maxRetries: 0 },
       });
 
       // Let the scheduled action run and fail (network error in tests)
@@ -813,6 +817,7 @@ describe("cron job mutations", () => {
       const { jobId } = await t.mutation(api.lib.startScrape, {
         url: "https://example.com/page",
         apiKey: "test-key",
+        options: { maxRetries: 0 },
       });
 
       // Let the scheduled action run and fail (network error in tests)
@@ -853,6 +858,7 @@ describe("cron job mutations", () => {
       const { jobId } = await t.mutation(api.lib.startScrape, {
         url: "https://example.com/page",
         apiKey: "test-key",
+        options: { maxRetries: 0 },
       });
 
       // Let the scheduled action run and fail (network error in tests)
@@ -1505,3 +1511,1940 @@ describe("scrape options", () => {
     expect(jobId).toBeDefined();
   });
 });
+
+describe("retry with backoff", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  test("retries transient 5xx errors and completes", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ error: "Unavailable" }, 503))
+      .mockResolvedValueOnce(
+        jsonResponse({ success: true, data: { markdown: "# Recovered" } }),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      options: { retryBaseDelayMs: 100 },
+    });
+
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const scrape = await t.query(api.lib.get, { id: jobId });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(scrape?.status).toBe("completed");
+    expect(scrape?.markdown).toBe("# Recovered");
+    expect(scrape?.attempts).toBe(2);
+    expect(scrape?.error).toBeUndefined();
+    expect(scrape?.nextRetryAt).toBeUndefined();
+  });
+
+  test("fails immediately on non-transient errors", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(jsonResponse({ error: "Payment required" }, 402));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+    });
+
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const status = await t.query(api.lib.getStatus, { id: jobId });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(status?.status).toBe("failed");
+    expect(status?.errorCode).toBe(402);
+    expect(status?.attempts).toBe(1);
+  });
+
+  test("retries network errors but fails on other exceptions", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(
+        jsonResponse({ success: true, data: { markdown: "# Recovered" } }),
+      )
+      .mockRejectedValue(new Error("Unexpected failure"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      options: { retryBaseDelayMs: 100 },
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+    expect((await t.query(api.lib.getStatus, { id: jobId }))?.status).toBe(
+      "completed",
+    );
+
+    const { jobId: failedId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/other",
+      apiKey: "test-key",
+      options: { retryBaseDelayMs: 100 },
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const status = await t.query(api.lib.getStatus, { id: failedId });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(status?.status).toBe("failed");
+    expect(status?.error).toBe("Unexpected failure");
+    expect(status?.attempts).toBe(1);
+  });
+
+  test("validates and caps the retry options", async () => {
+    const t = initConvexTest();
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com/page",
+        apiKey: "test-key",
+        options: { maxRetries: 1.5 },
+      }),
+    ).rejects.toThrow("maxRetries must be a non-negative integer");
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com/page",
+        apiKey: "test-key",
+        options: { retryBaseDelayMs: -1 },
+      }),
+    ).rejects.toThrow("retryBaseDelayMs must not be negative");
+
+    await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      options: { maxRetries: 1000, retryBaseDelayMs: 1e9 },
+    });
+    const [scheduled] = await t.run((ctx) =>
+      ctx.db.system.query("_scheduled_functions").collect(),
+    );
+    expect(scheduled.args[0].options).toMatchObject({
+      maxRetries: CONFIG.MAX_RETRIES,
+      retryBaseDelayMs: CONFIG.MAX_RETRY_DELAY_MS,
+    });
+  });
+
+  test("fails after maxRetries transient errors", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockImplementation(async () =>
+        jsonResponse({ error: "Rate limit exceeded" }, 429),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      options: { maxRetries: 2, retryBaseDelayMs: 100 },
+    });
+
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const status = await t.query(api.lib.getStatus, { id: jobId });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(status?.status).toBe("failed");
+    expect(status?.error).toBe("Rate limit exceeded");
+    expect(status?.errorCode).toBe(429);
+    expect(status?.attempts).toBe(3);
+  });
+
+  test("maxRetries of 0 disables retries", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockImplementation(async () => jsonResponse({ error: "Oops" }, 500));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      options: { maxRetries: 0 },
+    });
+
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const status = await t.query(api.lib.getStatus, { id: jobId });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(status?.status).toBe("failed");
+  });
+
+  test("scheduleRetry returns job to pending with next retry time", async () => {
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+    });
+    await t.mutation(internal.lib.markScraping, { jobId });
+
+    const nextRetryAt = Date.now() + 5000;
+    const scheduled = await t.mutation(internal.lib.scheduleRetry, {
+      jobId,
+      error: "Service unavailable",
+      errorCode: 503,
+      nextRetryAt,
+    });
+    expect(scheduled).toBe(true);
+
+    const status = await t.query(api.lib.getStatus, { id: jobId });
+    expect(status?.status).toBe("pending");
+    expect(status?.attempts).toBe(1);
+    expect(status?.nextRetryAt).toBe(nextRetryAt);
+    expect(status?.error).toBe("Service unavailable");
+  });
+
+  test("scheduleRetry is a no-op for terminal jobs", async () => {
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+    });
+    await t.mutation(internal.lib.failScrape, { jobId, error: "Boom" });
+
+    const scheduled = await t.mutation(internal.lib.scheduleRetry, {
+      jobId,
+      error: "Service unavailable",
+      nextRetryAt: Date.now() + 5000,
+    });
+    expect(scheduled).toBe(false);
+
+    const status = await t.query(api.lib.getStatus, { id: jobId });
+    expect(status?.status).toBe("failed");
+    expect(status?.error).toBe("Boom");
+  });
+});
+
+describe("rate limiting", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("releases jobs for the same API key at the configured rate", async () => {
+    const t = initConvexTest();
+
+    const first = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/a",
+      apiKey: "test-key",
+      maxRequestsPerMinute: 60,
+    });
+    const second = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/b",
+      apiKey: "test-key",
+      maxRequestsPerMinute: 60,
+    });
+    const third = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/c",
+      apiKey: "test-key",
+      maxRequestsPerMinute: 60,
+    });
+
+    const firstScrape = await t.query(api.lib.get, { id: first.jobId });
+    const secondScrape = await t.query(api.lib.get, { id: second.jobId });
+    const thirdScrape = await t.query(api.lib.get, { id: third.jobId });
+
+    expect(firstScrape?.queuedUntil).toBe(firstScrape?.startedAt);
+    expect(secondScrape!.queuedUntil! - firstScrape!.queuedUntil!).toBe(1000);
+    expect(thirdScrape!.queuedUntil! - secondScrape!.queuedUntil!).toBe(1000);
+  });
+
+  test("queues are independent per API key", async () => {
+    const t = initConvexTest();
+
+    await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/a",
+      apiKey: "key-one",
+      maxRequestsPerMinute: 1,
+    });
+    const other = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/b",
+      apiKey: "key-two",
+      maxRequestsPerMinute: 1,
+    });
+
+    const scrape = await t.query(api.lib.get, { id: other.jobId });
+    expect(scrape?.queuedUntil).toBe(scrape?.startedAt);
+  });
+
+  test("getStatus reports queue depth for waiting jobs", async () => {
+    const t = initConvexTest();
+
+    const jobIds = [];
+    for (const path of ["a", "b", "c"]) {
+      const { jobId } = await t.mutation(api.lib.startScrape, {
+        url: `https://example.com/${path}`,
+        apiKey: "test-key",
+        maxRequestsPerMinute: 1,
+      });
+      jobIds.push(jobId);
+    }
+
+    // The first job is released immediately, the other two are waiting
+    const status = await t.query(api.lib.getStatus, { id: jobIds[2] });
+    expect(status?.queueDepth).toBe(2);
+    expect(status?.queuedUntil).toBe(status!.startedAt + 2 * 60_000);
+  });
+
+  test("does not store the raw API key", async () => {
+    const t = initConvexTest();
+
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "secret-key",
+    });
+
+    const scrape = await t.query(api.lib.get, { id: jobId });
+    expect(scrape?.rateLimitKey).toBeDefined();
+    expect(scrape?.rateLimitKey).not.toContain("secret-key");
+
+    const limits = await t.run(async (ctx) =>
+      ctx.db.query("rateLimits").collect(),
+    );
+    expect(limits).toHaveLength(1);
+    expect(limits[0].keyHash).toBe(scrape?.rateLimitKey);
+    expect(limits[0].requestsPerMinute).toBe(100);
+  });
+
+  test("cache hits do not consume a rate limit slot", async () => {
+    const t = initConvexTest();
+
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      maxRequestsPerMinute: 1,
+    });
+    await t.mutation(internal.lib.completeScrape, {
+      jobId,
+      ttlMs: 60_000,
+      markdown: "# Cached",
+    });
+
+    const before = await t.run(async (ctx) =>
+      ctx.db.query("rateLimits").unique(),
+    );
+    const cached = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      maxRequestsPerMinute: 1,
+    });
+    const after = await t.run(async (ctx) =>
+      ctx.db.query("rateLimits").unique(),
+    );
+
+    expect(cached.jobId).toBe(jobId);
+    expect(after?.nextSlotAt).toBe(before?.nextSlotAt);
+  });
+
+  test("rejects non-positive rate limits", async () => {
+    const t = initConvexTest();
+
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com/page",
+        apiKey: "test-key",
+        maxRequestsPerMinute: 0,
+      }),
+    ).rejects.toThrow(/maxRequestsPerMinute/);
+  });
+});
+
+describe("stale-while-revalidate", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function completedEntry(
+    t: ReturnType<typeof initConvexTest>,
+    ttlMs: number,
+  ) {
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+    });
+    await t.mutation(internal.lib.completeScrape, {
+      jobId,
+      ttlMs,
+      markdown: "# Old",
+    });
+    return jobId;
+  }
+
+  test("fresh entries are not marked stale", async () => {
+    const t = initConvexTest();
+    await completedEntry(t, 60_000);
+
+    const cached = await t.query(api.lib.getCached, {
+      url: "https://example.com/page",
+      staleWhileRevalidateMs: 60_000,
+    });
+    expect(cached?.markdown).toBe("# Old");
+    expect(cached?.stale).toBeUndefined();
+  });
+
+  test("serves expired entries within the window as stale", async () => {
+    const t = initConvexTest();
+    const jobId = await completedEntry(t, 100);
+
+    vi.advanceTimersByTime(1000);
+
+    const cached = await t.query(api.lib.getCached, {
+      url: "https://example.com/page",
+      staleWhileRevalidateMs: 60_000,
+    });
+    expect(cached?._id).toBe(jobId);
+    expect(cached?.stale).toBe(true);
+
+    // Without a window the same entry is a miss
+    const strict = await t.query(api.lib.getCached, {
+      url: "https://example.com/page",
+    });
+    expect(strict).toBeNull();
+  });
+
+  test("returns null once the window has passed", async () => {
+    const t = initConvexTest();
+    await completedEntry(t, 100);
+
+    vi.advanceTimersByTime(10_000);
+
+    const cached = await t.query(api.lib.getCached, {
+      url: "https://example.com/page",
+      staleWhileRevalidateMs: 5_000,
+    });
+    expect(cached).toBeNull();
+  });
+
+  test("never serves invalidated entries as stale", async () => {
+    const t = initConvexTest();
+    await completedEntry(t, 60_000);
+
+    await t.mutation(api.lib.invalidate, { url: "https://example.com/page" });
+    vi.advanceTimersByTime(10);
+
+    const cached = await t.query(api.lib.getCached, {
+      url: "https://example.com/page",
+      staleWhileRevalidateMs: 60_000,
+    });
+    expect(cached).toBeNull();
+  });
+
+  test("revalidate starts one refresh and reuses it", async () => {
+    const t = initConvexTest();
+    const staleId = await completedEntry(t, 100);
+    vi.advanceTimersByTime(1000);
+
+    const first = await t.mutation(api.lib.revalidate, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+    });
+    expect(first.started).toBe(true);
+    expect(first.jobId).not.toBe(staleId);
+
+    const second = await t.mutation(api.lib.revalidate, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+    });
+    expect(second).toEqual({ jobId: first.jobId, started: false });
+
+    // The stale entry is still served while the refresh is pending
+    const cached = await t.query(api.lib.getCached, {
+      url: "https://example.com/page",
+      staleWhileRevalidateMs: 60_000,
+    });
+    expect(cached?._id).toBe(staleId);
+    expect(cached?.stale).toBe(true);
+  });
+
+  test("cleanupExpired keeps completed entries for the stale window", async () => {
+    const t = initConvexTest();
+    const jobId = await completedEntry(t, 100);
+
+    vi.advanceTimersByTime(1000);
+    const kept = await t.mutation(internal.lib.cleanupExpired, {});
+    expect(kept.deletedCount).toBe(0);
+
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    const removed = await t.mutation(internal.lib.cleanupExpired, {});
+    expect(removed.deletedCount).toBe(1);
+    expect(await t.query(api.lib.get, { id: jobId })).toBeNull();
+  });
+});
+
+describe("onComplete callback", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Callbacks are app functions, so they are only scheduled here, never run
+  const onComplete = "function://;callbacks:onScraped";
+
+  async function scheduledCallbacks(t: ReturnType<typeof initConvexTest>) {
+    const scheduled = await t.run(async (ctx) =>
+      ctx.db.system.query("_scheduled_functions").collect(),
+    );
+    return scheduled
+      .filter((fn) => fn.name === "callbacks:onScraped")
+      .map((fn) => fn.args[0]);
+  }
+
+  test("is scheduled when the scrape completes", async () => {
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      options: { onComplete },
+    });
+    expect(await scheduledCallbacks(t)).toEqual([]);
+
+    await t.mutation(internal.lib.markScraping, { jobId });
+    await t.mutation(internal.lib.completeScrape, {
+      jobId,
+      markdown: "# Done",
+      ttlMs: 60_000,
+    });
+    // A second terminal transition is a no-op and does not notify again
+    await t.mutation(internal.lib.failScrape, { jobId, error: "Late" });
+
+    expect(await scheduledCallbacks(t)).toEqual([
+      { jobId, status: "completed" },
+    ]);
+  });
+
+  test("is scheduled when the scrape fails", async () => {
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      options: { onComplete },
+    });
+
+    await t.mutation(internal.lib.failScrape, {
+      jobId,
+      error: "Forbidden",
+      errorCode: 403,
+    });
+
+    expect(await scheduledCallbacks(t)).toEqual([{ jobId, status: "failed" }]);
+  });
+
+  test("is scheduled when a stuck job times out", async () => {
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      options: { onComplete },
+    });
+    await t.mutation(internal.lib.markScraping, { jobId });
+    await t.run(async (ctx) => {
+      await ctx.db.patch(jobId, { scrapingAt: Date.now() - 6 * 60 * 1000 });
+    });
+
+    await t.mutation(internal.lib.markStuckJobsFailed, {});
+
+    expect(await scheduledCallbacks(t)).toEqual([{ jobId, status: "failed" }]);
+  });
+
+  test("is scheduled right away for a cache hit", async () => {
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+    });
+    await t.mutation(internal.lib.completeScrape, {
+      jobId,
+      markdown: "# Cached",
+      ttlMs: 60_000,
+    });
+
+    const cached = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      options: { onComplete },
+    });
+
+    expect(cached.jobId).toBe(jobId);
+    expect(await scheduledCallbacks(t)).toEqual([
+      { jobId, status: "completed" },
+    ]);
+  });
+});
+
+describe("custom Firecrawl endpoint", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  test("calls the hosted API with a bearer token by default", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        jsonResponse({ success: true, data: { markdown: "# Hosted" } }),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://api.firecrawl.dev/v2/scrape");
+    expect(init.headers.Authorization).toBe("Bearer test-key");
+  });
+
+  test("uses the configured base URL and key header, including retries", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ error: "Unavailable" }, 503))
+      .mockResolvedValueOnce(
+        jsonResponse({ success: true, data: { markdown: "# Self-hosted" } }),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      apiBaseUrl: "http://localhost:3002/v2/",
+      apiKeyHeader: "X-Api-Key",
+      options: { retryBaseDelayMs: 100 },
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    for (const [url, init] of fetchMock.mock.calls) {
+      expect(url).toBe("http://localhost:3002/v2/scrape");
+      expect(init.headers["X-Api-Key"]).toBe("test-key");
+      expect(init.headers.Authorization).toBeUndefined();
+    }
+    const scrape = await t.query(api.lib.get, { id: jobId });
+    expect(scrape?.markdown).toBe("# Self-hosted");
+  });
+
+  test("rejects invalid base URLs and header names", async () => {
+    const t = initConvexTest();
+
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com/page",
+        apiKey: "test-key",
+        apiBaseUrl: "ftp://firecrawl.internal",
+      }),
+    ).rejects.toThrow(/apiBaseUrl/);
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com/page",
+        apiKey: "test-key",
+        apiKeyHeader: "X Api Key",
+      }),
+    ).rejects.toThrow(/apiKeyHeader/);
+  });
+});
+
+describe("DNS resolution", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  // Answers DNS-over-HTTPS A lookups from a table and Firecrawl scrapes
+  function stubFetch(
+    addresses: Record<string, string>,
+    screenshot = "https://screenshots.example.com/shot.png",
+  ) {
+    const fetchMock = vi.fn(async (input: string) => {
+      const url = new URL(input);
+      if (url.hostname === "cloudflare-dns.com") {
+        const address = addresses[url.searchParams.get("name") ?? ""];
+        return jsonResponse({
+          Status: 0,
+          Answer:
+            address && url.searchParams.get("type") === "A"
+              ? [{ type: 1, data: address }]
+              : [],
+        });
+      }
+      if (url.hostname === "screenshots.example.com") {
+        return new Response("png");
+      }
+      if (url.hostname === "cdn.example.com") {
+        return new Response(null, {
+          status: 302,
+          headers: { Location: "https://screenshots.example.com/shot.png" },
+        });
+      }
+      return jsonResponse({
+        success: true,
+        data: { markdown: "# Page", screenshot },
+      });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  }
+
+  test("fails scrapes of hostnames that resolve to private addresses", async () => {
+    const fetchMock = stubFetch({ "rebind.example.com": "10.0.0.5" });
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://rebind.example.com/admin",
+      apiKey: "test-key",
+      options: { resolveDns: true },
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const status = await t.query(api.lib.getStatus, { id: jobId });
+    expect(status?.status).toBe("failed");
+    expect(status?.error).toContain("resolves to private IP address 10.0.0.5");
+    expect(status?.errorCode).toBe("private_dns");
+    const calls = fetchMock.mock.calls.map(([input]) => new URL(input).host);
+    expect(calls).not.toContain("api.firecrawl.dev");
+  });
+
+  test("checks the screenshot host before storing it", async () => {
+    stubFetch({
+      "example.com": "93.184.216.34",
+      "screenshots.example.com": "127.0.0.1",
+    });
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      options: {
+        formats: ["screenshot"],
+        storeScreenshot: true,
+        resolveDns: true,
+      },
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const scrape = await t.query(api.lib.get, { id: jobId });
+    expect(scrape?.status).toBe("completed");
+    expect(scrape?.screenshotUrl).toBe(
+      "https://screenshots.example.com/shot.png",
+    );
+    expect(scrape?.screenshotFileId).toBeUndefined();
+  });
+
+  test("checks every redirect of the screenshot download", async () => {
+    const fetchMock = stubFetch(
+      {
+        "example.com": "93.184.216.34",
+        "cdn.example.com": "93.184.216.35",
+        "screenshots.example.com": "127.0.0.1",
+      },
+      "https://cdn.example.com/shot.png",
+    );
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      options: {
+        formats: ["screenshot"],
+        storeScreenshot: true,
+        resolveDns: true,
+      },
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const scrape = await t.query(api.lib.get, { id: jobId });
+    expect(scrape?.status).toBe("completed");
+    expect(scrape?.screenshotFileId).toBeUndefined();
+    const fetched = fetchMock.mock.calls.map(([input]) => input);
+    expect(fetched).toContain("https://cdn.example.com/shot.png");
+    expect(fetched).not.toContain("https://screenshots.example.com/shot.png");
+  });
+
+  test("follows screenshot redirects to public hosts", async () => {
+    stubFetch(
+      {
+        "example.com": "93.184.216.34",
+        "cdn.example.com": "93.184.216.35",
+        "screenshots.example.com": "93.184.216.36",
+      },
+      "https://cdn.example.com/shot.png",
+    );
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      options: {
+        formats: ["screenshot"],
+        storeScreenshot: true,
+        resolveDns: true,
+      },
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const scrape = await t.query(api.lib.get, { id: jobId });
+    expect(scrape?.screenshotFileId).toBeDefined();
+  });
+});
+
+describe("content change detection", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  async function completeVersion(
+    t: ReturnType<typeof initConvexTest>,
+    markdown: string,
+    contentHash: string,
+    keepVersions?: number,
+  ) {
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      options: { force: true, keepVersions },
+    });
+    await t.mutation(internal.lib.completeScrape, {
+      jobId,
+      markdown,
+      contentHash,
+      ttlMs: 60_000,
+    });
+    vi.setSystemTime(Date.now() + 1000);
+    return jobId;
+  }
+
+  test("scraped content is stored with a hash of its markdown and HTML", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValueOnce(
+        jsonResponse({
+          success: true,
+          data: { markdown: "# Page", html: "<h1>Page</h1>" },
+        }),
+      ),
+    );
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      options: { formats: ["markdown", "html"] },
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const scrape = await t.query(api.lib.get, { id: jobId });
+    expect(scrape?.status).toBe("completed");
+    expect(scrape?.contentHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test("getChanges diffs the markdown of the two latest versions", async () => {
+    const t = initConvexTest();
+    const first = await completeVersion(t, "# Title\nOld line\nFooter", "a");
+
+    const single = await t.query(api.lib.getChanges, {
+      url: "https://example.com/page",
+    });
+    expect(single?.latest.jobId).toBe(first);
+    expect(single?.previous).toBeNull();
+    expect(single?.changed).toBe(false);
+
+    const second = await completeVersion(t, "# Title\nNew line\nFooter", "b");
+
+    const changes = await t.query(api.lib.getChanges, {
+      url: "https://example.com/page",
+    });
+    expect(changes?.latest.jobId).toBe(second);
+    expect(changes?.previous?.jobId).toBe(first);
+    expect(changes?.changed).toBe(true);
+    expect(changes?.diff).toBe(
+      "@@ -1,3 +1,3 @@\n # Title\n-Old line\n+New line\n Footer",
+    );
+    expect(changes?.linesAdded).toBe(1);
+    expect(changes?.linesRemoved).toBe(1);
+  });
+
+  test("getChanges reports unchanged content by hash", async () => {
+    const t = initConvexTest();
+    await completeVersion(t, "# Same", "same-hash");
+    await completeVersion(t, "# Same", "same-hash");
+
+    const changes = await t.query(api.lib.getChanges, {
+      url: "https://example.com/page",
+    });
+    expect(changes?.changed).toBe(false);
+    expect(changes?.diff).toBe("");
+    expect(
+      await t.query(api.lib.getChanges, { url: "https://example.org" }),
+    ).toBeNull();
+  });
+
+  test("force keeps previous versions up to keepVersions", async () => {
+    const t = initConvexTest();
+    const v1 = await completeVersion(t, "# One", "1");
+    const v2 = await completeVersion(t, "# Two", "2");
+    const v3 = await completeVersion(t, "# Three", "3");
+
+    // Default keeps the latest two versions
+    expect(await t.query(api.lib.get, { id: v1 })).toBeNull();
+    expect(await t.query(api.lib.get, { id: v2 })).not.toBeNull();
+    expect(await t.query(api.lib.get, { id: v3 })).not.toBeNull();
+
+    const v4 = await completeVersion(t, "# Four", "4", 1);
+    expect(await t.query(api.lib.get, { id: v2 })).toBeNull();
+    expect(await t.query(api.lib.get, { id: v3 })).toBeNull();
+    expect(await t.query(api.lib.get, { id: v4 })).not.toBeNull();
+
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com/page",
+        apiKey: "test-key",
+        options: { keepVersions: 0 },
+      }),
+    ).rejects.toThrow(/keepVersions/);
+  });
+
+  test("versions are kept and compared per option set and formats", async () => {
+    const t = initConvexTest();
+    const complete = async (
+      options: { mobile?: boolean; formats?: ("markdown" | "html")[] },
+      markdown: string,
+    ) => {
+      const { jobId } = await t.mutation(api.lib.startScrape, {
+        url: "https://example.com/page",
+        apiKey: "test-key",
+        options: { force: true, keepVersions: 1, ...options },
+      });
+      await t.mutation(internal.lib.completeScrape, {
+        jobId,
+        markdown,
+        contentHash: markdown,
+        ttlMs: 60_000,
+      });
+      vi.setSystemTime(Date.now() + 1000);
+      return jobId;
+    };
+    const desktop = await complete({}, "# Desktop");
+    const withHtml = await complete(
+      { formats: ["markdown", "html"] },
+      "# Both",
+    );
+    const mobile = await complete({ mobile: true }, "# Mobile");
+
+    // keepVersions: 1 only pruned within each option set
+    for (const id of [desktop, withHtml, mobile]) {
+      expect(await t.query(api.lib.get, { id })).not.toBeNull();
+    }
+
+    const nextMobile = await complete({ mobile: true }, "# Mobile 2");
+    const desktopChanges = await t.query(api.lib.getChanges, {
+      url: "https://example.com/page",
+    });
+    expect(desktopChanges?.latest.jobId).toBe(withHtml);
+    expect(desktopChanges?.previous).toBeNull();
+
+    const mobileChanges = await t.query(api.lib.getChanges, {
+      url: "https://example.com/page",
+      options: { mobile: true },
+    });
+    expect(mobileChanges?.latest.jobId).toBe(nextMobile);
+    expect(mobileChanges?.previous).toBeNull();
+    expect(await t.query(api.lib.get, { id: mobile })).toBeNull();
+  });
+});
+
+describe("namespaces", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function completeIn(
+    t: ReturnType<typeof initConvexTest>,
+    namespace: string | undefined,
+    markdown: string,
+  ) {
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      namespace,
+    });
+    await t.mutation(internal.lib.completeScrape, {
+      jobId,
+      markdown,
+      ttlMs: 60_000,
+    });
+    return jobId;
+  }
+
+  test("cache entries and in-progress jobs are not shared across namespaces", async () => {
+    const t = initConvexTest();
+    const tenantA = await completeIn(t, "tenant-a", "# A");
+
+    const cached = await t.query(api.lib.getCached, {
+      url: "https://example.com/page",
+      namespace: "tenant-a",
+    });
+    expect(cached?._id).toBe(tenantA);
+    expect(cached?.namespace).toBe("tenant-a");
+    expect(
+      await t.query(api.lib.getCached, { url: "https://example.com/page" }),
+    ).toBeNull();
+    expect(
+      await t.query(api.lib.getByUrl, {
+        url: "https://example.com/page",
+        namespace: "tenant-b",
+      }),
+    ).toBeNull();
+
+    // Another namespace starts its own job instead of hitting A's cache
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      namespace: "tenant-b",
+    });
+    expect(jobId).not.toBe(tenantA);
+    const job = await t.query(api.lib.get, {
+      id: jobId,
+      namespace: "tenant-b",
+    });
+    expect(job?.status).toBe("pending");
+  });
+
+  test("list only returns scrapes in the namespace", async () => {
+    const t = initConvexTest();
+    const tenantA = await completeIn(t, "tenant-a", "# A");
+    const shared = await completeIn(t, undefined, "# Shared");
+
+    const listA = await t.query(api.lib.list, { namespace: "tenant-a" });
+    expect(listA.scrapes.map((s) => s._id)).toEqual([tenantA]);
+    const completedShared = await t.query(api.lib.list, {
+      status: "completed",
+    });
+    expect(completedShared.scrapes.map((s) => s._id)).toEqual([shared]);
+  });
+
+  test("invalidate and deleteScrape only affect the namespace", async () => {
+    const t = initConvexTest();
+    const tenantA = await completeIn(t, "tenant-a", "# A");
+    const tenantB = await completeIn(t, "tenant-b", "# B");
+
+    const invalidated = await t.mutation(api.lib.invalidate, {
+      url: "https://example.com/page",
+      namespace: "tenant-a",
+    });
+    expect(invalidated.invalidatedCount).toBe(1);
+    expect(
+      await t.query(api.lib.getCached, {
+        url: "https://example.com/page",
+        namespace: "tenant-b",
+      }),
+    ).not.toBeNull();
+
+    expect(
+      await t.mutation(api.lib.deleteScrape, {
+        id: tenantB,
+        namespace: "tenant-a",
+      }),
+    ).toEqual({ success: false, deletedFileCount: 0 });
+    expect(
+      await t.query(api.lib.get, { id: tenantB, namespace: "tenant-b" }),
+    ).not.toBeNull();
+
+    const deleted = await t.mutation(api.lib.deleteScrape, {
+      id: tenantA,
+      namespace: "tenant-a",
+    });
+    expect(deleted.success).toBe(true);
+  });
+
+  test("get, getStatus and getContent only find scrapes in the namespace", async () => {
+    const t = initConvexTest();
+    const tenantA = await completeIn(t, "tenant-a", "# A");
+
+    for (const namespace of ["tenant-b", undefined]) {
+      expect(await t.query(api.lib.get, { id: tenantA, namespace })).toBeNull();
+      expect(
+        await t.query(api.lib.getStatus, { id: tenantA, namespace }),
+      ).toBeNull();
+      expect(
+        await t.query(api.lib.getContent, { id: tenantA, namespace }),
+      ).toBeNull();
+      expect(
+        await t.query(api.lib.listByStatus, { status: "completed", namespace }),
+      ).toEqual([]);
+    }
+    const scrape = await t.query(api.lib.get, {
+      id: tenantA,
+      namespace: "tenant-a",
+    });
+    expect(scrape?.markdown).toBe("# A");
+    const completed = await t.query(api.lib.listByStatus, {
+      status: "completed",
+      namespace: "tenant-a",
+    });
+    expect(completed.map((s) => s._id)).toEqual([tenantA]);
+    const content = await t.query(api.lib.getContent, {
+      id: tenantA,
+      namespace: "tenant-a",
+    });
+    expect(content?.markdown).toBe("# A");
+  });
+});
+
+describe("cache key options", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function completeWith(
+    t: ReturnType<typeof initConvexTest>,
+    options: Record<string, unknown>,
+  ) {
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      options,
+    });
+    await t.mutation(internal.lib.completeScrape, {
+      jobId,
+      markdown: "# Page",
+      ttlMs: 60_000,
+    });
+    return jobId;
+  }
+
+  test("stores a fingerprint of the non-default content options", async () => {
+    const t = initConvexTest();
+    const jobId = await completeWith(t, {
+      onlyMainContent: true,
+      mobile: true,
+      includeTags: ["main", "article"],
+      proxy: "basic",
+    });
+
+    const scrape = await t.query(api.lib.get, { id: jobId });
+    expect(scrape?.optionsFingerprint).toEqual({
+      mobile: "true",
+      includeTags: '["article","main"]',
+    });
+  });
+
+  test("cached content is only served for matching options", async () => {
+    const t = initConvexTest();
+    const mobile = await completeWith(t, {
+      mobile: true,
+      includeTags: ["main", "article"],
+    });
+
+    expect(
+      await t.query(api.lib.getCached, { url: "https://example.com/page" }),
+    ).toBeNull();
+    const cached = await t.query(api.lib.getCached, {
+      url: "https://example.com/page",
+      options: { mobile: true, includeTags: ["article", "main"] },
+    });
+    expect(cached?._id).toBe(mobile);
+
+    // Different options start a new scrape instead of hitting the cache
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      options: { proxy: "stealth" },
+    });
+    expect(jobId).not.toBe(mobile);
+  });
+
+  test("ignoreOptions leaves options out of matching", async () => {
+    const t = initConvexTest();
+    const stealth = await completeWith(t, { proxy: "stealth", waitFor: 500 });
+
+    const cached = await t.query(api.lib.getCached, {
+      url: "https://example.com/page",
+      options: { waitFor: 500, ignoreOptions: ["proxy"] },
+    });
+    expect(cached?._id).toBe(stealth);
+
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      options: { ignoreOptions: ["proxy", "waitFor"] },
+    });
+    expect(jobId).toBe(stealth);
+  });
+});
+
+describe("extraction validation", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  const extractionSchema = {
+    type: "object",
+    properties: { name: { type: "string" }, price: { type: "number" } },
+    required: ["name", "price"],
+  };
+
+  function extractResponse(extract: unknown): Response {
+    return jsonResponse({
+      success: true,
+      data: { markdown: "# Product", extract },
+    });
+  }
+
+  test("stores extracted JSON that matches the schema", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(extractResponse({ name: "Widget", price: 5 })),
+    );
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/product",
+      apiKey: "test-key",
+      options: { extractionSchema },
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const scrape = await t.query(api.lib.get, { id: jobId });
+    expect(scrape?.status).toBe("completed");
+    expect(scrape?.extractedJson).toEqual({ name: "Widget", price: 5 });
+  });
+
+  test("fails the job when the extracted JSON does not match", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(extractResponse({ name: "Widget", price: "5" }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/product",
+      apiKey: "test-key",
+      options: { extractionSchema },
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const scrape = await t.query(api.lib.get, { id: jobId });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(scrape?.status).toBe("failed");
+    expect(scrape?.errorCode).toBe("extraction_invalid");
+    expect(scrape?.error).toContain("$.price: expected number, got string");
+    expect(scrape?.extractedJson).toBeUndefined();
+  });
+
+  test("sends prompt-only extraction and keys the cache on the prompt", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(extractResponse({ tiers: ["Free", "Pro"] }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const extractionPrompt = "Extract the pricing tiers";
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/pricing",
+      apiKey: "test-key",
+      options: { extractionPrompt },
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.extract).toEqual({ prompt: extractionPrompt });
+    const scrape = await t.query(api.lib.get, { id: jobId });
+    expect(scrape?.status).toBe("completed");
+    expect(scrape?.extractionPrompt).toBe(extractionPrompt);
+    expect(scrape?.extractedJson).toEqual({ tiers: ["Free", "Pro"] });
+
+    const same = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/pricing",
+      apiKey: "test-key",
+      options: { extractionPrompt },
+    });
+    expect(same.jobId).toBe(jobId);
+    const other = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/pricing",
+      apiKey: "test-key",
+      options: { extractionPrompt: "Extract the contact email" },
+    });
+    expect(other.jobId).not.toBe(jobId);
+  });
+});
+
+describe("browser actions", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  const actions = [
+    { type: "click" as const, selector: "#accept-cookies" },
+    { type: "wait" as const, milliseconds: 500 },
+    { type: "screenshot" as const },
+  ];
+
+  test("forwards actions and stores them with their screenshots", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      jsonResponse({
+        success: true,
+        data: {
+          markdown: "# Page",
+          actions: { screenshots: ["https://cdn.firecrawl.dev/a1.png"] },
+        },
+      }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      options: { actions },
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.actions).toEqual(actions);
+    const scrape = await t.query(api.lib.get, { id: jobId });
+    expect(scrape?.status).toBe("completed");
+    expect(scrape?.actions).toEqual(actions);
+    const content = await t.query(api.lib.getContent, { id: jobId });
+    expect(content?.actionScreenshots).toEqual([
+      "https://cdn.firecrawl.dev/a1.png",
+    ]);
+  });
+
+  test("actions are part of the cache key, in order", async () => {
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+      options: { actions },
+    });
+    await t.mutation(internal.lib.completeScrape, {
+      jobId,
+      markdown: "# Page",
+      ttlMs: 60_000,
+    });
+
+    expect(
+      await t.query(api.lib.getCached, { url: "https://example.com/page" }),
+    ).toBeNull();
+    const cached = await t.query(api.lib.getCached, {
+      url: "https://example.com/page",
+      options: { actions },
+    });
+    expect(cached?._id).toBe(jobId);
+    expect(
+      await t.query(api.lib.getCached, {
+        url: "https://example.com/page",
+        options: { actions: [...actions].reverse() },
+      }),
+    ).toBeNull();
+  });
+
+  test("rejects wait actions without a duration or selector", async () => {
+    const t = initConvexTest();
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com/page",
+        apiKey: "test-key",
+        options: { actions: [{ type: "wait" }] },
+      }),
+    ).rejects.toThrow(/milliseconds or a selector/);
+  });
+});
+
+describe("request headers and location", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  const headers = { "Accept-Language": "de", Cookie: "session=abc123" };
+  const location = { country: "DE", languages: ["de-DE"] };
+
+  test("forwards headers, location and timeout without storing secrets", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(
+        jsonResponse({ success: true, data: { markdown: "# Konto" } }),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/account",
+      apiKey: "test-key",
+      options: { headers, location, timeout: 45_000 },
+    });
+    const scheduled = await t.run(async (ctx) =>
+      ctx.db.system.query("_scheduled_functions").collect(),
+    );
+    expect(JSON.stringify(scheduled)).not.toContain("abc123");
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.headers).toEqual({
+      "accept-language": "de",
+      cookie: "session=abc123",
+    });
+    expect(body.location).toEqual(location);
+    expect(body.timeout).toBe(45_000);
+
+    const scrape = await t.query(api.lib.get, { id: jobId });
+    expect(scrape?.status).toBe("completed");
+    expect(scrape?.headers).toEqual({
+      "accept-language": "de",
+      cookie: "[redacted]",
+    });
+    expect(scrape?.location).toEqual(location);
+    expect(JSON.stringify(scrape)).not.toContain("abc123");
+    const secrets = await t.run(async (ctx) =>
+      ctx.db.query("secretHeaders").collect(),
+    );
+    expect(secrets).toEqual([]);
+  });
+
+  test("headers and location are part of the cache key", async () => {
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/account",
+      apiKey: "test-key",
+      options: { headers, location },
+    });
+    await t.mutation(internal.lib.completeScrape, {
+      jobId,
+      markdown: "# Konto",
+      ttlMs: 60_000,
+    });
+
+    // Not served to callers without the cookie or from another country
+    expect(
+      await t.query(api.lib.getCached, {
+        url: "https://example.com/account",
+        options: { location },
+      }),
+    ).toBeNull();
+    expect(
+      await t.query(api.lib.getCached, {
+        url: "https://example.com/account",
+        options: { headers, location: { country: "US" } },
+      }),
+    ).toBeNull();
+
+    // Header names are case-insensitive
+    const cached = await t.query(api.lib.getCached, {
+      url: "https://example.com/account",
+      options: {
+        headers: { "accept-language": "de", cookie: "session=abc123" },
+        location,
+      },
+    });
+    expect(cached?._id).toBe(jobId);
+  });
+
+  test("different cookie values get different cache entries", async () => {
+    const t = initConvexTest();
+    const scrapeWith = async (cookie: string) => {
+      const { jobId } = await t.mutation(api.lib.startScrape, {
+        url: "https://example.com/account",
+        apiKey: "test-key",
+        options: { headers: { Cookie: cookie } },
+      });
+      return jobId;
+    };
+    const alice = await scrapeWith("session=alice");
+    await t.mutation(internal.lib.completeScrape, {
+      jobId: alice,
+      markdown: "# Alice",
+      ttlMs: 60_000,
+    });
+
+    // Another session starts its own scrape instead of reusing Alice's
+    const bob = await scrapeWith("session=bob");
+    expect(bob).not.toBe(alice);
+    expect(
+      await t.query(api.lib.getCached, {
+        url: "https://example.com/account",
+        options: { headers: { Cookie: "session=bob" } },
+      }),
+    ).toBeNull();
+
+    const scrape = await t.query(api.lib.get, { id: alice });
+    expect(scrape?.optionsFingerprint?.headers).not.toContain("alice");
+    const cached = await t.query(api.lib.getCached, {
+      url: "https://example.com/account",
+      options: { headers: { cookie: "session=alice" } },
+    });
+    expect(cached?._id).toBe(alice);
+  });
+
+  test("rejects invalid headers, countries and timeouts", async () => {
+    const t = initConvexTest();
+    const start = (options: Record<string, unknown>) =>
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com/page",
+        apiKey: "test-key",
+        options,
+      });
+
+    await expect(
+      start({ headers: { "X-Test": "a\r\nInjected: b" } }),
+    ).rejects.toThrow(/Invalid value for header/);
+    await expect(start({ headers: { "Bad Name": "a" } })).rejects.toThrow(
+      /Invalid header name/,
+    );
+    await expect(start({ location: { country: "Germany" } })).rejects.toThrow(
+      /two-letter/,
+    );
+    await expect(start({ timeout: 0 })).rejects.toThrow(/timeout/);
+  });
+});
+
+describe("documents", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  const pdfUrl = "https://example.com/report.pdf";
+
+  // Firecrawl returns the parsed PDF; the document host serves `documentResponse`
+  function stubFetch(documentResponse: () => Response) {
+    const fetchMock = vi.fn(
+      async (input: string | URL | Request, _init?: RequestInit) => {
+        if (String(input).includes("firecrawl")) {
+          return jsonResponse({
+            success: true,
+            data: {
+              markdown: "# Annual Report",
+              metadata: { contentType: "application/pdf", numPages: 12 },
+            },
+          });
+        }
+        return documentResponse();
+      },
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  }
+
+  test("records document metadata and stores the source document", async () => {
+    const fetchMock = stubFetch(
+      () =>
+        new Response(new Blob(["%PDF-1.7"], { type: "application/pdf" }), {
+          status: 200,
+        }),
+    );
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: pdfUrl,
+      apiKey: "test-key",
+      options: { parsePDF: true, storeSourceDocument: true },
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+    expect(body.parsePDF).toBe(true);
+    const content = await t.query(api.lib.getContent, { id: jobId });
+    expect(content?.status).toBe("completed");
+    expect(content?.metadata?.contentType).toBe("application/pdf");
+    expect(content?.metadata?.numPages).toBe(12);
+    expect(content?.sourceDocumentFileUrl).toEqual(expect.any(String));
+
+    const scrape = await t.query(api.lib.get, { id: jobId });
+    await t.run(async (ctx) => {
+      const blob = await ctx.storage.get(scrape!.sourceDocumentFileId!);
+      expect(await blob?.text()).toBe("%PDF-1.7");
+    });
+  });
+
+  test("does not follow redirects to private hosts", async () => {
+    stubFetch(
+      () =>
+        new Response(null, {
+          status: 302,
+          headers: { Location: "http://169.254.169.254/latest/meta-data" },
+        }),
+    );
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: pdfUrl,
+      apiKey: "test-key",
+      options: { storeSourceDocument: true },
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const content = await t.query(api.lib.getContent, { id: jobId });
+    expect(content?.status).toBe("completed");
+    expect(content?.markdown).toBe("# Annual Report");
+    expect(content?.sourceDocumentFileUrl).toBeUndefined();
+  });
+
+  test("does not follow redirects the domain policy denies", async () => {
+    const fetchMock = stubFetch(
+      () =>
+        new Response(null, {
+          status: 302,
+          headers: { Location: "https://files.example.com/%61dmin/report.pdf" },
+        }),
+    );
+
+    const t = initConvexTest();
+    await t.mutation(api.policy.addPolicyRule, {
+      action: "deny",
+      pattern: "files.example.com/admin",
+    });
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: pdfUrl,
+      apiKey: "test-key",
+      options: { storeSourceDocument: true },
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const content = await t.query(api.lib.getContent, { id: jobId });
+    expect(content?.status).toBe("completed");
+    expect(content?.sourceDocumentFileUrl).toBeUndefined();
+    // The denied hop is never requested
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test("parsePDF is part of the cache key", async () => {
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: pdfUrl,
+      apiKey: "test-key",
+      options: { parsePDF: false },
+    });
+    await t.mutation(internal.lib.completeScrape, {
+      jobId,
+      markdown: "raw",
+      ttlMs: 60_000,
+    });
+
+    expect(await t.query(api.lib.getCached, { url: pdfUrl })).toBeNull();
+    const cached = await t.query(api.lib.getCached, {
+      url: pdfUrl,
+      options: { parsePDF: false },
+    });
+    expect(cached?._id).toBe(jobId);
+  });
+});
+
+describe("metadata", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  test("stores typed fields and the complete metadata object", async () => {
+    const metadata = {
+      title: "Launch Post",
+      sourceURL: "https://example.com/blog/launch",
+      url: "https://www.example.com/blog/launch/",
+      statusCode: 200,
+      canonical: "https://www.example.com/blog/launch/",
+      favicon: "https://www.example.com/favicon.ico",
+      keywords: "launch, product ,news",
+      "article:published_time": ["2026-01-05T09:00:00Z", "2026-01-05"],
+      modifiedTime: "2026-01-06T10:00:00Z",
+      "twitter:card": "summary_large_image",
+      robots: "index, follow",
+      $invalid: "dropped",
+    };
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        jsonResponse({
+          success: true,
+          data: { markdown: "# Launch", metadata },
+        }),
+      ),
+    );
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/blog/launch",
+      apiKey: "test-key",
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const content = await t.query(api.lib.getContent, { id: jobId });
+    expect(content?.metadata).toEqual({
+      title: "Launch Post",
+      sourceURL: "https://example.com/blog/launch",
+      statusCode: 200,
+      canonicalUrl: "https://www.example.com/blog/launch/",
+      favicon: "https://www.example.com/favicon.ico",
+      keywords: ["launch", "product", "news"],
+      publishedTime: "2026-01-05T09:00:00Z",
+      modifiedTime: "2026-01-06T10:00:00Z",
+      finalUrl: "https://www.example.com/blog/launch/",
+      originalUrl: "https://example.com/blog/launch",
+    });
+    const { $invalid: _dropped, ...storable } = metadata;
+    expect(content?.rawMetadata).toEqual(storable);
+  });
+});
+
+describe("redirects", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function completeRedirected(t: ReturnType<typeof initConvexTest>) {
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/old",
+      apiKey: "test-key",
+    });
+    await t.mutation(internal.lib.completeScrape, {
+      jobId,
+      markdown: "# Moved",
+      metadata: {
+        sourceURL: "https://example.com/old",
+        finalUrl: "https://Example.com/new/",
+      },
+      ttlMs: 60_000,
+    });
+    return jobId;
+  }
+
+  test("caches the scrape under the final URL as well", async () => {
+    const t = initConvexTest();
+    const jobId = await completeRedirected(t);
+
+    const byFinal = await t.query(api.lib.getCached, {
+      url: "https://example.com/new",
+    });
+    expect(byFinal?._id).toBe(jobId);
+    expect(byFinal?.finalUrl).toBe("https://example.com/new");
+    const byRequested = await t.query(api.lib.getCached, {
+      url: "https://example.com/old",
+    });
+    expect(byRequested?._id).toBe(jobId);
+
+    const result = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/new",
+      apiKey: "test-key",
+    });
+    expect(result.jobId).toBe(jobId);
+
+    const content = await t.query(api.lib.getContent, { id: jobId });
+    expect(content?.finalUrl).toBe("https://example.com/new");
+  });
+
+  test("does not record a final URL when the page did not redirect", async () => {
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/page",
+      apiKey: "test-key",
+    });
+    await t.mutation(internal.lib.completeScrape, {
+      jobId,
+      markdown: "# Page",
+      metadata: { finalUrl: "https://example.com/page/" },
+      ttlMs: 60_000,
+    });
+
+    const content = await t.query(api.lib.getContent, { id: jobId });
+    expect(content?.finalUrl).toBeUndefined();
+  });
+
+  test("invalidating the final URL invalidates redirected scrapes", async () => {
+    const t = initConvexTest();
+    await completeRedirected(t);
+
+    const result = await t.mutation(api.lib.invalidate, {
+      url: "https://example.com/new",
+    });
+    expect(result).toEqual({ success: true, invalidatedCount: 1 });
+    expect(
+      await t.query(api.lib.getCached, { url: "https://example.com/old" }),
+    ).toBeNull();
+  });
+
+  test("redirected scrapes stay in their namespace", async () => {
+    const t = initConvexTest();
+    await completeRedirected(t);
+
+    expect(
+      await t.query(api.lib.getCached, {
+        url: "https://example.com/new",
+        namespace: "tenant-a",
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("canonical aliases", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function completeWithCanonical(
+    t: ReturnType<typeof initConvexTest>,
+    url: string,
+    canonicalUrl: string,
+    aliasCanonical = true,
+  ) {
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url,
+      apiKey: "test-key",
+      options: { aliasCanonical },
+    });
+    await t.mutation(internal.lib.completeScrape, {
+      jobId,
+      markdown: "# Article",
+      metadata: { sourceURL: url, canonicalUrl },
+      ttlMs: 60_000,
+    });
+    return jobId;
+  }
+
+  test("aliases the scrape under its canonical URL", async () => {
+    const t = initConvexTest();
+    const jobId = await completeWithCanonical(
+      t,
+      "https://example.com/article/amp",
+      "https://www.example.com/article",
+    );
+
+    const cached = await t.query(api.lib.getCached, {
+      url: "https://www.example.com/article",
+    });
+    expect(cached?._id).toBe(jobId);
+    expect(cached?.canonicalUrl).toBe("https://www.example.com/article");
+
+    const result = await t.mutation(api.lib.startScrape, {
+      url: "https://www.example.com/article",
+      apiKey: "test-key",
+    });
+    expect(result.jobId).toBe(jobId);
+  });
+
+  test("lists aliases from the canonical URL or any alias", async () => {
+    const t = initConvexTest();
+    await completeWithCanonical(
+      t,
+      "https://example.com/article?print=1",
+      "/article",
+    );
+    await completeWithCanonical(
+      t,
+      "https://m.example.com/article",
+      "https://example.com/article",
+    );
+
+    const expected = {
+      canonicalUrl: "https://example.com/article",
+      aliases: [
+        "https://example.com/article?print=1",
+        "https://m.example.com/article",
+      ],
+    };
+    expect(
+      await t.query(api.lib.getAliases, { url: "https://example.com/article" }),
+    ).toEqual(expected);
+    expect(
+      await t.query(api.lib.getAliases, {
+        url: "https://m.example.com/article",
+      }),
+    ).toEqual(expected);
+    expect(
+      await t.query(api.lib.getAliases, { url: "https://example.com/other" }),
+    ).toEqual({ canonicalUrl: null, aliases: [] });
+  });
+
+  test("ignores canonical URLs on other sites or without the option", async () => {
+    const t = initConvexTest();
+    await completeWithCanonical(
+      t,
+      "https://example.com/page",
+      "https://other.com/page",
+    );
+    await completeWithCanonical(
+      t,
+      "https://example.com/post/amp",
+      "https://example.com/post",
+      false,
+    );
+
+    expect(
+      await t.query(api.lib.getCached, { url: "https://other.com/page" }),
+    ).toBeNull();
+    expect(
+      await t.query(api.lib.getCached, { url: "https://example.com/post" }),
+    ).toBeNull();
+  });
+
+  test("invalidating the canonical URL invalidates its aliases", async () => {
+    const t = initConvexTest();
+    await completeWithCanonical(
+      t,
+      "https://example.com/article/amp",
+      "https://example.com/article",
+    );
+
+    const result = await t.mutation(api.lib.invalidate, {
+      url: "https://example.com/article",
+    });
+    expect(result).toEqual({ success: true, invalidatedCount: 1 });
+  });
+});
@@ -6,121 +6,189 @@
  */
 
 import { v } from "convex/values";
+import type { Infer } from "convex/values";
 import {
   query,
   mutation,
+  internalQuery,
   internalMutation,
   internalAction,
 } from "./_generated/server.js";
+import type { QueryCtx } from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
 import { internal } from "./_generated/api.js";
-import schema from "./schema.js";
 import {
   validateUrl,
+  validateResolvedUrl,
   formatValidationError,
   normalizeUrl,
   hashUrl,
+  isSameSite,
 } from "./url.js";
 import { CONFIG } from "./config.js";
+import {
+  scrapeFormatValidator,
+  proxyValidator,
+  scrapeActionValidator,
+  locationValidator,
+  scrapeOptionsValidator,
+} from "./options.js";
+import {
+  statusValidator,
+  cacheMatchOptionsValidator,
+  scrapeValidator,
+  scrapeContentFields,
+  metadataValidator,
+  firecrawlEndpointFields,
+  firecrawlKeyFields,
+  firecrawlKeyRefFields,
+} from "./validators.js";
+import { selectFirecrawlKey, recordKeyFailure } from "./credentials.js";
+import { loadPolicyRules } from "./policy.js";
+import {
+  isNetworkError,
+  isTransientStatus,
+  isKeyQuotaStatus,
+  computeRetryDelay,
+  parseRetryAfter,
+  readFirecrawlError,
+  extractScrapeContent,
+  firecrawlUrl,
+  firecrawlAuthHeaders,
+} from "./firecrawl.js";
+import { checkExtraction } from "./extraction.js";
+import {
+  scrapeUsageValidator,
+  recordUsage,
+  reportedCredits,
+  estimateCredits,
+} from "./usage.js";
+import {
+  enqueueScrape,
+  formatsSatisfied,
+  optionsFingerprint,
+  fingerprintsMatch,
+  notifyComplete,
+  recordMonitorRun,
+  aliasedScrapes,
+  loadSecretHeaders,
+  deleteSecretHeaders,
+} from "./jobs.js";
+import { diffLines } from "./diff.js";
 
 // ============================================================================
 // Helpers
 // ============================================================================
 
-/** Check if cached formats satisfy the requested formats (superset check) */
-function formatsSatisfied(cached: string[], requested: string[]): boolean {
-  const cachedSet = new Set(cached);
-  return requested.every((f) => cachedSet.has(f));
+/**
+ * Completed versions of a URL in a namespace scraped with options matching
+ * `fingerprint` (see fingerprintsMatch), newest first. Crawl pages are owned
+ * by their crawl and are not versions.
+ */
+async function completedVersions(
+  ctx: Pick<QueryCtx, "db">,
+  namespace: string | undefined,
+  urlHash: string,
+  fingerprint: Record<string, string>,
+  ignoreOptions?: string[],
+): Promise<Doc<"scrapes">[]> {
+  const scrapes = await ctx.db
+    .query("scrapes")
+    .withIndex("by_namespace_url_hash", (q) =>
+      q.eq("namespace", namespace).eq("urlHash", urlHash),
+    )
+    .collect();
+  return scrapes
+    .filter(
+      (scrape) =>
+        scrape.status === "completed" &&
+        scrape.crawlId === undefined &&
+        fingerprintsMatch(
+          scrape.optionsFingerprint,
+          fingerprint,
+          ignoreOptions,
+        ),
+    )
+    .sort((a, b) => (b.scrapedAt ?? 0) - (a.scrapedAt ?? 0));
 }
 
-function getByteLength(str: string): number {
-  return new TextEncoder().encode(str).length;
+/**
+ * Whether two scrapes of a URL are versions of the same content: scraped with
+ * the same options and formats, so their content can be compared.
+ */
+function sameVersionSeries(a: Doc<"scrapes">, b: Doc<"scrapes">): boolean {
+  return (
+    fingerprintsMatch(a.optionsFingerprint, b.optionsFingerprint ?? {}) &&
+    a.formats.length === b.formats.length &&
+    formatsSatisfied(a.formats, b.formats)
+  );
 }
 
 // ============================================================================
 // Validators
 // ============================================================================
 
-const scrapeFormatValidator = v.union(
-  v.literal("markdown"),
-  v.literal("html"),
-  v.literal("rawHtml"),
-  v.literal("links"),
-  v.literal("images"),
-  v.literal("summary"),
-  v.literal("screenshot"),
-);
-
-const proxyValidator = v.union(
-  v.literal("basic"),
-  v.literal("stealth"),
-  v.literal("auto"),
-);
-
-const statusValidator = v.union(
-  v.literal("pending"),
-  v.literal("scraping"),
-  v.literal("completed"),
-  v.literal("failed"),
-);
-
-const scrapeOptionsValidator = v.object({
-  formats: v.optional(v.array(scrapeFormatValidator)),
-  extractionSchema: v.optional(v.any()),
-  ttlMs: v.optional(v.number()),
-  force: v.optional(v.boolean()),
-  onlyMainContent: v.optional(v.boolean()),
-  includeTags: v.optional(v.array(v.string())),
-  excludeTags: v.optional(v.array(v.string())),
-  waitFor: v.optional(v.number()),
-  mobile: v.optional(v.boolean()),
-  proxy: v.optional(proxyValidator),
-  storeScreenshot: v.optional(v.boolean()),
+// getCached marks expired entries served within the stale window
+const cachedScrapeValidator = scrapeValidator.extend({
+  stale: v.optional(v.boolean()),
 });
 
-// Re-export the scrape record validator for use in other modules
-const scrapeValidator = schema.tables.scrapes.validator.extend({
-  _id: v.id("scrapes"),
-  _creationTime: v.number(),
+// A completed version of a URL, as returned by getChanges
+const versionValidator = v.object({
+  jobId: v.id("scrapes"),
+  scrapedAt: v.number(),
+  contentHash: v.optional(v.string()),
 });
 
-const metadataValidator = v.object({
-  title: v.optional(v.string()),
-  description: v.optional(v.string()),
-  language: v.optional(v.string()),
-  sourceURL: v.optional(v.string()),
-  statusCode: v.optional(v.number()),
-  ogImage: v.optional(v.string()),
-  ogTitle: v.optional(v.string()),
-  ogDescription: v.optional(v.string()),
-  ogSiteName: v.optional(v.string()),
-  contentType: v.optional(v.string()),
-  cacheControl: v.optional(v.string()),
+// getChanges comparison of the two latest versions of a URL
+const changesValidator = v.object({
+  latest: versionValidator,
+  previous: v.union(v.null(), versionValidator),
+  changed: v.boolean(),
+  diff: v.union(v.null(), v.string()),
+  linesAdded: v.optional(v.number()),
+  linesRemoved: v.optional(v.number()),
 });
 
 // ============================================================================
 // Public Queries
 // ============================================================================
 
+/**
+ * Get a scrape by its ID. A scrape in another namespace is treated as not
+ * found.
+ */
 export const get = query({
   args: {
     id: v.id("scrapes"),
+    namespace: v.optional(v.string()),
   },
   returns: v.union(v.null(), scrapeValidator),
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    const scrape = await ctx.db.get(args.id);
+    if (!scrape || scrape.namespace !== args.namespace) {
+      return null;
+    }
+    return scrape;
   },
 });
 
+/**
+ * List the scrapes in a namespace with a given status, newest first.
+ */
 export const listByStatus = query({
   args: {
     status: statusValidator,
     limit: v.optional(v.number()),
+    namespace: v.optional(v.string()),
   },
   returns: v.array(scrapeValidator),
   handler: async (ctx, args) => {
     return await ctx.db
       .query("scrapes")
-      .withIndex("by_status", (q) => q.eq("status", args.status))
+      .withIndex("by_namespace_status", (q) =>
+        q.eq("namespace", args.namespace).eq("status", args.status),
+      )
       .order("desc")
       .take(args.limit ?? 100);
   },
@@ -129,16 +197,30 @@ export const listByStatus = query({
 /**
  * Get cached scrape for a URL (if valid cache exists).
  *
- * Returns null for expired content - no stale-while-revalidate.
- * Only returns a cached result if it contains all requested formats.
+ * Only returns a cached result if it contains all requested formats and was
+ * scraped with matching content options (see `optionsFingerprint`); options
+ * listed in `options.ignoreOptions` are not compared. Scrapes of other URLs
+ * that redirected to this URL, or were aliased under it as their canonical
+ * URL, are considered after the URL's own scrapes.
+ * Expired content returns null, unless `staleWhileRevalidateMs` is set and the
+ * entry expired less than that long ago: then it is returned with
+ * `stale: true`. Queries cannot write, so the caller is responsible for
+ * starting the refresh with `revalidate`. Invalidated entries are never
+ * served stale.
  */
 export const getCached = query({
   args: {
     url: v.string(),
     formats: v.optional(v.array(scrapeFormatValidator)),
+    staleWhileRevalidateMs: v.optional(v.number()),
+    namespace: v.optional(v.string()),
+    options: v.optional(cacheMatchOptionsValidator),
   },
-  returns: v.union(v.null(), scrapeValidator),
-  handler: async (ctx, args) => {
+  returns: v.union(v.null(), cachedScrapeValidator),
+  handler: async (
+    ctx,
+    args,
+  ): Promise<Infer<typeof cachedScrapeValidator> | null> => {
     // Validate and normalize
     const validation = validateUrl(args.url);
     if (!validation.valid) {
@@ -148,33 +230,66 @@ export const getCached = query({
     const normalized = normalizeUrl(args.url);
     const hash = await hashUrl(normalized);
     const requestedFormats = args.formats ?? ["markdown"];
+    const fingerprint = await optionsFingerprint(args.options ?? {});
 
-    // Find latest completed scrape for this URL
-    const scrapes = await ctx.db
-      .query("scrapes")
-      .withIndex("by_url_hash", (q) => q.eq("urlHash", hash))
-      .order("desc")
-      .take(10);
+    // Find latest completed scrape for this URL in the caller's namespace,
+    // then scrapes of other URLs aliased to it
+    const scrapes = [
+      ...(await ctx.db
+        .query("scrapes")
+        .withIndex("by_namespace_url_hash", (q) =>
+          q.eq("namespace", args.namespace).eq("urlHash", hash),
+        )
+        .order("desc")
+        .take(10)),
+      ...(await aliasedScrapes(ctx, args.namespace, hash)),
+    ];
 
     const now = Date.now();
+    const staleWindowMs = Math.min(
+      args.staleWhileRevalidateMs ?? 0,
+      CONFIG.MAX_STALE_WHILE_REVALIDATE_MS,
+    );
+    let staleEntry: Doc<"scrapes"> | null = null;
+
     for (const scrape of scrapes) {
-      // Return first valid cache entry that satisfies requested formats
       if (
-        scrape.status === "completed" &&
-        scrape.expiresAt > now &&
-        formatsSatisfied(scrape.formats, requestedFormats)
+        scrape.status !== "completed" ||
+        !formatsSatisfied(scrape.formats, requestedFormats) ||
+        !fingerprintsMatch(
+          scrape.optionsFingerprint,
+          fingerprint,
+          args.options?.ignoreOptions,
+        )
       ) {
+        continue;
+      }
+      // Return first valid cache entry that satisfies requested formats
+      if (scrape.expiresAt > now) {
         return scrape;
       }
+      // Otherwise remember the newest entry still inside the stale window
+      if (
+        !staleEntry &&
+        scrape.invalidatedAt === undefined &&
+        scrape.expiresAt + staleWindowMs > now
+      ) {
+        staleEntry = scrape;
+      }
     }
 
-    return null;
+    return staleEntry ? { ...staleEntry, stale: true } : null;
   },
 });
 
+/**
+ * Get the status of a scrape job. A scrape in another namespace is treated as
+ * not found.
+ */
 export const getStatus = query({
   args: {
     id: v.id("scrapes"),
+    namespace: v.optional(v.string()),
   },
   returns: v.union(
     v.null(),
@@ -182,6 +297,10 @@ export const getStatus = query({
       status: statusValidator,
       error: v.optional(v.string()),
       errorCode: v.optional(v.union(v.number(), v.string())),
+      attempts: v.optional(v.number()),
+      nextRetryAt: v.optional(v.number()),
+      queuedUntil: v.optional(v.number()),
+      queueDepth: v.optional(v.number()),
       startedAt: v.number(),
       scrapingAt: v.optional(v.number()),
       scrapedAt: v.optional(v.number()),
@@ -190,14 +309,35 @@ export const getStatus = query({
   ),
   handler: async (ctx, args) => {
     const scrape = await ctx.db.get(args.id);
-    if (!scrape) {
+    if (!scrape || scrape.namespace !== args.namespace) {
       return null;
     }
 
+    // Count jobs for the same API key still waiting for a rate limit slot
+    let queueDepth: number | undefined;
+    const rateLimitKey = scrape.rateLimitKey;
+    if (scrape.status === "pending" && rateLimitKey) {
+      const now = Date.now();
+      const queued = await ctx.db
+        .query("scrapes")
+        .withIndex("by_rate_limit_key", (q) =>
+          q
+            .eq("rateLimitKey", rateLimitKey)
+            .eq("status", "pending")
+            .gt("queuedUntil", now),
+        )
+        .collect();
+      queueDepth = queued.length;
+    }
+
     return {
       status: scrape.status,
       error: scrape.error,
       errorCode: scrape.errorCode,
+      attempts: scrape.attempts,
+      nextRetryAt: scrape.nextRetryAt,
+      queuedUntil: scrape.queuedUntil,
+      queueDepth,
       startedAt: scrape.startedAt,
       scrapingAt: scrape.scrapingAt,
       scrapedAt: scrape.scrapedAt,
@@ -209,6 +349,8 @@ export const getStatus = query({
 const contentResultValidator = v.object({
   url: v.string(),
   normalizedUrl: v.string(),
+  // Normalized URL the page was served from, when the requested URL redirected
+  finalUrl: v.optional(v.string()),
   status: statusValidator,
   formats: v.array(v.string()),
   // Content fields - inline content if available
@@ -219,6 +361,7 @@ const contentResultValidator = v.object({
   links: v.optional(v.array(v.string())),
   images: v.optional(v.array(v.string())),
   screenshotUrl: v.optional(v.string()),
+  actionScreenshots: v.optional(v.array(v.string())),
   extractedJson: v.optional(v.any()),
   // File URLs for large content stored in file storage
   markdownFileUrl: v.optional(v.union(v.string(), v.null())),
@@ -228,8 +371,10 @@ const contentResultValidator = v.object({
   linksFileUrl: v.optional(v.union(v.string(), v.null())),
   imagesFileUrl: v.optional(v.union(v.string(), v.null())),
   extractedJsonFileUrl: v.optional(v.union(v.string(), v.null())),
+  sourceDocumentFileUrl: v.optional(v.union(v.string(), v.null())),
   // Metadata
   metadata: v.optional(metadataValidator),
+  rawMetadata: v.optional(v.any()),
   // Error info
   error: v.optional(v.string()),
   errorCode: v.optional(v.union(v.number(), v.string())),
@@ -244,16 +389,18 @@ const contentResultValidator = v.object({
  * Get full content for a scrape, including URLs for file storage content.
  *
  * For content >1MB that was stored in file storage, this query returns
- * URLs to fetch the content. Inline content is returned directly.
+ * URLs to fetch the content. Inline content is returned directly. A scrape
+ * in another namespace is treated as not found.
  */
 export const getContent = query({
   args: {
     id: v.id("scrapes"),
+    namespace: v.optional(v.string()),
   },
   returns: v.union(v.null(), contentResultValidator),
   handler: async (ctx, args) => {
     const scrape = await ctx.db.get(args.id);
-    if (!scrape) {
+    if (!scrape || scrape.namespace !== args.namespace) {
       return null;
     }
 
@@ -279,10 +426,14 @@ export const getContent = query({
     const extractedJsonFileUrl = scrape.extractedJsonFileId
       ? await ctx.storage.getUrl(scrape.extractedJsonFileId)
       : undefined;
+    const sourceDocumentFileUrl = scrape.sourceDocumentFileId
+      ? await ctx.storage.getUrl(scrape.sourceDocumentFileId)
+      : undefined;
 
     return {
       url: scrape.url,
       normalizedUrl: scrape.normalizedUrl,
+      finalUrl: scrape.finalUrl,
       status: scrape.status,
       formats: scrape.formats,
       // Inline content (for small content)
@@ -293,6 +444,7 @@ export const getContent = query({
       links: scrape.links,
       images: scrape.images,
       screenshotUrl: scrape.screenshotUrl,
+      actionScreenshots: scrape.actionScreenshots,
       extractedJson: scrape.extractedJson,
       // File URLs (for large content, fetch from these URLs)
       markdownFileUrl,
@@ -302,8 +454,10 @@ export const getContent = query({
       linksFileUrl,
       imagesFileUrl,
       extractedJsonFileUrl,
+      sourceDocumentFileUrl,
       // Metadata and other fields
       metadata: scrape.metadata,
+      rawMetadata: scrape.rawMetadata,
       error: scrape.error,
       errorCode: scrape.errorCode,
       startedAt: scrape.startedAt,
@@ -317,6 +471,7 @@ export const getContent = query({
 export const getByUrl = query({
   args: {
     url: v.string(),
+    namespace: v.optional(v.string()),
   },
   returns: v.union(v.null(), scrapeValidator),
   handler: async (ctx, args) => {
@@ -332,7 +487,9 @@ export const getByUrl = query({
     // Find the most recent scrape for this URL (any status)
     const scrape = await ctx.db
       .query("scrapes")
-      .withIndex("by_url_hash", (q) => q.eq("urlHash", hash))
+      .withIndex("by_namespace_url_hash", (q) =>
+        q.eq("namespace", args.namespace).eq("urlHash", hash),
+      )
       .order("desc")
       .first();
 
@@ -340,11 +497,159 @@ export const getByUrl = query({
   },
 });
 
+/**
+ * List the URLs known to serve the same page as a URL.
+ *
+ * The canonical URL is the one the URL's latest aliased scrape declared, or
+ * the URL itself when other scrapes were aliased under it. `aliases` are the
+ * other URLs whose scrapes were aliased under the canonical URL (see the
+ * `aliasCanonical` scrape option), including the URLs they redirected to.
+ * Returns a null canonical URL and no aliases when nothing is known.
+ */
+export const getAliases = query({
+  args: {
+    url: v.string(),
+    namespace: v.optional(v.string()),
+  },
+  returns: v.object({
+    canonicalUrl: v.union(v.null(), v.string()),
+    aliases: v.array(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const none = { canonicalUrl: null, aliases: [] };
+    const validation = validateUrl(args.url);
+    if (!validation.valid) {
+      return none;
+    }
+
+    const normalized = normalizeUrl(args.url);
+    const hash = await hashUrl(normalized);
+
+    // Resolve the canonical URL from this URL's own scrapes, if any declared one
+    const scrapes = await ctx.db
+      .query("scrapes")
+      .withIndex("by_namespace_url_hash", (q) =>
+        q.eq("namespace", args.namespace).eq("urlHash", hash),
+      )
+      .order("desc")
+      .take(10);
+    const aliased = scrapes.find((scrape) => scrape.canonicalUrl);
+    const canonicalUrl = aliased?.canonicalUrl ?? normalized;
+    const canonicalHash = aliased?.canonicalUrlHash ?? hash;
+
+    const members = await ctx.db
+      .query("scrapes")
+      .withIndex("by_namespace_canonical_url_hash", (q) =>
+        q.eq("namespace", args.namespace).eq("canonicalUrlHash", canonicalHash),
+      )
+      .order("desc")
+      .take(CONFIG.MAX_ALIAS_SCRAPES);
+    if (members.length === 0) {
+      return none;
+    }
+
+    const aliases = new Set<string>();
+    for (const scrape of members) {
+      aliases.add(scrape.normalizedUrl);
+      if (scrape.finalUrl) {
+        aliases.add(scrape.finalUrl);
+      }
+    }
+    aliases.delete(canonicalUrl);
+    return { canonicalUrl, aliases: [...aliases].sort() };
+  },
+});
+
+/**
+ * Compare the two latest completed versions of a URL.
+ *
+ * Versions are scrapes made with the cache key options in `options` (like
+ * getCached, honoring `ignoreOptions`); the previous version is the latest
+ * earlier scrape with the same options and formats as the latest one.
+ * `changed` compares content hashes of the markdown and HTML. `diff` is a
+ * unified line diff of the markdown, or null when either version's markdown
+ * is in file storage (queries cannot read files) or the change is too large
+ * to align. Returns null when the URL has no completed version; with only
+ * one version, `previous` is null and nothing has changed.
+ */
+export const getChanges = query({
+  args: {
+    url: v.string(),
+    namespace: v.optional(v.string()),
+    options: v.optional(cacheMatchOptionsValidator),
+  },
+  returns: v.union(v.null(), changesValidator),
+  handler: async (
+    ctx,
+    args,
+  ): Promise<Infer<typeof changesValidator> | null> => {
+    const validation = validateUrl(args.url);
+    if (!validation.valid) {
+      return null;
+    }
+
+    const hash = await hashUrl(normalizeUrl(args.url));
+    const [latest, ...earlier] = await completedVersions(
+      ctx,
+      args.namespace,
+      hash,
+      await optionsFingerprint(args.options ?? {}),
+      args.options?.ignoreOptions,
+    );
+    if (!latest) {
+      return null;
+    }
+    const previous = earlier.find((scrape) =>
+      sameVersionSeries(scrape, latest),
+    );
+    const toVersion = (scrape: Doc<"scrapes">) => ({
+      jobId: scrape._id,
+      scrapedAt: scrape.scrapedAt ?? scrape.startedAt,
+      contentHash: scrape.contentHash,
+    });
+    if (!previous) {
+      return {
+        latest: toVersion(latest),
+        previous: null,
+        changed: false,
+        diff: null,
+      };
+    }
+
+    // Versions scraped before content hashing compare their inline content
+    const changed =
+      latest.contentHash !== undefined && previous.contentHash !== undefined
+        ? latest.contentHash !== previous.contentHash
+        : latest.markdown !== previous.markdown ||
+          latest.html !== previous.html ||
+          latest.markdownFileId !== previous.markdownFileId ||
+          latest.htmlFileId !== previous.htmlFileId;
+
+    const lineDiff =
+      latest.markdownFileId === undefined &&
+      previous.markdownFileId === undefined
+        ? diffLines(previous.markdown ?? "", latest.markdown ?? "")
+        : null;
+
+    return {
+      latest: toVersion(latest),
+      previous: toVersion(previous),
+      changed,
+      diff: lineDiff?.diff ?? null,
+      ...(lineDiff && {
+        linesAdded: lineDiff.linesAdded,
+        linesRemoved: lineDiff.linesRemoved,
+      }),
+    };
+  },
+});
+
 export const list = query({
   args: {
     status: v.optional(statusValidator),
     limit: v.optional(v.number()),
     cursor: v.optional(v.string()),
+    namespace: v.optional(v.string()),
   },
   returns: v.object({
     scrapes: v.array(scrapeValidator),
@@ -357,13 +662,20 @@ export const list = query({
       CONFIG.MAX_LIST_LIMIT,
     );
 
+    // Scrapes in the caller's namespace only
     let query;
     if (args.status) {
       query = ctx.db
         .query("scrapes")
-        .withIndex("by_status", (q) => q.eq("status", args.status!));
+        .withIndex("by_namespace_status", (q) =>
+          q.eq("namespace", args.namespace).eq("status", args.status!),
+        );
     } else {
-      query = ctx.db.query("scrapes");
+      query = ctx.db
+        .query("scrapes")
+        .withIndex("by_namespace_status", (q) =>
+          q.eq("namespace", args.namespace),
+        );
     }
 
     // Apply cursor if provided
@@ -394,13 +706,21 @@ export const list = query({
  * mutations are serializable via OCC. If two calls race, one succeeds and the
  * other is automatically retried, at which point it sees the pending job.
  *
+ * **Rate limiting:** New jobs are queued per API key and released no faster
+ * than `maxRequestsPerMinute` (default 100). Cache hits do not use a slot.
+ *
  * **Security Note:** This is an internal component function. Do not expose
  * directly to clients. Use `exposeApi()` from the client package to create
  * authenticated wrappers that control API key access.
  *
  * @param url - The URL to scrape
- * @param apiKey - Firecrawl API key
+ * @param apiKey - Firecrawl API key or key pool (or pass `credential` instead)
+ * @param credential - ID or label of a credential stored with setCredential, or a list
+ * @param namespace - Cache namespace (e.g. a tenant ID); unset is shared
+ * @param apiBaseUrl - Firecrawl API base URL (defaults to CONFIG.FIRECRAWL_API_BASE)
+ * @param apiKeyHeader - Header for the API key (defaults to Authorization: Bearer)
  * @param options - Scrape options (formats, ttl, force, etc.)
+ * @param maxRequestsPerMinute - Rate limit for this API key
  * @returns Job ID for tracking
  *
  * @internal
@@ -408,133 +728,69 @@ export const list = query({
 export const startScrape = mutation({
   args: {
     url: v.string(),
-    apiKey: v.string(),
+    ...firecrawlKeyFields,
+    namespace: v.optional(v.string()),
+    ...firecrawlEndpointFields,
     options: v.optional(scrapeOptionsValidator),
+    maxRequestsPerMinute: v.optional(v.number()),
   },
   returns: v.object({ jobId: v.id("scrapes") }),
   handler: async (ctx, args) => {
-    const { url, apiKey, options = {} } = args;
-
-    // 1. Validate URL
-    const validation = validateUrl(url);
-    if (!validation.valid) {
-      throw new Error(formatValidationError(validation.error));
-    }
-
-    // 2. Normalize URL and compute hash
-    const normalizedUrl = normalizeUrl(url);
-    const urlHash = await hashUrl(normalizedUrl);
-
-    // 3. Determine formats (default to markdown)
-    const formats = options.formats ?? ["markdown"];
-
-    // 4. Handle force option - invalidate existing cache
-    if (options.force) {
-      const existing = await ctx.db
-        .query("scrapes")
-        .withIndex("by_url_hash", (q) => q.eq("urlHash", urlHash))
-        .order("desc")
-        .take(10);
-
-      for (const scrape of existing) {
-        if (scrape.status === "completed") {
-          // Delete associated file storage
-          const fileIds = [
-            scrape.markdownFileId,
-            scrape.htmlFileId,
-            scrape.rawHtmlFileId,
-            scrape.screenshotFileId,
-            scrape.linksFileId,
-            scrape.imagesFileId,
-            scrape.extractedJsonFileId,
-          ].filter((id): id is NonNullable<typeof id> => id !== undefined);
-
-          for (const fileId of fileIds) {
-            await ctx.storage.delete(fileId);
-          }
-
-          // Delete the record
-          await ctx.db.delete(scrape._id);
-        }
-      }
-    }
-
-    // 5. Check for existing pending/scraping job (deduplication)
-    const pendingJobs = await ctx.db
-      .query("scrapes")
-      .withIndex("by_url_hash", (q) => q.eq("urlHash", urlHash))
-      .order("desc")
-      .take(10);
-
-    for (const job of pendingJobs) {
-      if (job.status === "pending" || job.status === "scraping") {
-        throw new Error(
-          `Scrape already in progress for this URL. Job ID: ${job._id}`,
-        );
-      }
-    }
-
-    // 6. Check for valid cache (unless force)
-    if (!options.force) {
-      const now = Date.now();
-      for (const job of pendingJobs) {
-        if (
-          job.status === "completed" &&
-          job.expiresAt > now &&
-          formatsSatisfied(job.formats, formats)
-        ) {
-          // Return existing cached result that satisfies requested formats
-          return { jobId: job._id };
-        }
-      }
-    }
-
-    // 7. Create pending record
-    const now = Date.now();
-    const ttlMs = options.ttlMs ?? CONFIG.DEFAULT_TTL_MS;
-
-    const jobId = await ctx.db.insert("scrapes", {
-      url,
-      normalizedUrl,
-      urlHash,
-      status: "pending",
-      formats,
-      startedAt: now,
-      expiresAt: now + ttlMs, // Will be updated on completion
-      // Store extraction schema if provided
-      ...(options.extractionSchema && {
-        extractionSchema: options.extractionSchema,
-      }),
-    });
-
-    // 8. Schedule the scrape action
-    await ctx.scheduler.runAfter(0, internal.lib.scrapeAction, {
-      jobId,
-      url,
-      apiKey,
-      formats,
-      options: {
-        extractionSchema: options.extractionSchema,
-        onlyMainContent: options.onlyMainContent,
-        includeTags: options.includeTags,
-        excludeTags: options.excludeTags,
-        waitFor: options.waitFor,
-        mobile: options.mobile,
-        proxy: options.proxy ?? "basic",
-        storeScreenshot: options.storeScreenshot,
-      },
-      ttlMs,
-    });
-
+    const { jobId } = await enqueueScrape(
+      ctx,
+      args,
+      false,
+      await loadPolicyRules(ctx),
+    );
     return { jobId };
   },
 });
 
+/**
+ * Refresh a URL in the background, typically after getCached returned a stale
+ * entry.
+ *
+ * Uses the same path as startScrape, but if a scrape for the URL is already
+ * pending or in progress that job is returned instead of throwing, so many
+ * readers of the same stale entry trigger a single refresh.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients. Use `exposeApi()` from the client package to create
+ * authenticated wrappers.
+ *
+ * @returns Job ID, and whether a new scrape was started
+ *
+ * @internal
+ */
+export const revalidate = mutation({
+  args: {
+    url: v.string(),
+    ...firecrawlKeyFields,
+    namespace: v.optional(v.string()),
+    ...firecrawlEndpointFields,
+    options: v.optional(scrapeOptionsValidator),
+    maxRequestsPerMinute: v.optional(v.number()),
+  },
+  returns: v.object({ jobId: v.id("scrapes"), started: v.boolean() }),
+  handler: async (ctx, args) => {
+    const { jobId, started } = await enqueueScrape(
+      ctx,
+      args,
+      true,
+      await loadPolicyRules(ctx),
+    );
+    return { jobId, started };
+  },
+});
+
 /**
  * Invalidate a cache entry by marking it as expired (sets expiresAt to now).
  *
  * This does not delete the entry - it will be cleaned up by the daily cron.
- * The entry is immediately considered expired and will not be returned by getCached.
+ * The entry is immediately considered expired and will not be returned by
+ * getCached, not even as a stale entry. Scrapes of other URLs that redirected
+ * to this URL, or were aliased under it as their canonical URL, are
+ * invalidated too.
  *
  * **Security Note:** This is an internal component function. Do not expose
  * directly to clients. Use `exposeApi()` from the client package to create
@@ -545,6 +801,7 @@ export const startScrape = mutation({
 export const invalidate = mutation({
   args: {
     url: v.string(),
+    namespace: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -560,11 +817,28 @@ export const invalidate = mutation({
     const normalized = normalizeUrl(args.url);
     const hash = await hashUrl(normalized);
 
-    // Find all completed scrapes for this URL
-    const scrapes = await ctx.db
-      .query("scrapes")
-      .withIndex("by_url_hash", (q) => q.eq("urlHash", hash))
-      .collect();
+    // Find all completed scrapes for this URL in the caller's namespace,
+    // including scrapes of other URLs aliased to it
+    const scrapes = [
+      ...(await ctx.db
+        .query("scrapes")
+        .withIndex("by_namespace_url_hash", (q) =>
+          q.eq("namespace", args.namespace).eq("urlHash", hash),
+        )
+        .collect()),
+      ...(await ctx.db
+        .query("scrapes")
+        .withIndex("by_namespace_final_url_hash", (q) =>
+          q.eq("namespace", args.namespace).eq("finalUrlHash", hash),
+        )
+        .collect()),
+      ...(await ctx.db
+        .query("scrapes")
+        .withIndex("by_namespace_canonical_url_hash", (q) =>
+          q.eq("namespace", args.namespace).eq("canonicalUrlHash", hash),
+        )
+        .collect()),
+    ];
 
     const now = Date.now();
     let invalidatedCount = 0;
@@ -572,7 +846,7 @@ export const invalidate = mutation({
     for (const scrape of scrapes) {
       // Only invalidate completed scrapes that are not already expired
       if (scrape.status === "completed" && scrape.expiresAt > now) {
-        await ctx.db.patch(scrape._id, { expiresAt: now });
+        await ctx.db.patch(scrape._id, { expiresAt: now, invalidatedAt: now });
         invalidatedCount++;
       }
     }
@@ -585,7 +859,8 @@ export const invalidate = mutation({
  * Delete a scrape record and all associated file storage.
  *
  * Cannot delete scrapes that are in "pending" or "scraping" status to prevent
- * data corruption during active scraping operations.
+ * data corruption during active scraping operations. A scrape in another
+ * namespace is treated as not found.
  *
  * **Security Note:** This is an internal component function. Do not expose
  * directly to clients. Use `exposeApi()` from the client package to create
@@ -596,6 +871,7 @@ export const invalidate = mutation({
 export const deleteScrape = mutation({
   args: {
     id: v.id("scrapes"),
+    namespace: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -604,8 +880,8 @@ export const deleteScrape = mutation({
   handler: async (ctx, args) => {
     const scrape = await ctx.db.get(args.id);
 
-    // Return early if scrape not found
-    if (!scrape) {
+    // Return early if scrape not found in the caller's namespace
+    if (!scrape || scrape.namespace !== args.namespace) {
       return { success: false, deletedFileCount: 0 };
     }
 
@@ -625,6 +901,7 @@ export const deleteScrape = mutation({
       scrape.linksFileId,
       scrape.imagesFileId,
       scrape.extractedJsonFileId,
+      scrape.sourceDocumentFileId,
     ].filter((id): id is NonNullable<typeof id> => id !== undefined);
 
     let deletedFileCount = 0;
@@ -647,6 +924,24 @@ export const deleteScrape = mutation({
   },
 });
 
+// ============================================================================
+// Internal Queries
+// ============================================================================
+
+/**
+ * Read the raw sensitive header values of a scrape job. Internal so they can
+ * only be read by scrapeAction.
+ */
+export const getSecretHeaders = internalQuery({
+  args: {
+    jobId: v.id("scrapes"),
+  },
+  returns: v.union(v.null(), v.record(v.string(), v.string())),
+  handler: async (ctx, args) => {
+    return (await loadSecretHeaders(ctx, { jobId: args.jobId })) ?? null;
+  },
+});
+
 // ============================================================================
 // Internal Mutations
 // ============================================================================
@@ -656,18 +951,63 @@ export const deleteScrape = mutation({
  *
  * Records the actual start time of scraping (scrapingAt) for accurate
  * stuck job detection, separate from job creation time (startedAt).
+ * Each call counts as one attempt; the new attempt number is returned so
+ * scrapeAction can decide whether a transient failure may be retried.
+ * Returns null (and changes nothing) if the job is gone or already completed,
+ * so a late retry can never overwrite a finished result.
  */
 export const markScraping = internalMutation({
   args: {
     jobId: v.id("scrapes"),
   },
-  returns: v.null(),
+  returns: v.union(v.null(), v.number()),
   handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || job.status === "completed") {
+      return null;
+    }
+
+    const attempts = (job.attempts ?? 0) + 1;
+
     await ctx.db.patch(args.jobId, {
       status: "scraping",
       scrapingAt: Date.now(),
+      attempts,
+      nextRetryAt: undefined,
     });
-    return null;
+    return attempts;
+  },
+});
+
+/**
+ * Put a scrape job back into "pending" after a transient failure.
+ *
+ * The last error is kept on the record so callers can see why the job is
+ * waiting. Returns false if the job is no longer active, in which case the
+ * caller must not schedule another attempt.
+ */
+export const scheduleRetry = internalMutation({
+  args: {
+    jobId: v.id("scrapes"),
+    error: v.string(),
+    errorCode: v.optional(v.union(v.number(), v.string())),
+    nextRetryAt: v.number(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || (job.status !== "pending" && job.status !== "scraping")) {
+      return false;
+    }
+
+    await ctx.db.patch(args.jobId, {
+      status: "pending",
+      error: args.error,
+      errorCode: args.errorCode,
+      nextRetryAt: args.nextRetryAt,
+    });
+
+    return true;
   },
 });
 
@@ -677,31 +1017,20 @@ export const markScraping = internalMutation({
  * Only completes if the job is still in "pending" or "scraping" status.
  * If the job was already marked "failed" (e.g., by stuck job detection)
  * or "completed", this is a no-op to prevent race conditions.
+ * Deletes completed versions of the URL beyond the job's keepVersions,
+ * records the run on the job's monitor, and schedules the job's onComplete
+ * callback, if any.
  */
 export const completeScrape = internalMutation({
   args: {
     jobId: v.id("scrapes"),
-    markdown: v.optional(v.string()),
-    markdownFileId: v.optional(v.id("_storage")),
-    html: v.optional(v.string()),
-    htmlFileId: v.optional(v.id("_storage")),
-    rawHtml: v.optional(v.string()),
-    rawHtmlFileId: v.optional(v.id("_storage")),
-    summary: v.optional(v.string()),
-    links: v.optional(v.array(v.string())),
-    linksFileId: v.optional(v.id("_storage")),
-    images: v.optional(v.array(v.string())),
-    imagesFileId: v.optional(v.id("_storage")),
-    screenshotUrl: v.optional(v.string()),
-    screenshotFileId: v.optional(v.id("_storage")),
-    extractedJson: v.optional(v.any()),
-    extractedJsonFileId: v.optional(v.id("_storage")),
-    metadata: v.optional(metadataValidator),
+    ...scrapeContentFields,
     ttlMs: v.number(),
+    usage: v.optional(scrapeUsageValidator),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const { jobId, ttlMs, ...content } = args;
+    const { jobId, ttlMs, usage, ...content } = args;
 
     // Check current status to prevent race with stuck job detection
     const job = await ctx.db.get(jobId);
@@ -711,29 +1040,141 @@ export const completeScrape = internalMutation({
     }
 
     const now = Date.now();
+    const finalUrl = redirectTarget(job.normalizedUrl, content.metadata);
+    const canonicalUrl = job.aliasCanonical
+      ? canonicalTarget(job.normalizedUrl, finalUrl, content.metadata)
+      : undefined;
 
     await ctx.db.patch(jobId, {
       status: "completed",
       scrapedAt: now,
       expiresAt: now + ttlMs,
+      // Clear errors left behind by earlier transient attempts
+      error: undefined,
+      errorCode: undefined,
+      nextRetryAt: undefined,
       ...content,
+      // Index the scrape under the URL it redirected to, if any
+      finalUrl,
+      finalUrlHash: finalUrl ? await hashUrl(finalUrl) : undefined,
+      // and under its canonical URL, if aliasing was requested
+      canonicalUrl,
+      canonicalUrlHash: canonicalUrl ? await hashUrl(canonicalUrl) : undefined,
+      creditsUsed: usage?.credits,
+      creditsEstimated: usage?.estimated,
     });
+    await deleteSecretHeaders(ctx, { jobId });
+    if (usage) {
+      await recordUsage(ctx, job.namespace, usage);
+    }
+
+    // Keep the newest versions of this URL as history, this job included.
+    // Scrapes with other options or formats are versions of other content.
+    const versions = (
+      await completedVersions(
+        ctx,
+        job.namespace,
+        job.urlHash,
+        job.optionsFingerprint ?? {},
+      )
+    ).filter(
+      (scrape) => scrape._id !== jobId && sameVersionSeries(scrape, job),
+    );
+    const keepVersions = job.keepVersions ?? CONFIG.DEFAULT_KEEP_VERSIONS;
+    for (const scrape of versions.slice(keepVersions - 1)) {
+      const fileIds = [
+        scrape.markdownFileId,
+        scrape.htmlFileId,
+        scrape.rawHtmlFileId,
+        scrape.screenshotFileId,
+        scrape.linksFileId,
+        scrape.imagesFileId,
+        scrape.extractedJsonFileId,
+        scrape.sourceDocumentFileId,
+      ].filter((id): id is NonNullable<typeof id> => id !== undefined);
+
+      for (const fileId of fileIds) {
+        await ctx.storage.delete(fileId);
+      }
+      await ctx.db.delete(scrape._id);
+    }
+
+    if (job.monitorId) {
+      await recordMonitorRun(ctx, job.monitorId, jobId, content.contentHash);
+    }
+    await notifyComplete(ctx, jobId, job.onComplete, "completed");
 
     return null;
   },
 });
 
+/**
+ * Normalized URL a scrape was redirected to, or undefined when the page was
+ * served from the requested URL (or Firecrawl reported no usable final URL).
+ */
+function redirectTarget(
+  normalizedUrl: string,
+  metadata: { finalUrl?: string } | undefined,
+): string | undefined {
+  if (!metadata?.finalUrl) {
+    return undefined;
+  }
+  try {
+    const finalUrl = normalizeUrl(metadata.finalUrl);
+    return finalUrl === normalizedUrl ? undefined : finalUrl;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Normalized rel=canonical URL to alias a scrape under, or undefined when the
+ * page declared none, declared its own URL, or declared a URL on another site
+ * (which would let any page claim cache entries for someone else's URL).
+ * Relative canonical links resolve against the URL the page was served from.
+ */
+function canonicalTarget(
+  normalizedUrl: string,
+  finalUrl: string | undefined,
+  metadata: { canonicalUrl?: string } | undefined,
+): string | undefined {
+  if (!metadata?.canonicalUrl) {
+    return undefined;
+  }
+  const servedFrom = finalUrl ?? normalizedUrl;
+  let canonicalUrl: string;
+  try {
+    canonicalUrl = normalizeUrl(
+      new URL(metadata.canonicalUrl, servedFrom).toString(),
+    );
+  } catch {
+    return undefined;
+  }
+  if (
+    canonicalUrl === normalizedUrl ||
+    canonicalUrl === finalUrl ||
+    !validateUrl(canonicalUrl).valid ||
+    !isSameSite(new URL(canonicalUrl).hostname, new URL(servedFrom).hostname)
+  ) {
+    return undefined;
+  }
+  return canonicalUrl;
+}
+
 /**
  * Mark a scrape job as failed with error details.
  *
  * Only fails if the job is still in "pending" or "scraping" status.
- * If already "completed" or "failed", this is a no-op.
+ * If already "completed" or "failed", this is a no-op. Schedules the job's
+ * onComplete callback, if any. `usage` records credits Firecrawl charged
+ * even though the job failed, e.g. for extracted JSON that does not match.
  */
 export const failScrape = internalMutation({
   args: {
     jobId: v.id("scrapes"),
     error: v.string(),
     errorCode: v.optional(v.union(v.number(), v.string())),
+    usage: v.optional(scrapeUsageValidator),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -748,7 +1189,15 @@ export const failScrape = internalMutation({
       status: "failed",
       error: args.error,
       errorCode: args.errorCode,
+      nextRetryAt: undefined,
+      creditsUsed: args.usage?.credits,
+      creditsEstimated: args.usage?.estimated,
     });
+    await deleteSecretHeaders(ctx, { jobId: args.jobId });
+    if (args.usage) {
+      await recordUsage(ctx, job.namespace, args.usage);
+    }
+    await notifyComplete(ctx, args.jobId, job.onComplete, "failed");
 
     return null;
   },
@@ -762,33 +1211,115 @@ export const failScrape = internalMutation({
  * Internal action that calls the Firecrawl API.
  *
  * This runs in the background after being scheduled by startScrape.
+ * Transient failures (429, 408, 5xx, network errors) are rescheduled with
+ * exponential backoff until `maxRetries` is exhausted; all other errors,
+ * including unexpected exceptions, fail the job immediately. With a key pool,
+ * a 402 or 429 first fails over to the next key that has not been tried.
+ * Extracted JSON that does not match the extraction schema fails the job with
+ * errorCode "extraction_invalid". The credits a successful response used are
+ * recorded with the job either way.
  */
 export const scrapeAction = internalAction({
   args: {
     jobId: v.id("scrapes"),
     url: v.string(),
-    apiKey: v.string(),
+    ...firecrawlKeyRefFields,
+    ...firecrawlEndpointFields,
     formats: v.array(scrapeFormatValidator),
     options: v.object({
       extractionSchema: v.optional(v.any()),
+      extractionPrompt: v.optional(v.string()),
       onlyMainContent: v.optional(v.boolean()),
       includeTags: v.optional(v.array(v.string())),
       excludeTags: v.optional(v.array(v.string())),
       waitFor: v.optional(v.number()),
+      actions: v.optional(v.array(scrapeActionValidator)),
+      headers: v.optional(v.record(v.string(), v.string())),
+      location: v.optional(locationValidator),
+      timeout: v.optional(v.number()),
+      parsePDF: v.optional(v.boolean()),
+      storeSourceDocument: v.optional(v.boolean()),
       mobile: v.optional(v.boolean()),
       proxy: proxyValidator,
       storeScreenshot: v.optional(v.boolean()),
+      resolveDns: v.optional(v.boolean()),
+      maxRetries: v.optional(v.number()),
+      retryBaseDelayMs: v.optional(v.number()),
     }),
     ttlMs: v.number(),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const { jobId, url, apiKey, formats, options, ttlMs } = args;
+    const { jobId, url, formats, options, ttlMs } = args;
 
     // Mark as scraping
-    await ctx.runMutation(internal.lib.markScraping, { jobId });
+    const attempt = await ctx.runMutation(internal.lib.markScraping, {
+      jobId,
+    });
+    if (attempt === null) {
+      return null;
+    }
+
+    let key = await selectFirecrawlKey(ctx, args);
+    if (key === null) {
+      await ctx.runMutation(internal.lib.failScrape, {
+        jobId,
+        error: "Firecrawl credential not found or over its credit budget",
+      });
+      return null;
+    }
+
+    const maxRetries = options.maxRetries ?? CONFIG.DEFAULT_MAX_RETRIES;
+    const retryBaseDelayMs =
+      options.retryBaseDelayMs ?? CONFIG.DEFAULT_RETRY_BASE_DELAY_MS;
+
+    // Reschedule a transient failure, or fail the job once retries run out
+    const retryOrFail = async (
+      error: string,
+      errorCode?: number | string,
+      retryAfterMs?: number,
+    ) => {
+      if (attempt > maxRetries) {
+        await ctx.runMutation(internal.lib.failScrape, {
+          jobId,
+          error,
+          errorCode,
+        });
+        return;
+      }
+
+      const delayMs = Math.min(
+        Math.max(
+          computeRetryDelay(attempt, retryBaseDelayMs),
+          retryAfterMs ?? 0,
+        ),
+        CONFIG.MAX_RETRY_DELAY_MS,
+      );
+      const shouldRetry = await ctx.runMutation(internal.lib.scheduleRetry, {
+        jobId,
+        error,
+        errorCode,
+        nextRetryAt: Date.now() + delayMs,
+      });
+      if (shouldRetry) {
+        await ctx.scheduler.runAfter(delayMs, internal.lib.scrapeAction, args);
+      }
+    };
 
     try {
+      // Reject hostnames that resolve to private addresses
+      if (options.resolveDns) {
+        const validation = await validateResolvedUrl(url);
+        if (!validation.valid) {
+          await ctx.runMutation(internal.lib.failScrape, {
+            jobId,
+            error: formatValidationError(validation.error),
+            errorCode: validation.error.type,
+          });
+          return null;
+        }
+      }
+
       // Build Firecrawl request body
       const requestBody: Record<string, unknown> = {
         url,
@@ -797,9 +1328,14 @@ export const scrapeAction = internalAction({
       };
 
       // Add optional parameters
-      if (options.extractionSchema) {
+      if (options.extractionSchema || options.extractionPrompt) {
         requestBody.extract = {
-          schema: options.extractionSchema,
+          ...(options.extractionSchema && {
+            schema: options.extractionSchema,
+          }),
+          ...(options.extractionPrompt && {
+            prompt: options.extractionPrompt,
+          }),
         };
       }
       if (options.includeTags) {
@@ -811,6 +1347,26 @@ export const scrapeAction = internalAction({
       if (options.waitFor) {
         requestBody.waitFor = options.waitFor;
       }
+      if (options.actions?.length) {
+        requestBody.actions = options.actions;
+      }
+      if (options.headers) {
+        // Scheduled headers are redacted; put the raw secret values back
+        const secretHeaders = await ctx.runQuery(
+          internal.lib.getSecretHeaders,
+          { jobId },
+        );
+        requestBody.headers = { ...options.headers, ...secretHeaders };
+      }
+      if (options.location) {
+        requestBody.location = options.location;
+      }
+      if (options.timeout) {
+        requestBody.timeout = options.timeout;
+      }
+      if (options.parsePDF !== undefined) {
+        requestBody.parsePDF = options.parsePDF;
+      }
       if (options.mobile !== undefined) {
         requestBody.mobile = options.mobile;
       }
@@ -818,35 +1374,43 @@ export const scrapeAction = internalAction({
         requestBody.proxy = options.proxy;
       }
 
-      // Call Firecrawl API
-      const response = await fetch(`${CONFIG.FIRECRAWL_API_BASE}/scrape`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody),
-      });
+      // Call Firecrawl API, failing over to the next pooled key on 402/429
+      const tried: string[] = [];
+      let response: Response;
+      for (;;) {
+        tried.push(key.keyHash);
+        response = await fetch(firecrawlUrl(args, "/scrape"), {
+          method: "POST",
+          headers: {
+            ...firecrawlAuthHeaders(key.apiKey, args),
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(requestBody),
+        });
+        if (response.ok) {
+          break;
+        }
+        await recordKeyFailure(ctx, key.keyHash, response);
+        const next = isKeyQuotaStatus(response.status)
+          ? await selectFirecrawlKey(ctx, args, tried)
+          : null;
+        if (next === null) {
+          break;
+        }
+        key = next;
+      }
 
       // Handle HTTP errors
       if (!response.ok) {
-        const errorBody = await response.text();
-        let errorMessage = `Firecrawl API error: ${response.status}`;
-        let errorCode = response.status;
-
-        try {
-          const errorJson = JSON.parse(errorBody);
-          if (errorJson.error) {
-            errorMessage = errorJson.error;
-          }
-          if (errorJson.code) {
-            errorCode = errorJson.code;
-          }
-        } catch {
-          // Use raw error body if not JSON
-          if (errorBody) {
-            errorMessage = errorBody;
-          }
+        const { errorMessage, errorCode } = await readFirecrawlError(response);
+
+        if (isTransientStatus(response.status)) {
+          await retryOrFail(
+            errorMessage,
+            errorCode,
+            parseRetryAfter(response.headers.get("Retry-After")),
+          );
+          return null;
         }
 
         await ctx.runMutation(internal.lib.failScrape, {
@@ -869,160 +1433,68 @@ export const scrapeAction = internalAction({
         return null;
       }
 
-      const data = result.data;
-
-      // Process content and prepare for storage
-      const contentUpdate: Record<string, unknown> = {};
-
-      // Handle markdown
-      if (data.markdown) {
-        if (
-          getByteLength(data.markdown) > CONFIG.FILE_STORAGE_THRESHOLD_BYTES
-        ) {
-          const blob = new Blob([data.markdown], { type: "text/markdown" });
-          const fileId = await ctx.storage.store(blob);
-          contentUpdate.markdownFileId = fileId;
-        } else {
-          contentUpdate.markdown = data.markdown;
-        }
-      }
-
-      // Handle HTML
-      if (data.html) {
-        if (getByteLength(data.html) > CONFIG.FILE_STORAGE_THRESHOLD_BYTES) {
-          const blob = new Blob([data.html], { type: "text/html" });
-          const fileId = await ctx.storage.store(blob);
-          contentUpdate.htmlFileId = fileId;
-        } else {
-          contentUpdate.html = data.html;
-        }
-      }
-
-      // Handle raw HTML
-      if (data.rawHtml) {
-        if (getByteLength(data.rawHtml) > CONFIG.FILE_STORAGE_THRESHOLD_BYTES) {
-          const blob = new Blob([data.rawHtml], { type: "text/html" });
-          const fileId = await ctx.storage.store(blob);
-          contentUpdate.rawHtmlFileId = fileId;
-        } else {
-          contentUpdate.rawHtml = data.rawHtml;
-        }
-      }
-
-      // Handle summary
-      if (data.summary) {
-        contentUpdate.summary = data.summary;
-      }
-
-      // Handle links
-      if (data.links) {
-        const linksJson = JSON.stringify(data.links);
-        if (getByteLength(linksJson) > CONFIG.FILE_STORAGE_THRESHOLD_BYTES) {
-          const blob = new Blob([linksJson], { type: "application/json" });
-          const fileId = await ctx.storage.store(blob);
-          contentUpdate.linksFileId = fileId;
-        } else {
-          contentUpdate.links = data.links;
-        }
-      }
-
-      // Handle images
-      if (data.images) {
-        // Extract image URLs from Firecrawl image objects
-        const imageUrls = data.images.map((img: { url: string } | string) =>
-          typeof img === "string" ? img : img.url,
-        );
-        const imagesJson = JSON.stringify(imageUrls);
-        if (getByteLength(imagesJson) > CONFIG.FILE_STORAGE_THRESHOLD_BYTES) {
-          const blob = new Blob([imagesJson], { type: "application/json" });
-          const fileId = await ctx.storage.store(blob);
-          contentUpdate.imagesFileId = fileId;
-        } else {
-          contentUpdate.images = imageUrls;
-        }
-      }
-
-      // Handle screenshot
-      if (data.screenshot) {
-        contentUpdate.screenshotUrl = data.screenshot;
-
-        // Optionally persist screenshot to Convex storage
-        if (options.storeScreenshot) {
-          try {
-            const screenshotResponse = await fetch(data.screenshot);
-            if (screenshotResponse.ok) {
-              const screenshotBlob = await screenshotResponse.blob();
-              const screenshotFileId = await ctx.storage.store(screenshotBlob);
-              contentUpdate.screenshotFileId = screenshotFileId;
-            }
-          } catch {
-            // Screenshot storage failed, but URL is still available
-            console.warn("Failed to store screenshot to Convex storage");
-          }
-        }
-      }
+      const reported = reportedCredits(result);
+      const usage = {
+        credits:
+          reported ??
+          estimateCredits(formats, {
+            proxy: options.proxy,
+            extraction: !!(
+              options.extractionSchema || options.extractionPrompt
+            ),
+          }),
+        estimated: reported === undefined,
+        keyHash: key.keyHash,
+      };
 
-      // Handle extracted JSON
-      if (data.extract) {
-        const extractJson = JSON.stringify(data.extract);
-        if (getByteLength(extractJson) > CONFIG.FILE_STORAGE_THRESHOLD_BYTES) {
-          const blob = new Blob([extractJson], { type: "application/json" });
-          const fileId = await ctx.storage.store(blob);
-          contentUpdate.extractedJsonFileId = fileId;
-        } else {
-          contentUpdate.extractedJson = data.extract;
+      // Check extracted JSON against the schema before storing anything
+      if (options.extractionSchema) {
+        const issues =
+          result.data?.extract === undefined
+            ? ["$: no extracted JSON returned"]
+            : checkExtraction(result.data.extract, options.extractionSchema);
+        if (issues.length > 0) {
+          await ctx.runMutation(internal.lib.failScrape, {
+            jobId,
+            error: `Extracted JSON does not match the extraction schema: ${issues.join("; ")}`,
+            errorCode: "extraction_invalid",
+            usage,
+          });
+          return null;
         }
       }
 
-      // Handle metadata
-      if (data.metadata) {
-        const metadata: Record<string, unknown> = {};
-
-        if (data.metadata.title) metadata.title = data.metadata.title;
-        if (data.metadata.description)
-          metadata.description = data.metadata.description;
-        if (data.metadata.language) metadata.language = data.metadata.language;
-        if (data.metadata.sourceURL)
-          metadata.sourceURL = data.metadata.sourceURL;
-        if (data.metadata.statusCode)
-          metadata.statusCode = data.metadata.statusCode;
-
-        // OG tags
-        if (data.metadata.ogImage) metadata.ogImage = data.metadata.ogImage;
-        if (data.metadata.ogTitle) metadata.ogTitle = data.metadata.ogTitle;
-        if (data.metadata.ogDescription)
-          metadata.ogDescription = data.metadata.ogDescription;
-        if (data.metadata.ogSiteName)
-          metadata.ogSiteName = data.metadata.ogSiteName;
-
-        // Response headers (if provided)
-        if (data.metadata.contentType)
-          metadata.contentType = data.metadata.contentType;
-        if (data.metadata.cacheControl)
-          metadata.cacheControl = data.metadata.cacheControl;
-
-        if (Object.keys(metadata).length > 0) {
-          contentUpdate.metadata = metadata;
-        }
-      }
+      const contentUpdate = await extractScrapeContent(ctx, result.data, {
+        storeScreenshot: options.storeScreenshot,
+        sourceDocumentUrl: options.storeSourceDocument ? url : undefined,
+        resolveDns: options.resolveDns,
+        policyRules: options.storeSourceDocument
+          ? await ctx.runQuery(internal.policy.getPolicyRules, {})
+          : undefined,
+      });
 
       // Complete the scrape
       await ctx.runMutation(internal.lib.completeScrape, {
         jobId,
         ttlMs,
         ...contentUpdate,
+        usage,
       });
 
       return null;
     } catch (error) {
-      // Handle unexpected errors
+      // Network failures are transient; anything else would fail again
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error occurred";
 
-      await ctx.runMutation(internal.lib.failScrape, {
-        jobId,
-        error: errorMessage,
-      });
+      if (isNetworkError(error)) {
+        await retryOrFail(errorMessage);
+      } else {
+        await ctx.runMutation(internal.lib.failScrape, {
+          jobId,
+          error: errorMessage,
+        });
+      }
 
       return null;
     }
@@ -1041,7 +1513,9 @@ export const scrapeAction = internalAction({
  *
  * Only deletes jobs in terminal states ("completed" or "failed").
  * Pending/scraping jobs are never deleted by cleanup, even if past expiration,
- * to prevent data loss from stuck jobs.
+ * to prevent data loss from stuck jobs. Completed entries are kept for
+ * CONFIG.MAX_STALE_WHILE_REVALIDATE_MS past expiry so getCached can still
+ * serve them as stale.
  */
 export const cleanupExpired = internalMutation({
   args: {},
@@ -1052,22 +1526,27 @@ export const cleanupExpired = internalMutation({
   handler: async (ctx) => {
     const now = Date.now();
 
-    // Query entries past their expiration time
-    const expired = await ctx.db
+    // Query terminal entries past their expiration time - never pending or
+    // scraping, to prevent data loss from stuck jobs
+    const expiredCompleted = await ctx.db
       .query("scrapes")
-      .withIndex("by_expires", (q) => q.lt("expiresAt", now))
+      .withIndex("by_status_expires", (q) =>
+        q
+          .eq("status", "completed")
+          .lt("expiresAt", now - CONFIG.MAX_STALE_WHILE_REVALIDATE_MS),
+      )
+      .take(CONFIG.CLEANUP_BATCH_SIZE);
+    const expiredFailed = await ctx.db
+      .query("scrapes")
+      .withIndex("by_status_expires", (q) =>
+        q.eq("status", "failed").lt("expiresAt", now),
+      )
       .take(CONFIG.CLEANUP_BATCH_SIZE);
 
     let deletedCount = 0;
     let deletedFileCount = 0;
 
-    for (const entry of expired) {
-      // Only delete jobs in terminal states - never delete pending/scraping
-      // to prevent data loss from stuck jobs
-      if (entry.status !== "completed" && entry.status !== "failed") {
-        continue;
-      }
-
+    for (const entry of [...expiredCompleted, ...expiredFailed]) {
       // Collect all file storage IDs from this entry
       const fileIds = [
         entry.markdownFileId,
@@ -1077,6 +1556,7 @@ export const cleanupExpired = internalMutation({
         entry.linksFileId,
         entry.imagesFileId,
         entry.extractedJsonFileId,
+        entry.sourceDocumentFileId,
       ].filter((id): id is NonNullable<typeof id> => id !== undefined);
 
       // Delete each associated file from storage
@@ -1111,6 +1591,7 @@ export const cleanupExpired = internalMutation({
  * Uses compound index (status, scrapingAt) to efficiently query only stuck jobs
  * without scanning all "scraping" jobs. Uses scrapingAt (not startedAt) to
  * measure timeout from when scraping actually began, not job creation.
+ * Each timed-out job's onComplete callback is scheduled as for failScrape.
  */
 export const markStuckJobsFailed = internalMutation({
   args: {},
@@ -1137,6 +1618,8 @@ export const markStuckJobsFailed = internalMutation({
         status: "failed",
         error: "Scrape timed out after 5 minutes",
       });
+      await deleteSecretHeaders(ctx, { jobId: job._id });
+      await notifyComplete(ctx, job._id, job.onComplete, "failed");
       markedFailedCount++;
     }
 
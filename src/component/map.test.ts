@@ -0,0 +1,383 @@
+/// <reference types="vite/client" />
+
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api.js";
+import { initConvexTest } from "./setup.test.js";
+import { jsonResponse } from "./fixtures.test.js";
+import { CONFIG } from "./config.js";
+import type { Id } from "./_generated/dataModel.js";
+
+async function completedMap(
+  t: ReturnType<typeof initConvexTest>,
+  urls: string[],
+): Promise<Id<"siteMaps">> {
+  const { mapId } = await t.mutation(api.map.mapSite, {
+    url: "https://example.com",
+    apiKey: "test-key",
+  });
+  await t.mutation(internal.map.markMapping, { mapId });
+  await t.mutation(internal.map.completeSiteMap, {
+    mapId,
+    urls,
+    truncated: false,
+    ttlMs: 60_000,
+    usage: { credits: 1, estimated: true, keyHash: "test" },
+  });
+  return mapId;
+}
+
+describe("mapSite mutation", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("rejects invalid URLs and limits", async () => {
+    const t = initConvexTest();
+
+    await expect(
+      t.mutation(api.map.mapSite, {
+        url: "http://localhost/admin",
+        apiKey: "test-key",
+      }),
+    ).rejects.toThrow();
+    await expect(
+      t.mutation(api.map.mapSite, {
+        url: "https://example.com",
+        apiKey: "test-key",
+        options: { limit: 0 },
+      }),
+    ).rejects.toThrow(/limit/);
+    await expect(
+      t.mutation(api.map.mapSite, {
+        url: "https://example.com",
+        apiKey: "test-key",
+        options: { ttlMs: -1 },
+      }),
+    ).rejects.toThrow("ttlMs must be a positive number");
+  });
+
+  test("creates a pending record keyed by origin", async () => {
+    const t = initConvexTest();
+
+    const { mapId, started } = await t.mutation(api.map.mapSite, {
+      url: "https://EXAMPLE.com/docs/page?x=1",
+      apiKey: "test-key",
+      options: { limit: 50_000 },
+    });
+
+    expect(started).toBe(true);
+    const siteMap = await t.query(api.map.getSiteMap, { id: mapId });
+    expect(siteMap?.status).toBe("pending");
+    expect(siteMap?.origin).toBe("https://example.com");
+    expect(siteMap?.limit).toBe(CONFIG.MAX_MAP_URLS);
+    expect(siteMap?.includeSubdomains).toBe(false);
+  });
+
+  test("reuses a map in progress and a cached map", async () => {
+    const t = initConvexTest();
+
+    const first = await t.mutation(api.map.mapSite, {
+      url: "https://example.com",
+      apiKey: "test-key",
+    });
+    const second = await t.mutation(api.map.mapSite, {
+      url: "https://example.com/other",
+      apiKey: "test-key",
+    });
+    expect(second).toEqual({ mapId: first.mapId, started: false });
+
+    await t.mutation(internal.map.markMapping, { mapId: first.mapId });
+    await t.mutation(internal.map.completeSiteMap, {
+      mapId: first.mapId,
+      urls: ["https://example.com/a"],
+      truncated: false,
+      ttlMs: 60_000,
+      usage: { credits: 1, estimated: true, keyHash: "test" },
+    });
+
+    const cached = await t.mutation(api.map.mapSite, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      options: { limit: 10 },
+    });
+    expect(cached).toEqual({ mapId: first.mapId, started: false });
+    const fromCache = await t.query(api.map.getCachedSiteMap, {
+      url: "https://example.com/anything",
+    });
+    expect(fromCache?._id).toBe(first.mapId);
+
+    // Different settings and force start a new map
+    const subdomains = await t.mutation(api.map.mapSite, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      options: { includeSubdomains: true },
+    });
+    expect(subdomains.started).toBe(true);
+
+    const forced = await t.mutation(api.map.mapSite, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      options: { force: true, includeSubdomains: false },
+    });
+    expect(forced.started).toBe(true);
+    expect(await t.query(api.map.getSiteMap, { id: first.mapId })).toBeNull();
+  });
+
+  test("caches and forces maps per includeSubdomains setting", async () => {
+    const t = initConvexTest();
+    const withoutSubdomains = await completedMap(t, ["https://example.com/a"]);
+    const { mapId: withSubdomains } = await t.mutation(api.map.mapSite, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      options: { includeSubdomains: true },
+    });
+    await t.mutation(internal.map.markMapping, { mapId: withSubdomains });
+    await t.mutation(internal.map.completeSiteMap, {
+      mapId: withSubdomains,
+      urls: ["https://docs.example.com/a"],
+      truncated: false,
+      ttlMs: 60_000,
+      usage: { credits: 1, estimated: true, keyHash: "test" },
+    });
+
+    const cached = await t.query(api.map.getCachedSiteMap, {
+      url: "https://example.com",
+    });
+    expect(cached?._id).toBe(withoutSubdomains);
+    const cachedWithSubdomains = await t.query(api.map.getCachedSiteMap, {
+      url: "https://example.com",
+      includeSubdomains: true,
+    });
+    expect(cachedWithSubdomains?._id).toBe(withSubdomains);
+
+    // Forcing a map without subdomains keeps the map with them
+    await t.mutation(api.map.mapSite, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      options: { force: true },
+    });
+    expect(
+      await t.query(api.map.getSiteMap, { id: withoutSubdomains }),
+    ).toBeNull();
+    expect(
+      await t.query(api.map.getSiteMap, { id: withSubdomains }),
+    ).not.toBeNull();
+  });
+});
+
+describe("mapAction", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  test("stores valid, deduplicated URLs", async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(
+      jsonResponse({
+        success: true,
+        links: [
+          "https://example.com/a",
+          { url: "https://example.com/b", title: "B" },
+          "https://example.com/a?utm_source=x",
+          "http://localhost/private",
+          "https://example.com/c",
+        ],
+      }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    const { mapId } = await t.mutation(api.map.mapSite, {
+      url: "https://example.com/start",
+      apiKey: "test-key",
+      options: { limit: 2 },
+    });
+
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(fetchMock.mock.calls[0][0]).toContain("/map");
+    expect(body).toEqual({
+      url: "https://example.com",
+      limit: 2,
+      includeSubdomains: false,
+    });
+
+    const siteMap = await t.query(api.map.getSiteMap, { id: mapId });
+    expect(siteMap?.status).toBe("completed");
+    expect(siteMap?.urls).toEqual([
+      "https://example.com/a",
+      "https://example.com/b",
+    ]);
+    expect(siteMap?.urlCount).toBe(2);
+    expect(siteMap?.truncated).toBe(false);
+    expect(siteMap?.mappedAt).toBeDefined();
+  });
+
+  test("fails the map when Firecrawl rejects it", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce(
+          jsonResponse({ error: "Insufficient credits" }, 402),
+        ),
+    );
+
+    const t = initConvexTest();
+    const { mapId } = await t.mutation(api.map.mapSite, {
+      url: "https://example.com",
+      apiKey: "test-key",
+    });
+
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const siteMap = await t.query(api.map.getSiteMap, { id: mapId });
+    expect(siteMap?.status).toBe("failed");
+    expect(siteMap?.error).toBe("Insufficient credits");
+    expect(siteMap?.errorCode).toBe(402);
+  });
+});
+
+describe("scrapeSiteMap mutation", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("rejects maps that are not completed", async () => {
+    const t = initConvexTest();
+    const { mapId } = await t.mutation(api.map.mapSite, {
+      url: "https://example.com",
+      apiKey: "test-key",
+    });
+
+    await expect(
+      t.mutation(api.map.scrapeSiteMap, { mapId, apiKey: "test-key" }),
+    ).rejects.toThrow("Site map is not completed");
+  });
+
+  test("starts scrape jobs in batches and reuses running scrapes", async () => {
+    const t = initConvexTest();
+    const mapId = await completedMap(t, [
+      "https://example.com/a",
+      "https://example.com/b",
+      "https://example.com/c",
+    ]);
+
+    const running = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/b",
+      apiKey: "test-key",
+    });
+
+    const first = await t.mutation(api.map.scrapeSiteMap, {
+      mapId,
+      apiKey: "test-key",
+      limit: 2,
+    });
+    expect(first.nextOffset).toBe(2);
+    expect(first.failed).toEqual([]);
+    expect(first.jobs.map((j) => j.url)).toEqual([
+      "https://example.com/a",
+      "https://example.com/b",
+    ]);
+    expect(first.jobs[0].started).toBe(true);
+    expect(first.jobs[1]).toMatchObject({
+      jobId: running.jobId,
+      started: false,
+    });
+
+    const second = await t.mutation(api.map.scrapeSiteMap, {
+      mapId,
+      apiKey: "test-key",
+      offset: first.nextOffset!,
+      limit: 2,
+    });
+    expect(second.nextOffset).toBeNull();
+    expect(second.jobs.map((j) => j.url)).toEqual(["https://example.com/c"]);
+
+    const job = await t.query(api.lib.get, { id: second.jobs[0].jobId });
+    expect(job?.status).toBe("pending");
+  });
+});
+
+describe("site map namespaces", () => {
+  test("site maps are cached and read per namespace", async () => {
+    const t = initConvexTest();
+    const mapId = await completedMap(t, ["https://example.com/a"]);
+
+    expect(
+      await t.query(api.map.getSiteMap, { id: mapId, namespace: "tenant-a" }),
+    ).toBeNull();
+    expect(
+      await t.query(api.map.getCachedSiteMap, {
+        url: "https://example.com",
+        namespace: "tenant-a",
+      }),
+    ).toBeNull();
+    await expect(
+      t.mutation(api.map.scrapeSiteMap, {
+        mapId,
+        apiKey: "test-key",
+        namespace: "tenant-a",
+      }),
+    ).rejects.toThrow("Site map is not completed");
+
+    // The shared map is not reused for another namespace
+    const tenantA = await t.mutation(api.map.mapSite, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      namespace: "tenant-a",
+    });
+    expect(tenantA).toEqual({ mapId: expect.any(String), started: true });
+    expect(tenantA.mapId).not.toBe(mapId);
+  });
+});
+
+describe("site map cleanup", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("cleanupExpiredSiteMaps deletes finished maps past expiry", async () => {
+    const t = initConvexTest();
+    const { mapId } = await t.mutation(api.map.mapSite, {
+      url: "https://example.com",
+      apiKey: "test-key",
+      options: { ttlMs: 1000 },
+    });
+    const running = await t.mutation(api.map.mapSite, {
+      url: "https://example.org",
+      apiKey: "test-key",
+      options: { ttlMs: 1000 },
+    });
+    await t.mutation(internal.map.markMapping, { mapId });
+    await t.mutation(internal.map.completeSiteMap, {
+      mapId,
+      urls: [],
+      truncated: false,
+      ttlMs: 1000,
+      usage: { credits: 1, estimated: true, keyHash: "test" },
+    });
+
+    vi.advanceTimersByTime(2000);
+    const result = await t.mutation(internal.map.cleanupExpiredSiteMaps, {});
+
+    expect(result.deletedCount).toBe(1);
+    expect(await t.query(api.map.getSiteMap, { id: mapId })).toBeNull();
+    expect(
+      await t.query(api.map.getSiteMap, { id: running.mapId }),
+    ).not.toBeNull();
+  });
+});
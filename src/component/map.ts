@@ -0,0 +1,629 @@
+/**
+ * Site map discovery for the Firecrawl Scrape component.
+ *
+ * mapSite lists the URLs on a site with Firecrawl's map endpoint and caches
+ * the list per normalized origin, with the same TTL and expiry model as
+ * scrapes. scrapeSiteMap fans the URLs out into regular scrape jobs.
+ */
+
+import { v } from "convex/values";
+import {
+  query,
+  mutation,
+  internalMutation,
+  internalAction,
+} from "./_generated/server.js";
+import { internal } from "./_generated/api.js";
+import schema from "./schema.js";
+import {
+  validateUrl,
+  formatValidationError,
+  normalizeUrl,
+  hashUrl,
+} from "./url.js";
+import { CONFIG } from "./config.js";
+import { scrapeOptionsValidator } from "./options.js";
+import {
+  firecrawlEndpointFields,
+  firecrawlKeyFields,
+  firecrawlKeyRefFields,
+} from "./validators.js";
+import {
+  getByteLength,
+  reserveRateLimitSlot,
+  readFirecrawlError,
+  checkFirecrawlEndpoint,
+  firecrawlUrl,
+  firecrawlAuthHeaders,
+} from "./firecrawl.js";
+import { checkTtl, enqueueScrape } from "./jobs.js";
+import {
+  resolveFirecrawlKey,
+  selectFirecrawlKey,
+  recordKeyFailure,
+} from "./credentials.js";
+import { loadPolicyRules, validateScrapeUrl } from "./policy.js";
+import {
+  checkBudgets,
+  recordUsage,
+  reportedCredits,
+  scrapeUsageValidator,
+} from "./usage.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Normalized origin of a URL, e.g. "https://example.com:8443" */
+function siteOrigin(url: string): string {
+  const normalized = new URL(normalizeUrl(url));
+  return `${normalized.protocol}//${normalized.host}`;
+}
+
+// ============================================================================
+// Validators
+// ============================================================================
+
+const mapOptionsValidator = v.object({
+  limit: v.optional(v.number()),
+  includeSubdomains: v.optional(v.boolean()),
+  ttlMs: v.optional(v.number()),
+  force: v.optional(v.boolean()),
+});
+
+const siteMapValidator = schema.tables.siteMaps.validator.extend({
+  _id: v.id("siteMaps"),
+  _creationTime: v.number(),
+});
+
+// ============================================================================
+// Public Queries
+// ============================================================================
+
+/**
+ * Get a site map by ID. Reactive: subscribe to follow it from pending to
+ * completed. A site map in another namespace is treated as not found.
+ */
+export const getSiteMap = query({
+  args: {
+    id: v.id("siteMaps"),
+    namespace: v.optional(v.string()),
+  },
+  returns: v.union(v.null(), siteMapValidator),
+  handler: async (ctx, args) => {
+    const siteMap = await ctx.db.get(args.id);
+    if (!siteMap || siteMap.namespace !== args.namespace) {
+      return null;
+    }
+    return siteMap;
+  },
+});
+
+/**
+ * Get the cached site map for a URL's origin (if a valid one exists) that was
+ * mapped with the given `includeSubdomains` setting (default false).
+ *
+ * Returns null for expired content, like getCached.
+ */
+export const getCachedSiteMap = query({
+  args: {
+    url: v.string(),
+    namespace: v.optional(v.string()),
+    includeSubdomains: v.optional(v.boolean()),
+  },
+  returns: v.union(v.null(), siteMapValidator),
+  handler: async (ctx, args) => {
+    const validation = validateUrl(args.url);
+    if (!validation.valid) {
+      return null;
+    }
+
+    const originHash = await hashUrl(siteOrigin(args.url));
+    const siteMaps = await ctx.db
+      .query("siteMaps")
+      .withIndex("by_namespace_origin_hash", (q) =>
+        q.eq("namespace", args.namespace).eq("originHash", originHash),
+      )
+      .order("desc")
+      .take(10);
+
+    const includeSubdomains = args.includeSubdomains ?? false;
+    const now = Date.now();
+    return (
+      siteMaps.find(
+        (m) =>
+          m.status === "completed" &&
+          m.includeSubdomains === includeSubdomains &&
+          m.expiresAt > now,
+      ) ?? null
+    );
+  },
+});
+
+// ============================================================================
+// Public Mutations
+// ============================================================================
+
+/**
+ * Discover the URLs on a site.
+ *
+ * Returns immediately with a site map ID. A valid cached map for the same
+ * origin (with at least the requested limit) or a map already in progress is
+ * reused; otherwise the map endpoint is called in a scheduled action. Uses
+ * one rate limit slot when a new map is started.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients. Use `exposeApi()` from the client package to create
+ * authenticated wrappers that control API key access.
+ *
+ * @param url - Any URL on the site; only its origin is used
+ * @param apiKey - Firecrawl API key or key pool (or pass `credential` instead)
+ * @param credential - ID or label of a credential stored with setCredential, or a list
+ * @param namespace - Cache namespace (e.g. a tenant ID); unset is shared
+ * @param apiBaseUrl - Firecrawl API base URL (defaults to CONFIG.FIRECRAWL_API_BASE)
+ * @param apiKeyHeader - Header for the API key (defaults to Authorization: Bearer)
+ * @param options - Map options (limit, includeSubdomains, ttl, force)
+ * @param maxRequestsPerMinute - Rate limit for this API key
+ * @returns Site map ID, and whether a new map was started
+ *
+ * @internal
+ */
+export const mapSite = mutation({
+  args: {
+    url: v.string(),
+    ...firecrawlKeyFields,
+    namespace: v.optional(v.string()),
+    ...firecrawlEndpointFields,
+    options: v.optional(mapOptionsValidator),
+    maxRequestsPerMinute: v.optional(v.number()),
+  },
+  returns: v.object({ mapId: v.id("siteMaps"), started: v.boolean() }),
+  handler: async (ctx, args) => {
+    const { url, options = {} } = args;
+    const maxRequestsPerMinute =
+      args.maxRequestsPerMinute ?? CONFIG.DEFAULT_RATE_LIMIT_PER_MINUTE;
+    if (!(maxRequestsPerMinute > 0)) {
+      throw new Error("maxRequestsPerMinute must be greater than 0");
+    }
+
+    // 1. Validate URL, endpoint, API key and limit
+    const validation = validateScrapeUrl(url, await loadPolicyRules(ctx));
+    if (!validation.valid) {
+      throw new Error(formatValidationError(validation.error));
+    }
+    checkFirecrawlEndpoint(args);
+    const { keyRef, keyHashes, rateLimitKey } = await resolveFirecrawlKey(
+      ctx,
+      args,
+    );
+    const limit = Math.min(
+      options.limit ?? CONFIG.MAX_MAP_URLS,
+      CONFIG.MAX_MAP_URLS,
+    );
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error("Map limit must be a positive integer");
+    }
+    checkTtl(options.ttlMs);
+    const includeSubdomains = options.includeSubdomains ?? false;
+
+    // 2. Normalize to the origin and compute hash
+    const origin = siteOrigin(url);
+    const originHash = await hashUrl(origin);
+
+    const existing = await ctx.db
+      .query("siteMaps")
+      .withIndex("by_namespace_origin_hash", (q) =>
+        q.eq("namespace", args.namespace).eq("originHash", originHash),
+      )
+      .order("desc")
+      .take(10);
+
+    // 3. Handle force option - drop the namespace's cached maps for this origin
+    // with the same includeSubdomains setting
+    if (options.force) {
+      for (const siteMap of existing) {
+        if (
+          siteMap.status === "completed" &&
+          siteMap.includeSubdomains === includeSubdomains
+        ) {
+          await ctx.db.delete(siteMap._id);
+        }
+      }
+    }
+
+    // 4. Reuse a map in progress or a valid cached map with the same settings
+    const now = Date.now();
+    for (const siteMap of existing) {
+      if (siteMap.includeSubdomains !== includeSubdomains) {
+        continue;
+      }
+      if (siteMap.status === "pending" || siteMap.status === "mapping") {
+        return { mapId: siteMap._id, started: false };
+      }
+      if (
+        !options.force &&
+        siteMap.status === "completed" &&
+        siteMap.expiresAt > now &&
+        siteMap.limit >= limit
+      ) {
+        return { mapId: siteMap._id, started: false };
+      }
+    }
+
+    // 5. Reject the map once the namespace's or key's credit budget is used up
+    await checkBudgets(ctx, args.namespace, keyHashes, now);
+
+    // 6. Reserve a rate limit slot for this API key
+    const queuedUntil = await reserveRateLimitSlot(
+      ctx,
+      rateLimitKey,
+      maxRequestsPerMinute,
+      now,
+    );
+
+    // 7. Create pending record and schedule the map action
+    const ttlMs = options.ttlMs ?? CONFIG.DEFAULT_TTL_MS;
+    const mapId = await ctx.db.insert("siteMaps", {
+      origin,
+      originHash,
+      namespace: args.namespace,
+      status: "pending",
+      limit,
+      includeSubdomains,
+      rateLimitKey,
+      startedAt: now,
+      expiresAt: now + ttlMs, // Will be updated on completion
+    });
+
+    await ctx.scheduler.runAfter(queuedUntil - now, internal.map.mapAction, {
+      mapId,
+      origin,
+      ...keyRef,
+      apiBaseUrl: args.apiBaseUrl,
+      apiKeyHeader: args.apiKeyHeader,
+      limit,
+      includeSubdomains,
+      ttlMs,
+    });
+
+    return { mapId, started: true };
+  },
+});
+
+/**
+ * Fan the URLs of a completed site map out into scrape jobs.
+ *
+ * Processes up to CONFIG.MAX_MAP_FANOUT_BATCH URLs per call starting at
+ * `offset`; call again with `nextOffset` until it is null. Each URL goes
+ * through the same path as startScrape (cache hits, rate limiting), and a
+ * scrape already in progress is reused rather than treated as an error. Only
+ * site maps in the caller's namespace can be fanned out.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients. Use `exposeApi()` from the client package to create
+ * authenticated wrappers that control API key access.
+ *
+ * @internal
+ */
+export const scrapeSiteMap = mutation({
+  args: {
+    mapId: v.id("siteMaps"),
+    ...firecrawlKeyFields,
+    namespace: v.optional(v.string()),
+    ...firecrawlEndpointFields,
+    options: v.optional(scrapeOptionsValidator),
+    maxRequestsPerMinute: v.optional(v.number()),
+    offset: v.optional(v.number()),
+    limit: v.optional(v.number()),
+  },
+  returns: v.object({
+    jobs: v.array(
+      v.object({
+        url: v.string(),
+        jobId: v.id("scrapes"),
+        started: v.boolean(),
+      }),
+    ),
+    failed: v.array(v.object({ url: v.string(), error: v.string() })),
+    nextOffset: v.union(v.null(), v.number()),
+  }),
+  handler: async (ctx, args) => {
+    const siteMap = await ctx.db.get(args.mapId);
+    if (
+      !siteMap ||
+      siteMap.namespace !== args.namespace ||
+      siteMap.status !== "completed"
+    ) {
+      throw new Error("Site map is not completed");
+    }
+    checkFirecrawlEndpoint(args);
+    await resolveFirecrawlKey(ctx, args);
+
+    const urls = siteMap.urls ?? [];
+    const offset = Math.max(0, args.offset ?? 0);
+    const batchSize = Math.min(
+      args.limit ?? CONFIG.MAX_MAP_FANOUT_BATCH,
+      CONFIG.MAX_MAP_FANOUT_BATCH,
+    );
+    const batch = urls.slice(offset, offset + batchSize);
+
+    const policyRules = await loadPolicyRules(ctx);
+    const jobs = [];
+    const failed = [];
+    for (const url of batch) {
+      try {
+        const { jobId, started } = await enqueueScrape(
+          ctx,
+          {
+            url,
+            apiKey: args.apiKey,
+            credential: args.credential,
+            namespace: args.namespace,
+            apiBaseUrl: args.apiBaseUrl,
+            apiKeyHeader: args.apiKeyHeader,
+            options: args.options,
+            maxRequestsPerMinute: args.maxRequestsPerMinute,
+          },
+          true,
+          policyRules,
+        );
+        jobs.push({ url, jobId, started });
+      } catch (error) {
+        failed.push({
+          url,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    const end = offset + batch.length;
+    return { jobs, failed, nextOffset: end < urls.length ? end : null };
+  },
+});
+
+// ============================================================================
+// Internal Mutations
+// ============================================================================
+
+/**
+ * Mark a site map as in progress. Returns false if it is no longer pending.
+ */
+export const markMapping = internalMutation({
+  args: {
+    mapId: v.id("siteMaps"),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const siteMap = await ctx.db.get(args.mapId);
+    if (!siteMap || siteMap.status !== "pending") {
+      return false;
+    }
+
+    await ctx.db.patch(args.mapId, { status: "mapping" });
+    return true;
+  },
+});
+
+/**
+ * Record the map's credits and store the discovered URLs. The URLs are not
+ * stored unless the map is still in progress.
+ */
+export const completeSiteMap = internalMutation({
+  args: {
+    mapId: v.id("siteMaps"),
+    urls: v.array(v.string()),
+    truncated: v.boolean(),
+    ttlMs: v.number(),
+    usage: scrapeUsageValidator,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const siteMap = await ctx.db.get(args.mapId);
+    if (!siteMap) {
+      return null;
+    }
+    await recordUsage(ctx, siteMap.namespace, args.usage);
+    if (siteMap.status !== "mapping") {
+      return null;
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.mapId, {
+      status: "completed",
+      urls: args.urls,
+      urlCount: args.urls.length,
+      truncated: args.truncated,
+      mappedAt: now,
+      expiresAt: now + args.ttlMs,
+    });
+    return null;
+  },
+});
+
+/**
+ * Mark a site map as failed with error details.
+ *
+ * No-op if the map is already in a terminal state.
+ */
+export const failSiteMap = internalMutation({
+  args: {
+    mapId: v.id("siteMaps"),
+    error: v.string(),
+    errorCode: v.optional(v.union(v.number(), v.string())),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const siteMap = await ctx.db.get(args.mapId);
+    if (
+      !siteMap ||
+      siteMap.status === "completed" ||
+      siteMap.status === "failed"
+    ) {
+      return null;
+    }
+
+    await ctx.db.patch(args.mapId, {
+      status: "failed",
+      error: args.error,
+      errorCode: args.errorCode,
+    });
+    return null;
+  },
+});
+
+// ============================================================================
+// Internal Actions
+// ============================================================================
+
+/**
+ * Internal action that calls the Firecrawl map endpoint.
+ *
+ * Discovered URLs that fail validation are dropped, duplicates are removed
+ * by normalized URL, and the list is capped at the map limit and
+ * CONFIG.MAX_MAP_URL_BYTES.
+ */
+export const mapAction = internalAction({
+  args: {
+    mapId: v.id("siteMaps"),
+    origin: v.string(),
+    ...firecrawlKeyRefFields,
+    ...firecrawlEndpointFields,
+    limit: v.number(),
+    includeSubdomains: v.boolean(),
+    ttlMs: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { mapId, origin, limit, includeSubdomains, ttlMs } = args;
+
+    const started = await ctx.runMutation(internal.map.markMapping, {
+      mapId,
+    });
+    if (!started) {
+      return null;
+    }
+
+    const key = await selectFirecrawlKey(ctx, args);
+    if (key === null) {
+      await ctx.runMutation(internal.map.failSiteMap, {
+        mapId,
+        error: "Firecrawl credential not found or over its credit budget",
+      });
+      return null;
+    }
+
+    try {
+      const response = await fetch(firecrawlUrl(args, "/map"), {
+        method: "POST",
+        headers: {
+          ...firecrawlAuthHeaders(key.apiKey, args),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ url: origin, limit, includeSubdomains }),
+      });
+
+      if (!response.ok) {
+        const { errorMessage, errorCode } = await readFirecrawlError(response);
+        await recordKeyFailure(ctx, key.keyHash, response);
+        await ctx.runMutation(internal.map.failSiteMap, {
+          mapId,
+          error: errorMessage,
+          errorCode,
+        });
+        return null;
+      }
+
+      const result = await response.json();
+      if (!result.success) {
+        await ctx.runMutation(internal.map.failSiteMap, {
+          mapId,
+          error: result.error || "Firecrawl map failed",
+          errorCode: result.code,
+        });
+        return null;
+      }
+
+      // Links are plain strings or { url, title, description } objects
+      const links: unknown[] = result.links ?? [];
+      const urls: string[] = [];
+      const seen = new Set<string>();
+      let bytes = 0;
+      let truncated = false;
+
+      for (const link of links) {
+        const url =
+          typeof link === "string" ? link : (link as { url?: unknown })?.url;
+        if (typeof url !== "string" || !validateUrl(url).valid) {
+          continue;
+        }
+        const normalized = normalizeUrl(url);
+        if (seen.has(normalized)) {
+          continue;
+        }
+        if (urls.length >= limit) {
+          break;
+        }
+        if (bytes + getByteLength(url) > CONFIG.MAX_MAP_URL_BYTES) {
+          truncated = true;
+          break;
+        }
+        seen.add(normalized);
+        urls.push(url);
+        bytes += getByteLength(url);
+      }
+
+      const reported = reportedCredits(result);
+      await ctx.runMutation(internal.map.completeSiteMap, {
+        mapId,
+        urls,
+        truncated,
+        ttlMs,
+        usage: {
+          credits: reported ?? CONFIG.MAP_CREDITS,
+          estimated: reported === undefined,
+          keyHash: key.keyHash,
+        },
+      });
+      return null;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      await ctx.runMutation(internal.map.failSiteMap, {
+        mapId,
+        error: errorMessage,
+      });
+      return null;
+    }
+  },
+});
+
+// ============================================================================
+// Cron Job Mutations
+// ============================================================================
+
+/**
+ * Delete finished site maps past their expiry.
+ */
+export const cleanupExpiredSiteMaps = internalMutation({
+  args: {},
+  returns: v.object({ deletedCount: v.number() }),
+  handler: async (ctx) => {
+    const now = Date.now();
+    const expired = await ctx.db
+      .query("siteMaps")
+      .withIndex("by_expires", (q) => q.lt("expiresAt", now))
+      .take(CONFIG.CLEANUP_BATCH_SIZE);
+
+    let deletedCount = 0;
+    for (const siteMap of expired) {
+      // Never delete maps still in progress
+      if (siteMap.status !== "completed" && siteMap.status !== "failed") {
+        continue;
+      }
+      await ctx.db.delete(siteMap._id);
+      deletedCount++;
+    }
+
+    return { deletedCount };
+  },
+});
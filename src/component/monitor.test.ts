@@ -0,0 +1,334 @@
+/// <reference types="vite/client" />
+
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api.js";
+import { initConvexTest } from "./setup.test.js";
+import { CONFIG } from "./config.js";
+import type { Id } from "./_generated/dataModel.js";
+
+// Callbacks are app functions, so they are only scheduled here, never run
+const onChange = "function://;callbacks:onChanged";
+
+async function scheduledChanges(t: ReturnType<typeof initConvexTest>) {
+  const scheduled = await t.run(async (ctx) =>
+    ctx.db.system.query("_scheduled_functions").collect(),
+  );
+  return scheduled
+    .filter((fn) => fn.name === "callbacks:onChanged")
+    .map((fn) => fn.args[0]);
+}
+
+// Start the monitor's due run and complete it with the given content hash
+async function completeRun(
+  t: ReturnType<typeof initConvexTest>,
+  monitorId: Id<"monitors">,
+  contentHash: string,
+) {
+  await t.mutation(internal.monitor.runDueMonitors, {});
+  const monitor = await t.query(api.monitor.getMonitor, { id: monitorId });
+  const jobId = monitor!.lastJobId!;
+  await t.mutation(internal.lib.completeScrape, {
+    jobId,
+    markdown: `# ${contentHash}`,
+    contentHash,
+    ttlMs: 60_000,
+  });
+  vi.setSystemTime(monitor!.nextRunAt);
+  return jobId;
+}
+
+describe("createMonitor mutation", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("rejects invalid URLs and intervals", async () => {
+    const t = initConvexTest();
+
+    await expect(
+      t.mutation(api.monitor.createMonitor, {
+        url: "http://localhost/admin",
+        intervalMs: 60_000,
+        apiKey: "test-key",
+      }),
+    ).rejects.toThrow();
+    await expect(
+      t.mutation(api.monitor.createMonitor, {
+        url: "https://example.com/pricing",
+        intervalMs: CONFIG.MIN_MONITOR_INTERVAL_MS - 1,
+        apiKey: "test-key",
+      }),
+    ).rejects.toThrow(/intervalMs/);
+  });
+
+  test("creates an active monitor that is due right away", async () => {
+    const t = initConvexTest();
+    const { monitorId } = await t.mutation(api.monitor.createMonitor, {
+      url: "https://EXAMPLE.com/pricing",
+      intervalMs: 3_600_000,
+      apiKey: "test-key",
+      options: { formats: ["markdown"] },
+    });
+
+    const monitor = await t.query(api.monitor.getMonitor, { id: monitorId });
+    expect(monitor?.status).toBe("active");
+    expect(monitor?.normalizedUrl).toBe("https://example.com/pricing");
+    expect(monitor?.nextRunAt).toBe(Date.now());
+    expect(monitor).not.toHaveProperty("apiKey");
+
+    const { monitors } = await t.query(api.monitor.listMonitors, {});
+    expect(monitors.map((m) => m._id)).toEqual([monitorId]);
+    expect(monitors[0]).not.toHaveProperty("apiKey");
+  });
+});
+
+describe("runDueMonitors cron", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("starts a forced scrape for each due, active monitor", async () => {
+    const t = initConvexTest();
+    const { monitorId } = await t.mutation(api.monitor.createMonitor, {
+      url: "https://example.com/pricing",
+      intervalMs: 3_600_000,
+      apiKey: "test-key",
+    });
+    const paused = await t.mutation(api.monitor.createMonitor, {
+      url: "https://example.com/status",
+      intervalMs: 3_600_000,
+      apiKey: "test-key",
+    });
+    await t.mutation(api.monitor.pauseMonitor, { id: paused.monitorId });
+
+    // A valid cache entry does not stop the run
+    const cached = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/pricing",
+      apiKey: "test-key",
+    });
+    await t.mutation(internal.lib.completeScrape, {
+      jobId: cached.jobId,
+      markdown: "# Cached",
+      ttlMs: 60_000,
+    });
+
+    const now = Date.now();
+    const result = await t.mutation(internal.monitor.runDueMonitors, {});
+    expect(result.startedCount).toBe(1);
+
+    const monitor = await t.query(api.monitor.getMonitor, { id: monitorId });
+    expect(monitor?.lastRunAt).toBe(now);
+    expect(monitor?.nextRunAt).toBe(now + 3_600_000);
+    expect(monitor?.lastJobId).not.toBe(cached.jobId);
+    const job = await t.query(api.lib.get, { id: monitor!.lastJobId! });
+    expect(job?.status).toBe("pending");
+    expect(job?.monitorId).toBe(monitorId);
+
+    const pausedMonitor = await t.query(api.monitor.getMonitor, {
+      id: paused.monitorId,
+    });
+    expect(pausedMonitor?.lastRunAt).toBeUndefined();
+
+    // Not due again until the interval has passed
+    const again = await t.mutation(internal.monitor.runDueMonitors, {});
+    expect(again.startedCount).toBe(0);
+  });
+
+  test("keeps sensitive headers out of monitor records and scheduled args", async () => {
+    const t = initConvexTest();
+    const { monitorId } = await t.mutation(api.monitor.createMonitor, {
+      url: "https://example.com/account",
+      intervalMs: 3_600_000,
+      apiKey: "test-key",
+      options: { headers: { "Accept-Language": "de", Cookie: "session=abc" } },
+    });
+
+    const redacted = { "accept-language": "de", cookie: "[redacted]" };
+    const monitor = await t.query(api.monitor.getMonitor, { id: monitorId });
+    expect(monitor?.options?.headers).toEqual(redacted);
+    const { monitors } = await t.query(api.monitor.listMonitors, {});
+    expect(monitors[0].options?.headers).toEqual(redacted);
+
+    // The run sends the cookie, but it never reaches the scheduler
+    await t.mutation(internal.monitor.runDueMonitors, {});
+    const scheduled = await t.run(async (ctx) =>
+      ctx.db.system.query("_scheduled_functions").collect(),
+    );
+    expect(scheduled).toHaveLength(1);
+    expect(scheduled[0].args[0].options.headers).toEqual(redacted);
+    const secrets = await t.run(async (ctx) =>
+      ctx.db.query("secretHeaders").collect(),
+    );
+    expect(secrets.map((row) => row.headers)).toEqual([
+      { cookie: "session=abc" },
+      { cookie: "session=abc" },
+    ]);
+
+    await t.mutation(api.monitor.deleteMonitor, { id: monitorId });
+    const remaining = await t.run(async (ctx) =>
+      ctx.db.query("secretHeaders").collect(),
+    );
+    expect(remaining.map((row) => row.monitorId)).toEqual([undefined]);
+  });
+
+  test("keeps a raw API key off the monitor record and runs with it", async () => {
+    const t = initConvexTest();
+    const { monitorId } = await t.mutation(api.monitor.createMonitor, {
+      url: "https://example.com/pricing",
+      intervalMs: 3_600_000,
+      apiKey: "fc-monitor-key",
+    });
+    const monitor = await t.run(async (ctx) => ctx.db.get(monitorId));
+    expect(JSON.stringify(monitor)).not.toContain("fc-monitor-key");
+
+    await t.mutation(internal.monitor.runDueMonitors, {});
+    const scheduled = await t.run(async (ctx) =>
+      ctx.db.system.query("_scheduled_functions").collect(),
+    );
+    expect(scheduled).toHaveLength(1);
+    expect(scheduled[0].args[0].apiKey).toBe("fc-monitor-key");
+
+    await t.mutation(api.monitor.deleteMonitor, { id: monitorId });
+    const secrets = await t.run(async (ctx) =>
+      ctx.db.query("secretHeaders").collect(),
+    );
+    expect(secrets).toEqual([]);
+  });
+
+  test("records why a run could not be started", async () => {
+    const t = initConvexTest();
+    const { monitorId } = await t.mutation(api.monitor.createMonitor, {
+      url: "https://example.com/pricing",
+      intervalMs: 60_000,
+      apiKey: "test-key",
+      options: { keepVersions: 0 },
+    });
+
+    await t.mutation(internal.monitor.runDueMonitors, {});
+
+    const monitor = await t.query(api.monitor.getMonitor, { id: monitorId });
+    expect(monitor?.lastError).toMatch(/keepVersions/);
+    expect(monitor?.lastJobId).toBeUndefined();
+    expect(monitor?.nextRunAt).toBe(Date.now() + 60_000);
+  });
+});
+
+describe("monitor change detection", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("schedules onChange only when the content hash changes", async () => {
+    const t = initConvexTest();
+    const { monitorId } = await t.mutation(api.monitor.createMonitor, {
+      url: "https://example.com/pricing",
+      intervalMs: 60_000,
+      apiKey: "test-key",
+      onChange,
+    });
+
+    await completeRun(t, monitorId, "v1");
+    await completeRun(t, monitorId, "v1");
+    expect(await scheduledChanges(t)).toEqual([]);
+
+    const changedJob = await completeRun(t, monitorId, "v2");
+    expect(await scheduledChanges(t)).toEqual([
+      { monitorId, jobId: changedJob },
+    ]);
+
+    const monitor = await t.query(api.monitor.getMonitor, { id: monitorId });
+    expect(monitor?.lastContentHash).toBe("v2");
+    expect(monitor?.lastChangedAt).toBeDefined();
+  });
+
+  test("pause, resume and delete", async () => {
+    const t = initConvexTest();
+    const { monitorId } = await t.mutation(api.monitor.createMonitor, {
+      url: "https://example.com/pricing",
+      intervalMs: 60_000,
+      apiKey: "test-key",
+    });
+
+    await t.mutation(api.monitor.pauseMonitor, { id: monitorId });
+    expect(
+      (await t.mutation(internal.monitor.runDueMonitors, {})).startedCount,
+    ).toBe(0);
+
+    await t.mutation(api.monitor.resumeMonitor, { id: monitorId });
+    expect(
+      (await t.mutation(internal.monitor.runDueMonitors, {})).startedCount,
+    ).toBe(1);
+
+    // A run in flight when the monitor is deleted completes normally
+    const monitor = await t.query(api.monitor.getMonitor, { id: monitorId });
+    expect(
+      await t.mutation(api.monitor.deleteMonitor, { id: monitorId }),
+    ).toEqual({ success: true });
+    await t.mutation(internal.lib.completeScrape, {
+      jobId: monitor!.lastJobId!,
+      markdown: "# Done",
+      contentHash: "v1",
+      ttlMs: 60_000,
+    });
+    expect(await t.query(api.monitor.getMonitor, { id: monitorId })).toBeNull();
+    expect(
+      await t.mutation(api.monitor.pauseMonitor, { id: monitorId }),
+    ).toEqual({ success: false });
+  });
+});
+
+describe("monitor namespaces", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("monitors are only listed and changed in their namespace", async () => {
+    const t = initConvexTest();
+    const { monitorId } = await t.mutation(api.monitor.createMonitor, {
+      url: "https://example.com/pricing",
+      intervalMs: 3_600_000,
+      apiKey: "test-key",
+      namespace: "tenant-a",
+    });
+    const shared = await t.mutation(api.monitor.createMonitor, {
+      url: "https://example.com/status",
+      intervalMs: 3_600_000,
+      apiKey: "test-key",
+    });
+
+    const listA = await t.query(api.monitor.listMonitors, {
+      namespace: "tenant-a",
+    });
+    expect(listA.monitors.map((m) => m._id)).toEqual([monitorId]);
+    const listShared = await t.query(api.monitor.listMonitors, {});
+    expect(listShared.monitors.map((m) => m._id)).toEqual([shared.monitorId]);
+
+    expect(await t.query(api.monitor.getMonitor, { id: monitorId })).toBeNull();
+    for (const fn of [
+      api.monitor.pauseMonitor,
+      api.monitor.resumeMonitor,
+      api.monitor.deleteMonitor,
+    ]) {
+      expect(
+        await t.mutation(fn, { id: monitorId, namespace: "tenant-b" }),
+      ).toEqual({ success: false });
+    }
+    const monitor = await t.query(api.monitor.getMonitor, {
+      id: monitorId,
+      namespace: "tenant-a",
+    });
+    expect(monitor?.status).toBe("active");
+  });
+});
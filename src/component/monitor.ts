@@ -0,0 +1,338 @@
+/**
+ * URL monitors for the Firecrawl Scrape component.
+ *
+ * A monitor re-scrapes a URL on a fixed interval. The run-monitors cron
+ * starts a forced scrape for each due monitor through the same path as
+ * startScrape; when the scrape completes, the monitor records its content
+ * hash and schedules the onChange callback if the content changed.
+ */
+
+import { v } from "convex/values";
+import { query, mutation, internalMutation } from "./_generated/server.js";
+import schema from "./schema.js";
+import { formatValidationError, normalizeUrl, hashUrl } from "./url.js";
+import { CONFIG } from "./config.js";
+import { scrapeOptionsValidator } from "./options.js";
+import { firecrawlEndpointFields, firecrawlKeyFields } from "./validators.js";
+import { checkFirecrawlEndpoint } from "./firecrawl.js";
+import {
+  enqueueScrape,
+  redactHeaders,
+  storeSecretHeaders,
+  loadSecretHeaders,
+  loadSecretApiKey,
+  deleteSecretHeaders,
+} from "./jobs.js";
+import { resolveFirecrawlKey } from "./credentials.js";
+import { loadPolicyRules, validateScrapeUrl } from "./policy.js";
+
+// ============================================================================
+// Validators
+// ============================================================================
+
+const monitorValidator = schema.tables.monitors.validator.extend({
+  _id: v.id("monitors"),
+  _creationTime: v.number(),
+});
+
+// ============================================================================
+// Public Queries
+// ============================================================================
+
+/**
+ * Get a monitor by ID, with its last run and content hash. A monitor in
+ * another namespace is treated as not found.
+ */
+export const getMonitor = query({
+  args: {
+    id: v.id("monitors"),
+    namespace: v.optional(v.string()),
+  },
+  returns: v.union(v.null(), monitorValidator),
+  handler: async (ctx, args) => {
+    const monitor = await ctx.db.get(args.id);
+    if (!monitor || monitor.namespace !== args.namespace) {
+      return null;
+    }
+    return monitor;
+  },
+});
+
+/**
+ * List the monitors in a namespace, newest first, with pagination.
+ */
+export const listMonitors = query({
+  args: {
+    namespace: v.optional(v.string()),
+    limit: v.optional(v.number()),
+    cursor: v.optional(v.string()),
+  },
+  returns: v.object({
+    monitors: v.array(monitorValidator),
+    nextCursor: v.union(v.null(), v.string()),
+    hasMore: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    const limit = Math.min(
+      args.limit ?? CONFIG.DEFAULT_LIST_LIMIT,
+      CONFIG.MAX_LIST_LIMIT,
+    );
+
+    const results = await ctx.db
+      .query("monitors")
+      .withIndex("by_namespace", (q) => q.eq("namespace", args.namespace))
+      .order("desc")
+      .paginate({ cursor: args.cursor ?? null, numItems: limit });
+
+    return {
+      monitors: results.page,
+      nextCursor: results.continueCursor,
+      hasMore: !results.isDone,
+    };
+  },
+});
+
+// ============================================================================
+// Public Mutations
+// ============================================================================
+
+/**
+ * Create a monitor that scrapes a URL every `intervalMs`.
+ *
+ * The first run starts on the next cron tick. Every run bypasses the cache;
+ * `options.keepVersions` controls how many versions are kept for getChanges.
+ * A raw API key is stored in the secretHeaders table so the cron can start
+ * runs; it is not part of the monitor record. With `credential`, only the
+ * credential ID is stored and runs use its current key. Sensitive header
+ * values such as cookies are stored apart from the options and returned
+ * redacted.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients. Use `exposeApi()` from the client package to create
+ * authenticated wrappers that control API key access.
+ *
+ * @param url - The URL to monitor
+ * @param intervalMs - Time between runs (at least CONFIG.MIN_MONITOR_INTERVAL_MS)
+ * @param apiKey - Firecrawl API key or key pool for every run (or pass `credential`)
+ * @param credential - ID or label of a credential stored with setCredential, or a list
+ * @param namespace - Cache namespace the runs are scraped into
+ * @param options - Scrape options for each run (formats, proxy, etc.)
+ * @param onChange - Function handle scheduled with { monitorId, jobId } when
+ *   the content changes between runs
+ * @returns The monitor ID
+ *
+ * @internal
+ */
+export const createMonitor = mutation({
+  args: {
+    url: v.string(),
+    intervalMs: v.number(),
+    ...firecrawlKeyFields,
+    namespace: v.optional(v.string()),
+    ...firecrawlEndpointFields,
+    options: v.optional(scrapeOptionsValidator),
+    onChange: v.optional(v.string()),
+    maxRequestsPerMinute: v.optional(v.number()),
+  },
+  returns: v.object({ monitorId: v.id("monitors") }),
+  handler: async (ctx, args) => {
+    const validation = validateScrapeUrl(args.url, await loadPolicyRules(ctx));
+    if (!validation.valid) {
+      throw new Error(formatValidationError(validation.error));
+    }
+    if (!(args.intervalMs >= CONFIG.MIN_MONITOR_INTERVAL_MS)) {
+      throw new Error(
+        `intervalMs must be at least ${CONFIG.MIN_MONITOR_INTERVAL_MS}`,
+      );
+    }
+    checkFirecrawlEndpoint(args);
+    const { keyRef } = await resolveFirecrawlKey(ctx, args);
+
+    const normalizedUrl = normalizeUrl(args.url);
+    const monitorId = await ctx.db.insert("monitors", {
+      url: args.url,
+      normalizedUrl,
+      urlHash: await hashUrl(normalizedUrl),
+      intervalMs: args.intervalMs,
+      options: args.options && {
+        ...args.options,
+        headers: redactHeaders(args.options.headers),
+      },
+      credentialId: keyRef.credentialId,
+      namespace: args.namespace,
+      apiBaseUrl: args.apiBaseUrl,
+      apiKeyHeader: args.apiKeyHeader,
+      maxRequestsPerMinute: args.maxRequestsPerMinute,
+      onChange: args.onChange,
+      status: "active",
+      nextRunAt: Date.now(),
+    });
+    await storeSecretHeaders(
+      ctx,
+      { monitorId },
+      args.options?.headers,
+      keyRef.apiKey,
+    );
+
+    return { monitorId };
+  },
+});
+
+/**
+ * Pause a monitor. Runs already started still complete and are recorded.
+ * A monitor in another namespace is treated as not found.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients. Use `exposeApi()` from the client package to create
+ * authenticated wrappers.
+ *
+ * @internal
+ */
+export const pauseMonitor = mutation({
+  args: {
+    id: v.id("monitors"),
+    namespace: v.optional(v.string()),
+  },
+  returns: v.object({ success: v.boolean() }),
+  handler: async (ctx, args) => {
+    const monitor = await ctx.db.get(args.id);
+    if (!monitor || monitor.namespace !== args.namespace) {
+      return { success: false };
+    }
+    await ctx.db.patch(args.id, { status: "paused" });
+    return { success: true };
+  },
+});
+
+/**
+ * Resume a paused monitor. If a run was missed while paused, the next run
+ * starts on the next cron tick. A monitor in another namespace is treated as
+ * not found.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients. Use `exposeApi()` from the client package to create
+ * authenticated wrappers.
+ *
+ * @internal
+ */
+export const resumeMonitor = mutation({
+  args: {
+    id: v.id("monitors"),
+    namespace: v.optional(v.string()),
+  },
+  returns: v.object({ success: v.boolean() }),
+  handler: async (ctx, args) => {
+    const monitor = await ctx.db.get(args.id);
+    if (!monitor || monitor.namespace !== args.namespace) {
+      return { success: false };
+    }
+    await ctx.db.patch(args.id, { status: "active" });
+    return { success: true };
+  },
+});
+
+/**
+ * Delete a monitor. Scrapes from earlier runs are kept and expire normally.
+ * A monitor in another namespace is treated as not found.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients. Use `exposeApi()` from the client package to create
+ * authenticated wrappers.
+ *
+ * @internal
+ */
+export const deleteMonitor = mutation({
+  args: {
+    id: v.id("monitors"),
+    namespace: v.optional(v.string()),
+  },
+  returns: v.object({ success: v.boolean() }),
+  handler: async (ctx, args) => {
+    const monitor = await ctx.db.get(args.id);
+    if (!monitor || monitor.namespace !== args.namespace) {
+      return { success: false };
+    }
+    await ctx.db.delete(args.id);
+    await deleteSecretHeaders(ctx, { monitorId: args.id });
+    return { success: true };
+  },
+});
+
+// ============================================================================
+// Cron Job Mutations
+// ============================================================================
+
+/**
+ * Start a scrape for each active monitor that is due.
+ *
+ * Runs are forced so they bypass the cache. If a scrape of the URL is already
+ * in progress, the run reuses it and is not compared. The next run is
+ * scheduled an interval from now, so missed runs are not caught up.
+ */
+export const runDueMonitors = internalMutation({
+  args: {},
+  returns: v.object({ startedCount: v.number() }),
+  handler: async (ctx) => {
+    const now = Date.now();
+    const due = await ctx.db
+      .query("monitors")
+      .withIndex("by_status_next_run", (q) =>
+        q.eq("status", "active").lte("nextRunAt", now),
+      )
+      .take(CONFIG.MONITOR_BATCH_SIZE);
+
+    const policyRules = await loadPolicyRules(ctx);
+    let startedCount = 0;
+    for (const monitor of due) {
+      const nextRunAt = now + monitor.intervalMs;
+      // Stored options carry sensitive headers redacted, and a raw API key is
+      // kept apart from the monitor
+      const secretHeaders = await loadSecretHeaders(ctx, {
+        monitorId: monitor._id,
+      });
+      const apiKey = await loadSecretApiKey(ctx, { monitorId: monitor._id });
+      try {
+        const { jobId, started } = await enqueueScrape(
+          ctx,
+          {
+            url: monitor.url,
+            apiKey,
+            credential: monitor.credentialId,
+            namespace: monitor.namespace,
+            apiBaseUrl: monitor.apiBaseUrl,
+            apiKeyHeader: monitor.apiKeyHeader,
+            options: {
+              ...monitor.options,
+              headers: monitor.options?.headers && {
+                ...monitor.options.headers,
+                ...secretHeaders,
+              },
+              force: true,
+            },
+            maxRequestsPerMinute: monitor.maxRequestsPerMinute,
+          },
+          true,
+          policyRules,
+        );
+        if (started) {
+          await ctx.db.patch(jobId, { monitorId: monitor._id });
+          startedCount++;
+        }
+        await ctx.db.patch(monitor._id, {
+          nextRunAt,
+          lastRunAt: now,
+          lastJobId: jobId,
+          lastError: undefined,
+        });
+      } catch (error) {
+        await ctx.db.patch(monitor._id, {
+          nextRunAt,
+          lastRunAt: now,
+          lastError: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    return { startedCount };
+  },
+});
@@ -0,0 +1,99 @@
+/**
+ * Scrape option validators for the Firecrawl Scrape component.
+ *
+ * Kept apart from validators.ts, which is built on the schema, so that the
+ * schema can type the options it stores (e.g. on monitors).
+ */
+
+import { v } from "convex/values";
+
+export const scrapeFormatValidator = v.union(
+  v.literal("markdown"),
+  v.literal("html"),
+  v.literal("rawHtml"),
+  v.literal("links"),
+  v.literal("images"),
+  v.literal("summary"),
+  v.literal("screenshot"),
+);
+
+export const proxyValidator = v.union(
+  v.literal("basic"),
+  v.literal("stealth"),
+  v.literal("auto"),
+);
+
+// Scrape options that change the scraped content, and so the cache key
+export const cacheKeyOptionValidator = v.union(
+  v.literal("onlyMainContent"),
+  v.literal("includeTags"),
+  v.literal("excludeTags"),
+  v.literal("waitFor"),
+  v.literal("mobile"),
+  v.literal("proxy"),
+  v.literal("extractionSchema"),
+  v.literal("extractionPrompt"),
+  v.literal("actions"),
+  v.literal("headers"),
+  v.literal("location"),
+  v.literal("parsePDF"),
+);
+
+// Country (ISO 3166-1 alpha-2) and preferred languages to scrape from
+export const locationValidator = v.object({
+  country: v.optional(v.string()),
+  languages: v.optional(v.array(v.string())),
+});
+
+// Browser actions run on the page, in order, before it is captured
+export const scrapeActionValidator = v.union(
+  v.object({
+    type: v.literal("wait"),
+    milliseconds: v.optional(v.number()),
+    selector: v.optional(v.string()),
+  }),
+  v.object({
+    type: v.literal("click"),
+    selector: v.string(),
+    all: v.optional(v.boolean()),
+  }),
+  v.object({ type: v.literal("write"), text: v.string() }),
+  v.object({ type: v.literal("press"), key: v.string() }),
+  v.object({
+    type: v.literal("scroll"),
+    direction: v.optional(v.union(v.literal("up"), v.literal("down"))),
+    selector: v.optional(v.string()),
+  }),
+  v.object({
+    type: v.literal("screenshot"),
+    fullPage: v.optional(v.boolean()),
+  }),
+);
+
+export const scrapeOptionsValidator = v.object({
+  formats: v.optional(v.array(scrapeFormatValidator)),
+  extractionSchema: v.optional(v.any()),
+  extractionPrompt: v.optional(v.string()),
+  ttlMs: v.optional(v.number()),
+  force: v.optional(v.boolean()),
+  onlyMainContent: v.optional(v.boolean()),
+  includeTags: v.optional(v.array(v.string())),
+  excludeTags: v.optional(v.array(v.string())),
+  waitFor: v.optional(v.number()),
+  actions: v.optional(v.array(scrapeActionValidator)),
+  headers: v.optional(v.record(v.string(), v.string())),
+  location: v.optional(locationValidator),
+  timeout: v.optional(v.number()),
+  parsePDF: v.optional(v.boolean()),
+  storeSourceDocument: v.optional(v.boolean()),
+  mobile: v.optional(v.boolean()),
+  proxy: v.optional(proxyValidator),
+  storeScreenshot: v.optional(v.boolean()),
+  resolveDns: v.optional(v.boolean()),
+  maxRetries: v.optional(v.number()),
+  retryBaseDelayMs: v.optional(v.number()),
+  onComplete: v.optional(v.string()),
+  keepVersions: v.optional(v.number()),
+  aliasCanonical: v.optional(v.boolean()),
+  ignoreOptions: v.optional(v.array(cacheKeyOptionValidator)),
+});
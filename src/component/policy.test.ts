@@ -0,0 +1,165 @@
+/// <reference types="vite/client" />
+
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import { initConvexTest } from "./setup.test.js";
+import { jsonResponse } from "./fixtures.test.js";
+import { CONFIG } from "./config.js";
+
+describe("domain policy", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        jsonResponse({ success: true, data: { markdown: "# Page" } }),
+      ),
+    );
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  test("deny rules reject scrapes, crawls and monitors", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.policy.addPolicyRule, {
+      action: "deny",
+      pattern: "*.internal.example.com",
+    });
+
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://wiki.internal.example.com/page",
+        apiKey: "test-key",
+      }),
+    ).rejects.toThrow('matches deny pattern "*.internal.example.com"');
+    await expect(
+      t.mutation(api.crawl.startCrawl, {
+        url: "https://wiki.internal.example.com",
+        apiKey: "test-key",
+      }),
+    ).rejects.toThrow("domain policy");
+    await expect(
+      t.mutation(api.monitor.createMonitor, {
+        url: "https://wiki.internal.example.com",
+        intervalMs: 60 * 60 * 1000,
+        apiKey: "test-key",
+      }),
+    ).rejects.toThrow("domain policy");
+
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com",
+      apiKey: "test-key",
+    });
+    expect(jobId).toBeDefined();
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+  });
+
+  test("allow rules restrict scrapes to matching URLs", async () => {
+    const t = initConvexTest();
+    await t.mutation(api.policy.addPolicyRule, {
+      action: "allow",
+      pattern: "example.com/docs",
+    });
+
+    await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/docs/intro",
+      apiKey: "test-key",
+    });
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com/pricing",
+        apiKey: "test-key",
+      }),
+    ).rejects.toThrow("matches no allow pattern");
+
+    const { items } = await t.mutation(api.batch.startBatchScrape, {
+      urls: ["https://example.com/docs/setup", "https://other.com"],
+      apiKey: "test-key",
+    });
+    expect(items.map((i) => i.outcome)).toEqual(["started", "failed"]);
+    expect(items[1].error).toContain("domain policy");
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+  });
+
+  test("crawled pages the policy denies are not stored", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse({ success: true, id: "fc-crawl" }))
+        .mockResolvedValueOnce(
+          jsonResponse({
+            status: "completed",
+            total: 2,
+            completed: 2,
+            data: ["https://example.com/docs", "https://example.com/Admin"].map(
+              (url) => ({ markdown: "# Page", metadata: { sourceURL: url } }),
+            ),
+          }),
+        ),
+    );
+    const t = initConvexTest();
+    await t.mutation(api.policy.addPolicyRule, {
+      action: "deny",
+      pattern: "example.com/admin",
+    });
+
+    const { crawlId } = await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.com",
+      apiKey: "test-key",
+    });
+    await t.finishAllScheduledFunctions(() =>
+      vi.advanceTimersByTime(CONFIG.CRAWL_POLL_INTERVAL_MS),
+    );
+
+    const crawl = await t.query(api.crawl.getCrawl, { id: crawlId });
+    expect(crawl?.status).toBe("completed");
+    expect(crawl?.pagesStored).toBe(1);
+  });
+
+  test("adding an existing rule returns it and removing it lifts the rule", async () => {
+    const t = initConvexTest();
+    const first = await t.mutation(api.policy.addPolicyRule, {
+      action: "deny",
+      pattern: "example.com",
+    });
+    const second = await t.mutation(api.policy.addPolicyRule, {
+      action: "deny",
+      pattern: " example.com ",
+    });
+    expect(second.ruleId).toBe(first.ruleId);
+    expect(await t.query(api.policy.listPolicyRules, {})).toHaveLength(1);
+
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com",
+        apiKey: "test-key",
+      }),
+    ).rejects.toThrow("domain policy");
+
+    expect(
+      await t.mutation(api.policy.removePolicyRule, { id: first.ruleId }),
+    ).toEqual({ success: true });
+    expect(
+      await t.mutation(api.policy.removePolicyRule, { id: first.ruleId }),
+    ).toEqual({ success: false });
+    await t.mutation(api.lib.startScrape, {
+      url: "https://example.com",
+      apiKey: "test-key",
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+  });
+
+  test("rejects invalid patterns", async () => {
+    const t = initConvexTest();
+
+    await expect(
+      t.mutation(api.policy.addPolicyRule, {
+        action: "allow",
+        pattern: "https://example.com",
+      }),
+    ).rejects.toThrow("Invalid domain policy pattern");
+  });
+});
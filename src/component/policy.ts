@@ -0,0 +1,191 @@
+/**
+ * Domain policy for the Firecrawl Scrape component.
+ *
+ * Allow and deny rules are stored in the component and checked, on top of
+ * validateUrl's SSRF checks, whenever a scrape, crawl, site map or monitor is
+ * started - so callers of exposeApi cannot reach domains the deployment has
+ * not allowed, whatever app code sits in front of it.
+ */
+
+import { v } from "convex/values";
+import { query, mutation, internalQuery } from "./_generated/server.js";
+import type { QueryCtx } from "./_generated/server.js";
+import schema from "./schema.js";
+import { CONFIG } from "./config.js";
+import {
+  checkUrlPattern,
+  checkUrlPolicy,
+  validateUrl,
+  type UrlPolicyRule,
+  type UrlValidationResult,
+} from "./url.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Load the stored domain policy rules. Mutations that start many URLs load
+ * them once and pass them to validateScrapeUrl for each URL.
+ */
+export async function loadPolicyRules(
+  ctx: Pick<QueryCtx, "db">,
+): Promise<UrlPolicyRule[]> {
+  return await ctx.db.query("policyRules").take(CONFIG.MAX_POLICY_RULES);
+}
+
+/**
+ * Validate a URL to be scraped: validateUrl's checks, then the domain policy
+ * rules from loadPolicyRules.
+ */
+export function validateScrapeUrl(
+  url: string,
+  rules: UrlPolicyRule[],
+): UrlValidationResult {
+  const validation = validateUrl(url);
+  if (!validation.valid) {
+    return validation;
+  }
+  return checkUrlPolicy(url, rules);
+}
+
+// ============================================================================
+// Validators
+// ============================================================================
+
+const policyRuleValidator = schema.tables.policyRules.validator.extend({
+  _id: v.id("policyRules"),
+  _creationTime: v.number(),
+});
+
+const policyActionValidator = v.union(v.literal("allow"), v.literal("deny"));
+
+// ============================================================================
+// Public Queries
+// ============================================================================
+
+/**
+ * List the domain policy rules, oldest first.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients - call it from your own admin queries or the
+ * dashboard.
+ *
+ * @returns The allow and deny rules
+ *
+ * @internal
+ */
+export const listPolicyRules = query({
+  args: {},
+  returns: v.array(policyRuleValidator),
+  handler: async (ctx) => {
+    return await ctx.db.query("policyRules").take(CONFIG.MAX_POLICY_RULES);
+  },
+});
+
+// ============================================================================
+// Public Mutations
+// ============================================================================
+
+/**
+ * Add an allow or deny rule to the domain policy.
+ *
+ * Deny rules always win. Once any allow rule exists, only URLs matching an
+ * allow rule can be scraped. Adding a rule that already exists returns its
+ * ID.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients - call it from your own admin mutations or the
+ * dashboard.
+ *
+ * @param action - "allow" or "deny"
+ * @param pattern - Hostname with * wildcards and optional path prefix, e.g. "*.example.com/docs"
+ * @returns The rule ID
+ *
+ * @internal
+ */
+export const addPolicyRule = mutation({
+  args: {
+    action: policyActionValidator,
+    pattern: v.string(),
+  },
+  returns: v.object({ ruleId: v.id("policyRules") }),
+  handler: async (ctx, args) => {
+    const pattern = args.pattern.trim();
+    const error = checkUrlPattern(pattern);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const existing = await ctx.db
+      .query("policyRules")
+      .withIndex("by_pattern_action", (q) =>
+        q.eq("pattern", pattern).eq("action", args.action),
+      )
+      .unique();
+    if (existing) {
+      return { ruleId: existing._id };
+    }
+
+    const rules = await ctx.db
+      .query("policyRules")
+      .take(CONFIG.MAX_POLICY_RULES);
+    if (rules.length >= CONFIG.MAX_POLICY_RULES) {
+      throw new Error(
+        `Domain policy is limited to ${CONFIG.MAX_POLICY_RULES} rules`,
+      );
+    }
+
+    const ruleId = await ctx.db.insert("policyRules", {
+      pattern,
+      action: args.action,
+      createdAt: Date.now(),
+    });
+    return { ruleId };
+  },
+});
+
+/**
+ * Remove a domain policy rule.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients - call it from your own admin mutations or the
+ * dashboard.
+ *
+ * @param id - The rule ID
+ * @returns Whether the rule existed
+ *
+ * @internal
+ */
+export const removePolicyRule = mutation({
+  args: {
+    id: v.id("policyRules"),
+  },
+  returns: v.object({ success: v.boolean() }),
+  handler: async (ctx, args) => {
+    const rule = await ctx.db.get(args.id);
+    if (!rule) {
+      return { success: false };
+    }
+    await ctx.db.delete(args.id);
+    return { success: true };
+  },
+});
+
+// ============================================================================
+// Internal Queries
+// ============================================================================
+
+/**
+ * The stored policy rules, for actions that check URLs they fetch themselves.
+ */
+export const getPolicyRules = internalQuery({
+  args: {},
+  returns: v.array(
+    v.object({ pattern: v.string(), action: policyActionValidator }),
+  ),
+  handler: async (ctx) => {
+    const rules = await loadPolicyRules(ctx);
+    return rules.map(({ pattern, action }) => ({ pattern, action }));
+  },
+});
@@ -1,5 +1,6 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { scrapeOptionsValidator } from "./options.js";
 
 /**
  * Schema for the Firecrawl Scrape component.
@@ -14,6 +15,25 @@ export default defineSchema({
     normalizedUrl: v.string(), // Normalized for cache lookup (lowercase, no tracking params)
     urlHash: v.string(), // SHA-256 hash of normalizedUrl for fast index lookup
 
+    // Normalized URL the page was served from, set on completion when the
+    // requested URL redirected. Requests for it hit this scrape too.
+    finalUrl: v.optional(v.string()),
+    finalUrlHash: v.optional(v.string()),
+
+    // Normalized rel=canonical URL of the page, set on completion when the job
+    // was started with aliasCanonical and the page declared a same-site
+    // canonical URL other than its own. Requests for it hit this scrape too.
+    canonicalUrl: v.optional(v.string()),
+    canonicalUrlHash: v.optional(v.string()),
+
+    // Cache isolation - scrapes are only served to callers in the same
+    // namespace (e.g. a tenant ID). Unset is the shared default namespace.
+    namespace: v.optional(v.string()),
+
+    // Content-affecting options the scrape was made with (option name ->
+    // canonical JSON), leaving out defaults. Cache hits require a match.
+    optionsFingerprint: v.optional(v.record(v.string(), v.string())),
+
     // Status tracking
     status: v.union(
       v.literal("pending"),
@@ -43,6 +63,26 @@ export default defineSchema({
     screenshotUrl: v.optional(v.string()),
     screenshotFileId: v.optional(v.id("_storage")),
 
+    // Browser actions run before capture, kept for debugging. Untyped here
+    // because the table stores them as given; startScrape checks their shape.
+    actions: v.optional(v.array(v.any())),
+    // Screenshot URLs taken by screenshot actions, in action order
+    actionScreenshots: v.optional(v.array(v.string())),
+
+    // Request headers sent with the scrape (lower-cased names), with
+    // sensitive values such as cookies and tokens redacted
+    headers: v.optional(v.record(v.string(), v.string())),
+    // Country and preferred languages the page was scraped from
+    location: v.optional(
+      v.object({
+        country: v.optional(v.string()),
+        languages: v.optional(v.array(v.string())),
+      }),
+    ),
+
+    // Original document (PDF, Office) persisted with storeSourceDocument
+    sourceDocumentFileId: v.optional(v.id("_storage")),
+
     // JSON extraction results
     // Using v.any() intentionally - extraction schemas are user-defined at runtime
     // and can produce arbitrary structures. Type safety is provided at the
@@ -50,6 +90,11 @@ export default defineSchema({
     extractedJson: v.optional(v.any()),
     extractedJsonFileId: v.optional(v.id("_storage")),
     extractionSchema: v.optional(v.any()),
+    extractionPrompt: v.optional(v.string()),
+
+    // SHA-256 of the markdown and HTML - compared between versions of a URL
+    // to detect content changes
+    contentHash: v.optional(v.string()),
 
     // Metadata - OG tags and response information
     metadata: v.optional(
@@ -67,21 +112,327 @@ export default defineSchema({
         // Response headers
         contentType: v.optional(v.string()),
         cacheControl: v.optional(v.string()),
+        // Documents (PDF, Office)
+        numPages: v.optional(v.number()),
+        // Page identity and dates
+        canonicalUrl: v.optional(v.string()),
+        favicon: v.optional(v.string()),
+        keywords: v.optional(v.array(v.string())),
+        publishedTime: v.optional(v.string()),
+        modifiedTime: v.optional(v.string()),
+        // Redirects - the final URL, and the requested URL when they differ.
+        // Firecrawl does not report the hops in between.
+        finalUrl: v.optional(v.string()),
+        originalUrl: v.optional(v.string()),
       }),
     ),
+    // Complete metadata object from Firecrawl (all meta tags, Twitter cards,
+    // robots, ...). Untyped because it varies by page.
+    rawMetadata: v.optional(v.any()),
 
     // Error tracking
     error: v.optional(v.string()),
     errorCode: v.optional(v.union(v.number(), v.string())),
 
+    // Firecrawl credits used - as reported by Firecrawl, or estimated from the
+    // formats, proxy and extraction when the response does not say
+    creditsUsed: v.optional(v.number()),
+    creditsEstimated: v.optional(v.boolean()),
+
+    // Retry tracking - attempts counts Firecrawl calls made so far; nextRetryAt
+    // is set while a transient failure is waiting on its backoff delay
+    attempts: v.optional(v.number()),
+    nextRetryAt: v.optional(v.number()),
+
+    // Function handle scheduled with { jobId, status } when the job completes
+    // or fails
+    onComplete: v.optional(v.string()),
+
+    // Completed versions of this URL to keep (including this one) once the
+    // job completes; older versions are deleted
+    keepVersions: v.optional(v.number()),
+
+    // Alias the scrape under the page's rel=canonical URL once it completes
+    aliasCanonical: v.optional(v.boolean()),
+
+    // Rate limiting - SHA-256 of the API key the job is queued under, and when
+    // the job is released to Firecrawl
+    rateLimitKey: v.optional(v.string()),
+    queuedUntil: v.optional(v.number()),
+
+    // Crawl membership - set on pages discovered by a crawl
+    crawlId: v.optional(v.id("crawls")),
+
+    // Monitor that started the job - completion updates its content hash
+    monitorId: v.optional(v.id("monitors")),
+
     // Timestamps
     startedAt: v.number(), // When scrape job was created
     scrapingAt: v.optional(v.number()), // When scraping actually began (set by markScraping)
     scrapedAt: v.optional(v.number()), // When scrape completed successfully
     expiresAt: v.number(), // Cache expiry time (default: 30 days from completion)
+    invalidatedAt: v.optional(v.number()), // Set by invalidate - never served as stale
   })
-    .index("by_url_hash", ["urlHash"])
+    .index("by_namespace_url_hash", ["namespace", "urlHash"])
+    .index("by_namespace_final_url_hash", ["namespace", "finalUrlHash"]) // Redirected scrapes by final URL
+    .index("by_namespace_canonical_url_hash", ["namespace", "canonicalUrlHash"]) // Aliased scrapes by canonical URL
     .index("by_status", ["status"])
+    .index("by_namespace_status", ["namespace", "status"]) // For namespaced list
     .index("by_expires", ["expiresAt"])
-    .index("by_status_scraping", ["status", "scrapingAt"]), // For efficient stuck job detection
+    .index("by_status_expires", ["status", "expiresAt"]) // For cleanup with stale retention
+    .index("by_status_scraping", ["status", "scrapingAt"]) // For efficient stuck job detection
+    .index("by_rate_limit_key", ["rateLimitKey", "status", "queuedUntil"]) // For queue depth
+    .index("by_crawl", ["crawlId", "urlHash"]), // For crawl pages and page deduplication
+
+  /**
+   * Multi-page crawl jobs, run on Firecrawl's crawl endpoint.
+   * Each crawled page is stored as a regular completed scrapes row with crawlId
+   * set, so caching and getContent work per page.
+   */
+  crawls: defineTable({
+    url: v.string(), // Start URL as provided
+    normalizedUrl: v.string(),
+    urlHash: v.string(),
+    namespace: v.optional(v.string()), // Namespace of the crawl and its pages
+
+    status: v.union(
+      v.literal("pending"),
+      v.literal("crawling"),
+      v.literal("completed"),
+      v.literal("failed"),
+    ),
+
+    // Crawl settings
+    formats: v.array(v.string()),
+    limit: v.number(), // Maximum pages to crawl
+    maxDepth: v.optional(v.number()), // Maximum link depth from the start URL
+    includePaths: v.optional(v.array(v.string())), // Regex patterns for paths to crawl
+    excludePaths: v.optional(v.array(v.string())), // Regex patterns for paths to skip
+    optionsFingerprint: v.optional(v.record(v.string(), v.string())), // Copied to each page for cache matching
+
+    // Progress
+    firecrawlId: v.optional(v.string()), // Firecrawl crawl job ID
+    pagesTotal: v.optional(v.number()), // Pages discovered by Firecrawl so far
+    pagesCompleted: v.optional(v.number()), // Pages Firecrawl has finished scraping
+    pagesStored: v.number(), // Pages stored as scrapes rows
+    pagesFetched: v.number(), // Offset of the next unread page in Firecrawl's results
+
+    // Error tracking
+    error: v.optional(v.string()),
+    errorCode: v.optional(v.union(v.number(), v.string())),
+
+    rateLimitKey: v.optional(v.string()),
+
+    // Timestamps
+    startedAt: v.number(),
+    crawlingAt: v.optional(v.number()),
+    completedAt: v.optional(v.number()),
+    expiresAt: v.number(), // Record expiry (crawl TTL from completion)
+  })
+    .index("by_namespace_url_hash", ["namespace", "urlHash"])
+    .index("by_status", ["status"])
+    .index("by_expires", ["expiresAt"]),
+
+  /**
+   * URL lists discovered with Firecrawl's map endpoint, cached per origin.
+   * Uses the same TTL and expiry model as scrapes.
+   */
+  siteMaps: defineTable({
+    origin: v.string(), // Normalized origin, e.g. "https://example.com"
+    originHash: v.string(), // SHA-256 of origin for fast index lookup
+    namespace: v.optional(v.string()), // Cache namespace, like scrapes
+
+    status: v.union(
+      v.literal("pending"),
+      v.literal("mapping"),
+      v.literal("completed"),
+      v.literal("failed"),
+    ),
+
+    // Map settings - used for cache matching
+    limit: v.number(), // Maximum URLs requested
+    includeSubdomains: v.boolean(),
+
+    // Results
+    urls: v.optional(v.array(v.string())),
+    urlCount: v.optional(v.number()),
+    truncated: v.optional(v.boolean()), // URL list cut to CONFIG.MAX_MAP_URL_BYTES
+
+    // Error tracking
+    error: v.optional(v.string()),
+    errorCode: v.optional(v.union(v.number(), v.string())),
+
+    rateLimitKey: v.optional(v.string()),
+
+    // Timestamps
+    startedAt: v.number(),
+    mappedAt: v.optional(v.number()),
+    expiresAt: v.number(), // Cache expiry time (default: 30 days from completion)
+  })
+    .index("by_namespace_origin_hash", ["namespace", "originHash"])
+    .index("by_expires", ["expiresAt"]),
+
+  /**
+   * Groups of scrape jobs started together by startBatchScrape.
+   * Progress is read from the linked scrapes rows, so it stays reactive.
+   */
+  batches: defineTable({
+    // Per-URL outcome, in request order
+    items: v.array(
+      v.object({
+        url: v.string(),
+        outcome: v.union(
+          v.literal("started"), // New scrape job queued
+          v.literal("cached"), // Valid cache entry reused
+          v.literal("in_progress"), // Running scrape reused
+          v.literal("duplicate"), // Same normalized URL earlier in the batch
+          v.literal("failed"), // Rejected, e.g. by URL validation
+        ),
+        jobId: v.optional(v.id("scrapes")),
+        error: v.optional(v.string()),
+      }),
+    ),
+    jobIds: v.array(v.id("scrapes")), // Distinct jobs, for progress
+    namespace: v.optional(v.string()), // Namespace the jobs were started in
+
+    // Timestamps
+    startedAt: v.number(),
+    expiresAt: v.number(), // Record expiry (scrape TTL from start)
+  }).index("by_expires", ["expiresAt"]),
+
+  /**
+   * Recurring scrapes of a URL, started by the run-monitors cron when due.
+   * Each run is a forced scrape with monitorId set; its completion records the
+   * content hash and reports changes to the onChange callback.
+   */
+  monitors: defineTable({
+    url: v.string(), // URL as provided
+    normalizedUrl: v.string(),
+    urlHash: v.string(),
+    namespace: v.optional(v.string()), // Namespace of the monitor's scrapes
+    intervalMs: v.number(),
+
+    // Scrape options for each run, checked by createMonitor. Sensitive header
+    // values are redacted here and kept in secretHeaders.
+    options: v.optional(scrapeOptionsValidator),
+
+    // Firecrawl access for the cron: the credential the monitor was created
+    // with. A raw apiKey is kept in secretHeaders instead.
+    credentialId: v.optional(
+      v.union(v.id("credentials"), v.array(v.id("credentials"))),
+    ),
+    apiBaseUrl: v.optional(v.string()),
+    apiKeyHeader: v.optional(v.string()),
+    maxRequestsPerMinute: v.optional(v.number()),
+
+    // Function handle scheduled with { monitorId, jobId } when a run's content
+    // hash differs from the previous run's
+    onChange: v.optional(v.string()),
+
+    status: v.union(v.literal("active"), v.literal("paused")),
+    nextRunAt: v.number(),
+
+    // Last run - lastError is set when a run could not be started
+    lastRunAt: v.optional(v.number()),
+    lastJobId: v.optional(v.id("scrapes")),
+    lastContentHash: v.optional(v.string()),
+    lastChangedAt: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+  })
+    .index("by_status_next_run", ["status", "nextRunAt"])
+    .index("by_namespace", ["namespace"]),
+
+  /**
+   * Firecrawl API keys stored in the component, referenced by ID or label so
+   * raw keys are not passed through function arguments. apiKey is only read
+   * by internal functions.
+   */
+  credentials: defineTable({
+    label: v.string(), // Unique
+    apiKey: v.string(),
+    keyHash: v.string(), // SHA-256 of apiKey - the rate limit key
+    createdAt: v.number(),
+    rotatedAt: v.optional(v.number()),
+  }).index("by_label", ["label"]),
+
+  /**
+   * Usage and health of each API key used, raw or stored. Pools skip a key
+   * until cooldownUntil after a 402 or 429 from Firecrawl.
+   */
+  keyHealth: defineTable({
+    keyHash: v.string(), // SHA-256 of the API key - the raw key is never stored
+    requests: v.number(), // Firecrawl requests started with the key
+    failures: v.number(), // Error responses
+    lastUsedAt: v.number(), // Round-robin order: least recently used first
+    lastFailureAt: v.optional(v.number()),
+    lastErrorStatus: v.optional(v.number()), // HTTP status
+    cooldownUntil: v.optional(v.number()),
+  }).index("by_key_hash", ["keyHash"]),
+
+  /**
+   * Daily credit totals, one row per UTC day, namespace and API key. Summed
+   * by day, key or namespace for getUsage and budget checks.
+   */
+  usage: defineTable({
+    day: v.string(), // UTC day, e.g. "2026-10-19"
+    namespace: v.optional(v.string()),
+    keyHash: v.string(), // SHA-256 of the API key that made the requests
+    credits: v.number(),
+    estimatedCredits: v.number(), // Part of credits that was estimated
+    scrapes: v.number(),
+  })
+    .index("by_day", ["day"])
+    .index("by_namespace_day_key", ["namespace", "day", "keyHash"])
+    .index("by_key_hash_day", ["keyHash", "day"]),
+
+  /**
+   * Credit caps per namespace or per API key. A row with keyHash caps that
+   * key; one without caps its namespace (the shared namespace when unset).
+   */
+  budgets: defineTable({
+    namespace: v.optional(v.string()),
+    keyHash: v.optional(v.string()),
+    dailyCredits: v.optional(v.number()),
+    monthlyCredits: v.optional(v.number()),
+    updatedAt: v.number(),
+  })
+    .index("by_namespace_key_hash", ["namespace", "keyHash"])
+    .index("by_key_hash", ["keyHash"]),
+
+  /**
+   * Domain policy: URLs matching a deny pattern are rejected, and when any
+   * allow pattern exists, URLs must match one. Checked when scrapes, crawls,
+   * site maps and monitors are started.
+   */
+  policyRules: defineTable({
+    pattern: v.string(), // Hostname with * wildcards and optional path prefix
+    action: v.union(v.literal("allow"), v.literal("deny")),
+    createdAt: v.number(),
+  }).index("by_pattern_action", ["pattern", "action"]),
+
+  /**
+   * Raw values of sensitive request headers (cookies, authorization, tokens)
+   * for a pending scrape or a monitor, whose stored and scheduled options carry
+   * them redacted, and the raw API key of a monitor created with one. Read
+   * only by the scrape action and the run-monitors cron, and deleted once the
+   * scrape finishes or the monitor is deleted.
+   */
+  secretHeaders: defineTable({
+    jobId: v.optional(v.id("scrapes")),
+    monitorId: v.optional(v.id("monitors")),
+    headers: v.record(v.string(), v.string()), // Lower-cased names
+    apiKey: v.optional(v.union(v.string(), v.array(v.string()))), // Monitors only
+  })
+    .index("by_job", ["jobId"])
+    .index("by_monitor", ["monitorId"]),
+
+  /**
+   * Persistent rate limiter state, one row per API key.
+   * nextSlotAt is the earliest time the next job for this key may be released.
+   */
+  rateLimits: defineTable({
+    keyHash: v.string(), // SHA-256 of the API key - the raw key is never stored
+    requestsPerMinute: v.number(),
+    nextSlotAt: v.number(),
+  }).index("by_key_hash", ["keyHash"]),
 });
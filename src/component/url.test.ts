@@ -1,11 +1,17 @@
 /// <reference types="vite/client" />
 
-import { describe, expect, test } from "vitest";
+import { afterEach, describe, expect, test, vi } from "vitest";
 import {
   validateUrl,
   normalizeUrl,
   hashUrl,
   formatValidationError,
+  isSameSite,
+  isPrivateIp,
+  validateResolvedUrl,
+  checkUrlPattern,
+  checkUrlPolicy,
+  matchesUrlPattern,
   MAX_URL_LENGTH,
 } from "./url.js";
 
@@ -94,6 +100,39 @@ describe("URL validation", () => {
   test("rejects .localhost domains", () => {
     expect(validateUrl("http://app.localhost").valid).toBe(false);
   });
+
+  test("rejects hostnames with a trailing dot", () => {
+    expect(validateUrl("http://localhost.").valid).toBe(false);
+    expect(validateUrl("http://printer.local.").valid).toBe(false);
+  });
+
+  test("rejects numeric IPv4 forms", () => {
+    expect(validateUrl("http://2130706433").valid).toBe(false);
+    expect(validateUrl("http://0x7f.1").valid).toBe(false);
+    expect(validateUrl("http://0177.0.0.1").valid).toBe(false);
+    expect(validateUrl("http://127.1").valid).toBe(false);
+    expect(validateUrl("http://0xa9fea9fe/latest").valid).toBe(false);
+  });
+
+  test("rejects carrier-grade NAT addresses", () => {
+    expect(validateUrl("http://100.64.0.1").valid).toBe(false);
+    expect(validateUrl("http://100.127.255.255").valid).toBe(false);
+    expect(validateUrl("http://100.128.0.1").valid).toBe(true);
+  });
+
+  test("rejects private IPv6 addresses", () => {
+    expect(validateUrl("http://[::]").valid).toBe(false);
+    expect(validateUrl("http://[fc00::1]").valid).toBe(false);
+    expect(validateUrl("http://[fd12:3456::1]").valid).toBe(false);
+    expect(validateUrl("http://[fe80::1]").valid).toBe(false);
+    expect(validateUrl("http://[2606:4700::1111]").valid).toBe(true);
+  });
+
+  test("rejects IPv4-mapped IPv6 addresses", () => {
+    expect(validateUrl("http://[::ffff:127.0.0.1]").valid).toBe(false);
+    expect(validateUrl("http://[::ffff:a9fe:a9fe]").valid).toBe(false);
+    expect(validateUrl("http://[::ffff:8.8.8.8]").valid).toBe(true);
+  });
 });
 
 describe("URL normalization", () => {
@@ -266,4 +305,262 @@ describe("formatValidationError", () => {
     });
     expect(msg).toContain("app.local");
   });
+
+  test("formats policy_denied error", () => {
+    expect(
+      formatValidationError({
+        type: "policy_denied",
+        url: "https://example.com/admin",
+        pattern: "example.com/admin",
+      }),
+    ).toContain('deny pattern "example.com/admin"');
+    expect(
+      formatValidationError({
+        type: "policy_denied",
+        url: "https://other.com",
+      }),
+    ).toContain("no allow pattern");
+  });
+});
+
+describe("isSameSite", () => {
+  test("matches equal hostnames and www variants", () => {
+    expect(isSameSite("example.com", "example.com")).toBe(true);
+    expect(isSameSite("www.example.com", "Example.com")).toBe(true);
+  });
+
+  test("matches mobile variants", () => {
+    expect(isSameSite("m.example.com", "www.example.com")).toBe(true);
+    expect(isSameSite("example.com", "M.example.com")).toBe(true);
+  });
+
+  test("rejects other sites and other subdomains", () => {
+    expect(isSameSite("example.com", "example.org")).toBe(false);
+    expect(isSameSite("notexample.com", "example.com")).toBe(false);
+    expect(isSameSite("amp.example.com", "m.example.com")).toBe(false);
+    expect(isSameSite("example.com", "amp.example.com")).toBe(false);
+  });
+
+  test("rejects tenants of shared hosting domains", () => {
+    expect(isSameSite("attacker.github.io", "github.io")).toBe(false);
+    expect(isSameSite("attacker.github.io", "victim.github.io")).toBe(false);
+    expect(isSameSite("app.vercel.app", "www.vercel.app")).toBe(false);
+  });
+});
+
+describe("domain policy patterns", () => {
+  test("matches wildcard hostnames", () => {
+    const url = new URL("https://docs.example.com/intro");
+    expect(matchesUrlPattern(url, "*.example.com")).toBe(true);
+    expect(matchesUrlPattern(url, "DOCS.example.com")).toBe(true);
+    expect(matchesUrlPattern(url, "*")).toBe(true);
+    expect(
+      matchesUrlPattern(new URL("https://example.com"), "*.example.com"),
+    ).toBe(false);
+    expect(
+      matchesUrlPattern(new URL("https://badexample.com"), "*.example.com"),
+    ).toBe(false);
+  });
+
+  test("matches path prefixes by segment", () => {
+    const pattern = "example.com/docs";
+    expect(
+      matchesUrlPattern(new URL("https://example.com/docs"), pattern),
+    ).toBe(true);
+    expect(
+      matchesUrlPattern(new URL("https://example.com/docs/intro"), pattern),
+    ).toBe(true);
+    expect(
+      matchesUrlPattern(new URL("https://example.com/docsearch"), pattern),
+    ).toBe(false);
+  });
+
+  test("matches decoded and normalized paths", () => {
+    const pattern = "example.com/admin";
+    for (const path of [
+      "/%61dmin",
+      "/%2561dmin",
+      "/Admin/../admin",
+      "/docs/%2e%2e/admin/users",
+      "//admin",
+      "/./admin",
+    ]) {
+      expect(
+        matchesUrlPattern(new URL(`https://example.com${path}`), pattern),
+      ).toBe(true);
+    }
+    expect(
+      matchesUrlPattern(new URL("https://example.com/admins"), pattern),
+    ).toBe(false);
+  });
+
+  test("deny matching fails closed", () => {
+    const pattern = "example.com/admin";
+    const undecodable = new URL("https://example.com/%E0%A4%A");
+    expect(matchesUrlPattern(undecodable, pattern, true)).toBe(true);
+    expect(matchesUrlPattern(undecodable, pattern)).toBe(false);
+
+    const upperCase = new URL("https://example.com/ADMIN");
+    expect(matchesUrlPattern(upperCase, pattern, true)).toBe(true);
+    expect(matchesUrlPattern(upperCase, pattern)).toBe(false);
+  });
+
+  test("rejects invalid patterns", () => {
+    expect(checkUrlPattern("*.example.com/docs")).toBeUndefined();
+    expect(checkUrlPattern("https://example.com")).toContain("Invalid");
+    expect(checkUrlPattern("example.com:8080")).toContain("Invalid");
+    expect(checkUrlPattern("")).toContain("Invalid");
+  });
+});
+
+describe("checkUrlPolicy", () => {
+  test("allows everything without rules", () => {
+    expect(checkUrlPolicy("https://example.com", [])).toEqual({ valid: true });
+  });
+
+  test("deny rules win over allow rules", () => {
+    const result = checkUrlPolicy("https://example.com/admin/users", [
+      { pattern: "example.com", action: "allow" },
+      { pattern: "example.com/admin", action: "deny" },
+    ]);
+    expect(result).toEqual({
+      valid: false,
+      error: {
+        type: "policy_denied",
+        url: "https://example.com/admin/users",
+        pattern: "example.com/admin",
+      },
+    });
+  });
+
+  test("encoded paths do not bypass deny rules", () => {
+    const rules = [{ pattern: "example.com/admin", action: "deny" as const }];
+    for (const url of [
+      "https://example.com/%61dmin",
+      "https://example.com/Admin/../admin",
+      "https://example.com/ADMIN/users",
+    ]) {
+      expect(checkUrlPolicy(url, rules).valid).toBe(false);
+    }
+    expect(checkUrlPolicy("https://example.com/about", rules).valid).toBe(true);
+  });
+
+  test("allow rules turn the policy into an allowlist", () => {
+    const rules = [{ pattern: "*.example.com", action: "allow" as const }];
+    expect(checkUrlPolicy("https://docs.example.com", rules).valid).toBe(true);
+    expect(checkUrlPolicy("https://example.org", rules)).toEqual({
+      valid: false,
+      error: { type: "policy_denied", url: "https://example.org" },
+    });
+  });
+});
+
+describe("isPrivateIp", () => {
+  test("checks IPv4 ranges", () => {
+    expect(isPrivateIp("10.1.2.3")).toBe(true);
+    expect(isPrivateIp("172.16.0.1")).toBe(true);
+    expect(isPrivateIp("198.18.0.1")).toBe(true);
+    expect(isPrivateIp("255.255.255.255")).toBe(true);
+    expect(isPrivateIp("8.8.8.8")).toBe(false);
+    expect(isPrivateIp("172.32.0.1")).toBe(false);
+  });
+
+  test("checks IPv6 ranges and embedded IPv4 addresses", () => {
+    expect(isPrivateIp("::1")).toBe(true);
+    expect(isPrivateIp("[::1]")).toBe(true);
+    expect(isPrivateIp("fdff:ffff::1")).toBe(true);
+    expect(isPrivateIp("ff02::1")).toBe(true);
+    expect(isPrivateIp("64:ff9b::10.0.0.1")).toBe(true);
+    expect(isPrivateIp("2002:c0a8:101::1")).toBe(true);
+    expect(isPrivateIp("2002:808:808::1")).toBe(false);
+    expect(isPrivateIp("2001:db8::1")).toBe(false);
+  });
+
+  test("returns false for hostnames and malformed addresses", () => {
+    expect(isPrivateIp("example.com")).toBe(false);
+    expect(isPrivateIp("1.2.3.4.5")).toBe(false);
+    expect(isPrivateIp("256.0.0.1")).toBe(false);
+    expect(isPrivateIp("1::2::3")).toBe(false);
+    expect(isPrivateIp("1:2:3:4:5:6:7:8:9")).toBe(false);
+  });
+});
+
+describe("validateResolvedUrl", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // Answers DNS-over-HTTPS lookups with the given A and AAAA records
+  function stubResolver(
+    records: { A?: string[]; AAAA?: string[] },
+    status = 0,
+  ) {
+    const fetchMock = vi.fn(async (input: string) => {
+      const type = new URL(input).searchParams.get("type") as "A" | "AAAA";
+      const answers = (records[type] ?? []).map((data) => ({
+        type: type === "A" ? 1 : 28,
+        data,
+      }));
+      return new Response(
+        JSON.stringify({
+          Status: status,
+          Answer: [{ type: 5, data: "cdn.example.net." }, ...answers],
+        }),
+      );
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  }
+
+  test("accepts hostnames that resolve to public addresses", async () => {
+    const fetchMock = stubResolver({
+      A: ["93.184.216.34"],
+      AAAA: ["2606:2800:220:1::1"],
+    });
+    expect(await validateResolvedUrl("https://example.com/page")).toEqual({
+      valid: true,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0][0]).toContain("name=example.com");
+  });
+
+  test("rejects hostnames that resolve to private addresses", async () => {
+    stubResolver({ A: ["93.184.216.34"], AAAA: ["::ffff:127.0.0.1"] });
+    expect(await validateResolvedUrl("https://rebind.example.com")).toEqual({
+      valid: false,
+      error: {
+        type: "private_dns",
+        hostname: "rebind.example.com",
+        address: "::ffff:127.0.0.1",
+      },
+    });
+  });
+
+  test("rejects hostnames that do not resolve", async () => {
+    stubResolver({}, 3);
+    const result = await validateResolvedUrl("https://missing.example.com");
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.error.type).toBe("invalid_url");
+    }
+  });
+
+  test("throws when the lookup fails", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("", { status: 503 })),
+    );
+    await expect(validateResolvedUrl("https://example.com")).rejects.toThrow(
+      "DNS lookup for example.com failed",
+    );
+  });
+
+  test("skips the lookup for IP addresses and invalid URLs", async () => {
+    const fetchMock = stubResolver({});
+    expect(await validateResolvedUrl("https://8.8.8.8")).toEqual({
+      valid: true,
+    });
+    expect((await validateResolvedUrl("http://10.0.0.1")).valid).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
 });
@@ -62,33 +62,166 @@ const TRACKING_PARAMS = new Set([
   "_gl",
 ]);
 
+/** An IPv4 or IPv6 CIDR range, as address bytes and prefix length */
+type IpRange = { bytes: number[]; prefix: number };
+
+/**
+ * Parse an IPv4 address the way URL hosts are parsed: one to four parts, each
+ * decimal, octal (leading 0) or hex (leading 0x), the last part filling the
+ * remaining bytes - so "2130706433", "0x7f.1" and "0177.0.0.1" are all
+ * 127.0.0.1. Null when the host is not an IPv4 address.
+ */
+function parseIpv4(host: string): number[] | null {
+  const parts = host.replace(/\.$/, "").split(".");
+  if (parts.length > 4) {
+    return null;
+  }
+  const numbers: number[] = [];
+  for (const part of parts) {
+    if (/^0x[0-9a-f]*$/i.test(part)) {
+      numbers.push(part.length === 2 ? 0 : parseInt(part.slice(2), 16));
+    } else if (/^0[0-7]+$/.test(part)) {
+      numbers.push(parseInt(part.slice(1), 8));
+    } else if (/^(0|[1-9]\d*)$/.test(part)) {
+      numbers.push(Number(part));
+    } else {
+      return null;
+    }
+  }
+
+  const last = numbers.length - 1;
+  if (
+    numbers.slice(0, last).some((n) => n > 255) ||
+    numbers[last] >= 256 ** (4 - last)
+  ) {
+    return null;
+  }
+  let address = numbers[last];
+  for (let i = 0; i < last; i++) {
+    address += numbers[i] * 256 ** (3 - i);
+  }
+  return [
+    address >>> 24,
+    (address >>> 16) & 0xff,
+    (address >>> 8) & 0xff,
+    address & 0xff,
+  ];
+}
+
+/**
+ * Parse an IPv6 address, with or without brackets, into 16 bytes. Handles
+ * "::" compression and a trailing dotted IPv4 part ("::ffff:127.0.0.1").
+ * Null when the host is not an IPv6 address.
+ */
+function parseIpv6(host: string): number[] | null {
+  const text = host.replace(/^\[(.*)\]$/, "$1").replace(/%.*$/, "");
+  const halves = text.split("::");
+  if (!text.includes(":") || halves.length > 2) {
+    return null;
+  }
+
+  const parseGroups = (half: string): number[] | null => {
+    if (half === "") {
+      return [];
+    }
+    const pieces = half.split(":");
+    const groups: number[] = [];
+    for (const [i, piece] of pieces.entries()) {
+      if (/^[0-9a-f]{1,4}$/i.test(piece)) {
+        groups.push(parseInt(piece, 16));
+      } else if (
+        i === pieces.length - 1 &&
+        /^\d{1,3}(\.\d{1,3}){3}$/.test(piece)
+      ) {
+        const bytes = piece.split(".").map(Number);
+        if (bytes.some((byte) => byte > 255)) {
+          return null;
+        }
+        groups.push(bytes[0] * 256 + bytes[1], bytes[2] * 256 + bytes[3]);
+      } else {
+        return null;
+      }
+    }
+    return groups;
+  };
+
+  const head = parseGroups(halves[0]);
+  const tail = halves.length === 2 ? parseGroups(halves[1]) : [];
+  if (head === null || tail === null) {
+    return null;
+  }
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return null;
+  }
+  return [...head, ...new Array<number>(missing).fill(0), ...tail].flatMap(
+    (group) => [group >> 8, group & 0xff],
+  );
+}
+
+/** Parse an IPv4 or IPv6 address into its bytes, or null for a hostname */
+function parseIpAddress(host: string): number[] | null {
+  return parseIpv4(host) ?? parseIpv6(host);
+}
+
+function parseCidr(cidr: string): IpRange {
+  const [address, prefix] = cidr.split("/");
+  return { bytes: parseIpAddress(address) ?? [], prefix: Number(prefix) };
+}
+
+function inIpRange(bytes: number[], range: IpRange): boolean {
+  if (bytes.length !== range.bytes.length) {
+    return false;
+  }
+  for (let bit = 0; bit < range.prefix; bit += 8) {
+    const mask = (0xff << (8 - Math.min(8, range.prefix - bit))) & 0xff;
+    if ((bytes[bit / 8] & mask) !== (range.bytes[bit / 8] & mask)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * IPv4 ranges that are not publicly routable.
+ */
+const PRIVATE_IPV4_RANGES = [
+  "0.0.0.0/8", // "This" network, including 0.0.0.0
+  "10.0.0.0/8", // Private (RFC 1918)
+  "100.64.0.0/10", // Carrier-grade NAT
+  "127.0.0.0/8", // Loopback
+  "169.254.0.0/16", // Link-local, including cloud metadata endpoints
+  "172.16.0.0/12", // Private (RFC 1918)
+  "192.0.0.0/24", // IETF protocol assignments
+  "192.168.0.0/16", // Private (RFC 1918)
+  "198.18.0.0/15", // Benchmarking
+  "224.0.0.0/4", // Multicast
+  "240.0.0.0/4", // Reserved, including broadcast
+].map(parseCidr);
+
+/**
+ * IPv6 ranges that are not publicly routable. The unspecified (::) and
+ * loopback (::1) addresses fall in ::/96 and are checked as 0.0.0.x.
+ */
+const PRIVATE_IPV6_RANGES = [
+  "fc00::/7", // Unique local
+  "fe80::/10", // Link-local
+  "fec0::/10", // Site-local (deprecated)
+  "ff00::/8", // Multicast
+].map(parseCidr);
+
 /**
- * Private IP address ranges and hostnames that should be blocked.
+ * IPv6 ranges that end in an IPv4 address, which is checked against the IPv4
+ * ranges.
  */
-const PRIVATE_IP_PATTERNS = [
-  // Localhost
-  /^localhost$/i,
-  /^127\.\d{1,3}\.\d{1,3}\.\d{1,3}$/,
-  /^::1$/,
-  /^\[::1\]$/,
-
-  // Private networks (RFC 1918)
-  /^10\.\d{1,3}\.\d{1,3}\.\d{1,3}$/,
-  /^172\.(1[6-9]|2\d|3[0-1])\.\d{1,3}\.\d{1,3}$/,
-  /^192\.168\.\d{1,3}\.\d{1,3}$/,
-
-  // Link-local
-  /^169\.254\.\d{1,3}\.\d{1,3}$/,
-
-  // IPv6 private
-  /^fe80:/i,
-  /^fc00:/i,
-  /^fd[0-9a-f]{2}:/i,
-
-  // Loopback aliases
-  /^0\.0\.0\.0$/,
-  /^\[::\]$/,
-];
+const IPV4_EMBEDDING_RANGES = [
+  "::ffff:0:0/96", // IPv4-mapped
+  "::/96", // IPv4-compatible (deprecated)
+  "64:ff9b::/96", // NAT64
+].map(parseCidr);
+
+/** 6to4 addresses carry an IPv4 address in bytes 2-5 */
+const SIX_TO_FOUR_RANGE = parseCidr("2002::/16");
 
 /**
  * Blocked hostname suffixes.
@@ -100,7 +233,10 @@ export type UrlValidationError =
   | { type: "invalid_url"; message: string }
   | { type: "invalid_scheme"; scheme: string }
   | { type: "private_ip"; hostname: string }
-  | { type: "blocked_hostname"; hostname: string };
+  | { type: "blocked_hostname"; hostname: string }
+  | { type: "private_dns"; hostname: string; address: string }
+  // pattern is the deny pattern matched, or unset when no allow pattern matched
+  | { type: "policy_denied"; url: string; pattern?: string };
 
 export type UrlValidationResult =
   | { valid: true }
@@ -112,16 +248,16 @@ export type UrlValidationResult =
  * Blocks:
  * - URLs longer than CONFIG.MAX_URL_LENGTH characters
  * - Non-http(s) schemes
- * - Localhost and 127.0.0.1
- * - Private IP ranges (10.*, 172.16-31.*, 192.168.*)
- * - Link-local addresses (169.254.*)
+ * - Localhost, and IP addresses in loopback, private, carrier-grade NAT,
+ *   link-local, multicast and reserved ranges - in any IPv4 notation
+ *   (decimal, octal, hex) and as IPv4-mapped IPv6 addresses
  * - *.local, *.internal, *.localhost hostnames
  *
- * **Limitation:** This is hostname/pattern-based validation only.
- * It does NOT perform DNS resolution, so DNS rebinding attacks
- * (where a hostname resolves to a private IP) are not prevented.
- * For sensitive deployments, implement domain allowlists in your
- * application layer. See README.md for guidance.
+ * **Limitation:** This is hostname-based validation only. It does NOT
+ * perform DNS resolution, so hostnames that resolve to a private IP pass.
+ * Use validateResolvedUrl (the resolveDns scrape option) to check the
+ * resolved addresses, and add domain allow rules with addPolicyRule for
+ * sensitive deployments. See docs/SECURITY.md for guidance.
  *
  * @param url - The URL string to validate
  * @returns Validation result with error details if invalid
@@ -159,14 +295,12 @@ export function validateUrl(url: string): UrlValidationResult {
   }
 
   // Check for private IPs
-  const hostname = parsed.hostname.toLowerCase();
-  for (const pattern of PRIVATE_IP_PATTERNS) {
-    if (pattern.test(hostname)) {
-      return {
-        valid: false,
-        error: { type: "private_ip", hostname },
-      };
-    }
+  const hostname = parsed.hostname.toLowerCase().replace(/\.$/, "");
+  if (hostname === "localhost" || isPrivateIp(hostname)) {
+    return {
+      valid: false,
+      error: { type: "private_ip", hostname },
+    };
   }
 
   // Check for blocked hostname suffixes
@@ -182,6 +316,118 @@ export function validateUrl(url: string): UrlValidationResult {
   return { valid: true };
 }
 
+/**
+ * Whether an IP address is in a loopback, private, carrier-grade NAT,
+ * link-local, multicast or reserved range. IPv4 addresses embedded in IPv6
+ * (IPv4-mapped, NAT64, 6to4) are checked as IPv4.
+ *
+ * @param address - IPv4 address in any notation, or IPv6 with or without brackets
+ * @returns False for hostnames that are not IP addresses
+ */
+export function isPrivateIp(address: string): boolean {
+  const bytes = parseIpAddress(address);
+  if (bytes === null) {
+    return false;
+  }
+  if (bytes.length === 4) {
+    return PRIVATE_IPV4_RANGES.some((range) => inIpRange(bytes, range));
+  }
+  if (IPV4_EMBEDDING_RANGES.some((range) => inIpRange(bytes, range))) {
+    return isPrivateIp(bytes.slice(12).join("."));
+  }
+  if (inIpRange(bytes, SIX_TO_FOUR_RANGE)) {
+    return isPrivateIp(bytes.slice(2, 6).join("."));
+  }
+  return PRIVATE_IPV6_RANGES.some((range) => inIpRange(bytes, range));
+}
+
+/** DNS record types returned by resolveHostname: A and AAAA */
+const ADDRESS_RECORD_TYPES = new Set([1, 28]);
+
+/**
+ * Resolve a hostname's A and AAAA records with the DNS-over-HTTPS JSON API
+ * at CONFIG.DNS_RESOLVER_URL.
+ *
+ * @param hostname - The hostname to resolve
+ * @returns The resolved addresses; empty if the hostname does not exist
+ * @throws Error if the lookup fails
+ */
+export async function resolveHostname(hostname: string): Promise<string[]> {
+  const answers = await Promise.all(
+    ["A", "AAAA"].map(async (type) => {
+      const response = await fetch(
+        `${CONFIG.DNS_RESOLVER_URL}?name=${encodeURIComponent(hostname)}&type=${type}`,
+        { headers: { Accept: "application/dns-json" } },
+      );
+      if (!response.ok) {
+        throw new Error(
+          `DNS lookup for ${hostname} failed: HTTP ${response.status}`,
+        );
+      }
+      const result = (await response.json()) as {
+        Status: number;
+        Answer?: Array<{ type: number; data: string }>;
+      };
+      // 0 is NOERROR, 3 is NXDOMAIN
+      if (result.Status !== 0 && result.Status !== 3) {
+        throw new Error(
+          `DNS lookup for ${hostname} failed: status ${result.Status}`,
+        );
+      }
+      return result.Answer ?? [];
+    }),
+  );
+  return answers
+    .flat()
+    .filter((answer) => ADDRESS_RECORD_TYPES.has(answer.type))
+    .map((answer) => answer.data);
+}
+
+/**
+ * Validates a URL like validateUrl, then resolves its hostname and rejects
+ * it if the hostname does not resolve or any address it resolves to is
+ * private.
+ *
+ * **Limitation:** Firecrawl resolves the hostname again when it scrapes, so
+ * a DNS server that answers differently the second time (DNS rebinding) is
+ * not caught.
+ *
+ * @param url - The URL string to validate
+ * @returns Validation result with error details if invalid
+ * @throws Error if the DNS lookup fails
+ */
+export async function validateResolvedUrl(
+  url: string,
+): Promise<UrlValidationResult> {
+  const validation = validateUrl(url);
+  if (!validation.valid) {
+    return validation;
+  }
+  const hostname = new URL(url).hostname.toLowerCase().replace(/\.$/, "");
+  if (parseIpAddress(hostname) !== null) {
+    return validation;
+  }
+
+  const addresses = await resolveHostname(hostname);
+  if (addresses.length === 0) {
+    return {
+      valid: false,
+      error: {
+        type: "invalid_url",
+        message: `${hostname} does not resolve to an IP address`,
+      },
+    };
+  }
+  const privateAddress = addresses.find(isPrivateIp);
+  if (privateAddress !== undefined) {
+    return {
+      valid: false,
+      error: { type: "private_dns", hostname, address: privateAddress },
+    };
+  }
+  return validation;
+}
+
 /**
  * Formats a URL validation error as a human-readable message.
  *
@@ -200,7 +446,167 @@ export function formatValidationError(error: UrlValidationError): string {
       return `Private/local IP addresses are not allowed: ${error.hostname}`;
     case "blocked_hostname":
       return `Blocked hostname: ${error.hostname}. Private network hostnames are not allowed`;
+    case "private_dns":
+      return `Hostname ${error.hostname} resolves to private IP address ${error.address}`;
+    case "policy_denied":
+      return error.pattern === undefined
+        ? `URL not allowed by domain policy: ${error.url} matches no allow pattern`
+        : `URL denied by domain policy: ${error.url} matches deny pattern "${error.pattern}"`;
+  }
+}
+
+/** A stored domain policy rule */
+export type UrlPolicyRule = { pattern: string; action: "allow" | "deny" };
+
+/**
+ * Split a domain policy pattern into a hostname regex and an optional path
+ * prefix. Null when the pattern is invalid.
+ */
+function parseUrlPattern(
+  pattern: string,
+): { host: RegExp; pathPrefix?: string } | null {
+  const slash = pattern.indexOf("/");
+  const host = slash === -1 ? pattern : pattern.slice(0, slash);
+  const pathPrefix = slash === -1 ? undefined : pattern.slice(slash);
+  if (!/^[A-Za-z0-9*.-]+$/.test(host) || /\s/.test(pathPrefix ?? "")) {
+    return null;
+  }
+  const source = host
+    .split("*")
+    .map((part) => part.replace(/\./g, "\\."))
+    .join(".*");
+  return { host: new RegExp(`^${source}$`, "i"), pathPrefix };
+}
+
+/**
+ * Check a domain policy pattern: a hostname, where `*` matches any characters
+ * (e.g. "*.example.com", or "*" for every host), optionally followed by a path
+ * prefix (e.g. "example.com/docs"). No scheme or port.
+ *
+ * @returns An error message, or undefined when the pattern is valid
+ */
+export function checkUrlPattern(pattern: string): string | undefined {
+  if (parseUrlPattern(pattern) === null) {
+    return `Invalid domain policy pattern: "${pattern}". Use a hostname with optional * wildcards and path prefix, e.g. "*.example.com/docs"`;
+  }
+  return undefined;
+}
+
+const MAX_PATH_DECODE_ROUNDS = 3;
+
+/**
+ * A path as a server may resolve it: percent-escapes decoded (repeatedly, in
+ * case the server decodes twice), backslashes read as slashes, dot segments
+ * resolved and empty segments dropped. Null when an escape is invalid or the
+ * path still decodes further after MAX_PATH_DECODE_ROUNDS.
+ */
+function canonicalPath(path: string): string | null {
+  let decoded = path;
+  for (let round = 0; ; round++) {
+    let next: string;
+    try {
+      next = decodeURIComponent(decoded);
+    } catch {
+      return null;
+    }
+    if (next === decoded) {
+      break;
+    }
+    if (round === MAX_PATH_DECODE_ROUNDS) {
+      return null;
+    }
+    decoded = next;
   }
+
+  const segments: string[] = [];
+  for (const segment of decoded.replace(/\\/g, "/").split("/")) {
+    if (segment === "..") {
+      segments.pop();
+    } else if (segment !== "" && segment !== ".") {
+      segments.push(segment);
+    }
+  }
+  return `/${segments.join("/")}`;
+}
+
+/**
+ * Whether a URL matches a domain policy pattern. A path prefix matches whole
+ * path segments: "example.com/docs" matches /docs and /docs/intro but not
+ * /docsearch. Paths are compared after canonicalPath, so "/%61dmin" and
+ * "/docs/../admin" are both "/admin".
+ *
+ * With failClosed (used for deny rules), paths are compared
+ * case-insensitively and a path that cannot be decoded matches.
+ */
+export function matchesUrlPattern(
+  url: URL,
+  pattern: string,
+  failClosed = false,
+): boolean {
+  const parsed = parseUrlPattern(pattern);
+  if (!parsed || !parsed.host.test(url.hostname.replace(/\.$/, ""))) {
+    return false;
+  }
+  if (parsed.pathPrefix === undefined) {
+    return true;
+  }
+
+  let path = canonicalPath(url.pathname);
+  let prefix = canonicalPath(parsed.pathPrefix) ?? parsed.pathPrefix;
+  if (path === null) {
+    return failClosed;
+  }
+  if (failClosed) {
+    path = path.toLowerCase();
+    prefix = prefix.toLowerCase();
+  }
+  return (
+    path === prefix ||
+    path.startsWith(prefix.endsWith("/") ? prefix : `${prefix}/`)
+  );
+}
+
+/**
+ * Check a URL against domain policy rules. A matching deny rule always
+ * rejects the URL; when there are allow rules, the URL must match one of
+ * them.
+ *
+ * @param url - The URL string to check
+ * @param rules - The stored policy rules
+ * @returns Validation result with a policy_denied error if rejected
+ */
+export function checkUrlPolicy(
+  url: string,
+  rules: UrlPolicyRule[],
+): UrlValidationResult {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return {
+      valid: false,
+      error: { type: "invalid_url", message: "Invalid URL format" },
+    };
+  }
+
+  const denied = rules.find(
+    (rule) =>
+      rule.action === "deny" && matchesUrlPattern(parsed, rule.pattern, true),
+  );
+  if (denied) {
+    return {
+      valid: false,
+      error: { type: "policy_denied", url, pattern: denied.pattern },
+    };
+  }
+  const allowRules = rules.filter((rule) => rule.action === "allow");
+  if (
+    allowRules.length > 0 &&
+    !allowRules.some((rule) => matchesUrlPattern(parsed, rule.pattern))
+  ) {
+    return { valid: false, error: { type: "policy_denied", url } };
+  }
+  return { valid: true };
 }
 
 /**
@@ -275,6 +681,22 @@ export function normalizeUrl(url: string): string {
   return normalized;
 }
 
+/**
+ * Whether two hostnames belong to the same site: equal once a leading "www."
+ * or "m." is dropped (m.example.com and www.example.com). Other subdomains
+ * are not treated as the same site, since on shared hosting such as
+ * github.io or vercel.app a subdomain belongs to a different owner.
+ *
+ * @param a - First hostname
+ * @param b - Second hostname
+ * @returns True if the hostnames belong to the same site
+ */
+export function isSameSite(a: string, b: string): boolean {
+  const hostA = a.toLowerCase().replace(/^(?:www|m)\./, "");
+  const hostB = b.toLowerCase().replace(/^(?:www|m)\./, "");
+  return hostA === hostB;
+}
+
 function isTrackingParam(name: string): boolean {
   const lowerName = name.toLowerCase();
 
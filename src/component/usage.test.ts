@@ -0,0 +1,349 @@
+/// <reference types="vite/client" />
+
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import { initConvexTest } from "./setup.test.js";
+import { jsonResponse } from "./fixtures.test.js";
+import { CONFIG } from "./config.js";
+import { usageDay } from "./usage.js";
+
+function scrapeResponse(creditsUsed?: number): Response {
+  return jsonResponse({
+    success: true,
+    data: {
+      markdown: "# Hello",
+      metadata: creditsUsed === undefined ? {} : { creditsUsed },
+    },
+  });
+}
+
+describe("credit usage", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  test("records reported credits per scrape, key and namespace", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => scrapeResponse(3)),
+    );
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/a",
+      apiKey: "fc-one",
+      namespace: "tenant-a",
+    });
+    await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/b",
+      apiKey: "fc-one",
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const job = await t.query(api.lib.get, {
+      id: jobId,
+      namespace: "tenant-a",
+    });
+    expect(job?.creditsUsed).toBe(3);
+    expect(job?.creditsEstimated).toBe(false);
+
+    const today = usageDay(Date.now());
+    const usage = await t.query(api.usage.getUsage, { from: today, to: today });
+    expect(usage).toMatchObject({
+      credits: 6,
+      estimatedCredits: 0,
+      scrapes: 2,
+    });
+    expect(usage.byDay).toEqual([
+      { day: today, credits: 6, estimatedCredits: 0, scrapes: 2 },
+    ]);
+    expect(usage.byKey).toHaveLength(1);
+    expect(usage.byNamespace).toHaveLength(2);
+
+    const tenant = await t.query(api.usage.getUsage, {
+      from: today,
+      to: today,
+      namespace: "tenant-a",
+    });
+    expect(tenant.credits).toBe(3);
+  });
+
+  test("estimates credits from formats, proxy and extraction", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => scrapeResponse()),
+    );
+
+    const t = initConvexTest();
+    const { jobId } = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/a",
+      apiKey: "fc-one",
+      options: { extractionPrompt: "Get the title", proxy: "stealth" },
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    const job = await t.query(api.lib.get, { id: jobId });
+    expect(job?.creditsUsed).toBe(9);
+    expect(job?.creditsEstimated).toBe(true);
+
+    const today = usageDay(Date.now());
+    const usage = await t.query(api.usage.getUsage, { from: today, to: today });
+    expect(usage.estimatedCredits).toBe(9);
+  });
+
+  test("rejects new scrapes once a namespace budget is used up", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => scrapeResponse(2)),
+    );
+
+    const t = initConvexTest();
+    await t.mutation(api.usage.setBudget, {
+      namespace: "tenant-a",
+      dailyCredits: 2,
+    });
+    await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/a",
+      apiKey: "fc-one",
+      namespace: "tenant-a",
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com/b",
+        apiKey: "fc-one",
+        namespace: "tenant-a",
+      }),
+    ).rejects.toThrow(
+      'Credit budget exceeded for namespace "tenant-a": 2 of 2 daily credits used',
+    );
+
+    // Cache hits and other namespaces are not affected
+    const cached = await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/a",
+      apiKey: "fc-one",
+      namespace: "tenant-a",
+    });
+    expect(cached.jobId).toBeDefined();
+    await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/b",
+      apiKey: "fc-one",
+      namespace: "tenant-b",
+    });
+
+    // Removing the budget allows scrapes again
+    await t.mutation(api.usage.setBudget, { namespace: "tenant-a" });
+    await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/b",
+      apiKey: "fc-one",
+      namespace: "tenant-a",
+    });
+  });
+
+  test("a pool is rejected only when every key is over budget", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => scrapeResponse(5)),
+    );
+
+    const t = initConvexTest();
+    await t.mutation(api.usage.setBudget, {
+      apiKey: "fc-one",
+      monthlyCredits: 5,
+    });
+    await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/a",
+      apiKey: "fc-one",
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com/b",
+        apiKey: "fc-one",
+      }),
+    ).rejects.toThrow(
+      "Credit budget exceeded for the API key: 5 of 5 monthly credits used",
+    );
+    await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/b",
+      apiKey: ["fc-one", "fc-two"],
+    });
+
+    await t.mutation(api.usage.setBudget, {
+      apiKey: "fc-two",
+      dailyCredits: 0,
+    });
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com/c",
+        apiKey: ["fc-one", "fc-two"],
+      }),
+    ).rejects.toThrow("Credit budget exceeded for every API key in the pool");
+  });
+
+  test("a credential's budget and usage follow it through a key rotation", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => scrapeResponse(3)),
+    );
+
+    const t = initConvexTest();
+    await t.mutation(api.credentials.setCredential, {
+      label: "main",
+      apiKey: "fc-old",
+    });
+    await t.mutation(api.usage.setBudget, {
+      credential: "main",
+      dailyCredits: 3,
+    });
+    await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/a",
+      credential: "main",
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    await t.mutation(api.credentials.rotateCredential, {
+      credential: "main",
+      apiKey: "fc-new",
+    });
+    await expect(
+      t.mutation(api.lib.startScrape, {
+        url: "https://example.com/b",
+        credential: "main",
+      }),
+    ).rejects.toThrow(
+      "Credit budget exceeded for the API key: 3 of 3 daily credits used",
+    );
+
+    const today = usageDay(Date.now());
+    const usage = await t.query(api.usage.getUsage, { from: today, to: today });
+    expect(usage.byKey).toEqual([
+      expect.objectContaining({ label: "main", credits: 3 }),
+    ]);
+  });
+
+  test("pools skip keys that are over their budget", async () => {
+    const fetchMock = vi.fn(async () => scrapeResponse(1));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const t = initConvexTest();
+    await t.mutation(api.usage.setBudget, {
+      apiKey: "fc-one",
+      dailyCredits: 0,
+    });
+    await t.mutation(api.lib.startScrape, {
+      url: "https://example.com/a",
+      apiKey: ["fc-one", "fc-two"],
+    });
+    await t.finishAllScheduledFunctions(() => vi.advanceTimersByTime(1000));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [, init] = fetchMock.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(init.headers).toMatchObject({ Authorization: "Bearer fc-two" });
+  });
+
+  test("crawls and site maps record credits and respect budgets", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (input: string) => {
+        const url = new URL(input);
+        const body = url.pathname.endsWith("/map")
+          ? { success: true, links: ["https://example.com/a"], creditsUsed: 1 }
+          : url.pathname.endsWith("/crawl")
+            ? { success: true, id: "fc-crawl" }
+            : {
+                status: "completed",
+                total: 2,
+                completed: 2,
+                data: ["a", "b"].map((path) => ({
+                  markdown: `# ${path}`,
+                  metadata: {
+                    sourceURL: `https://example.com/${path}`,
+                    creditsUsed: 2,
+                  },
+                })),
+              };
+        return jsonResponse(body);
+      }),
+    );
+
+    const t = initConvexTest();
+    await t.mutation(api.crawl.startCrawl, {
+      url: "https://example.com",
+      apiKey: "fc-one",
+      namespace: "tenant-a",
+    });
+    await t.mutation(api.map.mapSite, {
+      url: "https://example.com",
+      apiKey: "fc-one",
+      namespace: "tenant-a",
+    });
+    await t.finishAllScheduledFunctions(() =>
+      vi.advanceTimersByTime(CONFIG.CRAWL_POLL_INTERVAL_MS),
+    );
+
+    const today = usageDay(Date.now());
+    const usage = await t.query(api.usage.getUsage, {
+      from: today,
+      to: today,
+      namespace: "tenant-a",
+    });
+    expect(usage).toMatchObject({
+      credits: 5,
+      estimatedCredits: 0,
+      scrapes: 3,
+    });
+
+    await t.mutation(api.usage.setBudget, {
+      namespace: "tenant-a",
+      dailyCredits: 5,
+    });
+    await expect(
+      t.mutation(api.crawl.startCrawl, {
+        url: "https://example.com/docs",
+        apiKey: "fc-one",
+        namespace: "tenant-a",
+      }),
+    ).rejects.toThrow("Credit budget exceeded");
+    await expect(
+      t.mutation(api.map.mapSite, {
+        url: "https://other.example.com",
+        apiKey: "fc-one",
+        namespace: "tenant-a",
+      }),
+    ).rejects.toThrow("Credit budget exceeded");
+  });
+
+  test("validates budgets and date ranges", async () => {
+    const t = initConvexTest();
+
+    await expect(
+      t.mutation(api.usage.setBudget, { dailyCredits: -1 }),
+    ).rejects.toThrow("must be 0 or more");
+    await expect(
+      t.mutation(api.usage.setBudget, {
+        namespace: "tenant-a",
+        apiKey: "fc-one",
+        dailyCredits: 10,
+      }),
+    ).rejects.toThrow("not both");
+    await expect(
+      t.query(api.usage.getUsage, { from: "2026-10-02", to: "2026-10-01" }),
+    ).rejects.toThrow("from must not be after to");
+    await expect(
+      t.query(api.usage.getUsage, { from: "2024-01-01", to: "2026-01-01" }),
+    ).rejects.toThrow("must not exceed 366 days");
+    await expect(
+      t.query(api.usage.getUsage, { from: "October", to: "2026-10-01" }),
+    ).rejects.toThrow("YYYY-MM-DD");
+  });
+});
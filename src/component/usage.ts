@@ -0,0 +1,519 @@
+/**
+ * Credit accounting for the Firecrawl Scrape component.
+ *
+ * Every scrape, crawled page and site map that gets a successful Firecrawl
+ * response records the credits it used - as reported in the response, or
+ * estimated from its formats, proxy and extraction - and adds them to a daily
+ * total per namespace and API key in the usage table. Budgets cap the credits
+ * a namespace or key may use per day or month; new scrapes, crawls and site
+ * maps are rejected once one is used up, and pools skip keys over theirs.
+ */
+
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server.js";
+import type { MutationCtx, QueryCtx } from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+import { CONFIG } from "./config.js";
+import { credentialLabels, resolveFirecrawlKey } from "./credentials.js";
+import { firecrawlKeyFields } from "./validators.js";
+
+/** Credits a scrape used, and the key that made the request */
+export const scrapeUsageValidator = v.object({
+  credits: v.number(),
+  estimated: v.boolean(),
+  keyHash: v.string(),
+});
+
+export type ScrapeUsage = typeof scrapeUsageValidator.type;
+
+const usageTotalsFields = {
+  credits: v.number(),
+  estimatedCredits: v.number(),
+  scrapes: v.number(),
+};
+
+type UsageTotals = {
+  credits: number;
+  estimatedCredits: number;
+  scrapes: number;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** UTC day of a timestamp, e.g. "2026-10-19" */
+export function usageDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function isUsageDay(day: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(day) && !Number.isNaN(Date.parse(day));
+}
+
+/** A property of a parsed JSON value, or undefined if it is not an object */
+function jsonField(value: unknown, key: string): unknown {
+  return value !== null && typeof value === "object"
+    ? (value as Record<string, unknown>)[key]
+    : undefined;
+}
+
+/** Credits reported in a Firecrawl scrape response, if any */
+export function reportedCredits(result: unknown): number | undefined {
+  const metadata = jsonField(jsonField(result, "data"), "metadata");
+  const credits =
+    jsonField(metadata, "creditsUsed") ?? jsonField(result, "creditsUsed");
+  return typeof credits === "number" && Number.isFinite(credits) && credits >= 0
+    ? credits
+    : undefined;
+}
+
+/**
+ * Estimate the credits of a scrape from its formats, proxy and extraction,
+ * following Firecrawl's pricing: a base cost, plus extra for LLM processing
+ * (JSON extraction or a summary) and for the stealth proxy.
+ */
+export function estimateCredits(
+  formats: string[],
+  options: { proxy?: string; extraction: boolean },
+): number {
+  let credits = CONFIG.BASE_SCRAPE_CREDITS;
+  if (options.extraction || formats.includes("summary")) {
+    credits += CONFIG.EXTRACTION_CREDITS;
+  }
+  if (options.proxy === "stealth") {
+    credits += CONFIG.STEALTH_PROXY_CREDITS;
+  }
+  return credits;
+}
+
+/**
+ * Add a scrape's credits to today's total for its namespace and key. A batch
+ * of crawled pages counts as `scrapes` scrapes; a site map counts as one.
+ */
+export async function recordUsage(
+  ctx: MutationCtx,
+  namespace: string | undefined,
+  usage: ScrapeUsage,
+  scrapes = 1,
+): Promise<void> {
+  const day = usageDay(Date.now());
+  const estimatedCredits = usage.estimated ? usage.credits : 0;
+  const row = await ctx.db
+    .query("usage")
+    .withIndex("by_namespace_day_key", (q) =>
+      q.eq("namespace", namespace).eq("day", day).eq("keyHash", usage.keyHash),
+    )
+    .unique();
+
+  if (row) {
+    await ctx.db.patch(row._id, {
+      credits: row.credits + usage.credits,
+      estimatedCredits: row.estimatedCredits + estimatedCredits,
+      scrapes: row.scrapes + scrapes,
+    });
+  } else {
+    await ctx.db.insert("usage", {
+      day,
+      namespace,
+      keyHash: usage.keyHash,
+      credits: usage.credits,
+      estimatedCredits,
+      scrapes,
+    });
+  }
+}
+
+function sumCredits(rows: Doc<"usage">[]): number {
+  return rows.reduce((sum, row) => sum + row.credits, 0);
+}
+
+/**
+ * Describe how a budget is used up, checking the daily cap against today's
+ * credits and the monthly cap against the credits since the first of the
+ * month. Undefined when the budget has credits left.
+ */
+async function budgetExceeded(
+  budget: Doc<"budgets">,
+  creditsSince: (day: string) => Promise<number>,
+  now: number,
+): Promise<string | undefined> {
+  const today = usageDay(now);
+  if (budget.dailyCredits !== undefined) {
+    const used = await creditsSince(today);
+    if (used >= budget.dailyCredits) {
+      return `${used} of ${budget.dailyCredits} daily credits used`;
+    }
+  }
+  if (budget.monthlyCredits !== undefined) {
+    const used = await creditsSince(`${today.slice(0, 7)}-01`);
+    if (used >= budget.monthlyCredits) {
+      return `${used} of ${budget.monthlyCredits} monthly credits used`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Describe how an API key's own budget is used up. Undefined when the key has
+ * no budget or credits left.
+ */
+export async function keyBudgetExceeded(
+  ctx: Pick<QueryCtx, "db">,
+  keyHash: string,
+  now: number,
+): Promise<string | undefined> {
+  const keyBudget = await ctx.db
+    .query("budgets")
+    .withIndex("by_key_hash", (q) => q.eq("keyHash", keyHash))
+    .unique();
+  if (!keyBudget) {
+    return undefined;
+  }
+  return await budgetExceeded(
+    keyBudget,
+    async (from) =>
+      sumCredits(
+        await ctx.db
+          .query("usage")
+          .withIndex("by_key_hash_day", (q) =>
+            q.eq("keyHash", keyHash).gte("day", from),
+          )
+          .collect(),
+      ),
+    now,
+  );
+}
+
+/**
+ * Move an API key's budget and usage history to another key hash, so both
+ * follow a stored credential when its key is rotated. Usage already recorded
+ * for the new key is merged in; a budget already set for it is replaced.
+ */
+export async function moveKeyUsage(
+  ctx: MutationCtx,
+  fromKeyHash: string,
+  toKeyHash: string,
+): Promise<void> {
+  if (fromKeyHash === toKeyHash) {
+    return;
+  }
+
+  const budget = await ctx.db
+    .query("budgets")
+    .withIndex("by_key_hash", (q) => q.eq("keyHash", fromKeyHash))
+    .unique();
+  if (budget) {
+    const replaced = await ctx.db
+      .query("budgets")
+      .withIndex("by_key_hash", (q) => q.eq("keyHash", toKeyHash))
+      .unique();
+    if (replaced) {
+      await ctx.db.delete(replaced._id);
+    }
+    await ctx.db.patch(budget._id, { keyHash: toKeyHash });
+  }
+
+  const rows = await ctx.db
+    .query("usage")
+    .withIndex("by_key_hash_day", (q) => q.eq("keyHash", fromKeyHash))
+    .collect();
+  for (const row of rows) {
+    const existing = await ctx.db
+      .query("usage")
+      .withIndex("by_namespace_day_key", (q) =>
+        q
+          .eq("namespace", row.namespace)
+          .eq("day", row.day)
+          .eq("keyHash", toKeyHash),
+      )
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        credits: existing.credits + row.credits,
+        estimatedCredits: existing.estimatedCredits + row.estimatedCredits,
+        scrapes: existing.scrapes + row.scrapes,
+      });
+      await ctx.db.delete(row._id);
+    } else {
+      await ctx.db.patch(row._id, { keyHash: toKeyHash });
+    }
+  }
+}
+
+/**
+ * Reject a new scrape job, crawl or site map when its namespace's budget is
+ * used up, or when every key it may use is over its own budget (a pool can
+ * still use a key with credits left).
+ */
+export async function checkBudgets(
+  ctx: Pick<QueryCtx, "db">,
+  namespace: string | undefined,
+  keyHashes: string[],
+  now: number,
+): Promise<void> {
+  const namespaceBudget = await ctx.db
+    .query("budgets")
+    .withIndex("by_namespace_key_hash", (q) =>
+      q.eq("namespace", namespace).eq("keyHash", undefined),
+    )
+    .unique();
+  if (namespaceBudget) {
+    const exceeded = await budgetExceeded(
+      namespaceBudget,
+      async (from) =>
+        sumCredits(
+          await ctx.db
+            .query("usage")
+            .withIndex("by_namespace_day_key", (q) =>
+              q.eq("namespace", namespace).gte("day", from),
+            )
+            .collect(),
+        ),
+      now,
+    );
+    if (exceeded) {
+      const scope =
+        namespace === undefined
+          ? "the shared namespace"
+          : `namespace "${namespace}"`;
+      throw new Error(`Credit budget exceeded for ${scope}: ${exceeded}`);
+    }
+  }
+
+  let keyExceeded: string | undefined;
+  for (const keyHash of keyHashes) {
+    keyExceeded = await keyBudgetExceeded(ctx, keyHash, now);
+    if (!keyExceeded) {
+      return;
+    }
+  }
+  throw new Error(
+    keyHashes.length === 1
+      ? `Credit budget exceeded for the API key: ${keyExceeded}`
+      : "Credit budget exceeded for every API key in the pool",
+  );
+}
+
+function addTotals(totals: UsageTotals, row: Doc<"usage">): void {
+  totals.credits += row.credits;
+  totals.estimatedCredits += row.estimatedCredits;
+  totals.scrapes += row.scrapes;
+}
+
+function emptyTotals(): UsageTotals {
+  return { credits: 0, estimatedCredits: 0, scrapes: 0 };
+}
+
+function addToGroup<K>(
+  groups: Map<K, UsageTotals>,
+  key: K,
+  row: Doc<"usage">,
+): void {
+  let group = groups.get(key);
+  if (!group) {
+    group = emptyTotals();
+    groups.set(key, group);
+  }
+  addTotals(group, row);
+}
+
+// ============================================================================
+// Public Queries
+// ============================================================================
+
+/**
+ * Credits used between two UTC days (inclusive), in total and per day, API
+ * key and namespace.
+ *
+ * `estimatedCredits` is the part of `credits` estimated for scrapes whose
+ * Firecrawl response did not report the credits used.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients - call it from your own admin queries or the
+ * dashboard.
+ *
+ * @param from - First day, e.g. "2026-10-01"
+ * @param to - Last day, e.g. "2026-10-31"
+ * @param namespace - Only count this namespace (all namespaces if omitted)
+ * @returns Totals, with per-day, per-key and per-namespace breakdowns
+ *
+ * @internal
+ */
+export const getUsage = query({
+  args: {
+    from: v.string(),
+    to: v.string(),
+    namespace: v.optional(v.string()),
+  },
+  returns: v.object({
+    ...usageTotalsFields,
+    byDay: v.array(v.object({ day: v.string(), ...usageTotalsFields })),
+    byKey: v.array(
+      v.object({
+        keyHash: v.string(),
+        label: v.optional(v.string()),
+        ...usageTotalsFields,
+      }),
+    ),
+    byNamespace: v.array(
+      v.object({
+        namespace: v.optional(v.string()),
+        ...usageTotalsFields,
+      }),
+    ),
+  }),
+  handler: async (ctx, args) => {
+    const { from, to, namespace } = args;
+    if (!isUsageDay(from) || !isUsageDay(to)) {
+      throw new Error("from and to must be days in YYYY-MM-DD format");
+    }
+    const days = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+    if (days < 0) {
+      throw new Error("from must not be after to");
+    }
+    if (days + 1 > CONFIG.MAX_USAGE_RANGE_DAYS) {
+      throw new Error(
+        `Date range must not exceed ${CONFIG.MAX_USAGE_RANGE_DAYS} days`,
+      );
+    }
+
+    const rows =
+      namespace === undefined
+        ? await ctx.db
+            .query("usage")
+            .withIndex("by_day", (q) => q.gte("day", from).lte("day", to))
+            .collect()
+        : await ctx.db
+            .query("usage")
+            .withIndex("by_namespace_day_key", (q) =>
+              q.eq("namespace", namespace).gte("day", from).lte("day", to),
+            )
+            .collect();
+
+    const totals = emptyTotals();
+    const byDay = new Map<string, UsageTotals>();
+    const byKey = new Map<string, UsageTotals>();
+    const byNamespace = new Map<string | undefined, UsageTotals>();
+    for (const row of rows) {
+      addTotals(totals, row);
+      addToGroup(byDay, row.day, row);
+      addToGroup(byKey, row.keyHash, row);
+      addToGroup(byNamespace, row.namespace, row);
+    }
+
+    const labels = await credentialLabels(ctx);
+    const byCredits = (a: UsageTotals, b: UsageTotals) => b.credits - a.credits;
+    return {
+      ...totals,
+      byDay: [...byDay]
+        .map(([day, dayTotals]) => ({ day, ...dayTotals }))
+        .sort((a, b) => a.day.localeCompare(b.day)),
+      byKey: [...byKey]
+        .map(([keyHash, keyTotals]) => ({
+          keyHash,
+          label: labels.get(keyHash),
+          ...keyTotals,
+        }))
+        .sort(byCredits),
+      byNamespace: [...byNamespace]
+        .map(([namespace, namespaceTotals]) => ({
+          namespace,
+          ...namespaceTotals,
+        }))
+        .sort(byCredits),
+    };
+  },
+});
+
+// ============================================================================
+// Public Mutations
+// ============================================================================
+
+/**
+ * Set or clear the credit budget of a namespace or an API key.
+ *
+ * Once the credits used today reach `dailyCredits`, or the credits used this
+ * month (UTC) reach `monthlyCredits`, new scrape jobs, crawls and site maps
+ * for the namespace or key are rejected, and key pools skip the key. Cache
+ * hits are still served. Omitting both caps removes the budget.
+ *
+ * **Security Note:** This is an internal component function. Do not expose
+ * directly to clients - call it from your own admin mutations or the
+ * dashboard.
+ *
+ * @param namespace - Namespace to cap (the shared namespace if omitted)
+ * @param apiKey - API key to cap instead of a namespace
+ * @param credential - ID or label of a stored credential to cap instead
+ * @param dailyCredits - Credits allowed per UTC day
+ * @param monthlyCredits - Credits allowed per UTC calendar month
+ *
+ * @internal
+ */
+export const setBudget = mutation({
+  args: {
+    namespace: v.optional(v.string()),
+    ...firecrawlKeyFields,
+    dailyCredits: v.optional(v.number()),
+    monthlyCredits: v.optional(v.number()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { dailyCredits, monthlyCredits } = args;
+    for (const cap of [dailyCredits, monthlyCredits]) {
+      if (cap !== undefined && !(cap >= 0)) {
+        throw new Error("Credit budgets must be 0 or more");
+      }
+    }
+
+    let keyHash: string | undefined;
+    if (args.apiKey !== undefined || args.credential !== undefined) {
+      if (args.namespace !== undefined) {
+        throw new Error("Set a budget for a namespace or an API key, not both");
+      }
+      const { keyHashes } = await resolveFirecrawlKey(ctx, args);
+      if (keyHashes.length !== 1) {
+        throw new Error("Set budgets for one API key at a time");
+      }
+      keyHash = keyHashes[0];
+    }
+
+    const existing =
+      keyHash === undefined
+        ? await ctx.db
+            .query("budgets")
+            .withIndex("by_namespace_key_hash", (q) =>
+              q.eq("namespace", args.namespace).eq("keyHash", undefined),
+            )
+            .unique()
+        : await ctx.db
+            .query("budgets")
+            .withIndex("by_key_hash", (q) => q.eq("keyHash", keyHash))
+            .unique();
+
+    if (dailyCredits === undefined && monthlyCredits === undefined) {
+      if (existing) {
+        await ctx.db.delete(existing._id);
+      }
+      return null;
+    }
+
+    const now = Date.now();
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        dailyCredits,
+        monthlyCredits,
+        updatedAt: now,
+      });
+    } else {
+      await ctx.db.insert("budgets", {
+        namespace: args.namespace,
+        keyHash,
+        dailyCredits,
+        monthlyCredits,
+        updatedAt: now,
+      });
+    }
+    return null;
+  },
+});
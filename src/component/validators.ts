@@ -0,0 +1,142 @@
+/**
+ * Shared validators for the Firecrawl Scrape component.
+ *
+ * Used by the scrape (lib) and crawl modules so both store pages in the
+ * same shape.
+ */
+
+import { v } from "convex/values";
+import type { ObjectType } from "convex/values";
+import schema from "./schema.js";
+import { scrapeOptionsValidator } from "./options.js";
+
+export const statusValidator = v.union(
+  v.literal("pending"),
+  v.literal("scraping"),
+  v.literal("completed"),
+  v.literal("failed"),
+);
+
+// The scrape options a cache entry is matched on, for getCached
+export const cacheMatchOptionsValidator = scrapeOptionsValidator.pick(
+  "onlyMainContent",
+  "includeTags",
+  "excludeTags",
+  "waitFor",
+  "mobile",
+  "proxy",
+  "extractionSchema",
+  "extractionPrompt",
+  "actions",
+  "headers",
+  "location",
+  "parsePDF",
+  "ignoreOptions",
+);
+
+// Scrape record validator, shared by every query that returns scrapes
+export const scrapeValidator = schema.tables.scrapes.validator.extend({
+  _id: v.id("scrapes"),
+  _creationTime: v.number(),
+});
+
+export const metadataValidator = v.object({
+  title: v.optional(v.string()),
+  description: v.optional(v.string()),
+  language: v.optional(v.string()),
+  sourceURL: v.optional(v.string()),
+  statusCode: v.optional(v.number()),
+  ogImage: v.optional(v.string()),
+  ogTitle: v.optional(v.string()),
+  ogDescription: v.optional(v.string()),
+  ogSiteName: v.optional(v.string()),
+  contentType: v.optional(v.string()),
+  cacheControl: v.optional(v.string()),
+  numPages: v.optional(v.number()),
+  canonicalUrl: v.optional(v.string()),
+  favicon: v.optional(v.string()),
+  keywords: v.optional(v.array(v.string())),
+  publishedTime: v.optional(v.string()),
+  modifiedTime: v.optional(v.string()),
+  finalUrl: v.optional(v.string()),
+  originalUrl: v.optional(v.string()),
+});
+
+/**
+ * Content fields written when a page finishes scraping - inline values for
+ * small content, file storage IDs for content over the size threshold.
+ */
+export const scrapeContentFields = {
+  markdown: v.optional(v.string()),
+  markdownFileId: v.optional(v.id("_storage")),
+  html: v.optional(v.string()),
+  htmlFileId: v.optional(v.id("_storage")),
+  rawHtml: v.optional(v.string()),
+  rawHtmlFileId: v.optional(v.id("_storage")),
+  summary: v.optional(v.string()),
+  links: v.optional(v.array(v.string())),
+  linksFileId: v.optional(v.id("_storage")),
+  images: v.optional(v.array(v.string())),
+  imagesFileId: v.optional(v.id("_storage")),
+  screenshotUrl: v.optional(v.string()),
+  screenshotFileId: v.optional(v.id("_storage")),
+  actionScreenshots: v.optional(v.array(v.string())),
+  sourceDocumentFileId: v.optional(v.id("_storage")),
+  extractedJson: v.optional(v.any()),
+  extractedJsonFileId: v.optional(v.id("_storage")),
+  metadata: v.optional(metadataValidator),
+  rawMetadata: v.optional(v.any()),
+  contentHash: v.optional(v.string()),
+};
+
+export type ScrapeContent = ObjectType<typeof scrapeContentFields>;
+
+/**
+ * Where and how to call Firecrawl - a custom API base URL (e.g. a self-hosted
+ * deployment) and the header carrying the API key. Both default to the
+ * hosted API with `Authorization: Bearer <key>`.
+ */
+export const firecrawlEndpointFields = {
+  apiBaseUrl: v.optional(v.string()),
+  apiKeyHeader: v.optional(v.string()),
+};
+
+export type FirecrawlEndpoint = ObjectType<typeof firecrawlEndpointFields>;
+
+/**
+ * The Firecrawl API key for a request: a raw `apiKey`, or a `credential`
+ * stored with setCredential, by ID or label. Exactly one is required. Either
+ * may be a list - a key pool used round-robin, failing over to the next key
+ * on 402 and 429 responses.
+ */
+export const firecrawlKeyFields = {
+  apiKey: v.optional(v.union(v.string(), v.array(v.string()))),
+  credential: v.optional(v.union(v.string(), v.array(v.string()))),
+};
+
+export type FirecrawlKey = ObjectType<typeof firecrawlKeyFields>;
+
+/**
+ * How an action finds the API key: the raw key (or pool) it was given, or
+ * the IDs of the credentials the job was queued with. The raw key of a
+ * credential never appears in scheduled function arguments.
+ */
+export const firecrawlKeyRefFields = {
+  apiKey: v.optional(v.union(v.string(), v.array(v.string()))),
+  credentialId: v.optional(
+    v.union(v.id("credentials"), v.array(v.id("credentials"))),
+  ),
+};
+
+export type FirecrawlKeyRef = ObjectType<typeof firecrawlKeyRefFields>;
+
+/**
+ * A single key picked from a pool, for follow-up requests that must use the
+ * same Firecrawl account (e.g. polling a crawl).
+ */
+export const selectedKeyRefFields = {
+  apiKey: v.optional(v.string()),
+  credentialId: v.optional(v.id("credentials")),
+};
+
+export type SelectedKeyRef = ObjectType<typeof selectedKeyRefFields>;
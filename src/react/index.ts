@@ -50,10 +50,39 @@ export type {
   ScrapeStatus,
   ScrapeFormat,
   ProxyOption,
+  ScrapeAction,
+  ScrapeLocation,
+  CacheKeyOption,
+  ExtractionSchema,
+  InferExtraction,
+  StandardJSONSchema,
   ScrapeOptions,
   ScrapeMetadata,
   ScrapeResult,
   CachedContent,
   ScrapeStatusInfo,
+  ContentVersion,
+  ContentChanges,
+  UrlAliases,
+  KeyHealth,
+  UsageTotals,
+  CreditUsage,
+  CreditBudget,
+  PolicyRule,
+  CrawlStatus,
+  CrawlOptions,
+  CrawlInfo,
+  CrawlPages,
+  BatchItemOutcome,
+  BatchItem,
+  BatchResult,
+  BatchProgress,
+  MapOptions,
+  SiteMapStatus,
+  SiteMapInfo,
+  ScrapeSiteMapResult,
+  MonitorStatus,
+  MonitorOptions,
+  MonitorInfo,
   ExposeApiOperation,
 } from "../client/index.js";